@@ -15,9 +15,18 @@ import { startBackupService } from "./services/backUpDatabase.service";
 import { startEmailService } from "./services/sendMail.service";
 import { startCampaignStatusService } from "./services/campaignStatus.service";
 import { startCampaignRefundService } from "./services/campaignRefund.service"; // New service
+import { startBotOutboxService } from "./services/botOutbox.service";
+import { startLedgerReconciliationService } from "./services/ledgerReconciliation.service";
+import { startPayOsCheckoutExpiryService } from "./services/payOs.service";
+import { startNotificationDispatcherService } from "./services/notificationDispatcher.service";
+import {
+  registerCampaignProgressHandlers,
+  startCampaignProgressService,
+} from "./services/campaignProgress.service";
+import { startWebhookDispatcherService } from "./services/webhookDispatcher.service";
 import callbackRoute from "./routes/system.route/moneyRoute/callback.route";
 import bodyParser from "body-parser";
-import { Server as SocketIOServer } from "socket.io";
+import { socketService } from "./services/socket.service";
 import { createServer } from "http";
 
 dotenv.config();
@@ -38,6 +47,12 @@ if (cluster.isPrimary && !isDev) {
   cluster.fork({ WORKER_TYPE: "backup" });
   cluster.fork({ WORKER_TYPE: "campaignStatus" });
   cluster.fork({ WORKER_TYPE: "campaignRefund" }); // New worker for campaign refund
+  cluster.fork({ WORKER_TYPE: "botOutbox" }); // Delivers queued calls to the Python bot API
+  cluster.fork({ WORKER_TYPE: "ledgerReconciliation" }); // Flags wallets drifting from the ledger
+  cluster.fork({ WORKER_TYPE: "payOsCheckoutExpiry" }); // Fails PayOS checkouts abandoned past expiry
+  cluster.fork({ WORKER_TYPE: "notificationDispatcher" }); // Sends email, Telegram and webhook notifications
+  cluster.fork({ WORKER_TYPE: "campaignProgress" }); // Pushes campaign traffic progress to subscribed sockets
+  cluster.fork({ WORKER_TYPE: "webhookDispatcher" }); // Posts signed campaign and wallet events to user webhooks
 
   cluster.on("exit", (worker: ExtendedWorker, code, signal) => {
     logger.warn(
@@ -53,27 +68,9 @@ if (cluster.isPrimary && !isDev) {
   if (workerType === "app") {
     const app = express();
     const httpServer = createServer(app);
-    const io = new SocketIOServer(httpServer, {
-      cors: {
-        origin: process.env.FRONT_END_URL || "*",
-        methods: ["GET", "POST"]
-      }
-    });
-
-    // Socket.IO connection handling
-    io.on("connection", (socket) => {
-      logger.info(`Client connected: ${socket.id}`);
-
-      // Handle user authentication and room joining
-      socket.on("join", (userId: number) => {
-        socket.join(`user_${userId}`);
-        logger.info(`User ${userId} joined their room`);
-      });
-
-      socket.on("disconnect", () => {
-        logger.info(`Client disconnected: ${socket.id}`);
-      });
-    });
+    // Authenticated sockets, each placed in its user's room by the server
+    const io = socketService.initialize(httpServer);
+    io.on("connection", registerCampaignProgressHandlers);
 
     // Make io accessible globally
     (global as any).io = io;
@@ -96,6 +93,7 @@ if (cluster.isPrimary && !isDev) {
       try {
         await connectDB();
         await redisClient.connect();
+        await socketService.attachRedisAdapter();
         server = httpServer.listen(PORT, () => {
           logger.info(`App worker ${process.pid} started on port ${PORT}`);
           debugApp(`App worker ${process.pid} successfully started`);
@@ -179,6 +177,8 @@ if (cluster.isPrimary && !isDev) {
       try {
         await connectDB();
         await redisClient.connect();
+        // Status changes and refunds are pushed to the app workers' sockets
+        await socketService.attachRedisEmitter();
         await startCampaignStatusService();
         logger.info(`Campaign status worker ${process.pid} started`);
       } catch (error: any) {
@@ -205,6 +205,8 @@ if (cluster.isPrimary && !isDev) {
       try {
         await connectDB();
         await redisClient.connect();
+        // Status changes and refunds are pushed to the app workers' sockets
+        await socketService.attachRedisEmitter();
         await startCampaignRefundService();
         logger.info(`Campaign refund worker ${process.pid} started`);
       } catch (error: any) {
@@ -226,6 +228,161 @@ if (cluster.isPrimary && !isDev) {
       await redisClient.disconnect();
       process.exit(0);
     });
+  } else if (workerType === "botOutbox") {
+    const startBotOutboxWorker = async () => {
+      try {
+        await connectDB();
+        logger.info(`Bot outbox worker ${process.pid} started`);
+        await startBotOutboxService();
+      } catch (error: any) {
+        logger.error("Failed to start bot outbox worker:", error.message);
+        process.exit(1);
+      }
+    };
+
+    startBotOutboxWorker();
+
+    process.on("SIGTERM", async () => {
+      logger.info(`Bot outbox worker ${process.pid} received SIGTERM`);
+      process.exit(0);
+    });
+
+    process.on("SIGINT", async () => {
+      logger.info(`Bot outbox worker ${process.pid} received SIGINT`);
+      process.exit(0);
+    });
+  } else if (workerType === "ledgerReconciliation") {
+    const startLedgerReconciliationWorker = async () => {
+      try {
+        await connectDB();
+        await startLedgerReconciliationService();
+        logger.info(`Ledger reconciliation worker ${process.pid} started`);
+      } catch (error: any) {
+        logger.error(
+          "Failed to start ledger reconciliation worker:",
+          error.message
+        );
+        process.exit(1);
+      }
+    };
+
+    startLedgerReconciliationWorker();
+
+    process.on("SIGTERM", async () => {
+      logger.info(`Ledger reconciliation worker ${process.pid} received SIGTERM`);
+      process.exit(0);
+    });
+
+    process.on("SIGINT", async () => {
+      logger.info(`Ledger reconciliation worker ${process.pid} received SIGINT`);
+      process.exit(0);
+    });
+  } else if (workerType === "payOsCheckoutExpiry") {
+    const startPayOsCheckoutExpiryWorker = async () => {
+      try {
+        await connectDB();
+        await startPayOsCheckoutExpiryService();
+        logger.info(`PayOS checkout expiry worker ${process.pid} started`);
+      } catch (error: any) {
+        logger.error(
+          "Failed to start PayOS checkout expiry worker:",
+          error.message
+        );
+        process.exit(1);
+      }
+    };
+
+    startPayOsCheckoutExpiryWorker();
+
+    process.on("SIGTERM", async () => {
+      logger.info(`PayOS checkout expiry worker ${process.pid} received SIGTERM`);
+      process.exit(0);
+    });
+
+    process.on("SIGINT", async () => {
+      logger.info(`PayOS checkout expiry worker ${process.pid} received SIGINT`);
+      process.exit(0);
+    });
+  } else if (workerType === "notificationDispatcher") {
+    const startNotificationDispatcherWorker = async () => {
+      try {
+        await connectDB();
+        // The email channel pushes onto the email worker's Redis queue
+        await redisClient.connect();
+        logger.info(`Notification dispatcher worker ${process.pid} started`);
+        await startNotificationDispatcherService();
+      } catch (error: any) {
+        logger.error(
+          "Failed to start notification dispatcher worker:",
+          error.message
+        );
+        process.exit(1);
+      }
+    };
+
+    startNotificationDispatcherWorker();
+
+    process.on("SIGTERM", async () => {
+      logger.info(`Notification dispatcher worker ${process.pid} received SIGTERM`);
+      await redisClient.disconnect();
+      process.exit(0);
+    });
+
+    process.on("SIGINT", async () => {
+      logger.info(`Notification dispatcher worker ${process.pid} received SIGINT`);
+      await redisClient.disconnect();
+      process.exit(0);
+    });
+  } else if (workerType === "campaignProgress") {
+    const startCampaignProgressWorker = async () => {
+      try {
+        await connectDB();
+        await redisClient.connect();
+        await socketService.attachRedisEmitter();
+        logger.info(`Campaign progress worker ${process.pid} started`);
+        await startCampaignProgressService();
+      } catch (error: any) {
+        logger.error("Failed to start campaign progress worker:", error.message);
+        process.exit(1);
+      }
+    };
+
+    startCampaignProgressWorker();
+
+    process.on("SIGTERM", async () => {
+      logger.info(`Campaign progress worker ${process.pid} received SIGTERM`);
+      await redisClient.disconnect();
+      process.exit(0);
+    });
+
+    process.on("SIGINT", async () => {
+      logger.info(`Campaign progress worker ${process.pid} received SIGINT`);
+      await redisClient.disconnect();
+      process.exit(0);
+    });
+  } else if (workerType === "webhookDispatcher") {
+    const startWebhookDispatcherWorker = async () => {
+      try {
+        await connectDB();
+        logger.info(`Webhook dispatcher worker ${process.pid} started`);
+        await startWebhookDispatcherService();
+      } catch (error: any) {
+        logger.error("Failed to start webhook dispatcher worker:", error.message);
+        process.exit(1);
+      }
+    };
+
+    startWebhookDispatcherWorker();
+
+    process.on("SIGTERM", async () => {
+      logger.info(`Webhook dispatcher worker ${process.pid} received SIGTERM`);
+      process.exit(0);
+    });
+
+    process.on("SIGINT", async () => {
+      logger.info(`Webhook dispatcher worker ${process.pid} received SIGINT`);
+      process.exit(0);
+    });
   } else {
     logger.error(`Unknown worker type: ${workerType}`);
     process.exit(1);
@@ -0,0 +1,11 @@
+export const apiKeyConfig = {
+  // Every key starts with this, so authenticateToken can tell it from a JWT
+  prefix: "tsk_",
+  defaultRateLimit: Number(process.env.API_KEY_DEFAULT_RATE_LIMIT) || 60,
+  maxRateLimit: Number(process.env.API_KEY_MAX_RATE_LIMIT) || 600,
+  rateLimitWindowSeconds: 60,
+  maxKeysPerUser: 20,
+};
+
+// Route groups that accept an API key instead of a login token
+export const apiKeyRoutes = ["/campaigns", "/keywords", "/report", "/wallets"];
@@ -1,145 +1,290 @@
-import axios from "axios";
+import axios, { AxiosResponse } from "axios";
 import { parseStringPromise } from "xml2js";
+import { logger } from "./logger.config";
+import {
+  botApiCircuitState,
+  botApiRequestDuration,
+  botApiRequestsTotal,
+  botApiRetriesTotal,
+} from "./metrics.config";
+import {
+  botApiFailureThreshold,
+  botApiMaxRetries,
+  botApiResetTimeoutMS,
+  botApiRetryDelayMS,
+  defaultBotApiTimeoutMS,
+  longBotApiTimeoutMS,
+} from "../constants/botApi.constant";
+import statusCode from "../constants/statusCode";
+import { ErrorType } from "../types/Error.type";
+import { CircuitBreaker, CircuitState } from "../utils/circuitBreaker";
+import {
+  BotApiCallOptions,
+  BotApiMethod,
+  BotDirectLinkSetInput,
+  BotDirectLinkSuccessCountInput,
+  BotGoogleMapsReviewSetInput,
+  BotKeywordSetInput,
+  BotKeywordSuccessCountInput,
+  BotKeywordUpdateInput,
+  BotLinkSetInput,
+  BotSearchLogByTypeInput,
+  BotSearchLogInput,
+  BotSearchLogResult,
+  BotSuccessCountResult,
+} from "../interfaces/BotApi.interface";
 
 const jwtToken = process.env.JWT_API_PYTHON;
 const urlApi = process.env.URL_API_PYTHON;
 
+// One breaker per process: when the bot is down every endpoint fails fast
+const circuitBreaker = new CircuitBreaker(
+  botApiFailureThreshold,
+  botApiResetTimeoutMS,
+  (state) => {
+    botApiCircuitState.set(state);
+    logger.warn(`Python bot API circuit is now ${CircuitState[state]}`);
+  }
+);
+
 /**
- * POST request to Python API
- * @param endpoint API endpoint (relative path)
- * @param data Request body
+ * Parse a bot API response, which is either JSON or a JSON string wrapped in XML
+ * @param response Axios response
  * @returns Parsed response data
  */
-export const baseApiPython = async (
-  endpoint: string,
-  data: Record<string, any> = {}
-): Promise<any> => {
-  try {
-    if (!urlApi || !jwtToken) {
-      throw new Error(
-        "Environment variables URL_API_PYTHON or JWT_API_PYTHON are not set"
-      );
-    }
+const parseBotApiResponse = async (
+  response: AxiosResponse
+): Promise<unknown> => {
+  // Check if response or response.data is empty
+  if (!response?.data) {
+    throw new ErrorType("BotApiResponseError", "Empty response from API");
+  }
 
-    const apiUrl = `${urlApi}/${endpoint.replace(/^\/+/, "")}`; // Remove leading slashes
-    const response = await axios.post(apiUrl, data, {
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${jwtToken}`,
-      },
-      validateStatus: (status) => status >= 200 && status < 300, // Treat 2xx as success
-    });
-
-    // Check if response or response.data is empty
-    if (!response?.data) {
-      throw new Error("Empty response from API");
-    }
+  // Check Content-Type header to determine response format
+  const contentType = response.headers["content-type"]?.toLowerCase() || "";
 
-    // Check Content-Type header to determine response format
-    const contentType = response.headers["content-type"]?.toLowerCase() || "";
-
-    if (contentType.includes("application/json")) {
-      // Handle JSON response directly
-      return response.data;
-    } else if (
-      contentType.includes("application/xml") ||
-      contentType.includes("text/xml")
-    ) {
-      // Handle XML response
-      try {
-        const parsedResponse = await parseStringPromise(response.data, {
-          explicitArray: false,
-          trim: true,
-        });
-        const jsonString = parsedResponse?.string?._ || null;
-
-        if (!jsonString) {
-          throw new Error("Failed to extract JSON string from XML response");
-        }
+  if (contentType.includes("application/json")) {
+    // Handle JSON response directly
+    return response.data;
+  } else if (
+    contentType.includes("application/xml") ||
+    contentType.includes("text/xml")
+  ) {
+    // Handle XML response
+    try {
+      const parsedResponse = await parseStringPromise(response.data, {
+        explicitArray: false,
+        trim: true,
+      });
+      const jsonString = parsedResponse?.string?._ || null;
 
-        return JSON.parse(jsonString);
-      } catch (xmlError: any) {
-        throw new Error(`Failed to parse XML response: ${xmlError.message}`);
+      if (!jsonString) {
+        throw new Error("Failed to extract JSON string from XML response");
       }
-    } else {
-      // Handle unexpected content type
-      throw new Error(
-        `Unsupported response Content-Type: ${contentType || "unknown"}`
+
+      return JSON.parse(jsonString);
+    } catch (xmlError: any) {
+      throw new ErrorType(
+        "BotApiResponseError",
+        `Failed to parse XML response: ${xmlError.message}`
       );
     }
-  } catch (error: any) {
-    const errorMessage = error.response
-      ? `API request failed: ${error.response.status} - ${JSON.stringify(
-          error.response.data
-        )}`
-      : error.message || "Failed to call API";
-    throw new Error(errorMessage);
+  } else {
+    // Handle unexpected content type
+    throw new ErrorType(
+      "BotApiResponseError",
+      `Unsupported response Content-Type: ${contentType || "unknown"}`
+    );
+  }
+};
+
+// Timeouts, network errors and 5xx mean the bot is unhealthy; 4xx means our request is wrong
+const isTransientError = (error: any): boolean =>
+  error.name !== "BotApiResponseError" &&
+  (!error.response || error.response.status >= 500);
+
+const getOutcome = (error: any): string => {
+  if (error.name === "BotApiResponseError") {
+    return "invalid_response";
+  }
+  if (error.code === "ECONNABORTED" || error.code === "ETIMEDOUT") {
+    return "timeout";
   }
+  return error.response ? `http_${error.response.status}` : "network_error";
 };
 
-export const baseApiPythonUpdate = async (
+const botApiUnavailableError = (path: string): ErrorType =>
+  new ErrorType(
+    "BotApiUnavailableError",
+    `Python bot API is unavailable, skipping ${path}`,
+    statusCode.SERVICE_UNAVAILABLE
+  );
+
+/**
+ * Send a request to the Python bot API through the circuit breaker
+ * @param method HTTP method
+ * @param endpoint API endpoint (relative path)
+ * @param data Request body
+ * @param options Timeout and whether the call may be retried safely
+ * @returns Parsed response data
+ */
+const requestBotApi = async <T = unknown>(
+  method: BotApiMethod,
   endpoint: string,
-  data: Record<string, any> = {}
-): Promise<any> => {
-  try {
-    if (!urlApi || !jwtToken) {
-      throw new Error(
-        "Environment variables URL_API_PYTHON or JWT_API_PYTHON are not set"
-      );
-    }
+  data: Record<string, any> | Record<string, any>[] = {},
+  options: BotApiCallOptions = {}
+): Promise<T> => {
+  if (!urlApi || !jwtToken) {
+    throw new Error(
+      "Environment variables URL_API_PYTHON or JWT_API_PYTHON are not set"
+    );
+  }
+
+  const path = endpoint.replace(/^\/+/, ""); // Remove leading slashes
+  const apiUrl = `${urlApi}/${path}`;
+  const timeout = options.timeout || defaultBotApiTimeoutMS;
+  const maxAttempts = options.idempotent ? botApiMaxRetries + 1 : 1;
 
-    const apiUrl = `${urlApi}/${endpoint.replace(/^\/+/, "")}`; // Remove leading slashes
-    const response = await axios.put(apiUrl, data, {
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${jwtToken}`,
-      },
-      validateStatus: (status) => status >= 200 && status < 300, // Treat 2xx as success
-    });
-
-    // Check if response or response.data is empty
-    if (!response?.data) {
-      throw new Error("Empty response from API");
+  let attempt = 0;
+  while (attempt < maxAttempts) {
+    attempt++;
+
+    if (!circuitBreaker.canRequest()) {
+      botApiRequestsTotal.labels(path, method, "circuit_open").inc();
+      throw botApiUnavailableError(path);
     }
 
-    // Check Content-Type header to determine response format
-    const contentType = response.headers["content-type"]?.toLowerCase() || "";
-
-    if (contentType.includes("application/json")) {
-      // Handle JSON response directly
-      return response.data;
-    } else if (
-      contentType.includes("application/xml") ||
-      contentType.includes("text/xml")
-    ) {
-      // Handle XML response
-      try {
-        const parsedResponse = await parseStringPromise(response.data, {
-          explicitArray: false,
-          trim: true,
-        });
-        const jsonString = parsedResponse?.string?._ || null;
-
-        if (!jsonString) {
-          throw new Error("Failed to extract JSON string from XML response");
-        }
+    const endTimer = botApiRequestDuration.startTimer({ endpoint: path, method });
+    try {
+      const response = await axios.request({
+        method,
+        url: apiUrl,
+        data,
+        timeout,
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${jwtToken}`,
+        },
+        validateStatus: (status) => status >= 200 && status < 300, // Treat 2xx as success
+      });
+      const result = await parseBotApiResponse(response);
+
+      circuitBreaker.recordSuccess();
+      endTimer({ outcome: "success" });
+      botApiRequestsTotal.labels(path, method, "success").inc();
+      return result as T;
+    } catch (error: any) {
+      const outcome = getOutcome(error);
+      endTimer({ outcome });
+      botApiRequestsTotal.labels(path, method, outcome).inc();
 
-        return JSON.parse(jsonString);
-      } catch (xmlError: any) {
-        throw new Error(`Failed to parse XML response: ${xmlError.message}`);
+      const transient = isTransientError(error);
+      if (transient) {
+        circuitBreaker.recordFailure();
+      } else {
+        // The bot answered, so it is reachable even if it rejected the request
+        circuitBreaker.recordSuccess();
       }
-    } else {
-      // Handle unexpected content type
-      throw new Error(
-        `Unsupported response Content-Type: ${contentType || "unknown"}`
+
+      if (transient && attempt < maxAttempts) {
+        // This failure may have opened the breaker: give up now instead of
+        // sleeping only to be rejected
+        if (circuitBreaker.getState() === CircuitState.OPEN) {
+          botApiRequestsTotal.labels(path, method, "circuit_open").inc();
+          throw botApiUnavailableError(path);
+        }
+        const delay = botApiRetryDelayMS * Math.pow(2, attempt - 1);
+        botApiRetriesTotal.labels(path, method).inc();
+        logger.warn(
+          `Bot API ${method} ${path} failed on attempt ${attempt} (${outcome}), retrying in ${delay}ms`
+        );
+        await new Promise((resolve) => setTimeout(resolve, delay));
+        continue;
+      }
+
+      const errorMessage = error.response
+        ? `API request failed: ${error.response.status} - ${JSON.stringify(
+            error.response.data
+          )}`
+        : error.message || "Failed to call API";
+      throw new ErrorType(
+        "BotApiError",
+        errorMessage,
+        transient ? statusCode.SERVICE_UNAVAILABLE : statusCode.BAD_REQUEST
       );
     }
-  } catch (error: any) {
-    const errorMessage = error.response
-      ? `API request failed: ${error.response.status} - ${JSON.stringify(
-          error.response.data
-        )}`
-      : error.message || "Failed to call API";
-    throw new Error(errorMessage);
   }
-};
\ No newline at end of file
+
+  // Unreachable: the loop either returns or throws
+  throw new ErrorType("BotApiError", `Failed to call ${path}`);
+};
+
+/**
+ * POST request to Python API
+ * @param endpoint API endpoint (relative path)
+ * @param data Request body
+ * @returns Parsed response data, typed by the caller
+ */
+export const baseApiPython = async <T = unknown>(
+  endpoint: string,
+  data: Record<string, any> | Record<string, any>[] = {},
+  options?: BotApiCallOptions
+): Promise<T> => requestBotApi<T>("POST", endpoint, data, options);
+
+/**
+ * PUT request to Python API
+ * @param endpoint API endpoint (relative path)
+ * @param data Request body
+ * @returns Parsed response data, typed by the caller
+ */
+export const baseApiPythonUpdate = async <T = unknown>(
+  endpoint: string,
+  data: Record<string, any> | Record<string, any>[] = {},
+  options?: BotApiCallOptions
+): Promise<T> => requestBotApi<T>("PUT", endpoint, data, options);
+
+export const getBotApiCircuitState = (): CircuitState =>
+  circuitBreaker.getState();
+
+// Typed endpoints. Reads and updates are idempotent and retried; "set" calls
+// create jobs on the bot and are delivered (and retried) by the bot outbox.
+export const botApi = {
+  setKeyword: (data: BotKeywordSetInput): Promise<unknown> =>
+    baseApiPython("keyword/set", data),
+
+  updateKeyword: (data: BotKeywordUpdateInput): Promise<unknown> =>
+    baseApiPythonUpdate("keyword/update", data, { idempotent: true }),
+
+  setLinks: (data: BotLinkSetInput[]): Promise<unknown> =>
+    baseApiPython("link/set-multiple", data, { timeout: longBotApiTimeoutMS }),
+
+  setDirectLink: (data: BotDirectLinkSetInput): Promise<unknown> =>
+    baseApiPython("direct-link/set", data),
+
+  setGoogleMapsReview: (data: BotGoogleMapsReviewSetInput): Promise<unknown> =>
+    baseApiPython("google-maps-review/set", data),
+
+  getKeywordSuccessCount: (
+    data: BotKeywordSuccessCountInput
+  ): Promise<BotSuccessCountResult> =>
+    requestBotApi("POST", "keyword/success-count-duration", data, {
+      idempotent: true,
+      timeout: longBotApiTimeoutMS,
+    }),
+
+  getDirectLinkSuccessCount: (
+    data: BotDirectLinkSuccessCountInput
+  ): Promise<BotSuccessCountResult> =>
+    requestBotApi("POST", "direct-link/success-count-duration", data, {
+      idempotent: true,
+      timeout: longBotApiTimeoutMS,
+    }),
+
+  searchLogs: (data: BotSearchLogInput): Promise<BotSearchLogResult> =>
+    requestBotApi("POST", "log/search", data, { idempotent: true }),
+
+  searchLogsByType: (
+    data: BotSearchLogByTypeInput
+  ): Promise<BotSearchLogResult> =>
+    requestBotApi("POST", "log/search-by-type", data, { idempotent: true }),
+};
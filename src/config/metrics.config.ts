@@ -12,4 +12,28 @@ export const totalRequests = new client.Counter({
   name: "http_requests_total",
   help: "Total number of HTTP requests",
   labelNames: ["method", "route", "status"],
-});
\ No newline at end of file
+});
+
+export const botApiRequestDuration = new client.Histogram({
+  name: "bot_api_request_duration_seconds",
+  help: "Duration of Python bot API requests in seconds",
+  labelNames: ["endpoint", "method", "outcome"],
+  buckets: [0.1, 0.3, 0.5, 1, 3, 5, 10, 20],
+});
+
+export const botApiRequestsTotal = new client.Counter({
+  name: "bot_api_requests_total",
+  help: "Total number of Python bot API requests",
+  labelNames: ["endpoint", "method", "outcome"],
+});
+
+export const botApiRetriesTotal = new client.Counter({
+  name: "bot_api_retries_total",
+  help: "Total number of retried Python bot API requests",
+  labelNames: ["endpoint", "method"],
+});
+
+export const botApiCircuitState = new client.Gauge({
+  name: "bot_api_circuit_state",
+  help: "State of the Python bot API circuit breaker (0 closed, 1 half-open, 2 open)",
+});
@@ -0,0 +1,36 @@
+import {
+  NotificationChannel,
+  notificationType,
+} from "../enums/notification.enum";
+
+export const notificationConfig = {
+  telegramBotToken: process.env.TELEGRAM_BOT_TOKEN || "",
+  telegramApiUrl: process.env.TELEGRAM_API_URL || "https://api.telegram.org",
+  webhookTimeoutMs: Number(process.env.NOTIFICATION_WEBHOOK_TIMEOUT_MS) || 10000,
+  // Target of the button in emails and of the link in Telegram messages
+  notificationsUrl: `${process.env.FRONT_END_URL}/en/notifications`,
+};
+
+// Types that reach a user's inbox unless they opt out
+const EMAIL_BY_DEFAULT: string[] = [
+  notificationType.CHARGE_MONEY,
+  notificationType.REFUND_MONEY,
+  notificationType.RUNNING_CAMPAIGN,
+  notificationType.RENEW_CAMPAIGN,
+  notificationType.WITHDRAWAL,
+];
+
+/**
+ * Whether a channel is on for a type when the user saved no preference.
+ * In-app is always on; Telegram and webhooks are on once the user has
+ * connected them, email only for money and campaign-running events.
+ */
+export const isChannelEnabledByDefault = (
+  channel: NotificationChannel,
+  type: string
+): boolean => {
+  if (channel === NotificationChannel.EMAIL) {
+    return EMAIL_BY_DEFAULT.includes(type);
+  }
+  return true;
+};
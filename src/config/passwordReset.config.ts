@@ -0,0 +1,7 @@
+export const passwordResetConfig = {
+  tokenTtlSeconds: 30 * 60,
+  // Fixed windows counted in Redis, shared by every app worker
+  rateLimitWindowSeconds: 60 * 60,
+  maxRequestsPerEmail: 3,
+  maxRequestsPerIp: 10,
+};
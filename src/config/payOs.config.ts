@@ -6,5 +6,11 @@ const payOSPaymentMethod = new PayOS(
   process.env.PAY_OS_CHECKSUM || "YOUR_PAYOS_CHECKSUM_KEY"
 );
 
+// No placeholder here: an unset key must reject every webhook
+export const payOsChecksumKey = process.env.PAY_OS_CHECKSUM || "";
 
-export default payOSPaymentMethod;
\ No newline at end of file
+// How long a checkout link accepts payment before the sweeper closes it
+export const payOsCheckoutTtlMinutes =
+  Number(process.env.PAY_OS_CHECKOUT_TTL_MINUTES) || 15;
+
+export default payOSPaymentMethod;
@@ -104,6 +104,32 @@ class RedisClient {
     }
   }
 
+  // Read and delete a key; of concurrent callers only one gets the value
+  async take(key: string): Promise<string | null> {
+    try {
+      const value = await this.client.get(key);
+      const deleted = await this.client.del(key);
+      return deleted > 0 ? value : null;
+    } catch (error) {
+      logger.error(`Redis TAKE error for key ${key}:`, error);
+      throw error;
+    }
+  }
+
+  // Increment a counter, starting its TTL when the counter is created
+  async incr(key: string, ttlInSeconds: number): Promise<number> {
+    try {
+      const count = await this.client.incr(key);
+      if (count === 1) {
+        await this.client.expire(key, ttlInSeconds);
+      }
+      return count;
+    } catch (error) {
+      logger.error(`Redis INCR error for key ${key}:`, error);
+      throw error;
+    }
+  }
+
   async lPush(key: string, ...values: string[]): Promise<number> {
     try {
       if (values.length === 0) {
@@ -148,6 +174,50 @@ class RedisClient {
     }
   }
 
+  async zAdd(key: string, value: string, score: number): Promise<number> {
+    try {
+      return await this.client.zAdd(key, { score, value });
+    } catch (error) {
+      logger.error(`Redis ZADD error for key ${key}:`, error);
+      throw error;
+    }
+  }
+
+  async zRangeByScore(
+    key: string,
+    min: number | string,
+    max: number | string
+  ): Promise<string[]> {
+    try {
+      return await this.client.zRangeByScore(key, min, max);
+    } catch (error) {
+      logger.error(`Redis ZRANGEBYSCORE error for key ${key}:`, error);
+      throw error;
+    }
+  }
+
+  async zRemRangeByScore(
+    key: string,
+    min: number | string,
+    max: number | string
+  ): Promise<number> {
+    try {
+      return await this.client.zRemRangeByScore(key, min, max);
+    } catch (error) {
+      logger.error(`Redis ZREMRANGEBYSCORE error for key ${key}:`, error);
+      throw error;
+    }
+  }
+
+  // A new connection with the same options, e.g. for pub/sub which blocks the connection
+  duplicate(): RedisClientType {
+    const client = this.client.duplicate();
+    client.on("error", (err) => {
+      logger.error("Redis Client Error:", err.message);
+    });
+    return client;
+  }
+
   isConnectedStatus(): boolean {
     return this.isConnected;
   }
@@ -0,0 +1,11 @@
+import ms from "ms";
+
+export const sessionConfig = {
+  // Refresh tokens start with this, to tell them from access tokens in logs
+  refreshTokenPrefix: "rt_",
+  refreshTokenTtlDays: Number(process.env.REFRESH_TOKEN_TTL_DAYS) || 30,
+  // Revoked sessions are remembered in Redis while their access tokens live
+  accessTokenTtlSeconds: Math.ceil(
+    ms((process.env.JWT_EXPIRES_IN as ms.StringValue) || "1h") / 1000
+  ),
+};
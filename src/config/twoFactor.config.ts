@@ -0,0 +1,9 @@
+export const twoFactorConfig = {
+  // Shown as the account name prefix in authenticator apps
+  issuer: process.env.TWO_FACTOR_ISSUER || "Cyno Traffic",
+  challengeTtlSeconds: 5 * 60,
+  maxChallengeAttempts: 5,
+  emailOtpType: "twoFactor",
+  emailOtpIntervalSeconds: 60,
+  backupCodeCount: 10,
+};
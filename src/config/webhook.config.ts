@@ -0,0 +1,9 @@
+export const webhookConfig = {
+  timeoutMs: Number(process.env.WEBHOOK_TIMEOUT_MS) || 10000,
+  // Used by endpoints subscribed to wallet.low_balance without their own threshold
+  defaultLowBalanceThreshold:
+    Number(process.env.WEBHOOK_LOW_BALANCE_THRESHOLD) || 10,
+  maxEndpointsPerUser: 10,
+  // Only the start of a receiver's answer is kept in the delivery log
+  maxResponseBodyLength: 2000,
+};
@@ -0,0 +1,6 @@
+export const defaultBotApiTimeoutMS: number = 10000; // Timeout for a single bot API call
+export const longBotApiTimeoutMS: number = 20000; // Timeout for bulk calls and traffic counting
+export const botApiMaxRetries: number = 2; // Extra attempts for idempotent calls only
+export const botApiRetryDelayMS: number = 500; // First retry delay, doubled on each attempt
+export const botApiFailureThreshold: number = 5; // Consecutive failures before the circuit opens
+export const botApiResetTimeoutMS: number = 30000; // Time the circuit stays open before a trial call
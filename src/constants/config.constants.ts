@@ -10,4 +10,9 @@ export const ConfigApp = {
   DIRECT_LINK_VIDEO_COST: "DIRECT_LINK_VIDEO_COST",
   GOOGLE_MAPS_REVIEW_COST: "GOOGLE_MAPS_REVIEW_COST",
   GOOGLE_MAPS_REVIEW_IMAGE_COST: "GOOGLE_MAPS_REVIEW_IMAGE_COST",
+  AGENCY_WITHDRAWAL_MIN: "AGENCY_WITHDRAWAL_MIN",
+  AGENCY_WITHDRAWAL_MAX: "AGENCY_WITHDRAWAL_MAX",
+  AGENCY_WITHDRAWAL_DAILY_MAX: "AGENCY_WITHDRAWAL_DAILY_MAX",
+  // "true" makes two-factor authentication mandatory for admins and agency owners
+  TWO_FACTOR_MANDATORY: "TWO_FACTOR_MANDATORY",
 };
@@ -8,6 +8,7 @@ const statusCode = {
     FORBIDDEN: 403,
     NOT_FOUND: 404,
     CONFLICT: 409,
+    GONE: 410,
     PRECONDITION_FAILED: 412,
     UNSUPPORTED_MEDIA_TYPE: 415,
     UNPROCESSABLE_ENTITY: 422,
@@ -0,0 +1,203 @@
+import { Response } from "express";
+import statusCode from "../../constants/statusCode";
+import { apiKeyConfig } from "../../config/apiKey.config";
+import { ApiKeyAttributes } from "../../interfaces/ApiKey.interface";
+import {
+  countActiveApiKeysRepo,
+  createApiKeyRepo,
+  getApiKeysByUserIdRepo,
+  revokeApiKeyRepo,
+} from "../../repositories/commonRepo/apiKey.repository";
+import { getUserPermissions } from "../../repositories/commonRepo/user.repository";
+import { generateApiKey } from "../../services/apiKey.service";
+import { AuthenticatedRequest } from "../../types/AuthenticateRequest.type";
+import { ErrorType } from "../../types/Error.type";
+import { ResponseType } from "../../types/Response.type";
+
+const MAX_NAME_LENGTH = 100;
+
+const sendApiKeyError = (
+  res: Response<ResponseType<any>>,
+  error: any,
+  fallbackMessage: string
+) => {
+  const errorResponse =
+    error instanceof ErrorType && typeof error.code === "number"
+      ? error
+      : new ErrorType(
+          error.name || "UnknownError",
+          error.message || fallbackMessage,
+          statusCode.INTERNAL_SERVER_ERROR
+        );
+  res.status(errorResponse.code).json({
+    status: false,
+    message: errorResponse.message,
+    error: errorResponse.name,
+  });
+};
+
+const withStatus = (apiKey: ApiKeyAttributes) => {
+  const isExpired =
+    !!apiKey.expiresAt && new Date(apiKey.expiresAt) <= new Date();
+  return {
+    ...(typeof (apiKey as any).toJSON === "function"
+      ? (apiKey as any).toJSON()
+      : apiKey),
+    isActive: !apiKey.revokedAt && !isExpired,
+  };
+};
+
+/**
+ * Create a key for the caller. The raw key is only in this response: the
+ * permissions must be a subset of the caller's own, and the key can never
+ * be used to create other keys.
+ */
+export const createApiKey = async (
+  req: AuthenticatedRequest,
+  res: Response<ResponseType<any>>
+): Promise<void> => {
+  try {
+    const userId = req.data?.id || 0;
+    const { name, permissions, rateLimit, expiresAt } = req.body || {};
+
+    if (typeof name !== "string" || !name.trim()) {
+      throw new ErrorType(
+        "ValidationError",
+        "name is required",
+        statusCode.BAD_REQUEST
+      );
+    }
+    if (name.trim().length > MAX_NAME_LENGTH) {
+      throw new ErrorType(
+        "ValidationError",
+        `name must be at most ${MAX_NAME_LENGTH} characters`,
+        statusCode.BAD_REQUEST
+      );
+    }
+    if (
+      !Array.isArray(permissions) ||
+      !permissions.length ||
+      !permissions.every((code) => typeof code === "string")
+    ) {
+      throw new ErrorType(
+        "ValidationError",
+        "permissions must be a non-empty list of permission codes",
+        statusCode.BAD_REQUEST
+      );
+    }
+    const userPermissions = await getUserPermissions(userId);
+    const notGranted = permissions.filter(
+      (code: string) => !userPermissions.includes(code)
+    );
+    if (notGranted.length) {
+      throw new ErrorType(
+        "ValidationError",
+        `You do not have these permissions: ${notGranted.join(", ")}`,
+        statusCode.BAD_REQUEST
+      );
+    }
+
+    const limit =
+      rateLimit === undefined || rateLimit === null
+        ? apiKeyConfig.defaultRateLimit
+        : Number(rateLimit);
+    if (
+      !Number.isInteger(limit) ||
+      limit < 1 ||
+      limit > apiKeyConfig.maxRateLimit
+    ) {
+      throw new ErrorType(
+        "ValidationError",
+        `rateLimit must be an integer between 1 and ${apiKeyConfig.maxRateLimit} requests per ${apiKeyConfig.rateLimitWindowSeconds} seconds`,
+        statusCode.BAD_REQUEST
+      );
+    }
+
+    let expiry: Date | null = null;
+    if (expiresAt !== undefined && expiresAt !== null) {
+      expiry = new Date(expiresAt);
+      if (isNaN(expiry.getTime()) || expiry <= new Date()) {
+        throw new ErrorType(
+          "ValidationError",
+          "expiresAt must be a date in the future",
+          statusCode.BAD_REQUEST
+        );
+      }
+    }
+
+    if ((await countActiveApiKeysRepo(userId)) >= apiKeyConfig.maxKeysPerUser) {
+      throw new ErrorType(
+        "LimitExceededError",
+        `You can have at most ${apiKeyConfig.maxKeysPerUser} active API keys`,
+        statusCode.BAD_REQUEST
+      );
+    }
+
+    const { key, keyPrefix, keyHash } = generateApiKey();
+    const apiKey = await createApiKeyRepo({
+      userId,
+      name: name.trim(),
+      keyPrefix,
+      keyHash,
+      permissions: [...new Set<string>(permissions)],
+      rateLimit: limit,
+      expiresAt: expiry,
+      lastUsedAt: null,
+      revokedAt: null,
+    });
+
+    res.status(statusCode.CREATED).json({
+      status: true,
+      message: "API key created, copy it now as it will not be shown again",
+      data: { ...withStatus(apiKey), key },
+    });
+  } catch (error: any) {
+    sendApiKeyError(res, error, "Error creating API key");
+  }
+};
+
+export const getApiKeys = async (
+  req: AuthenticatedRequest,
+  res: Response<ResponseType<any>>
+): Promise<void> => {
+  try {
+    const apiKeys = await getApiKeysByUserIdRepo(req.data?.id || 0);
+    res.status(statusCode.OK).json({
+      status: true,
+      message: "API keys retrieved successfully",
+      data: apiKeys.map(withStatus),
+    });
+  } catch (error: any) {
+    sendApiKeyError(res, error, "Error fetching API keys");
+  }
+};
+
+export const revokeApiKey = async (
+  req: AuthenticatedRequest,
+  res: Response<ResponseType<any>>
+): Promise<void> => {
+  try {
+    const id = Number(req.params.id);
+    if (!Number.isSafeInteger(id) || id <= 0) {
+      throw new ErrorType(
+        "ValidationError",
+        "Invalid API key id",
+        statusCode.BAD_REQUEST
+      );
+    }
+    const revoked = await revokeApiKeyRepo(id, req.data?.id || 0);
+    if (!revoked) {
+      throw new ErrorType(
+        "NotFoundError",
+        "API key not found or already revoked",
+        statusCode.NOT_FOUND
+      );
+    }
+    res.status(statusCode.OK).json({
+      status: true,
+      message: "API key revoked successfully",
+    });
+  } catch (error: any) {
+    sendApiKeyError(res, error, "Error revoking API key");
+  }
+};
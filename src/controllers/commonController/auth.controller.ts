@@ -9,18 +9,14 @@ import {
   updateUserOneFieldRepo,
 } from "../../repositories/commonRepo/user.repository";
 import {
-  blacklistToken,
   comparePassword,
   hashedPasswordString,
-  isTokenBlacklisted,
-  removeSensitivity,
   saveOtpToRedis,
   signToken,
   verifyToken,
 } from "../../utils/utils";
 import statusCode from "../../constants/statusCode";
 import { AuthenticatedRequest } from "../../types/AuthenticateRequest.type";
-import { ttlInSecondsGlobal } from "../../constants/redis.constant";
 import { getWalletByUserIdRepo } from "../../repositories/moneyRepo/wallet.repository";
 import { UserAttributes } from "../../interfaces/User.interface";
 import { queueEmail } from "../../services/sendMail.service";
@@ -28,6 +24,81 @@ import { redisClient } from "../../config/redis.config";
 import { generateOtp } from "../../utils/generate";
 import { checkInviteCodeExistsRepo, getAgencyByInviteCodeRepo } from "../../repositories/coreRepo/agency.repository";
 import { checkUserUsedPaymentMethodGiftRepo } from "../../repositories/moneyRepo/deposit.repository";
+import { getUserTwoFactorRepo } from "../../repositories/commonRepo/twoFactor.repository";
+import {
+  activateTwoFactor,
+  clearLoginChallenge,
+  createLoginChallenge,
+  isTwoFactorEnabled,
+  isTwoFactorRequired,
+  parseTwoFactorInput,
+  sendTwoFactorEmailOtp,
+  startTwoFactorSetup,
+  useLoginChallenge,
+  verifySecondFactor,
+} from "../../services/twoFactor.service";
+import { TwoFactorMethod } from "../../enums/twoFactor.enum";
+import { TwoFactorChallenge } from "../../interfaces/UserTwoFactor.interface";
+import { ErrorType } from "../../types/Error.type";
+import User from "../../models/User.model";
+import { startSession } from "../../services/session.service";
+import {
+  requestPasswordReset,
+  resetPassword as resetPasswordWithToken,
+} from "../../services/passwordReset.service";
+
+const sendAuthError = (
+  res: Response<ResponseType<any>>,
+  error: any,
+  fallbackMessage: string
+) => {
+  const errorResponse =
+    error instanceof ErrorType && typeof error.code === "number"
+      ? error
+      : new ErrorType(
+          error.name || "UnknownError",
+          error.message || fallbackMessage,
+          statusCode.INTERNAL_SERVER_ERROR
+        );
+  res.status(errorResponse.code).json({
+    status: false,
+    message: errorResponse.message,
+    error: errorResponse.name,
+  });
+};
+
+// The body of a successful login; opens a session for the device
+const buildLoginData = async (user: User, req: Request) => {
+  const session = await startSession(user.id, user.toJSON(), req);
+  return {
+    user: {
+      id: user.id,
+      username: user.username,
+      userImage : `${process.env.DEV_URL}/api/auth/image/${user.imageId}`,
+      email: user.email,
+      createdAt: user.createdAt,
+      updatedAt: user.updatedAt,
+      isDeleted: user.isDeleted,
+      role: user.role, // Include role if needed
+      token: session.token,
+      refreshToken: session.refreshToken,
+      refreshTokenExpiresAt: session.refreshTokenExpiresAt,
+    },
+  };
+};
+
+// The user behind a login challenge, still allowed to sign in
+const findChallengeUser = async (challenge: TwoFactorChallenge) => {
+  const user = await findUserByEmailRepo(challenge.email);
+  if (!user || user.id !== challenge.userId || user.isActive === false) {
+    throw new ErrorType(
+      "InvalidChallengeError",
+      "Sign-in session expired, please log in again",
+      statusCode.UNAUTHORIZED
+    );
+  }
+  return user;
+};
 
 export const loginUser = async (
   req: Request,
@@ -73,24 +144,36 @@ export const loginUser = async (
         .json({ status: false, message: "Invalid email or password" });
       return;
     }
-    const token = signToken(user.toJSON());
+
+    // A second factor is asked before any token is issued
+    const twoFactorEnabled = isTwoFactorEnabled(
+      await getUserTwoFactorRepo(user.id)
+    );
+    if (twoFactorEnabled || (await isTwoFactorRequired(user))) {
+      const challengeToken = await createLoginChallenge({
+        userId: user.id,
+        email: user.email,
+        enroll: !twoFactorEnabled,
+      });
+      res.status(statusCode.OK).json({
+        status: true,
+        message: twoFactorEnabled
+          ? "Two-factor authentication required"
+          : "Two-factor authentication must be set up before signing in",
+        data: {
+          twoFactorRequired: true,
+          enrollmentRequired: !twoFactorEnabled,
+          challengeToken,
+          methods: twoFactorEnabled ? Object.values(TwoFactorMethod) : [],
+        },
+      });
+      return;
+    }
 
     res.status(statusCode.OK).json({
       status: true,
       message: "Login successful",
-      data: {
-        user: {
-          id: user.id,
-          username: user.username,
-          userImage : `${process.env.DEV_URL}/api/auth/image/${user.imageId}`,
-          email: user.email,
-          createdAt: user.createdAt,
-          updatedAt: user.updatedAt,
-          isDeleted: user.isDeleted,
-          role: user.role, // Include role if needed
-          token: token,
-        },
-      },
+      data: await buildLoginData(user, req),
     });
     return;
   } catch (error: any) {
@@ -102,6 +185,106 @@ export const loginUser = async (
   }
 };
 
+const requireChallengeStep = (
+  challenge: TwoFactorChallenge,
+  enroll: boolean
+) => {
+  if (challenge.enroll !== enroll) {
+    throw new ErrorType(
+      "InvalidChallengeError",
+      enroll
+        ? "Two-factor authentication is already set up, verify a code instead"
+        : "Set up two-factor authentication first",
+      statusCode.BAD_REQUEST
+    );
+  }
+};
+
+// Second step of a login with 2FA enabled
+export const verifyTwoFactorLogin = async (
+  req: Request,
+  res: Response<ResponseType<any>>
+): Promise<void> => {
+  try {
+    const { challengeToken } = req.body || {};
+    const { method, code } = parseTwoFactorInput(req.body);
+    const challenge = await useLoginChallenge(challengeToken);
+    requireChallengeStep(challenge, false);
+    const user = await findChallengeUser(challenge);
+    await verifySecondFactor({ id: user.id, email: user.email }, method, code);
+    await clearLoginChallenge(challengeToken);
+    res.status(statusCode.OK).json({
+      status: true,
+      message: "Login successful",
+      data: await buildLoginData(user, req),
+    });
+  } catch (error: any) {
+    sendAuthError(res, error, "Error verifying two-factor code");
+  }
+};
+
+// Email OTP fallback for a pending login
+export const sendTwoFactorLoginEmail = async (
+  req: Request,
+  res: Response<ResponseType<any>>
+): Promise<void> => {
+  try {
+    const challenge = await useLoginChallenge(req.body?.challengeToken);
+    requireChallengeStep(challenge, false);
+    await sendTwoFactorEmailOtp({ id: challenge.userId, email: challenge.email });
+    res.status(statusCode.OK).json({
+      status: true,
+      message: "Verification code sent to your email",
+    });
+  } catch (error: any) {
+    sendAuthError(res, error, "Error sending verification code");
+  }
+};
+
+// Setup for a user who must have 2FA and could not sign in without it
+export const startTwoFactorEnrollment = async (
+  req: Request,
+  res: Response<ResponseType<any>>
+): Promise<void> => {
+  try {
+    const challenge = await useLoginChallenge(req.body?.challengeToken);
+    requireChallengeStep(challenge, true);
+    const user = await findChallengeUser(challenge);
+    const setup = await startTwoFactorSetup({ id: user.id, email: user.email });
+    res.status(statusCode.OK).json({
+      status: true,
+      message:
+        "Scan the QR code with your authenticator app, then confirm with a code",
+      data: setup,
+    });
+  } catch (error: any) {
+    sendAuthError(res, error, "Error starting two-factor setup");
+  }
+};
+
+export const completeTwoFactorEnrollment = async (
+  req: Request,
+  res: Response<ResponseType<any>>
+): Promise<void> => {
+  try {
+    const { challengeToken } = req.body || {};
+    const { code } = parseTwoFactorInput({ code: req.body?.code });
+    const challenge = await useLoginChallenge(challengeToken);
+    requireChallengeStep(challenge, true);
+    const user = await findChallengeUser(challenge);
+    const backupCodes = await activateTwoFactor(user.id, code);
+    await clearLoginChallenge(challengeToken);
+    res.status(statusCode.OK).json({
+      status: true,
+      message:
+        "Two-factor authentication enabled, store the backup codes somewhere safe as they will not be shown again",
+      data: { ...(await buildLoginData(user, req)), backupCodes },
+    });
+  } catch (error: any) {
+    sendAuthError(res, error, "Error enabling two-factor authentication");
+  }
+};
+
 export const getMe = async (
   req: AuthenticatedRequest,
   res: Response<ResponseType<any>>
@@ -173,61 +356,17 @@ export const getMe = async (
   }
 };
 
+// Renewed an access token from itself, bypassing refresh token rotation
 export const refreshToken = async (
-  req: AuthenticatedRequest,
-  res: Response<ResponseType<any>>
+  _req: Request,
+  res: Response<ResponseType<null>>
 ): Promise<void> => {
-  try {
-    // Get token from Authorization header
-    const authHeader = req.headers.authorization;
-    const token = authHeader && authHeader.split(" ")[1]; // Bearer <token>
-
-    const user = req.data;
-    if (!user || !user.id) {
-      res.status(statusCode.UNAUTHORIZED).json({
-        status: false,
-        message: "Unauthorized",
-      });
-      return;
-    }
-
-    if (!token) {
-      res.status(statusCode.BAD_REQUEST).json({
-        status: false,
-        message: "Access token is required",
-      });
-      return;
-    }
-
-    // Check if token is blacklisted
-    const isBlacklisted = await isTokenBlacklisted(token);
-    if (isBlacklisted) {
-      res.status(statusCode.UNAUTHORIZED).json({
-        status: false,
-        message: "Token is blacklisted",
-      });
-      return;
-    }
-    // Blacklist the old token
-    await blacklistToken(token, ttlInSecondsGlobal); // Use your global TTL (e.g., 15 minutes)
-    const newInformationUser = removeSensitivity(user);
-    const newToken = signToken(newInformationUser);
-
-    // Return new token
-    res.status(statusCode.OK).json({
-      status: true,
-      message: "Token refreshed successfully",
-      data: {
-        token: newToken,
-      },
-    });
-  } catch (error: any) {
-    res.status(statusCode.INTERNAL_SERVER_ERROR).json({
-      status: false,
-      message: "Internal server error",
-      error: error.message,
-    });
-  }
+  res.status(statusCode.GONE).json({
+    status: false,
+    message:
+      "This endpoint was removed, use POST /auth/token/refresh with your refresh token",
+    error: "EndpointRemovedError",
+  });
 };
 
 export const registerUser = async (
@@ -463,6 +602,38 @@ export const changePassword = async (
   }
 };
 
+// Same answer whether or not the email has an account
+export const forgotPassword = async (
+  req: Request,
+  res: Response<ResponseType<null>>
+): Promise<void> => {
+  try {
+    await requestPasswordReset(req.body?.email, req.ip);
+    res.status(statusCode.OK).json({
+      status: true,
+      message: "If an account exists for this email, a reset link has been sent",
+    });
+  } catch (error: any) {
+    sendAuthError(res, error, "Error requesting password reset");
+  }
+};
+
+export const resetPassword = async (
+  req: Request,
+  res: Response<ResponseType<null>>
+): Promise<void> => {
+  try {
+    const { token, newPassword } = req.body || {};
+    await resetPasswordWithToken(token, newPassword);
+    res.status(statusCode.OK).json({
+      status: true,
+      message: "Password reset successfully, please log in again",
+    });
+  } catch (error: any) {
+    sendAuthError(res, error, "Error resetting password");
+  }
+};
+
 export const confirmUser = async (
   req: Request,
   res: Response<ResponseType<UserAttributes | null>>
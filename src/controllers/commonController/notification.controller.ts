@@ -1,13 +1,39 @@
 import { Request, Response } from "express";
 import statusCode from "../../constants/statusCode"; // Adjust path
-import {
-  createNotificationRepo,
-  getNotificationsByUserIdAndTypeRepo,
-} from "../../repositories/commonRepo/notification.repository"; // Adjust path
+import { createNotificationRepo } from "../../repositories/commonRepo/notification.repository"; // Adjust path
 
 import { NotificationAttributes } from "../../interfaces/Notification.interface";
 import { ResponseType } from "../../types/Response.type";
 import { AuthenticatedRequest } from "../../types/AuthenticateRequest.type";
+import { ErrorType } from "../../types/Error.type";
+import {
+  NotificationChannel,
+  NotificationRecipientState,
+  notificationType,
+} from "../../enums/notification.enum";
+import { NotificationEndpointAttributes } from "../../interfaces/NotificationDelivery.interface";
+import { isChannelEnabledByDefault } from "../../config/notification.config";
+import {
+  deleteNotificationEndpointRepo,
+  getNotificationEndpointsRepo,
+  getNotificationPreferencesRepo,
+  saveNotificationEndpointRepo,
+  saveNotificationPreferencesRepo,
+} from "../../repositories/commonRepo/notificationPreference.repository";
+import {
+  getNotificationRecipientRepo,
+  getRecipientNotificationsRepo,
+  getUnreadNotificationCountRepo,
+  updateNotificationRecipientStateRepo,
+} from "../../repositories/commonRepo/notificationRecipient.repository";
+import { RecipientNotification } from "../../interfaces/NotificationRecipient.interface";
+import { logger } from "../../config/logger.config";
+import { socketService } from "../../services/socket.service";
+import { assertPublicUrl } from "../../utils/outboundRequest";
+import {
+  getNotificationDeliveryListRepo,
+  replayNotificationDeliveryRepo,
+} from "../../repositories/commonRepo/notificationDelivery.repository";
 
 // Create a new notification
 export const createNotification = async (
@@ -33,21 +59,7 @@ export const createNotification = async (
       type,
     });
 
-    // Emit real-time notification
-    const io = (global as any).io;
-    if (io) {
-      const notificationData = {
-        id: notification.id,
-        name: notification.name,
-        content: notification.content,
-        type: notification.type,
-        createdAt: notification.createdAt,
-      };
-
-      notification.userId.forEach((userId: number) => {
-        io.to(`user_${userId}`).emit("newNotification", notificationData);
-      });
-    }
+    // createNotificationRepo pushes and queues deliveries per preference
 
     res.status(statusCode.CREATED).json({
       status: true,
@@ -63,13 +75,13 @@ export const createNotification = async (
   }
 };
 
-// Get notifications by userId and type
+// Get notifications by userId and type; state defaults to the inbox (not archived)
 export const getNotificationsByUserIdAndType = async (
   req: AuthenticatedRequest,
-  res: Response<ResponseType<{ notifications: NotificationAttributes[]; total: number }>>
+  res: Response<ResponseType<{ notifications: RecipientNotification[]; total: number }>>
 ): Promise<void> => {
   try {
-    const { userId, type, page, limit } = req.body;
+    const { userId, type, state, page, limit } = req.body;
     
     if (req.data?.id != userId) {
       res.status(statusCode.FORBIDDEN).json({
@@ -80,14 +92,23 @@ export const getNotificationsByUserIdAndType = async (
       return;
     }
 
+    if (state && state !== "ALL" && !isRecipientState(state)) {
+      res.status(statusCode.BAD_REQUEST).json({
+        status: false,
+        message: "state must be UNREAD, READ, ARCHIVED or ALL",
+        error: "Invalid field",
+      });
+      return;
+    }
+
     const filters = {
       userId: Number(userId),
       type: type as string | undefined,
+      state: state as NotificationRecipientState | "ALL" | undefined,
       page: page as number | undefined,
       limit: limit as number | undefined,
     };
-    console.log("filters", filters);
-    const { notifications, total } = await getNotificationsByUserIdAndTypeRepo(filters);
+    const { notifications, total } = await getRecipientNotificationsRepo(filters);
     
     res.status(statusCode.OK).json({
       status: true,
@@ -102,3 +123,423 @@ export const getNotificationsByUserIdAndType = async (
     });
   }
 };
+
+const isNotificationChannel = (value: any): value is NotificationChannel =>
+  Object.values(NotificationChannel).includes(value);
+
+const isNotificationType = (value: any): value is notificationType =>
+  Object.values(notificationType).includes(value);
+
+const sendNotificationError = (
+  res: Response<ResponseType<any>>,
+  error: any,
+  fallbackMessage: string
+) => {
+  const errorResponse =
+    error instanceof ErrorType && typeof error.code === "number"
+      ? error
+      : new ErrorType(
+          error.name || "UnknownError",
+          error.message || fallbackMessage,
+          statusCode.INTERNAL_SERVER_ERROR
+        );
+  res.status(errorResponse.code).json({
+    status: false,
+    message: errorResponse.message,
+    error: errorResponse.name,
+  });
+};
+
+// Never send a webhook secret back once saved
+const toPublicEndpoint = (endpoint: NotificationEndpointAttributes) => ({
+  channel: endpoint.channel,
+  target: endpoint.target,
+  isActive: endpoint.isActive,
+  hasSecret: !!endpoint.secret,
+  updatedAt: endpoint.updatedAt,
+});
+
+// Every type × channel pair with the value in effect for the caller
+export const getNotificationPreferences = async (
+  req: AuthenticatedRequest,
+  res: Response<ResponseType<any>>
+): Promise<void> => {
+  try {
+    const userId = req.data?.id || 0;
+    const [saved, endpoints] = await Promise.all([
+      getNotificationPreferencesRepo(userId),
+      getNotificationEndpointsRepo(userId),
+    ]);
+    const preferences = Object.values(notificationType).flatMap((type) =>
+      Object.values(NotificationChannel).map((channel) => {
+        const preference = saved.find(
+          (item) => item.type === type && item.channel === channel
+        );
+        return {
+          type,
+          channel,
+          enabled: preference
+            ? preference.enabled
+            : isChannelEnabledByDefault(channel, type),
+          isDefault: !preference,
+        };
+      })
+    );
+    res.status(statusCode.OK).json({
+      status: true,
+      message: "Notification preferences retrieved successfully",
+      data: { preferences, endpoints: endpoints.map(toPublicEndpoint) },
+    });
+  } catch (error: any) {
+    sendNotificationError(
+      res,
+      error,
+      "Error fetching notification preferences"
+    );
+  }
+};
+
+export const updateNotificationPreferences = async (
+  req: AuthenticatedRequest,
+  res: Response<ResponseType<any>>
+): Promise<void> => {
+  try {
+    const { preferences } = req.body;
+    if (
+      !Array.isArray(preferences) ||
+      !preferences.length ||
+      preferences.some(
+        (preference: any) =>
+          !isNotificationType(preference?.type) ||
+          !isNotificationChannel(preference?.channel) ||
+          typeof preference?.enabled !== "boolean"
+      )
+    ) {
+      throw new ErrorType(
+        "ValidationError",
+        "preferences must be a non-empty list of { type, channel, enabled }",
+        statusCode.BAD_REQUEST
+      );
+    }
+    await saveNotificationPreferencesRepo(
+      req.data?.id || 0,
+      preferences.map((preference: any) => ({
+        type: preference.type,
+        channel: preference.channel,
+        enabled: preference.enabled,
+      }))
+    );
+    res.status(statusCode.OK).json({
+      status: true,
+      message: "Notification preferences updated successfully",
+    });
+  } catch (error: any) {
+    sendNotificationError(
+      res,
+      error,
+      "Error updating notification preferences"
+    );
+  }
+};
+
+// Connect Telegram (target = chat id) or a webhook (target = URL)
+export const saveNotificationChannel = async (
+  req: AuthenticatedRequest,
+  res: Response<ResponseType<any>>
+): Promise<void> => {
+  try {
+    const channel = req.params.channel?.toUpperCase();
+    const target =
+      typeof req.body?.target === "string" ? req.body.target.trim() : "";
+    const secret =
+      typeof req.body?.secret === "string" && req.body.secret
+        ? req.body.secret
+        : null;
+
+    if (channel === NotificationChannel.TELEGRAM) {
+      if (!/^(-?\d+|@\w{5,})$/.test(target)) {
+        throw new ErrorType(
+          "ValidationError",
+          "target must be a Telegram chat id or @channel name",
+          statusCode.BAD_REQUEST
+        );
+      }
+    } else if (channel === NotificationChannel.WEBHOOK) {
+      await assertPublicUrl(target, "target");
+    } else {
+      throw new ErrorType(
+        "ValidationError",
+        "channel must be TELEGRAM or WEBHOOK",
+        statusCode.BAD_REQUEST
+      );
+    }
+
+    const endpoint = await saveNotificationEndpointRepo({
+      userId: req.data?.id || 0,
+      channel,
+      target,
+      secret: channel === NotificationChannel.WEBHOOK ? secret : null,
+    });
+    res.status(statusCode.OK).json({
+      status: true,
+      message: "Notification channel saved successfully",
+      data: toPublicEndpoint(endpoint),
+    });
+  } catch (error: any) {
+    sendNotificationError(
+      res,
+      error,
+      "Error saving notification channel"
+    );
+  }
+};
+
+export const deleteNotificationChannel = async (
+  req: AuthenticatedRequest,
+  res: Response<ResponseType<any>>
+): Promise<void> => {
+  try {
+    const channel = req.params.channel?.toUpperCase();
+    const deleted =
+      isNotificationChannel(channel) &&
+      (await deleteNotificationEndpointRepo(req.data?.id || 0, channel));
+    if (!deleted) {
+      throw new ErrorType(
+        "NotFoundError",
+        "Notification channel not found",
+        statusCode.NOT_FOUND
+      );
+    }
+    res.status(statusCode.OK).json({
+      status: true,
+      message: "Notification channel removed successfully",
+    });
+  } catch (error: any) {
+    sendNotificationError(
+      res,
+      error,
+      "Error removing notification channel"
+    );
+  }
+};
+
+// Users see their own deliveries; admins may filter by any userId
+export const getNotificationDeliveries = async (
+  req: AuthenticatedRequest,
+  res: Response<ResponseType<any>>
+): Promise<void> => {
+  try {
+    const { userId, notificationId, channel, status, page, limit } = req.body;
+    const isAdmin = req.data?.role.id === 1;
+    const result = await getNotificationDeliveryListRepo({
+      userId: isAdmin ? Number(userId) || undefined : req.data?.id,
+      notificationId: Number(notificationId) || undefined,
+      channel: channel || undefined,
+      status: status || undefined,
+      page: Number(page) || undefined,
+      limit: Number(limit) || undefined,
+    });
+    res.status(statusCode.OK).json({
+      status: true,
+      message: "Notification deliveries retrieved successfully",
+      data: result,
+    });
+  } catch (error: any) {
+    sendNotificationError(
+      res,
+      error,
+      "Error fetching notification deliveries"
+    );
+  }
+};
+
+export const retryNotificationDelivery = async (
+  req: AuthenticatedRequest,
+  res: Response<ResponseType<any>>
+): Promise<void> => {
+  try {
+    const isAdmin = req.data?.role.id === 1;
+    const delivery = await replayNotificationDeliveryRepo(
+      Number(req.params.id) || 0,
+      isAdmin ? undefined : req.data?.id
+    );
+    res.status(statusCode.OK).json({
+      status: true,
+      message: "Notification delivery queued for retry",
+      data: delivery,
+    });
+  } catch (error: any) {
+    sendNotificationError(
+      res,
+      error,
+      "Error retrying notification delivery"
+    );
+  }
+};
+
+const isRecipientState = (value: any): value is NotificationRecipientState =>
+  Object.values(NotificationRecipientState).includes(value);
+
+/**
+ * Tell every open tab of the user which notifications changed state, with
+ * the new unread counts for the bell badge. notificationIds is null when the
+ * change covered all notifications (of type, if set).
+ */
+const emitNotificationStateChanged = async (
+  userId: number,
+  change: {
+    state: NotificationRecipientState;
+    notificationIds: number[] | null;
+    type?: string;
+  }
+): Promise<void> => {
+  try {
+    const unread = await getUnreadNotificationCountRepo(userId);
+    socketService.emitToUser(userId, "notificationStateChanged", {
+      ...change,
+      unread,
+    });
+  } catch (error: any) {
+    // The state is saved; other tabs catch up on their next fetch
+    logger.error(`Error emitting notification state: ${error.message}`);
+  }
+};
+
+export const getUnreadNotificationCount = async (
+  req: AuthenticatedRequest,
+  res: Response<ResponseType<any>>
+): Promise<void> => {
+  try {
+    const unread = await getUnreadNotificationCountRepo(req.data?.id || 0);
+    res.status(statusCode.OK).json({
+      status: true,
+      message: "Unread notification count retrieved successfully",
+      data: unread,
+    });
+  } catch (error: any) {
+    sendNotificationError(
+      res,
+      error,
+      "Error counting unread notifications"
+    );
+  }
+};
+
+// POST /:id/read, /:id/unread and /:id/archive
+export const setNotificationState =
+  (state: NotificationRecipientState) =>
+  async (
+    req: AuthenticatedRequest,
+    res: Response<ResponseType<any>>
+  ): Promise<void> => {
+    try {
+      const userId = req.data?.id || 0;
+      const notificationId = Number(req.params.id) || 0;
+      const recipient = await getNotificationRecipientRepo(
+        userId,
+        notificationId
+      );
+      if (!recipient) {
+        throw new ErrorType(
+          "NotFoundError",
+          "Notification not found",
+          statusCode.NOT_FOUND
+        );
+      }
+      const changed = await updateNotificationRecipientStateRepo(
+        userId,
+        state,
+        { notificationIds: [notificationId] }
+      );
+      if (changed.length) {
+        await emitNotificationStateChanged(userId, {
+          state,
+          notificationIds: changed,
+        });
+      }
+      res.status(statusCode.OK).json({
+        status: true,
+        message: "Notification updated successfully",
+        data: { notificationId, state, changed: changed.length > 0 },
+      });
+    } catch (error: any) {
+      sendNotificationError(res, error, "Error updating notification");
+    }
+  };
+
+export const markAllNotificationsRead = async (
+  req: AuthenticatedRequest,
+  res: Response<ResponseType<any>>
+): Promise<void> => {
+  try {
+    const userId = req.data?.id || 0;
+    const type = req.body?.type;
+    if (type !== undefined && !isNotificationType(type)) {
+      throw new ErrorType(
+        "ValidationError",
+        "Unknown notification type",
+        statusCode.BAD_REQUEST
+      );
+    }
+    const changed = await updateNotificationRecipientStateRepo(
+      userId,
+      NotificationRecipientState.READ,
+      { type }
+    );
+    if (changed.length) {
+      await emitNotificationStateChanged(userId, {
+        state: NotificationRecipientState.READ,
+        notificationIds: null,
+        type,
+      });
+    }
+    res.status(statusCode.OK).json({
+      status: true,
+      message: "Notifications marked as read",
+      data: { updated: changed.length },
+    });
+  } catch (error: any) {
+    sendNotificationError(
+      res,
+      error,
+      "Error marking notifications as read"
+    );
+  }
+};
+
+// Apply one state to a list of the caller's notifications
+export const bulkUpdateNotifications = async (
+  req: AuthenticatedRequest,
+  res: Response<ResponseType<any>>
+): Promise<void> => {
+  try {
+    const userId = req.data?.id || 0;
+    const { ids, state } = req.body;
+    const notificationIds = Array.isArray(ids)
+      ? ids.map(Number).filter((id: number) => Number.isSafeInteger(id) && id > 0)
+      : [];
+    if (!notificationIds.length || !isRecipientState(state)) {
+      throw new ErrorType(
+        "ValidationError",
+        "ids must list notifications and state be UNREAD, READ or ARCHIVED",
+        statusCode.BAD_REQUEST
+      );
+    }
+    const changed = await updateNotificationRecipientStateRepo(userId, state, {
+      notificationIds,
+    });
+    if (changed.length) {
+      await emitNotificationStateChanged(userId, {
+        state,
+        notificationIds: changed,
+      });
+    }
+    res.status(statusCode.OK).json({
+      status: true,
+      message: "Notifications updated successfully",
+      data: { updated: changed.length },
+    });
+  } catch (error: any) {
+    sendNotificationError(res, error, "Error updating notifications");
+  }
+};
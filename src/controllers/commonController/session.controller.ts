@@ -0,0 +1,146 @@
+import { Request, Response } from "express";
+import statusCode from "../../constants/statusCode";
+import { ttlInSecondsGlobal } from "../../constants/redis.constant";
+import { SessionRevokeReason } from "../../enums/session.enum";
+import {
+  listSessions,
+  refreshSession,
+  revokeAllSessions,
+  revokeSession,
+} from "../../services/session.service";
+import { AuthenticatedRequest } from "../../types/AuthenticateRequest.type";
+import { ErrorType } from "../../types/Error.type";
+import { ResponseType } from "../../types/Response.type";
+import { blacklistToken } from "../../utils/utils";
+
+const sendSessionError = (
+  res: Response<ResponseType<any>>,
+  error: any,
+  fallbackMessage: string
+) => {
+  const errorResponse =
+    error instanceof ErrorType && typeof error.code === "number"
+      ? error
+      : new ErrorType(
+          error.name || "UnknownError",
+          error.message || fallbackMessage,
+          statusCode.INTERNAL_SERVER_ERROR
+        );
+  res.status(errorResponse.code).json({
+    status: false,
+    message: errorResponse.message,
+    error: errorResponse.name,
+  });
+};
+
+// The access token of the request stops working right away, not at expiry
+const blacklistCurrentToken = async (req: AuthenticatedRequest) => {
+  const token = req.headers.authorization?.split(" ")[1];
+  if (token) {
+    await blacklistToken(token, ttlInSecondsGlobal);
+  }
+};
+
+export const refreshSessionToken = async (
+  req: Request,
+  res: Response<ResponseType<any>>
+): Promise<void> => {
+  try {
+    const session = await refreshSession(req.body?.refreshToken, req);
+    res.status(statusCode.OK).json({
+      status: true,
+      message: "Token refreshed successfully",
+      data: {
+        token: session.token,
+        refreshToken: session.refreshToken,
+        refreshTokenExpiresAt: session.refreshTokenExpiresAt,
+      },
+    });
+  } catch (error: any) {
+    sendSessionError(res, error, "Error refreshing token");
+  }
+};
+
+export const getSessions = async (
+  req: AuthenticatedRequest,
+  res: Response<ResponseType<any>>
+): Promise<void> => {
+  try {
+    const sessions = await listSessions(req.data?.id || 0, req.data?.sid);
+    res.status(statusCode.OK).json({
+      status: true,
+      message: "Sessions retrieved successfully",
+      data: sessions,
+    });
+  } catch (error: any) {
+    sendSessionError(res, error, "Error fetching sessions");
+  }
+};
+
+export const logout = async (
+  req: AuthenticatedRequest,
+  res: Response<ResponseType<any>>
+): Promise<void> => {
+  try {
+    if (req.data?.id && req.data.sid) {
+      await revokeSession(req.data.id, req.data.sid, SessionRevokeReason.LOGOUT);
+    }
+    await blacklistCurrentToken(req);
+    res.status(statusCode.OK).json({
+      status: true,
+      message: "Logged out successfully",
+    });
+  } catch (error: any) {
+    sendSessionError(res, error, "Error logging out");
+  }
+};
+
+export const logoutAllDevices = async (
+  req: AuthenticatedRequest,
+  res: Response<ResponseType<any>>
+): Promise<void> => {
+  try {
+    const count = await revokeAllSessions(
+      req.data?.id || 0,
+      SessionRevokeReason.LOGOUT_ALL
+    );
+    await blacklistCurrentToken(req);
+    res.status(statusCode.OK).json({
+      status: true,
+      message: `Logged out of ${count} session(s)`,
+      data: { revokedSessions: count },
+    });
+  } catch (error: any) {
+    sendSessionError(res, error, "Error logging out of all devices");
+  }
+};
+
+// Log out another device from the sessions list
+export const revokeSessionById = async (
+  req: AuthenticatedRequest,
+  res: Response<ResponseType<any>>
+): Promise<void> => {
+  try {
+    const id = Number(req.params.id);
+    const revoked =
+      Number.isSafeInteger(id) &&
+      id > 0 &&
+      (await revokeSession(req.data?.id || 0, id, SessionRevokeReason.REVOKED));
+    if (!revoked) {
+      throw new ErrorType(
+        "NotFoundError",
+        "Session not found",
+        statusCode.NOT_FOUND
+      );
+    }
+    if (id === req.data?.sid) {
+      await blacklistCurrentToken(req);
+    }
+    res.status(statusCode.OK).json({
+      status: true,
+      message: "Session logged out successfully",
+    });
+  } catch (error: any) {
+    sendSessionError(res, error, "Error logging out session");
+  }
+};
@@ -0,0 +1,188 @@
+import { Response } from "express";
+import statusCode from "../../constants/statusCode";
+import { findUserByIdRepo } from "../../repositories/commonRepo/user.repository";
+import {
+  deleteUserTwoFactorRepo,
+  getUserTwoFactorRepo,
+} from "../../repositories/commonRepo/twoFactor.repository";
+import {
+  activateTwoFactor,
+  isTwoFactorEnabled,
+  isTwoFactorRequired,
+  parseTwoFactorInput,
+  regenerateBackupCodes,
+  sendTwoFactorEmailOtp,
+  startTwoFactorSetup,
+  verifySecondFactor,
+} from "../../services/twoFactor.service";
+import { AuthenticatedRequest } from "../../types/AuthenticateRequest.type";
+import { ErrorType } from "../../types/Error.type";
+import { ResponseType } from "../../types/Response.type";
+import { comparePassword } from "../../utils/utils";
+
+const sendTwoFactorError = (
+  res: Response<ResponseType<any>>,
+  error: any,
+  fallbackMessage: string
+) => {
+  const errorResponse =
+    error instanceof ErrorType && typeof error.code === "number"
+      ? error
+      : new ErrorType(
+          error.name || "UnknownError",
+          error.message || fallbackMessage,
+          statusCode.INTERNAL_SERVER_ERROR
+        );
+  res.status(errorResponse.code).json({
+    status: false,
+    message: errorResponse.message,
+    error: errorResponse.name,
+  });
+};
+
+const getCurrentUser = async (req: AuthenticatedRequest) => {
+  const user = req.data?.id ? await findUserByIdRepo(req.data.id) : null;
+  if (!user || !user.id) {
+    throw new ErrorType(
+      "UnauthorizedError",
+      "Authentication required",
+      statusCode.UNAUTHORIZED
+    );
+  }
+  return { ...user, id: user.id };
+};
+
+// Re-authentication for sensitive changes: the password plus a second factor
+const reauthenticate = async (req: AuthenticatedRequest) => {
+  const user = await getCurrentUser(req);
+  const { password } = req.body || {};
+  const { method, code } = parseTwoFactorInput(req.body);
+  const isPasswordValid =
+    typeof password === "string" &&
+    (await comparePassword(password, user.password?.toString() || ""));
+  if (!isPasswordValid) {
+    throw new ErrorType(
+      "AuthenticationError",
+      "Incorrect password",
+      statusCode.UNAUTHORIZED
+    );
+  }
+  await verifySecondFactor(user, method, code);
+  return user;
+};
+
+export const getTwoFactorStatus = async (
+  req: AuthenticatedRequest,
+  res: Response<ResponseType<any>>
+): Promise<void> => {
+  try {
+    const user = await getCurrentUser(req);
+    const twoFactor = await getUserTwoFactorRepo(user.id);
+    const enabled = isTwoFactorEnabled(twoFactor);
+    res.status(statusCode.OK).json({
+      status: true,
+      message: "Two-factor status retrieved successfully",
+      data: {
+        enabled,
+        enabledAt: enabled ? twoFactor.enabledAt : null,
+        backupCodesRemaining: enabled ? twoFactor.backupCodes.length : 0,
+        required: await isTwoFactorRequired({ id: user.id, role: req.data?.role }),
+      },
+    });
+  } catch (error: any) {
+    sendTwoFactorError(res, error, "Error fetching two-factor status");
+  }
+};
+
+export const setupTwoFactor = async (
+  req: AuthenticatedRequest,
+  res: Response<ResponseType<any>>
+): Promise<void> => {
+  try {
+    const user = await getCurrentUser(req);
+    const setup = await startTwoFactorSetup(user);
+    res.status(statusCode.OK).json({
+      status: true,
+      message:
+        "Scan the QR code with your authenticator app, then confirm with a code",
+      data: setup,
+    });
+  } catch (error: any) {
+    sendTwoFactorError(res, error, "Error starting two-factor setup");
+  }
+};
+
+export const enableTwoFactor = async (
+  req: AuthenticatedRequest,
+  res: Response<ResponseType<any>>
+): Promise<void> => {
+  try {
+    const user = await getCurrentUser(req);
+    const { code } = parseTwoFactorInput({ code: req.body?.code });
+    const backupCodes = await activateTwoFactor(user.id, code);
+    res.status(statusCode.OK).json({
+      status: true,
+      message:
+        "Two-factor authentication enabled, store the backup codes somewhere safe as they will not be shown again",
+      data: { backupCodes },
+    });
+  } catch (error: any) {
+    sendTwoFactorError(res, error, "Error enabling two-factor authentication");
+  }
+};
+
+export const sendTwoFactorEmailCode = async (
+  req: AuthenticatedRequest,
+  res: Response<ResponseType<any>>
+): Promise<void> => {
+  try {
+    const user = await getCurrentUser(req);
+    await sendTwoFactorEmailOtp(user);
+    res.status(statusCode.OK).json({
+      status: true,
+      message: "Verification code sent to your email",
+    });
+  } catch (error: any) {
+    sendTwoFactorError(res, error, "Error sending verification code");
+  }
+};
+
+export const regenerateTwoFactorBackupCodes = async (
+  req: AuthenticatedRequest,
+  res: Response<ResponseType<any>>
+): Promise<void> => {
+  try {
+    const user = await reauthenticate(req);
+    const backupCodes = await regenerateBackupCodes(user.id);
+    res.status(statusCode.OK).json({
+      status: true,
+      message: "New backup codes generated, the previous ones no longer work",
+      data: { backupCodes },
+    });
+  } catch (error: any) {
+    sendTwoFactorError(res, error, "Error generating backup codes");
+  }
+};
+
+export const disableTwoFactor = async (
+  req: AuthenticatedRequest,
+  res: Response<ResponseType<any>>
+): Promise<void> => {
+  try {
+    if (await isTwoFactorRequired({ id: req.data?.id || 0, role: req.data?.role })) {
+      throw new ErrorType(
+        "TwoFactorRequiredError",
+        "Two-factor authentication is mandatory for your account",
+        statusCode.FORBIDDEN
+      );
+    }
+    const user = await reauthenticate(req);
+    await deleteUserTwoFactorRepo(user.id);
+    res.status(statusCode.OK).json({
+      status: true,
+      message: "Two-factor authentication disabled",
+    });
+  } catch (error: any) {
+    sendTwoFactorError(res, error, "Error disabling two-factor authentication");
+  }
+};
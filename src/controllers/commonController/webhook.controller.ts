@@ -0,0 +1,292 @@
+import { Response } from "express";
+import crypto from "crypto";
+import statusCode from "../../constants/statusCode";
+import { webhookConfig } from "../../config/webhook.config";
+import {
+  WebhookDeliveryStatus,
+  WebhookEvent,
+} from "../../enums/webhook.enum";
+import { WebhookEndpointAttributes } from "../../interfaces/Webhook.interface";
+import {
+  countWebhookEndpointsRepo,
+  createTestWebhookDeliveryRepo,
+  createWebhookEndpointRepo,
+  deleteWebhookEndpointRepo,
+  getWebhookDeliveryListRepo,
+  getWebhookDeliveryRepo,
+  getWebhookEndpointRepo,
+  getWebhookEndpointsRepo,
+  replayWebhookDeliveryRepo,
+  updateWebhookEndpointRepo,
+} from "../../repositories/commonRepo/webhook.repository";
+import { deliverWebhook } from "../../services/webhookDispatcher.service";
+import { AuthenticatedRequest } from "../../types/AuthenticateRequest.type";
+import { ErrorType } from "../../types/Error.type";
+import { assertPublicUrl } from "../../utils/outboundRequest";
+import { ResponseType } from "../../types/Response.type";
+
+const WEBHOOK_EVENTS = Object.values(WebhookEvent) as string[];
+
+const sendWebhookError = (
+  res: Response<ResponseType<any>>,
+  error: any,
+  fallbackMessage: string
+) => {
+  const errorResponse =
+    error instanceof ErrorType && typeof error.code === "number"
+      ? error
+      : new ErrorType(
+          error.name || "UnknownError",
+          error.message || fallbackMessage,
+          statusCode.INTERNAL_SERVER_ERROR
+        );
+  res.status(errorResponse.code).json({
+    status: false,
+    message: errorResponse.message,
+    error: errorResponse.name,
+  });
+};
+
+// The secret is only sent back when the endpoint is created
+const toPublicEndpoint = (endpoint: WebhookEndpointAttributes) => ({
+  id: endpoint.id,
+  url: endpoint.url,
+  events: endpoint.events,
+  description: endpoint.description,
+  lowBalanceThreshold:
+    endpoint.lowBalanceThreshold === null ||
+    endpoint.lowBalanceThreshold === undefined
+      ? null
+      : Number(endpoint.lowBalanceThreshold),
+  isActive: endpoint.isActive,
+  createdAt: endpoint.createdAt,
+  updatedAt: endpoint.updatedAt,
+});
+
+const parseEndpointId = (value: string): number => {
+  const id = Number(value);
+  if (!Number.isSafeInteger(id) || id <= 0) {
+    throw new ErrorType(
+      "ValidationError",
+      "Invalid webhook endpoint id",
+      statusCode.BAD_REQUEST
+    );
+  }
+  return id;
+};
+
+const validateEvents = (events: unknown): string[] => {
+  if (
+    !Array.isArray(events) ||
+    !events.length ||
+    !events.every((event) => WEBHOOK_EVENTS.includes(event))
+  ) {
+    throw new ErrorType(
+      "ValidationError",
+      `events must be a non-empty list of: ${WEBHOOK_EVENTS.join(", ")}`,
+      statusCode.BAD_REQUEST
+    );
+  }
+  return [...new Set<string>(events)];
+};
+
+const validateThreshold = (threshold: unknown): number | null => {
+  if (threshold === undefined || threshold === null) return null;
+  const value = Number(threshold);
+  if (!Number.isFinite(value) || value < 0) {
+    throw new ErrorType(
+      "ValidationError",
+      "lowBalanceThreshold must be a positive number",
+      statusCode.BAD_REQUEST
+    );
+  }
+  return value;
+};
+
+export const createWebhookEndpoint = async (
+  req: AuthenticatedRequest,
+  res: Response<ResponseType<any>>
+): Promise<void> => {
+  try {
+    const userId = req.data?.id || 0;
+    const { url, events, description, lowBalanceThreshold } = req.body || {};
+    const data = {
+      url: await assertPublicUrl(url),
+      events: validateEvents(events),
+      description: description ? String(description).slice(0, 255) : null,
+      lowBalanceThreshold: validateThreshold(lowBalanceThreshold),
+    };
+
+    if (
+      (await countWebhookEndpointsRepo(userId)) >=
+      webhookConfig.maxEndpointsPerUser
+    ) {
+      throw new ErrorType(
+        "LimitExceededError",
+        `You can register at most ${webhookConfig.maxEndpointsPerUser} webhook endpoints`,
+        statusCode.BAD_REQUEST
+      );
+    }
+
+    const secret = `whsec_${crypto.randomBytes(24).toString("hex")}`;
+    const endpoint = await createWebhookEndpointRepo({
+      ...data,
+      userId,
+      secret,
+      isActive: true,
+    });
+    res.status(statusCode.CREATED).json({
+      status: true,
+      message:
+        "Webhook endpoint created, copy the secret now as it will not be shown again",
+      data: { ...toPublicEndpoint(endpoint), secret },
+    });
+  } catch (error: any) {
+    sendWebhookError(res, error, "Error creating webhook endpoint");
+  }
+};
+
+export const getWebhookEndpoints = async (
+  req: AuthenticatedRequest,
+  res: Response<ResponseType<any>>
+): Promise<void> => {
+  try {
+    const endpoints = await getWebhookEndpointsRepo(req.data?.id || 0);
+    res.status(statusCode.OK).json({
+      status: true,
+      message: "Webhook endpoints retrieved successfully",
+      data: endpoints.map(toPublicEndpoint),
+    });
+  } catch (error: any) {
+    sendWebhookError(res, error, "Error fetching webhook endpoints");
+  }
+};
+
+export const updateWebhookEndpoint = async (
+  req: AuthenticatedRequest,
+  res: Response<ResponseType<any>>
+): Promise<void> => {
+  try {
+    const id = parseEndpointId(req.params.id);
+    const { url, events, description, lowBalanceThreshold, isActive } =
+      req.body || {};
+    const changes: Parameters<typeof updateWebhookEndpointRepo>[2] = {};
+    if (url !== undefined) changes.url = await assertPublicUrl(url);
+    if (events !== undefined) changes.events = validateEvents(events);
+    if (description !== undefined) {
+      changes.description = description
+        ? String(description).slice(0, 255)
+        : null;
+    }
+    if (lowBalanceThreshold !== undefined) {
+      changes.lowBalanceThreshold = validateThreshold(lowBalanceThreshold);
+    }
+    if (isActive !== undefined) changes.isActive = Boolean(isActive);
+
+    const endpoint = await updateWebhookEndpointRepo(
+      id,
+      req.data?.id || 0,
+      changes
+    );
+    res.status(statusCode.OK).json({
+      status: true,
+      message: "Webhook endpoint updated successfully",
+      data: toPublicEndpoint(endpoint),
+    });
+  } catch (error: any) {
+    sendWebhookError(res, error, "Error updating webhook endpoint");
+  }
+};
+
+export const deleteWebhookEndpoint = async (
+  req: AuthenticatedRequest,
+  res: Response<ResponseType<any>>
+): Promise<void> => {
+  try {
+    const id = parseEndpointId(req.params.id);
+    const deleted = await deleteWebhookEndpointRepo(id, req.data?.id || 0);
+    if (!deleted) {
+      throw new ErrorType(
+        "NotFoundError",
+        "Webhook endpoint not found",
+        statusCode.NOT_FOUND
+      );
+    }
+    res.status(statusCode.OK).json({
+      status: true,
+      message: "Webhook endpoint deleted successfully",
+    });
+  } catch (error: any) {
+    sendWebhookError(res, error, "Error deleting webhook endpoint");
+  }
+};
+
+// Send a webhook.test event now and answer with the logged delivery
+export const sendTestWebhookEvent = async (
+  req: AuthenticatedRequest,
+  res: Response<ResponseType<any>>
+): Promise<void> => {
+  try {
+    const id = parseEndpointId(req.params.id);
+    const endpoint = await getWebhookEndpointRepo(id, req.data?.id || 0);
+    const delivery = await createTestWebhookDeliveryRepo(endpoint);
+    // A failed test is not retried, the user fixes the endpoint and tests again
+    await deliverWebhook(delivery, endpoint, false);
+    const result = await getWebhookDeliveryRepo(delivery.id || 0);
+    const delivered = result?.status === WebhookDeliveryStatus.DELIVERED;
+    res.status(statusCode.OK).json({
+      status: delivered,
+      message: delivered
+        ? "Test event delivered"
+        : `Test event failed: ${result?.lastError || "unknown error"}`,
+      data: result,
+    });
+  } catch (error: any) {
+    sendWebhookError(res, error, "Error sending test event");
+  }
+};
+
+export const getWebhookDeliveries = async (
+  req: AuthenticatedRequest,
+  res: Response<ResponseType<any>>
+): Promise<void> => {
+  try {
+    const { userId, endpointId, event, status, page, limit } = req.body;
+    const isAdmin = req.data?.role.id === 1;
+    const result = await getWebhookDeliveryListRepo({
+      userId: isAdmin ? Number(userId) || undefined : req.data?.id,
+      endpointId: Number(endpointId) || undefined,
+      event: event || undefined,
+      status: status || undefined,
+      page: Number(page) || undefined,
+      limit: Number(limit) || undefined,
+    });
+    res.status(statusCode.OK).json({
+      status: true,
+      message: "Webhook deliveries retrieved successfully",
+      data: result,
+    });
+  } catch (error: any) {
+    sendWebhookError(res, error, "Error fetching webhook deliveries");
+  }
+};
+
+export const retryWebhookDelivery = async (
+  req: AuthenticatedRequest,
+  res: Response<ResponseType<any>>
+): Promise<void> => {
+  try {
+    const isAdmin = req.data?.role.id === 1;
+    const delivery = await replayWebhookDeliveryRepo(
+      Number(req.params.id) || 0,
+      isAdmin ? undefined : req.data?.id
+    );
+    res.status(statusCode.OK).json({
+      status: true,
+      message: "Webhook delivery queued for retry",
+      data: delivery,
+    });
+  } catch (error: any) {
+    sendWebhookError(res, error, "Error retrying webhook delivery");
+  }
+};
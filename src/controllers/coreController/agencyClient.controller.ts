@@ -0,0 +1,113 @@
+import { Response } from "express";
+import statusCode from "../../constants/statusCode";
+import { AuthenticatedRequest } from "../../types/AuthenticateRequest.type";
+import { ResponseType } from "../../types/Response.type";
+import { ErrorType } from "../../types/Error.type";
+import {
+  getAgencyClientCampaignsRepo,
+  getAgencyClientListRepo,
+  getAgencyClientSummariesRepo,
+} from "../../repositories/coreRepo/agencyClient.repository";
+import { topUpClientWallet } from "../../services/agencyClient.service";
+
+const RECENT_CAMPAIGNS_LIMIT = 10;
+
+// Routes below run after agencyScope, which sets req.agency and req.client
+
+export const getAgencyClientList = async (
+  req: AuthenticatedRequest,
+  res: Response<ResponseType<any>>
+): Promise<void> => {
+  try {
+    const { search, page, limit } = req.body;
+    const result = await getAgencyClientListRepo(req.agency?.id || 0, {
+      search: typeof search === "string" ? search.trim() : undefined,
+      page: Number(page) || undefined,
+      limit: Number(limit) || undefined,
+    });
+    res.status(statusCode.OK).json({
+      status: true,
+      message: "Clients retrieved successfully",
+      data: result,
+    });
+  } catch (error: any) {
+    res.status(statusCode.INTERNAL_SERVER_ERROR).json({
+      status: false,
+      message: "Error fetching clients",
+      error: error.message,
+    });
+  }
+};
+
+export const getAgencyClient = async (
+  req: AuthenticatedRequest,
+  res: Response<ResponseType<any>>
+): Promise<void> => {
+  try {
+    const client = req.client!;
+    const [[summary], campaigns] = await Promise.all([
+      getAgencyClientSummariesRepo([client]),
+      getAgencyClientCampaignsRepo(client.id!, RECENT_CAMPAIGNS_LIMIT),
+    ]);
+    res.status(statusCode.OK).json({
+      status: true,
+      message: "Client retrieved successfully",
+      data: { ...summary, campaigns },
+    });
+  } catch (error: any) {
+    res.status(statusCode.INTERNAL_SERVER_ERROR).json({
+      status: false,
+      message: "Error fetching client",
+      error: error.message,
+    });
+  }
+};
+
+export const topUpAgencyClient = async (
+  req: AuthenticatedRequest,
+  res: Response<ResponseType<any>>
+): Promise<void> => {
+  try {
+    const result = await topUpClientWallet(
+      req.agency!,
+      req.client!,
+      Number(req.body?.amount)
+    );
+    const [summary] = await getAgencyClientSummariesRepo([req.client!]);
+    res.status(statusCode.OK).json({
+      status: true,
+      message: "Client wallet topped up successfully",
+      data: { ...result, client: summary },
+    });
+  } catch (error: any) {
+    const errorResponse =
+      error instanceof ErrorType && typeof error.code === "number"
+        ? error
+        : new ErrorType(
+            error.name || "UnknownError",
+            error.message || "Error topping up client wallet",
+            statusCode.INTERNAL_SERVER_ERROR
+          );
+    res.status(errorResponse.code).json({
+      status: false,
+      message: errorResponse.message,
+      error: errorResponse.name,
+    });
+  }
+};
+
+// Run a campaign handler for the client in the URL, whatever userId the body holds
+export const onBehalfOfClient =
+  (
+    handler: (
+      req: AuthenticatedRequest,
+      res: Response<ResponseType<any>>
+    ) => Promise<void>
+  ) =>
+  async (
+    req: AuthenticatedRequest,
+    res: Response<ResponseType<any>>
+  ): Promise<void> => {
+    req.body = { ...req.body, userId: req.client!.id };
+    await handler(req, res);
+  };
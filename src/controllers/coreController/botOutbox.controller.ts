@@ -0,0 +1,161 @@
+import { Request, Response } from "express";
+import statusCode from "../../constants/statusCode";
+import {
+  getBotOutboxByIdRepo,
+  getBotOutboxListRepo,
+  replayBotOutboxRepo,
+  replayDeadBotOutboxRepo,
+} from "../../repositories/coreRepo/botOutbox.repository";
+import { BotOutboxAttributes } from "../../interfaces/BotOutbox.interface";
+import { BotOutboxStatus } from "../../enums/botOutboxStatus.enum";
+import { ResponseType } from "../../types/Response.type";
+import { ErrorType } from "../../types/Error.type";
+import { getStaleLockCutoff } from "../../services/botOutbox.service";
+
+// Search outbox messages with filters
+export const searchBotOutbox = async (
+  req: Request,
+  res: Response<
+    ResponseType<{ messages: BotOutboxAttributes[]; total: number }>
+  >
+): Promise<void> => {
+  try {
+    const { campaignId, endpoint, status, page, limit } = req.body;
+
+    if (
+      status &&
+      !Object.values(BotOutboxStatus).includes(status as BotOutboxStatus)
+    ) {
+      res.status(statusCode.BAD_REQUEST).json({
+        status: false,
+        message: `Valid status is required (${Object.values(
+          BotOutboxStatus
+        ).join(", ")})`,
+        error: "Invalid field",
+      });
+      return;
+    }
+
+    const { messages, total } = await getBotOutboxListRepo({
+      campaignId: campaignId ? Number(campaignId) : undefined,
+      endpoint: endpoint as string | undefined,
+      status: status as BotOutboxStatus | undefined,
+      page: page as number | undefined,
+      limit: limit as number | undefined,
+    });
+
+    res.status(statusCode.OK).json({
+      status: true,
+      message: "Outbox messages retrieved successfully",
+      data: { messages, total },
+    });
+  } catch (error: any) {
+    res.status(statusCode.INTERNAL_SERVER_ERROR).json({
+      status: false,
+      message: "Error fetching outbox messages",
+      error: error.message,
+    });
+  }
+};
+
+// Get one outbox message by ID
+export const getBotOutboxById = async (
+  req: Request,
+  res: Response<ResponseType<BotOutboxAttributes>>
+): Promise<void> => {
+  try {
+    const id = Number(req.params.id);
+    if (isNaN(id)) {
+      res.status(statusCode.BAD_REQUEST).json({
+        status: false,
+        message: "Invalid outbox message ID",
+        error: "Invalid field",
+      });
+      return;
+    }
+
+    const message = await getBotOutboxByIdRepo(id);
+    if (!message) {
+      res.status(statusCode.NOT_FOUND).json({
+        status: false,
+        message: "Outbox message not found",
+        error: "Resource not found",
+      });
+      return;
+    }
+
+    res.status(statusCode.OK).json({
+      status: true,
+      message: "Outbox message retrieved successfully",
+      data: message,
+    });
+  } catch (error: any) {
+    res.status(statusCode.INTERNAL_SERVER_ERROR).json({
+      status: false,
+      message: "Error fetching outbox message",
+      error: error.message,
+    });
+  }
+};
+
+// Re-queue one dead-lettered message or one whose dispatcher died
+export const replayBotOutbox = async (
+  req: Request,
+  res: Response<ResponseType<BotOutboxAttributes>>
+): Promise<void> => {
+  try {
+    const id = Number(req.params.id);
+    if (isNaN(id)) {
+      res.status(statusCode.BAD_REQUEST).json({
+        status: false,
+        message: "Invalid outbox message ID",
+        error: "Invalid field",
+      });
+      return;
+    }
+
+    const message = await replayBotOutboxRepo(id, getStaleLockCutoff());
+    res.status(statusCode.OK).json({
+      status: true,
+      message: "Outbox message queued for replay",
+      data: message,
+    });
+  } catch (error: any) {
+    const errorResponse =
+      error instanceof ErrorType
+        ? error
+        : new ErrorType(
+            "UnknownError",
+            "Failed to replay outbox message",
+            statusCode.INTERNAL_SERVER_ERROR
+          );
+    res.status(errorResponse.code || statusCode.INTERNAL_SERVER_ERROR).json({
+      status: false,
+      message: errorResponse.message,
+    });
+  }
+};
+
+// Re-queue all dead-lettered messages, optionally for one campaign
+export const replayDeadBotOutbox = async (
+  req: Request,
+  res: Response<ResponseType<{ replayed: number }>>
+): Promise<void> => {
+  try {
+    const { campaignId } = req.body;
+    const replayed = await replayDeadBotOutboxRepo(
+      campaignId ? Number(campaignId) : undefined
+    );
+    res.status(statusCode.OK).json({
+      status: true,
+      message: "Dead outbox messages queued for replay",
+      data: { replayed },
+    });
+  } catch (error: any) {
+    res.status(statusCode.INTERNAL_SERVER_ERROR).json({
+      status: false,
+      message: "Error replaying outbox messages",
+      error: error.message,
+    });
+  }
+};
@@ -7,23 +7,32 @@ import {
   continueCampaignRepo,
   pauseCampaignRepo,
   cancelCampaignRepo,
+  CANCELLABLE_CAMPAIGN_STATUSES,
   getCampaignListForLLMRepo,
+  getCampaignForUpdateRepo,
 } from "../../repositories/coreRepo/campagin.repository"; // Adjust path
 import { ResponseType } from "../../types/Response.type"; // Adjust path
-import { CampaignAttributes } from "../../interfaces/Campaign.interface";
-import { CampaignStatus } from "../../enums/campaign.enum";
+import {
+  CampaignAttributes,
+  CampaignUpdateInput,
+} from "../../interfaces/Campaign.interface";
+import {
+  CampaignRecurrence,
+  CampaignStatus,
+} from "../../enums/campaign.enum";
 import { DistributionType } from "../../enums/distribution.enum";
 import { LinkStatus } from "../../enums/linkStatus.enum";
 import { sequelizeSystem } from "../../database/mySQL/config.database";
 import { Transaction } from "sequelize";
 import { KeywordAttributes } from "../../interfaces/Keyword.interface";
 import { Campaign, Keyword, Link } from "../../models/index.model";
-import { baseApiPython, baseApiPythonUpdate } from "../../config/botAPI.config";
+import { botApi } from "../../config/botAPI.config";
 import { getConfigByNameRepo } from "../../repositories/commonRepo/config.repository";
 import { ConfigApp } from "../../constants/config.constants";
 import { ErrorType } from "../../types/Error.type";
 import {
   compareWalletAmount,
+  getWalletByUserIdForUpdateRepo,
   getWalletByUserIdRepo,
 } from "../../repositories/moneyRepo/wallet.repository";
 import { GoogleMapReviewAttributes } from "../../interfaces/GoogleMapReview.interface";
@@ -31,19 +40,46 @@ import { GoogleMapReviewAttributes } from "../../interfaces/GoogleMapReview.inte
 import { createTransactionRepo } from "../../repositories/moneyRepo/transaction.repository";
 import { TransactionStatus } from "../../enums/transactionStatus.enum";
 import { TransactionType } from "../../enums/transactionType.enum";
-import { calculateCampaignMetrics, formatDate } from "../../utils/utils";
+import {
+  addRecurrenceInterval,
+  calculateCampaignMetrics,
+  formatDate,
+} from "../../utils/utils";
 import { keywordStatus } from "../../enums/keywordStatus.enum";
 import { AuthenticatedRequest } from "../../types/AuthenticateRequest.type";
+import { JwtPayload } from "../../types/Jwt.type";
 import { createNotificationRepo } from "../../repositories/commonRepo/notification.repository";
 import { notificationType } from "../../enums/notification.enum";
 import { logger } from "../../config/logger.config";
 import DirectLink from "../../models/DirectLink.model";
 import { DirectLinkAttributes } from "../../interfaces/DirectLink.interface";
+import { LinkAttributes } from "../../interfaces/Link.interface";
 import { KeywordType } from "../../enums/keywordType.enum";
 import { IndexStatus } from "../../enums/indexStatus.enum";
 import { DirectLinkType } from "../../enums/directLinkType.enum";
 import GoogleMapReview from "../../models/GoogleMapReview.model";
 import { GoogleMapsReviewStatus } from "../../enums/googleMapsReviewStatus.enum";
+import { enqueueBotOutboxRepo } from "../../repositories/coreRepo/botOutbox.repository";
+import { getSettlementByCampaignIdRepo } from "../../repositories/moneyRepo/settlement.repository";
+import {
+  createWalletHoldRepo,
+  getAvailableLedgerBalanceRepo,
+} from "../../repositories/moneyRepo/walletHold.repository";
+import {
+  adjustCampaignHold,
+  captureCampaignHold,
+} from "../../services/walletHold.service";
+import {
+  applyRefundOverride,
+  calculateCampaignSettlement,
+  getCampaignForSettlement,
+  saveCampaignSettlement,
+  summarizeSettlement,
+} from "../../services/campaignSettlement.service";
+import {
+  publishCampaignRefund,
+  publishCampaignStatusChange,
+} from "../../services/campaignProgress.service";
 // Get campaign list with filters
 
 export const getCampaignList = async (
@@ -244,6 +280,21 @@ export const createCampaign = async (
       return;
     }
 
+    const recurrenceRule = parseRecurrenceRule(
+      req.body,
+      Number(campaignTypeId),
+      start,
+      end
+    );
+    if (recurrenceRule.error) {
+      res.status(statusCode.BAD_REQUEST).json({
+        status: false,
+        message: recurrenceRule.error,
+        error: "Invalid recurrence",
+      });
+      return;
+    }
+
     // Calculate costs and validate wallet
     const { totalCost, totalTraffic, campaignDurationInDays } =
       await calculateCampaignCosts(keywords, links, start, end);
@@ -280,6 +331,7 @@ export const createCampaign = async (
       currentDate,
       totalCost,
       campaignDurationInDays,
+      ...recurrenceRule.rule,
     });
 
     // Fetch campaign with associations
@@ -347,6 +399,52 @@ const validateRequiredFields = (campaignTypeId: number, data: any): boolean => {
   return requiredFields.every((field) => data[field]);
 };
 
+// Keyword campaigns, whose items copyCampaign carries over to the next period
+const RECURRING_CAMPAIGN_TYPE_IDS = [1, 5];
+
+// Validate the optional recurrence rule; a period longer than its interval would overlap the next one
+const parseRecurrenceRule = (
+  data: any,
+  campaignTypeId: number,
+  start: Date,
+  end: Date
+): {
+  rule?: {
+    recurrence: CampaignRecurrence;
+    recurrenceCount: number | null;
+    recurrenceUntil: Date | null;
+  };
+  error?: string;
+} => {
+  const { recurrence, recurrenceCount, recurrenceUntil } = data;
+  if (!recurrence) return {};
+  if (!Object.values(CampaignRecurrence).includes(recurrence)) {
+    return {
+      error: `recurrence must be one of ${Object.values(CampaignRecurrence).join(", ")}`,
+    };
+  }
+  if (!RECURRING_CAMPAIGN_TYPE_IDS.includes(campaignTypeId)) {
+    return { error: "Recurrence is not supported for this campaign type" };
+  }
+  if (!recurrenceCount && !recurrenceUntil) {
+    return { error: "recurrenceCount or recurrenceUntil is required" };
+  }
+  const count = recurrenceCount ? Number(recurrenceCount) : null;
+  if (count !== null && (!Number.isInteger(count) || count < 2)) {
+    return { error: "recurrenceCount must be an integer of at least 2" };
+  }
+  const until = recurrenceUntil ? new Date(recurrenceUntil) : null;
+  if (until && (isNaN(until.getTime()) || until <= start)) {
+    return { error: "recurrenceUntil must be a date after startDate" };
+  }
+  if (end > addRecurrenceInterval(start, recurrence)) {
+    return { error: `Campaign period is longer than the ${recurrence} interval` };
+  }
+  return {
+    rule: { recurrence, recurrenceCount: count, recurrenceUntil: until },
+  };
+};
+
 const validateDates = (startDate: string, endDate: string) => {
   const start = new Date(startDate);
   const end = new Date(endDate);
@@ -423,7 +521,10 @@ const getConfigValue = async (configName: string): Promise<number> => {
   return parseFloat(config.value);
 };
 
-const validateKeywords = (keywords: any[], res: Response): boolean => {
+export const validateKeywords = (
+  keywords: any[],
+  res: Response
+): boolean => {
   if (!keywords) return true;
   if (!Array.isArray(keywords)) {
     res.status(statusCode.BAD_REQUEST).json({
@@ -456,7 +557,7 @@ const validateKeywords = (keywords: any[], res: Response): boolean => {
   return true;
 };
 
-const validateLinks = (links: any[], res: Response): boolean => {
+export const validateLinks = (links: any[], res: Response): boolean => {
   if (!links) return true;
   if (!Array.isArray(links)) {
     res.status(statusCode.BAD_REQUEST).json({
@@ -500,6 +601,11 @@ const createCampaignWithTransaction = async (data: any) => {
             ? CampaignStatus.NOT_STARTED
             : CampaignStatus.ACTIVE,
         isDeleted: false,
+        recurrence: data.recurrence || null,
+        recurrenceCount: data.recurrenceCount || null,
+        recurrenceUntil: data.recurrenceUntil || null,
+        occurrence: data.occurrence || 1,
+        parentCampaignId: data.parentCampaignId || null,
       },
       transaction
     );
@@ -545,12 +651,7 @@ const createCampaignWithTransaction = async (data: any) => {
         transaction
       );
     }
-    await createTransaction(
-      data.userId,
-      campaign.id,
-      data.totalCost,
-      transaction
-    );
+    await createTransaction(data.userId, campaign, data.totalCost, transaction);
 
     return campaign;
   });
@@ -589,25 +690,62 @@ const createKeywords = async (
     };
 
     const newKeyword = await Keyword.create(keywordData, { transaction });
-    await baseApiPython("keyword/set", {
-      keywordId: newKeyword.id,
-      title: campaign.title,
-      keyword: newKeyword.name,
-      videoTitle: newKeyword.videoTitle || "",
-      urls: newKeyword.urls,
-      distribution: newKeyword.distribution,
-      traffic: newKeyword.traffic || 0,
-      device: campaign.device,
-      domain: campaign.domain,
-      timeOnSite: newKeyword.timeOnSite || 1,
-      keywordType: newKeyword.keywordType,
-      timeStart: campaign.startDate,
-      timeEnd: campaign.endDate,
-      searchTool: campaign.search,
-    });
+    // Delivered to the bot by the outbox dispatcher once the campaign is committed
+    await enqueueBotOutboxRepo(
+      {
+        campaignId: campaign.id,
+        endpoint: "keyword/set",
+        payload: {
+          keywordId: newKeyword.id,
+          title: campaign.title,
+          keyword: newKeyword.name,
+          videoTitle: newKeyword.videoTitle || "",
+          urls: newKeyword.urls,
+          distribution: newKeyword.distribution,
+          traffic: newKeyword.traffic || 0,
+          device: campaign.device,
+          domain: campaign.domain,
+          timeOnSite: newKeyword.timeOnSite || 1,
+          keywordType: newKeyword.keywordType,
+          timeStart: campaign.startDate,
+          timeEnd: campaign.endDate,
+          searchTool: campaign.search,
+        },
+      },
+      transaction
+    );
   }
 };
 
+// The bot identifies links by id, so re-sending them with another timeEnd reschedules them
+const getBotLinkPayload = (
+  campaign: CampaignAttributes,
+  link: LinkAttributes,
+  timeEnd: Date | string
+) => ({
+  linkId: link.id,
+  link: link.link,
+  timeStart: campaign.startDate,
+  timeEnd,
+});
+
+const getBotDirectLinkPayload = (
+  campaign: CampaignAttributes,
+  directLink: DirectLinkAttributes,
+  timeEnd: Date | string
+) => ({
+  directLinkId: directLink.id,
+  link: directLink.link,
+  traffic: directLink.traffic,
+  distribution: directLink.distribution,
+  device: campaign.device,
+  searchTool: campaign.search,
+  timeOnSite: directLink.timeOnSite || 1,
+  timeStart: campaign.startDate,
+  timeEnd,
+  directLinkType: directLink.type,
+});
+
 const createLinks = async (
   campaign: any,
   links: any[],
@@ -627,6 +765,7 @@ const createLinks = async (
     distribution: link.distribution,
     traffic: 0,
     cost: (linkCost || 1) * (campaignDurationInDays || 1),
+    billedDays: campaignDurationInDays || 1,
     anchorText: "",
     status: start > currentDate ? LinkStatus.INACTIVE : LinkStatus.ACTIVE,
     indexStatus: IndexStatus.NOT_INDEXED,
@@ -640,29 +779,29 @@ const createLinks = async (
     const createdLinks = await Link.bulkCreate(linkData, { transaction });
 
     // Format links data for Python API
-    const linksForPython = createdLinks.map((link) => ({
-      linkId: link.id,
-      link: link.link,
-      timeStart: campaign.startDate,
-      timeEnd: campaign.endDate,
-    }));
-    // Send all links to Python API in a single call
-    try {
-      await baseApiPython("link/set-multiple", linksForPython);
-    } catch (error: any) {
-      logger.error(`Failed to sync links with Python API: ${error.message}`);
-      throw error; // Re-throw to trigger rollback
-    }
+    const linksForPython = createdLinks.map((link) =>
+      getBotLinkPayload(campaign, link, campaign.endDate)
+    );
+    // Queue all links for the Python API in a single call
+    await enqueueBotOutboxRepo(
+      {
+        campaignId: campaign.id,
+        endpoint: "link/set-multiple",
+        payload: linksForPython,
+      },
+      transaction
+    );
   } catch (error: any) {
-    // If any error occurs (either in database or Python API), throw it to trigger transaction rollback
+    // If any error occurs, throw it to trigger transaction rollback
     logger.error(`Error in createLinks: ${error.message}`);
     throw error;
   }
 };
 
+// Scheduled campaigns only reserve their cost, the status job captures it on the start date
 const createTransaction = async (
   userId: number,
-  campaignId: number,
+  campaign: CampaignAttributes,
   totalCost: number,
   transaction: Transaction
 ) => {
@@ -671,11 +810,23 @@ const createTransaction = async (
     throw new Error("Wallet not found!");
   }
 
+  if (campaign.status === CampaignStatus.NOT_STARTED) {
+    await createWalletHoldRepo(
+      {
+        walletId: wallet.id || 0,
+        campaignId: campaign.id || 0,
+        amount: totalCost,
+      },
+      transaction
+    );
+    return;
+  }
+
   await createTransactionRepo(
     {
       walletId: wallet.id || 0,
       amount: totalCost,
-      referenceId: campaignId.toString(),
+      referenceId: String(campaign.id),
       status: TransactionStatus.COMPLETED,
       type: TransactionType.PAY_SERVICE,
     },
@@ -744,30 +895,20 @@ const createDirectLinks = async (
     const createdDirectLinks = await DirectLink.bulkCreate(directLinkData, {
       transaction,
     });
-    const pythonApiPromises = createdDirectLinks.map(async (directLink) => {
-      try {
-        await baseApiPython("direct-link/set", {
-          directLinkId: directLink.id,
-          link: directLink.link,
-          traffic: directLink.traffic,
-          distribution: directLink.distribution,
-          device: campaign.device,
-          searchTool: campaign.search,
-          timeOnSite: directLink.timeOnSite || 1,
-          timeStart: campaign.startDate,
-          timeEnd: campaign.endDate,
-          directLinkType: directLink.type,
-        });
-      } catch (error: any) {
-        logger.error(
-          `Failed to sync direct link ${directLink.id} with Python API: ${error.message}`
-        );
-        throw error; // Re-throw to trigger rollback
-      }
-    });
-
-    // Wait for all Python API calls to complete
-    await Promise.all(pythonApiPromises);
+    for (const directLink of createdDirectLinks) {
+      await enqueueBotOutboxRepo(
+        {
+          campaignId: campaign.id,
+          endpoint: "direct-link/set",
+          payload: getBotDirectLinkPayload(
+            campaign,
+            directLink,
+            campaign.endDate
+          ),
+        },
+        transaction
+      );
+    }
     return createdDirectLinks;
   } catch (error: any) {
     logger.error(`Error in createDirectLinks: ${error.message}`);
@@ -815,27 +956,24 @@ const createGoogleMapReviews = async (
       }
     );
 
-     const pythonApiPromises = createdGoogleMapReviews.map(async (googleMapsReview) => {
-      try {
-        await baseApiPython("google-maps-review/set", {
-          googleMapsReviewId: googleMapsReview.id,
-          content: googleMapsReview.content,
-          googleMapsUrl: googleMapsReview.googleMapsUrl,
-          stars: googleMapsReview.stars,
-          device: campaign.device,
-          timeStart: campaign.startDate,
-          timeEnd: campaign.endDate,
-        });
-      } catch (error: any) {
-        logger.error(
-          `Failed to sync direct link ${googleMapsReview.id} with Python API: ${error.message}`
-        );
-        throw error; // Re-throw to trigger rollback
-      }
-    });
-
-    // Wait for all Python API calls to complete
-    await Promise.all(pythonApiPromises);
+    for (const googleMapsReview of createdGoogleMapReviews) {
+      await enqueueBotOutboxRepo(
+        {
+          campaignId: campaign.id || null,
+          endpoint: "google-maps-review/set",
+          payload: {
+            googleMapsReviewId: googleMapsReview.id,
+            content: googleMapsReview.content,
+            googleMapsUrl: googleMapsReview.googleMapsUrl,
+            stars: googleMapsReview.stars,
+            device: campaign.device,
+            timeStart: campaign.startDate,
+            timeEnd: campaign.endDate,
+          },
+        },
+        transaction
+      );
+    }
     return createdGoogleMapReviews;
   } catch (error: any) {
     logger.error(`Error in createGoogleMapReviews: ${error.message}`);
@@ -971,6 +1109,26 @@ export const getCampaignById = async (
   }
 };
 
+// Queue the new end date of every keyword behind the campaign's earlier bot calls
+const enqueueKeywordTimeEnd = async (
+  campaignId: number,
+  keywords: KeywordAttributes[],
+  timeEnd: string,
+  transaction: Transaction
+): Promise<void> => {
+  for (const keyword of keywords) {
+    await enqueueBotOutboxRepo(
+      {
+        campaignId,
+        endpoint: "keyword/update",
+        method: "PUT",
+        payload: { keywordId: keyword.id, timeEnd },
+      },
+      transaction
+    );
+  }
+};
+
 export const pauseCampaign = async (
   req: AuthenticatedRequest,
   res: Response<ResponseType<any>>
@@ -1005,25 +1163,21 @@ export const pauseCampaign = async (
       });
       return;
     }
-    // Update Python API for keywords first
-    if (campaign.keywords && campaign.keywords.length > 0) {
-      const apiPromises = campaign.keywords.map(
-        async (keyword: KeywordAttributes) => {
-          const dataPython = {
-            keywordId: keyword.id,
-            timeEnd: formatDate(new Date()),
-          };
-          return baseApiPythonUpdate("keyword/update", dataPython);
-        }
-      );
-
-      // Wait for all Python API calls to complete
-      await Promise.all(apiPromises);
-    }
-
-    // Update campaign in your server after Python API calls
-    const updatedCampaign: boolean = await pauseCampaignRepo(campaignId);
+    // The bot is told through the outbox, after the campaign's queued calls
+    const updatedCampaign: boolean = await sequelizeSystem.transaction(
+      async (transaction: Transaction) => {
+        const paused = await pauseCampaignRepo(campaignId, transaction);
+        await enqueueKeywordTimeEnd(
+          campaignId,
+          campaign.keywords || [],
+          formatDate(new Date()),
+          transaction
+        );
+        return paused;
+      }
+    );
     if (updatedCampaign) {
+      await publishCampaignStatusChange(campaignId, CampaignStatus.PAUSED);
       res.status(statusCode.OK).json({
         status: true,
         message: "Pause campaign successfully",
@@ -1086,25 +1240,23 @@ export const getContinueCampaign = async (
       });
       return;
     }
-    // Update Python API for keywords first
-    if (campaign.keywords && campaign.keywords.length > 0) {
-      const apiPromises = campaign.keywords.map(
-        async (keyword: KeywordAttributes) => {
-          const dataPython = {
-            keywordId: keyword.id,
-            timeEnd: formatDate(campaign.endDate),
-          };
-          return baseApiPythonUpdate("keyword/update", dataPython);
-        }
-      );
-
-      // Wait for all Python API calls to complete
-      await Promise.all(apiPromises);
-    }
-
-    // Update campaign in your server after Python API calls
-    const updatedCampaign: boolean = await continueCampaignRepo(campaignId);
+    // A campaign paused before its start date is charged now that it runs;
+    // the bot is told through the outbox, after the campaign's queued calls
+    const updatedCampaign: boolean = await sequelizeSystem.transaction(
+      async (transaction: Transaction) => {
+        const continued = await continueCampaignRepo(campaignId, transaction);
+        await captureCampaignHold(campaignId, transaction);
+        await enqueueKeywordTimeEnd(
+          campaignId,
+          campaign.keywords || [],
+          formatDate(campaign.endDate),
+          transaction
+        );
+        return continued;
+      }
+    );
     if (updatedCampaign) {
+      await publishCampaignStatusChange(campaignId, CampaignStatus.ACTIVE);
       res.status(statusCode.OK).json({
         status: true,
         message: "Continue campaign successfully",
@@ -1147,12 +1299,29 @@ export const cancelCampaign = async (
       return;
     }
     const campaignId = parseInt(req.params.id, 10);
+    const { reason, refundAmount } = req.body || {};
 
-    // Fetch the campaign to get keywords and endDate
-    const campaign: CampaignAttributes | null = await getCampaignByIdRepo(
-      campaignId
-    ); // Assume a function to fetch campaign
-    if (!campaign) {
+    const hasOverride = refundAmount !== undefined && refundAmount !== null;
+    if (hasOverride && user.role.id === 2) {
+      res.status(statusCode.FORBIDDEN).json({
+        status: false,
+        message: "Only admins can override the refund amount",
+        error: "You not have permission",
+      });
+      return;
+    }
+    const overrideAmount = Number(refundAmount);
+    if (hasOverride && (!Number.isFinite(overrideAmount) || overrideAmount < 0)) {
+      res.status(statusCode.BAD_REQUEST).json({
+        status: false,
+        message: "refundAmount must be a positive number",
+        error: "Invalid field",
+      });
+      return;
+    }
+
+    const campaign = await getCampaignForSettlement(campaignId);
+    if (!campaign || campaign.isDeleted) {
       throw new ErrorType(
         "NotFoundError",
         "Campaign not found",
@@ -1167,53 +1336,1088 @@ export const cancelCampaign = async (
       });
       return;
     }
-    // Update Python API for keywords first
-    if (campaign.keywords && campaign.keywords.length > 0) {
-      const activeKeywords = campaign.keywords.filter(
-        (keyword: KeywordAttributes) => keyword.status === keywordStatus.ACTIVE
+    if (!CANCELLABLE_CAMPAIGN_STATUSES.includes(campaign.status)) {
+      throw new ErrorType(
+        "InvalidStatusError",
+        `Campaign with status ${campaign.status} cannot be cancelled`,
+        statusCode.BAD_REQUEST
       );
+    }
 
-      const apiPromises = activeKeywords.map(
-        async (keyword: KeywordAttributes) => {
-          const dataPython = {
-            keywordId: keyword.id,
-            timeEnd: formatDate(new Date()),
-          };
-          return baseApiPythonUpdate("keyword/update", dataPython);
-        }
+    // Undelivered value up to now: keyword and direct link traffic, link days
+    const stoppedAt = new Date();
+    let settlement = await calculateCampaignSettlement(campaign, stoppedAt);
+    if (hasOverride) {
+      if (overrideAmount > settlement.totalBilled) {
+        throw new ErrorType(
+          "ValidationError",
+          `refundAmount cannot exceed the ${settlement.totalBilled} credit billed for this campaign`,
+          statusCode.BAD_REQUEST
+        );
+      }
+      settlement = applyRefundOverride(settlement, overrideAmount);
+    }
+
+    const stopDate = formatDate(stoppedAt);
+    const saved = await sequelizeSystem.transaction(async (transaction: Transaction) => {
+      await cancelCampaignRepo(
+        campaignId,
+        {
+          endDate: stoppedAt,
+          cancelReason: reason ? String(reason) : null,
+          cancelledBy: user.id,
+        },
+        transaction
+      );
+      const existing = await getSettlementByCampaignIdRepo(
+        campaignId,
+        transaction
+      );
+      if (existing) {
+        throw new ErrorType(
+          "DuplicateSettlementError",
+          "Campaign has already been settled",
+          statusCode.CONFLICT
+        );
+      }
+      const result = await saveCampaignSettlement(
+        campaign,
+        settlement,
+        transaction
       );
 
-      // Wait for all Python API calls to complete
-      await Promise.all(apiPromises);
+      // Every item is stopped on the bot today, whatever its current status
+      for (const keyword of campaign.keywords || []) {
+        await enqueueBotOutboxRepo(
+          {
+            campaignId,
+            endpoint: "keyword/update",
+            method: "PUT",
+            payload: { keywordId: keyword.id, timeEnd: stopDate },
+          },
+          transaction
+        );
+      }
+      if (campaign.links?.length) {
+        await enqueueBotOutboxRepo(
+          {
+            campaignId,
+            endpoint: "link/set-multiple",
+            payload: campaign.links.map((link) =>
+              getBotLinkPayload(campaign, link, stopDate)
+            ),
+          },
+          transaction
+        );
+      }
+      for (const directLink of campaign.directLinks || []) {
+        await enqueueBotOutboxRepo(
+          {
+            campaignId,
+            endpoint: "direct-link/set",
+            payload: getBotDirectLinkPayload(campaign, directLink, stopDate),
+          },
+          transaction
+        );
+      }
+      return result;
+    });
+
+    let content = `Campaign ${campaign.name} has been cancelled`;
+    if (reason) {
+      content += ` (${reason})`;
     }
-    // Update campaign in your server after Python API calls
-    const updatedCampaign: boolean = await cancelCampaignRepo(campaignId);
-    if (updatedCampaign) {
-      res.status(statusCode.OK).json({
-        status: true,
-        message: "Stop campaign successfully",
-      });
-    } else {
-      res.status(statusCode.BAD_REQUEST).json({
-        status: false,
-        message: "Stop campaign failed",
+    if (settlement.totalRefund > 0) {
+      content += saved.fromHold
+        ? `, ${settlement.totalRefund} reserved credit has been released`
+        : `, ${settlement.totalRefund} credit has been refunded`;
+    }
+    await createNotificationRepo({
+      userId: [campaign.userId],
+      name: campaign.name,
+      content,
+      type: notificationType.REFUND_MONEY,
+    });
+    await publishCampaignStatusChange(campaignId, CampaignStatus.CANCEL);
+    if (settlement.totalRefund > 0) {
+      publishCampaignRefund(campaignId, {
+        refundAmount: settlement.totalRefund,
+        fromHold: saved.fromHold,
       });
     }
-    return;
+
+    res.status(statusCode.OK).json({
+      status: true,
+      message: "Stop campaign successfully",
+      data: {
+        campaignId,
+        status: CampaignStatus.CANCEL,
+        cancelReason: reason || null,
+        refundAmount: settlement.totalRefund,
+        settlement,
+      },
+    });
   } catch (error: any) {
     const errorResponse =
-      error instanceof ErrorType
+      error instanceof ErrorType && typeof error.code === "number"
         ? error
         : new ErrorType(
-            "UnknownError",
-            "Failed to Stop campaign",
+            error.name || "UnknownError",
+            error.message || "Failed to Stop campaign",
             statusCode.INTERNAL_SERVER_ERROR
           );
-    res.status(errorResponse.code || statusCode.INTERNAL_SERVER_ERROR).json({
+    res.status(errorResponse.code).json({
       status: false,
       message: errorResponse.message,
+      error: errorResponse.name,
+    });
+  }
+};
+
+const EDITABLE_CAMPAIGN_STATUSES = [
+  CampaignStatus.NOT_STARTED,
+  CampaignStatus.ACTIVE,
+];
+
+// Traffic and time on site multiply the price, so both must be positive
+const hasValidTraffic = (item: { traffic?: unknown; timeOnSite?: unknown }) =>
+  Number.isInteger(item.traffic) &&
+  (item.traffic as number) > 0 &&
+  (item.timeOnSite === undefined ||
+    item.timeOnSite === null ||
+    Number(item.timeOnSite) >= 1);
+
+// Price keywords, links and direct links over a period with the current config
+const calculateItemsCost = async (
+  keywords: any[],
+  links: any[],
+  directLinks: any[],
+  start: Date,
+  end: Date
+): Promise<number> => {
+  const { totalCost } = await calculateCampaignCosts(
+    keywords,
+    links,
+    start,
+    end
+  );
+  if (!directLinks.length) return totalCost;
+  const directLinkCosts = await calculateDirectLinkCampaignCosts(
+    directLinks,
+    start,
+    end
+  );
+  return totalCost + directLinkCosts.totalCost;
+};
+
+/**
+ * Traffic the bot already delivered for the items being removed, which
+ * stays billed. Fetched before the update transaction so the bot calls do
+ * not hold the campaign and wallet row locks; ids of other campaigns are
+ * skipped and rejected later by the update.
+ */
+const getDeliveredTraffic = async (
+  campaignId: number,
+  data: CampaignUpdateInput,
+  currentDate: Date
+): Promise<{ keywords: Map<number, number>; directLinks: Map<number, number> }> => {
+  const delivered = {
+    keywords: new Map<number, number>(),
+    directLinks: new Map<number, number>(),
+  };
+  const keywordIds = (data.removeKeywordIds || []).map(Number);
+  const directLinkIds = (data.removeDirectLinkIds || []).map(Number);
+  if (!keywordIds.length && !directLinkIds.length) return delivered;
+
+  const campaign = await Campaign.findByPk(campaignId, {
+    attributes: ["id", "startDate"],
+  });
+  // Nothing has run before the start date, so removals are fully refunded
+  if (!campaign || new Date(campaign.startDate) >= currentDate) {
+    return delivered;
+  }
+  const range = {
+    time_start: formatDate(campaign.startDate),
+    time_end: formatDate(currentDate),
+  };
+  const keywords = keywordIds.length
+    ? await Keyword.findAll({
+        where: { id: keywordIds, campaignId, isDeleted: false },
+        attributes: ["id"],
+      })
+    : [];
+  for (const keyword of keywords) {
+    const result = await botApi.getKeywordSuccessCount({
+      keywordId: keyword.id,
+      ...range,
+    });
+    delivered.keywords.set(keyword.id, result.success_count);
+  }
+  const directLinks = directLinkIds.length
+    ? await DirectLink.findAll({
+        where: { id: directLinkIds, campaignId, isDeleted: false },
+        attributes: ["id"],
+      })
+    : [];
+  for (const directLink of directLinks) {
+    const result = await botApi.getDirectLinkSuccessCount({
+      directLinkId: directLink.id,
+      ...range,
+    });
+    delivered.directLinks.set(directLink.id, result.success_count);
+  }
+  return delivered;
+};
+
+// Removed items billed for the traffic delivered before today
+const getConsumedItems = <T extends { id?: number; traffic: number }>(
+  items: T[],
+  delivered: Map<number, number>,
+  label: string
+): T[] =>
+  items.map((item) => {
+    const count = delivered.get(item.id || 0);
+    if (count === undefined) {
+      throw new ErrorType(
+        "ConflictError",
+        `${label} ${item.id} changed during the update, please try again`,
+        statusCode.CONFLICT
+      );
+    }
+    return { ...item, traffic: Math.min(count, item.traffic) };
+  });
+
+const pickCampaignItems = <T extends { id?: number }>(
+  items: T[],
+  ids: number[] = [],
+  label: string
+): T[] =>
+  ids.map((id) => {
+    const item = items.find((candidate) => candidate.id === Number(id));
+    if (!item) {
+      throw new ErrorType(
+        "ValidationError",
+        `${label} ${id} does not belong to this campaign`,
+        statusCode.BAD_REQUEST
+      );
+    }
+    return item;
+  });
+
+const updateCampaignWithTransaction = async (
+  campaignId: number,
+  user: JwtPayload,
+  data: CampaignUpdateInput,
+  newEnd: Date | null,
+  currentDate: Date
+) => {
+  const delivered = await getDeliveredTraffic(campaignId, data, currentDate);
+  return await sequelizeSystem.transaction(async (transaction: Transaction) => {
+    const current = await getCampaignForUpdateRepo(campaignId, transaction);
+    if (!current) {
+      throw new ErrorType(
+        "NotFoundError",
+        "Campaign not found",
+        statusCode.NOT_FOUND
+      );
+    }
+    const { campaign } = current;
+    if (user.role.id === 2 && user.id !== campaign.userId) {
+      throw new ErrorType(
+        "ForbiddenError",
+        "You not have permission",
+        statusCode.FORBIDDEN
+      );
+    }
+    if (!EDITABLE_CAMPAIGN_STATUSES.includes(campaign.status)) {
+      throw new ErrorType(
+        "InvalidStatusError",
+        `Campaign with status ${campaign.status} cannot be edited`,
+        statusCode.BAD_REQUEST
+      );
+    }
+
+    const start = new Date(campaign.startDate);
+    const oldEnd = new Date(campaign.endDate);
+    const end = newEnd || oldEnd;
+    if (newEnd && newEnd <= oldEnd) {
+      throw new ErrorType(
+        "ValidationError",
+        "endDate can only be extended",
+        statusCode.BAD_REQUEST
+      );
+    }
+
+    const keywords = current.keywords.map((item) =>
+      item.get({ plain: true })
+    ) as KeywordAttributes[];
+    const links = current.links.map((item) =>
+      item.get({ plain: true })
+    ) as LinkAttributes[];
+    const directLinks = current.directLinks.map((item) =>
+      item.get({ plain: true })
+    ) as DirectLinkAttributes[];
+
+    const removedKeywords = pickCampaignItems(
+      keywords,
+      data.removeKeywordIds,
+      "Keyword"
+    );
+    const removedLinks = pickCampaignItems(links, data.removeLinkIds, "Link");
+    const removedDirectLinks = pickCampaignItems(
+      directLinks,
+      data.removeDirectLinkIds,
+      "Direct link"
+    );
+
+    const trafficUpdates = new Map<number, number>();
+    for (const update of data.updateKeywords || []) {
+      const [keyword] = pickCampaignItems(keywords, [update.id], "Keyword");
+      const traffic = Number(update.traffic);
+      if (removedKeywords.includes(keyword)) {
+        throw new ErrorType(
+          "ValidationError",
+          `Keyword ${keyword.id} cannot be removed and updated at the same time`,
+          statusCode.BAD_REQUEST
+        );
+      }
+      if (!Number.isInteger(traffic) || traffic <= keyword.traffic) {
+        throw new ErrorType(
+          "ValidationError",
+          `Traffic of keyword ${keyword.id} can only be raised above ${keyword.traffic}`,
+          statusCode.BAD_REQUEST
+        );
+      }
+      trafficUpdates.set(keyword.id || 0, traffic);
+    }
+
+    const remainingKeywords = keywords
+      .filter((keyword) => !removedKeywords.includes(keyword))
+      .map((keyword) => ({
+        ...keyword,
+        traffic: trafficUpdates.get(keyword.id || 0) ?? keyword.traffic,
+      }));
+    const remainingLinks = links.filter(
+      (link) => !removedLinks.includes(link)
+    );
+    const remainingDirectLinks = directLinks.filter(
+      (directLink) => !removedDirectLinks.includes(directLink)
+    );
+
+    // Nothing has run before the start date, so removals are fully refunded
+    let consumedCost = 0;
+    if (start < currentDate) {
+      consumedCost = await calculateItemsCost(
+        getConsumedItems(removedKeywords, delivered.keywords, "Keyword"),
+        removedLinks,
+        getConsumedItems(removedDirectLinks, delivered.directLinks, "Direct link"),
+        start,
+        currentDate < oldEnd ? currentDate : oldEnd
+      );
+    }
+
+    // Both sides use today's prices, so only the edited items change the cost
+    const oldCost = await calculateItemsCost(
+      keywords,
+      links,
+      directLinks,
+      start,
+      oldEnd
+    );
+    // Each new item must add to the cost; a negative price would refund credit
+    const addedItems = [
+      ...(data.addKeywords || []).map((keyword) => [[keyword], [], []]),
+      ...(data.addLinks || []).map((link) => [[], [link], []]),
+      ...(data.addDirectLinks || []).map((directLink) => [[], [], [directLink]]),
+    ];
+    for (const [addedKeywords, addedLinks, addedDirectLinks] of addedItems) {
+      const itemCost = await calculateItemsCost(
+        addedKeywords,
+        addedLinks,
+        addedDirectLinks,
+        start,
+        end
+      );
+      if (!(itemCost >= 0)) {
+        throw new ErrorType(
+          "ValidationError",
+          "New keywords, links and direct links cannot have a negative cost",
+          statusCode.BAD_REQUEST
+        );
+      }
+    }
+
+    const liveKeywords = [...remainingKeywords, ...(data.addKeywords || [])];
+    const liveLinks = [...remainingLinks, ...(data.addLinks || [])];
+    const liveDirectLinks = [
+      ...remainingDirectLinks,
+      ...(data.addDirectLinks || []),
+    ];
+    const newCost = await calculateItemsCost(
+      liveKeywords,
+      liveLinks,
+      liveDirectLinks,
+      start,
+      end
+    );
+    const costDelta = newCost + consumedCost - oldCost;
+
+    const wallet = await getWalletByUserIdForUpdateRepo(
+      campaign.userId,
+      transaction
+    );
+    if (!wallet) {
+      throw new ErrorType(
+        "NotFoundError",
+        "Wallet not found",
+        statusCode.NOT_FOUND
+      );
+    }
+    if (
+      costDelta > 0 &&
+      (await getAvailableLedgerBalanceRepo(wallet, transaction)) < costDelta
+    ) {
+      throw new ErrorType(
+        "InsufficientFundsError",
+        "Insufficient balance",
+        statusCode.BAD_REQUEST
+      );
+    }
+    // A campaign that has not started yet only moves its hold
+    const isHeld =
+      costDelta !== 0 &&
+      (await adjustCampaignHold(campaign.id, costDelta, transaction));
+    if (costDelta !== 0 && !isHeld) {
+      // The campaign id prefix keeps edits listed under their campaign
+      await createTransactionRepo(
+        {
+          walletId: wallet.id || 0,
+          amount: Math.abs(costDelta),
+          referenceId: `${campaign.id}-edit-${Date.now()}`,
+          status: TransactionStatus.COMPLETED,
+          type:
+            costDelta > 0
+              ? TransactionType.PAY_SERVICE
+              : TransactionType.REFUND_SERVICE,
+        },
+        transaction
+      );
+    }
+
+    if (newEnd) {
+      await campaign.update({ endDate: newEnd }, { transaction });
+    }
+
+    // Removed items are soft deleted and stopped on the bot today
+    const stopDate = formatDate(currentDate);
+    if (removedKeywords.length) {
+      await Keyword.update(
+        { isDeleted: true, status: keywordStatus.INACTIVE },
+        {
+          where: { id: removedKeywords.map((keyword) => keyword.id || 0) },
+          transaction,
+        }
+      );
+    }
+    if (removedLinks.length) {
+      await Link.update(
+        { isDeleted: true, status: LinkStatus.INACTIVE },
+        { where: { id: removedLinks.map((link) => link.id || 0) }, transaction }
+      );
+    }
+    if (removedDirectLinks.length) {
+      await DirectLink.update(
+        { isDeleted: true, status: LinkStatus.INACTIVE },
+        {
+          where: {
+            id: removedDirectLinks.map((directLink) => directLink.id || 0),
+          },
+          transaction,
+        }
+      );
+    }
+    for (const keyword of removedKeywords) {
+      await enqueueBotOutboxRepo(
+        {
+          campaignId: campaign.id,
+          endpoint: "keyword/update",
+          method: "PUT",
+          payload: { keywordId: keyword.id, timeEnd: stopDate },
+        },
+        transaction
+      );
+    }
+
+    for (const keyword of remainingKeywords) {
+      const traffic = trafficUpdates.get(keyword.id || 0);
+      if (traffic !== undefined) {
+        const { keywordTotalCost } = await calculateCampaignCosts(
+          [keyword],
+          [],
+          start,
+          end
+        );
+        await Keyword.update(
+          { traffic, cost: keywordTotalCost },
+          { where: { id: keyword.id }, transaction }
+        );
+      }
+      if (newEnd || traffic !== undefined) {
+        await enqueueBotOutboxRepo(
+          {
+            campaignId: campaign.id,
+            endpoint: "keyword/update",
+            method: "PUT",
+            payload: {
+              keywordId: keyword.id,
+              timeEnd: formatDate(end),
+              traffic: keyword.traffic,
+            },
+          },
+          transaction
+        );
+      }
+    }
+
+    // Links are billed per day, so extending the campaign reprices them
+    if (newEnd && remainingLinks.length) {
+      const { totalLinkCost, campaignDurationInDays } =
+        await calculateCampaignCosts([], [{}], start, end);
+      await Link.update(
+        { cost: totalLinkCost, billedDays: campaignDurationInDays },
+        {
+          where: { id: remainingLinks.map((link) => link.id || 0) },
+          transaction,
+        }
+      );
+      logger.info(
+        `Repriced ${remainingLinks.length} links of campaign ${campaign.id} for ${campaignDurationInDays} days`
+      );
+    }
+    const reschedule = [
+      ...removedLinks.map((link) => getBotLinkPayload(campaign, link, stopDate)),
+      ...(newEnd
+        ? remainingLinks.map((link) => getBotLinkPayload(campaign, link, end))
+        : []),
+    ];
+    if (reschedule.length) {
+      await enqueueBotOutboxRepo(
+        {
+          campaignId: campaign.id,
+          endpoint: "link/set-multiple",
+          payload: reschedule,
+        },
+        transaction
+      );
+    }
+    const rescheduleDirectLinks = [
+      ...removedDirectLinks.map((directLink) => ({ directLink, timeEnd: stopDate })),
+      ...(newEnd
+        ? remainingDirectLinks.map((directLink) => ({ directLink, timeEnd: end }))
+        : []),
+    ];
+    for (const { directLink, timeEnd } of rescheduleDirectLinks) {
+      await enqueueBotOutboxRepo(
+        {
+          campaignId: campaign.id,
+          endpoint: "direct-link/set",
+          payload: getBotDirectLinkPayload(campaign, directLink, timeEnd),
+        },
+        transaction
+      );
+    }
+
+    // New items are created and queued for the bot like at campaign creation
+    if (data.addKeywords?.length) {
+      await createKeywords(
+        campaign,
+        data.addKeywords,
+        start,
+        currentDate,
+        transaction
+      );
+    }
+    if (data.addLinks?.length) {
+      const { campaignDurationInDays } = await calculateCampaignCosts(
+        [],
+        [],
+        start,
+        end
+      );
+      await createLinks(
+        campaign,
+        data.addLinks,
+        start,
+        campaignDurationInDays,
+        currentDate,
+        transaction
+      );
+    }
+    if (data.addDirectLinks?.length) {
+      await createDirectLinks(
+        campaign,
+        data.addDirectLinks,
+        start,
+        end,
+        transaction
+      );
+    }
+
+    const { totalTraffic } = await calculateCampaignCosts(
+      liveKeywords,
+      [],
+      start,
+      end
+    );
+    return { campaign, costDelta, totalCost: newCost, totalTraffic };
+  });
+};
+
+export const updateCampaign = async (
+  req: AuthenticatedRequest,
+  res: Response<ResponseType<any>>
+): Promise<void> => {
+  try {
+    const user = req.data;
+    if (!user || !user.id) {
+      res.status(statusCode.UNAUTHORIZED).json({
+        status: false,
+        message: "Unauthorized",
+      });
+      return;
+    }
+    const campaignId = parseInt(req.params.id, 10);
+    const data: CampaignUpdateInput = req.body || {};
+
+    const hasChanges =
+      data.endDate ||
+      data.addKeywords?.length ||
+      data.removeKeywordIds?.length ||
+      data.updateKeywords?.length ||
+      data.addLinks?.length ||
+      data.removeLinkIds?.length ||
+      data.addDirectLinks?.length ||
+      data.removeDirectLinkIds?.length;
+    if (!hasChanges) {
+      res.status(statusCode.BAD_REQUEST).json({
+        status: false,
+        message: "Nothing to update",
+        error: "Missing field",
+      });
+      return;
+    }
+
+    const { end, currentDate } = validateDates(
+      data.endDate || "",
+      data.endDate || ""
+    );
+    if (data.endDate && !end) {
+      res.status(statusCode.BAD_REQUEST).json({
+        status: false,
+        message: "Invalid date format for endDate",
+        error: "Invalid field",
+      });
+      return;
+    }
+    if (end && end <= currentDate) {
+      res.status(statusCode.BAD_REQUEST).json({
+        status: false,
+        message: "endDate must be in the future",
+        error: "Invalid date range",
+      });
+      return;
+    }
+
+    // Validate new keywords and links
+    if (
+      !validateKeywords(data.addKeywords || [], res) ||
+      !validateLinks(data.addLinks || [], res)
+    ) {
+      return;
+    }
+    if (!(data.addKeywords || []).every(hasValidTraffic)) {
+      res.status(statusCode.BAD_REQUEST).json({
+        status: false,
+        message:
+          "Each keyword must have a positive integer traffic and a timeOnSite of at least 1",
+        error: "Invalid field",
+      });
+      return;
+    }
+    const isValidDirectLinks = (data.addDirectLinks || []).every(
+      (directLink) => directLink.link && hasValidTraffic(directLink)
+    );
+    if (!isValidDirectLinks) {
+      res.status(statusCode.BAD_REQUEST).json({
+        status: false,
+        message:
+          "Each direct link must have a valid link, a positive integer traffic and a timeOnSite of at least 1",
+        error: "Invalid field",
+      });
+      return;
+    }
+
+    const { campaign, costDelta, totalCost, totalTraffic } =
+      await updateCampaignWithTransaction(
+        campaignId,
+        user,
+        data,
+        data.endDate ? end : null,
+        currentDate
+      );
+
+    let content = `Campaign ${campaign.name} has been updated`;
+    if (costDelta > 0) {
+      content += ` with an extra cost of ${costDelta} credit`;
+    } else if (costDelta < 0) {
+      content += `, ${-costDelta} credit has been refunded`;
+    }
+    await createNotificationRepo({
+      userId: [campaign.userId],
+      name: campaign.name,
+      content,
+      type: notificationType.UPDATE_CAMPAIGN,
+    });
+
+    const campaignWithAssociations = await Campaign.findByPk(campaign.id, {
+      include: [
+        {
+          model: Keyword,
+          as: "keywords",
+          where: { isDeleted: false },
+          required: false,
+        },
+        {
+          model: Link,
+          as: "links",
+          where: { isDeleted: false },
+          required: false,
+        },
+        {
+          model: DirectLink,
+          as: "directLinks",
+          where: { isDeleted: false },
+          required: false,
+        },
+      ],
+    });
+
+    res.status(statusCode.OK).json({
+      status: true,
+      message: "Campaign updated successfully",
+      data: {
+        ...formatCampaignResponse(
+          campaignWithAssociations,
+          totalTraffic,
+          totalCost
+        ),
+        costDelta,
+      },
+    });
+  } catch (error: any) {
+    const errorResponse =
+      error instanceof ErrorType && typeof error.code === "number"
+        ? error
+        : new ErrorType(
+            error.name || "UnknownError",
+            error.message || "Failed to update campaign",
+            statusCode.INTERNAL_SERVER_ERROR
+          );
+    res.status(errorResponse.code).json({
+      status: false,
+      message: errorResponse.message,
+      error: errorResponse.name,
+    });
+  }
+};
+
+/**
+ * Create a campaign with the keywords, links and direct links of `source` over
+ * new dates, re-priced with the current config and charged to the owner's wallet.
+ * Returns null when the balance does not cover the new cost.
+ */
+export const copyCampaign = async (
+  source: Campaign,
+  data: {
+    name: string;
+    start: Date;
+    end: Date;
+    currentDate: Date;
+    recurrence?: CampaignRecurrence | null;
+    recurrenceCount?: number | null;
+    recurrenceUntil?: Date | null;
+    occurrence?: number;
+    parentCampaignId?: number;
+  }
+): Promise<{ campaign: Campaign; totalCost: number; totalTraffic: number } | null> => {
+  const keywords = (source.keywords || []).map((keyword) => ({
+    name: keyword.name,
+    urls: keyword.urls,
+    distribution: keyword.distribution,
+    traffic: keyword.traffic,
+    timeOnSite: keyword.timeOnSite,
+    keywordType: keyword.keywordType,
+    videoTitle: keyword.videoTitle,
+  }));
+  const links = (source.links || []).map((link) => ({
+    link: link.link,
+    distribution: link.distribution,
+  }));
+  const directLinks = (source.directLinks || []).map((directLink) => ({
+    link: directLink.link,
+    distribution: directLink.distribution,
+    traffic: directLink.traffic,
+    timeOnSite: directLink.timeOnSite,
+    type: directLink.type,
+  }));
+
+  const totalCost = await calculateItemsCost(
+    keywords,
+    links,
+    directLinks,
+    data.start,
+    data.end
+  );
+  const { campaignDurationInDays } = await calculateCampaignCosts(
+    [],
+    [],
+    data.start,
+    data.end
+  );
+  const totalTraffic = [...keywords, ...directLinks].reduce(
+    (sum, item) => sum + item.traffic,
+    0
+  );
+  const isValidWallet = await compareWalletAmount(source.userId, totalCost);
+  if (!isValidWallet) {
+    return null;
+  }
+
+  const created = await createCampaignWithTransaction({
+    ...data,
+    userId: source.userId,
+    countryId: source.countryId,
+    device: source.device,
+    title: source.title,
+    domain: source.domain,
+    search: source.search,
+    campaignTypeId: source.campaignTypeId,
+    keywords: keywords.length ? keywords : null,
+    links: links.length ? links : null,
+    directLinks: directLinks.length ? directLinks : null,
+    totalCost,
+    campaignDurationInDays,
+  });
+
+  const campaign = await Campaign.findByPk(created.id, {
+    include: [
+      { model: Keyword, as: "keywords", required: false },
+      { model: Link, as: "links", required: false },
+      { model: DirectLink, as: "directLinks", required: false },
+    ],
+  });
+  if (!campaign) {
+    throw new Error("Failed to create campaign");
+  }
+  return { campaign, totalCost, totalTraffic };
+};
+
+// Duplicate a campaign with its keywords, links and direct links into new dates
+export const cloneCampaign = async (
+  req: AuthenticatedRequest,
+  res: Response<ResponseType<any>>
+): Promise<void> => {
+  try {
+    const user = req.data;
+    if (!user || !user.id) {
+      res.status(statusCode.UNAUTHORIZED).json({
+        status: false,
+        message: "Unauthorized",
+      });
+      return;
+    }
+    const campaignId = parseInt(req.params.id, 10);
+    const { name, startDate, endDate } = req.body;
+
+    const { start, end, currentDate } = validateDates(startDate, endDate);
+    if (!start || !end) {
+      res.status(statusCode.BAD_REQUEST).json({
+        status: false,
+        message: "Invalid date format for startDate or endDate",
+        error: "Invalid field",
+      });
+      return;
+    }
+    if (start >= end) {
+      res.status(statusCode.BAD_REQUEST).json({
+        status: false,
+        message: "startDate must be before endDate",
+        error: "Invalid date range",
+      });
+      return;
+    }
+
+    const source = await Campaign.findByPk(campaignId, {
+      include: [
+        {
+          model: Keyword,
+          as: "keywords",
+          where: { isDeleted: false },
+          required: false,
+        },
+        {
+          model: Link,
+          as: "links",
+          where: { isDeleted: false },
+          required: false,
+        },
+        {
+          model: DirectLink,
+          as: "directLinks",
+          where: { isDeleted: false },
+          required: false,
+        },
+      ],
+    });
+    if (!source || source.isDeleted) {
+      res.status(statusCode.NOT_FOUND).json({
+        status: false,
+        message: "Campaign not found",
+        error: "Resource not found",
+      });
+      return;
+    }
+    if (user.role.id === 2 && user.id !== source.userId) {
+      res.status(statusCode.FORBIDDEN).json({
+        status: false,
+        message: "You not have permission",
+        error: "You not have permission",
+      });
+      return;
+    }
+
+    if (
+      !source.keywords?.length &&
+      !source.links?.length &&
+      !source.directLinks?.length
+    ) {
+      res.status(statusCode.BAD_REQUEST).json({
+        status: false,
+        message: "Campaign has no keywords, links or direct links to clone",
+        error: "Invalid campaign",
+      });
+      return;
+    }
+
+    const copy = await copyCampaign(source, {
+      name: name || `${source.name} (copy)`,
+      start,
+      end,
+      currentDate,
+    });
+    if (!copy) {
+      res.status(statusCode.BAD_REQUEST).json({
+        status: false,
+        message: "Insufficient balance",
+        error: "Invalid wallet",
+      });
+      return;
+    }
+    const { campaign: campaignWithAssociations, totalCost, totalTraffic } =
+      copy;
+    await sendCampaignNotifications(
+      campaignWithAssociations,
+      source.userId,
+      campaignWithAssociations.name,
+      totalCost
+    );
+
+    res.status(statusCode.CREATED).json({
+      status: true,
+      message: "Campaign cloned successfully",
+      data: formatCampaignResponse(
+        campaignWithAssociations,
+        totalTraffic,
+        totalCost
+      ),
+    });
+  } catch (error: any) {
+    res.status(statusCode.INTERNAL_SERVER_ERROR).json({
+      status: false,
+      message: "Error cloning campaign",
+      error: error.message,
+    });
+  }
+};
+
+// Line-item refund breakdown; a preview from the bot counts until the refund job settles the campaign
+export const getCampaignSettlement = async (
+  req: AuthenticatedRequest,
+  res: Response<ResponseType<any>>
+): Promise<void> => {
+  try {
+    const user = req.data;
+    if (!user || !user.id) {
+      res.status(statusCode.UNAUTHORIZED).json({
+        status: false,
+        message: "Unauthorized",
+      });
+      return;
+    }
+    const campaignId = parseInt(req.params.id, 10);
+    const campaign = await getCampaignForSettlement(campaignId);
+    if (!campaign || campaign.isDeleted) {
+      res.status(statusCode.NOT_FOUND).json({
+        status: false,
+        message: "Campaign not found",
+        error: "Resource not found",
+      });
+      return;
+    }
+    if (user.role.id === 2 && user.id !== campaign.userId) {
+      res.status(statusCode.FORBIDDEN).json({
+        status: false,
+        message: "You not have permission",
+        error: "You not have permission",
+      });
+      return;
+    }
+
+    const stored = await getSettlementByCampaignIdRepo(campaignId);
+    if (stored) {
+      const { refundTransaction } = stored;
+      res.status(statusCode.OK).json({
+        status: true,
+        message: "Campaign settlement retrieved successfully",
+        data: {
+          settled: true,
+          ...summarizeSettlement(campaignId, stored.lineItems),
+          transaction: refundTransaction
+            ? {
+                id: refundTransaction.id,
+                amount: Number(refundTransaction.amount),
+                type: refundTransaction.type,
+                status: refundTransaction.status,
+                createdAt: refundTransaction.createdAt,
+              }
+            : null,
+        },
+      });
+      return;
+    }
+
+    const settlement = await calculateCampaignSettlement(campaign);
+    res.status(statusCode.OK).json({
+      status: true,
+      message: "Campaign settlement retrieved successfully",
+      data: { settled: false, ...settlement, transaction: null },
+    });
+  } catch (error: any) {
+    res.status(statusCode.INTERNAL_SERVER_ERROR).json({
+      status: false,
+      message: "Error fetching campaign settlement",
+      error: error.message,
     });
-    return;
   }
 };
 
@@ -0,0 +1,387 @@
+import { Response } from "express";
+import statusCode from "../../constants/statusCode";
+import {
+  createCampaignTemplateRepo,
+  deleteCampaignTemplateRepo,
+  getCampaignTemplateByIdRepo,
+  getCampaignTemplateListRepo,
+  updateCampaignTemplateRepo,
+} from "../../repositories/coreRepo/campaignTemplate.repository";
+import { ResponseType } from "../../types/Response.type";
+import { AuthenticatedRequest } from "../../types/AuthenticateRequest.type";
+import {
+  CampaignTemplateAttributes,
+  CampaignTemplateDirectLink,
+  CampaignTemplateKeyword,
+  CampaignTemplateLink,
+} from "../../interfaces/CampaignTemplate.interface";
+import { validateKeywords, validateLinks } from "./campaign.controller";
+import { DistributionType } from "../../enums/distribution.enum";
+
+// Keep only the fields a campaign needs, so templates never store request noise
+const toTemplateKeywords = (keywords: any[] = []): CampaignTemplateKeyword[] =>
+  keywords.map((keyword) => ({
+    name: keyword.name,
+    urls: keyword.urls,
+    distribution: keyword.distribution,
+    traffic: Number(keyword.traffic || 0),
+    timeOnSite: keyword.timeOnSite || 1,
+    keywordType: keyword.keywordType,
+    videoTitle: keyword.videoTitle || "",
+  }));
+
+const toTemplateLinks = (links: any[] = []): CampaignTemplateLink[] =>
+  links.map((link) => ({
+    link: link.link,
+    distribution: link.distribution,
+  }));
+
+const toTemplateDirectLinks = (
+  directLinks: any[] = []
+): CampaignTemplateDirectLink[] =>
+  directLinks.map((directLink) => ({
+    link: directLink.link,
+    distribution: directLink.distribution,
+    traffic: Number(directLink.traffic || 0),
+    timeOnSite: directLink.timeOnSite || 1,
+    type: directLink.type,
+  }));
+
+const validateDirectLinks = (directLinks: any[], res: Response): boolean => {
+  if (!directLinks) return true;
+  const isValid =
+    Array.isArray(directLinks) &&
+    directLinks.every(
+      (directLink) =>
+        directLink.link &&
+        directLink.traffic > 0 &&
+        Object.values(DistributionType).includes(directLink.distribution)
+    );
+  if (!isValid) {
+    res.status(statusCode.BAD_REQUEST).json({
+      status: false,
+      message:
+        "Each direct link must have a valid link, traffic, and distribution",
+      error: "Invalid field",
+    });
+    return false;
+  }
+  return true;
+};
+
+const formatCampaignTemplateResponse = (
+  template: CampaignTemplateAttributes
+) => ({
+  id: template.id,
+  userId: template.userId,
+  username: template.users?.username,
+  name: template.name,
+  campaignTypeId: template.campaignTypeId,
+  countryId: template.countryId,
+  device: template.device,
+  title: template.title,
+  domain: template.domain,
+  search: template.search,
+  keywords: template.keywords,
+  links: template.links,
+  directLinks: template.directLinks,
+  createdAt: template.createdAt,
+  updatedAt: template.updatedAt,
+});
+
+// Create a new campaign template
+export const createCampaignTemplate = async (
+  req: AuthenticatedRequest,
+  res: Response<ResponseType<any>>
+): Promise<void> => {
+  try {
+    const user = req.data;
+    if (!user || !user.id) {
+      res.status(statusCode.UNAUTHORIZED).json({
+        status: false,
+        message: "Unauthorized",
+      });
+      return;
+    }
+    const {
+      name,
+      campaignTypeId,
+      countryId,
+      device,
+      title,
+      domain,
+      search,
+      keywords,
+      links,
+      directLinks,
+    } = req.body;
+
+    if (!name || !campaignTypeId) {
+      res.status(statusCode.BAD_REQUEST).json({
+        status: false,
+        message: "Template name and campaignTypeId are required",
+        error: "Missing required field",
+      });
+      return;
+    }
+    if (
+      !validateKeywords(keywords, res) ||
+      !validateLinks(links, res) ||
+      !validateDirectLinks(directLinks, res)
+    ) {
+      return;
+    }
+
+    const template = await createCampaignTemplateRepo({
+      userId: user.id,
+      name,
+      campaignTypeId: Number(campaignTypeId),
+      countryId: countryId ? Number(countryId) : null,
+      device: device || null,
+      title: title || null,
+      domain: domain || null,
+      search: search || null,
+      keywords: toTemplateKeywords(keywords),
+      links: toTemplateLinks(links),
+      directLinks: toTemplateDirectLinks(directLinks),
+    });
+
+    res.status(statusCode.CREATED).json({
+      status: true,
+      message: "Campaign template created successfully",
+      data: formatCampaignTemplateResponse(template),
+    });
+  } catch (error: any) {
+    res.status(statusCode.INTERNAL_SERVER_ERROR).json({
+      status: false,
+      message: "Error creating campaign template",
+      error: error.message,
+    });
+  }
+};
+
+// Search campaign templates, users only see their own
+export const searchCampaignTemplates = async (
+  req: AuthenticatedRequest,
+  res: Response<ResponseType<any>>
+): Promise<void> => {
+  try {
+    const user = req.data;
+    if (!user || !user.id) {
+      res.status(statusCode.UNAUTHORIZED).json({
+        status: false,
+        message: "Unauthorized",
+      });
+      return;
+    }
+    const { key, userId, campaignTypeId, page, limit } = req.body;
+
+    const templates = await getCampaignTemplateListRepo({
+      key,
+      userId: user.role.id === 2 ? user.id : Number(userId) || undefined,
+      campaignTypeId: Number(campaignTypeId) || undefined,
+      page: Number(page) || undefined,
+      limit: Number(limit) || undefined,
+    });
+
+    res.status(statusCode.OK).json({
+      status: true,
+      message: "Campaign templates retrieved successfully",
+      data: {
+        templates: templates.templates.map(formatCampaignTemplateResponse),
+        total: templates.total,
+      },
+    });
+  } catch (error: any) {
+    res.status(statusCode.INTERNAL_SERVER_ERROR).json({
+      status: false,
+      message: "Error fetching campaign templates",
+      error: error.message,
+    });
+  }
+};
+
+// Get campaign template by ID
+export const getCampaignTemplateById = async (
+  req: AuthenticatedRequest,
+  res: Response<ResponseType<any>>
+): Promise<void> => {
+  try {
+    const user = req.data;
+    if (!user || !user.id) {
+      res.status(statusCode.UNAUTHORIZED).json({
+        status: false,
+        message: "Unauthorized",
+      });
+      return;
+    }
+    const template = await getCampaignTemplateByIdRepo(Number(req.params.id));
+    if (!template) {
+      res.status(statusCode.NOT_FOUND).json({
+        status: false,
+        message: "Campaign template not found",
+        error: "Resource not found",
+      });
+      return;
+    }
+    if (user.role.id === 2 && user.id !== template.userId) {
+      res.status(statusCode.FORBIDDEN).json({
+        status: false,
+        message: "You not have permission",
+        error: "You not have permission",
+      });
+      return;
+    }
+
+    res.status(statusCode.OK).json({
+      status: true,
+      message: "Campaign template retrieved successfully",
+      data: formatCampaignTemplateResponse(template),
+    });
+  } catch (error: any) {
+    res.status(statusCode.INTERNAL_SERVER_ERROR).json({
+      status: false,
+      message: "Error fetching campaign template",
+      error: error.message,
+    });
+  }
+};
+
+// Update campaign template, item lists are replaced as a whole
+export const updateCampaignTemplate = async (
+  req: AuthenticatedRequest,
+  res: Response<ResponseType<any>>
+): Promise<void> => {
+  try {
+    const user = req.data;
+    if (!user || !user.id) {
+      res.status(statusCode.UNAUTHORIZED).json({
+        status: false,
+        message: "Unauthorized",
+      });
+      return;
+    }
+    const id = Number(req.params.id);
+    const existing = await getCampaignTemplateByIdRepo(id);
+    if (!existing) {
+      res.status(statusCode.NOT_FOUND).json({
+        status: false,
+        message: "Campaign template not found",
+        error: "Resource not found",
+      });
+      return;
+    }
+    if (user.role.id === 2 && user.id !== existing.userId) {
+      res.status(statusCode.FORBIDDEN).json({
+        status: false,
+        message: "You not have permission",
+        error: "You not have permission",
+      });
+      return;
+    }
+
+    const {
+      name,
+      campaignTypeId,
+      countryId,
+      device,
+      title,
+      domain,
+      search,
+      keywords,
+      links,
+      directLinks,
+    } = req.body;
+    if (
+      !validateKeywords(keywords, res) ||
+      !validateLinks(links, res) ||
+      !validateDirectLinks(directLinks, res)
+    ) {
+      return;
+    }
+
+    const data: Partial<CampaignTemplateAttributes> = {};
+    if (name) data.name = name;
+    if (campaignTypeId) data.campaignTypeId = Number(campaignTypeId);
+    if (countryId !== undefined) {
+      data.countryId = countryId ? Number(countryId) : null;
+    }
+    if (device !== undefined) data.device = device || null;
+    if (title !== undefined) data.title = title || null;
+    if (domain !== undefined) data.domain = domain || null;
+    if (search !== undefined) data.search = search || null;
+    if (keywords) data.keywords = toTemplateKeywords(keywords);
+    if (links) data.links = toTemplateLinks(links);
+    if (directLinks) data.directLinks = toTemplateDirectLinks(directLinks);
+
+    const template = await updateCampaignTemplateRepo(id, data);
+    if (!template) {
+      res.status(statusCode.NOT_FOUND).json({
+        status: false,
+        message: "Campaign template not found",
+        error: "Resource not found",
+      });
+      return;
+    }
+
+    res.status(statusCode.OK).json({
+      status: true,
+      message: "Campaign template updated successfully",
+      data: formatCampaignTemplateResponse(template),
+    });
+  } catch (error: any) {
+    res.status(statusCode.INTERNAL_SERVER_ERROR).json({
+      status: false,
+      message: "Error updating campaign template",
+      error: error.message,
+    });
+  }
+};
+
+// Delete campaign template (soft delete)
+export const deleteCampaignTemplate = async (
+  req: AuthenticatedRequest,
+  res: Response<ResponseType<null>>
+): Promise<void> => {
+  try {
+    const user = req.data;
+    if (!user || !user.id) {
+      res.status(statusCode.UNAUTHORIZED).json({
+        status: false,
+        message: "Unauthorized",
+      });
+      return;
+    }
+    const id = Number(req.params.id);
+    const existing = await getCampaignTemplateByIdRepo(id);
+    if (!existing) {
+      res.status(statusCode.NOT_FOUND).json({
+        status: false,
+        message: "Campaign template not found",
+        error: "Resource not found",
+      });
+      return;
+    }
+    if (user.role.id === 2 && user.id !== existing.userId) {
+      res.status(statusCode.FORBIDDEN).json({
+        status: false,
+        message: "You not have permission",
+        error: "You not have permission",
+      });
+      return;
+    }
+
+    await deleteCampaignTemplateRepo(id);
+    res.status(statusCode.OK).json({
+      status: true,
+      message: "Campaign template deleted successfully",
+      data: null,
+    });
+  } catch (error: any) {
+    res.status(statusCode.INTERNAL_SERVER_ERROR).json({
+      status: false,
+      message: "Error deleting campaign template",
+      error: error.message,
+    });
+  }
+};
@@ -11,13 +11,15 @@ import { ResponseType } from "../../types/Response.type"; // Adjust path
 import { KeywordAttributes } from "../../interfaces/Keyword.interface";
 import { DistributionType } from "../../enums/distribution.enum";
 import { ErrorType } from "../../types/Error.type";
-import { baseApiPython, baseApiPythonUpdate } from "../../config/botAPI.config";
+import { botApi } from "../../config/botAPI.config";
 import { keywordStatus } from "../../enums/keywordStatus.enum";
 import { formatDate } from "../../utils/utils";
 import { getCampaignByIdRepo } from "../../repositories/coreRepo/campagin.repository";
 import { searchLogs, searchLogsByType } from "../../services/botService/searchLog.service";
 import { AuthenticatedRequest } from "../../types/AuthenticateRequest.type";
 import { KeywordType } from "../../enums/keywordType.enum";
+import { logger } from "../../config/logger.config";
+import { BotSearchLogEntry } from "../../interfaces/BotApi.interface";
 
 // Get keyword list with filters
 export const getKeywordList = async (
@@ -180,21 +182,24 @@ export const createKeyword = async (
       cost,
       timeOnSite: 1,
     });
-    const dataPython = {
-      keywordId: keyword.id,
+    // Fields follow what createKeywordRepo returns (keywordId, keyword,
+    // timeStart, ...); the old id/name/startDate names were always undefined.
+    // keywordType is sent as well so the bot can tell organic from video.
+    await botApi.setKeyword({
+      keywordId: keyword.keywordId,
       title: keyword.title,
-      keyword: keyword.name,
+      keyword: keyword.keyword,
       urls: keyword.urls,
       distribution: keyword.distribution,
       traffic: keyword.traffic || 0,
-      timeOnSite: keyword.timeOnSite,
+      timeOnSite: 1,
+      keywordType: keyword.keywordType,
       device: keyword.device,
       domain: keyword.domain,
-      timeStart: keyword.startDate,
-      timeEnd: keyword.endDate,
-      searchTool: keyword.search,
-    };
-    await baseApiPython("keyword/set", dataPython);
+      timeStart: keyword.timeStart,
+      timeEnd: keyword.timeEnd,
+      searchTool: keyword.searchTool,
+    });
 
     res.status(statusCode.CREATED).json({
       status: true,
@@ -336,19 +341,27 @@ export const updateKeyword = async (
     const updatedKeyword = await updateKeywordRepo(parsedId, data);
     if (updatedKeyword.status === keywordStatus.INACTIVE) {
       const dataPython = {
-        keywordId: updatedKeyword.id,
+        keywordId: updatedKeyword.id || 0,
         timeEnd: formatDate(new Date()),
       };
-      baseApiPythonUpdate("keyword/update", dataPython);
+      botApi.updateKeyword(dataPython).catch((error) =>
+        logger.error(
+          `Failed to sync keyword ${updatedKeyword.id} with Python API: ${error.message}`
+        )
+      );
     } else if (updatedKeyword.status === keywordStatus.ACTIVE) {
       const endDateKeyword = updatedKeyword.campaigns?.endDate
         ? updatedKeyword.campaigns.endDate
         : new Date();
       const dataPython = {
-        keywordId: updatedKeyword.id,
+        keywordId: updatedKeyword.id || 0,
         timeEnd: formatDate(endDateKeyword),
       };
-      baseApiPythonUpdate("keyword/update", dataPython);
+      botApi.updateKeyword(dataPython).catch((error) =>
+        logger.error(
+          `Failed to sync keyword ${updatedKeyword.id} with Python API: ${error.message}`
+        )
+      );
     }
     res.status(statusCode.OK).json(updatedKeyword);
     return;
@@ -414,10 +427,7 @@ export const getKeywordByCampaignId = async (
           time_start: formatDate(campaign.startDate),
           time_end: formatDate(campaign.endDate),
         };
-        const result = await baseApiPython(
-          "keyword/success-count-duration",
-          dataPython
-        );
+        const result = await botApi.getKeywordSuccessCount(dataPython);
         const logs = await searchLogsByType({
           page: 1,
           limit: 3,
@@ -461,17 +471,7 @@ export const getKeywordByCampaignId = async (
 
 export const searchLog = async (
   req: AuthenticatedRequest,
-  res: Response<ResponseType<
-  {
-    list: {
-      device: string,
-      keywordId: number,
-      timestamp: string,
-      statusId: number
-      statusName: string
-    }
-
-}>>
+  res: Response<ResponseType<{ list: BotSearchLogEntry[] }>>
 ): Promise<void> => {
   try {
     const user = req.data;
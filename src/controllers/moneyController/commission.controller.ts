@@ -0,0 +1,331 @@
+import { Response } from "express";
+import statusCode from "../../constants/statusCode";
+import { CommissionSource } from "../../enums/commission.enum";
+import { CommissionRuleAttributes } from "../../interfaces/Commission.interface";
+import { AuthenticatedRequest } from "../../types/AuthenticateRequest.type";
+import { ResponseType } from "../../types/Response.type";
+import { ErrorType } from "../../types/Error.type";
+import {
+  findAgencyByIdRepo,
+  findAgencyByUserIdRepo,
+} from "../../repositories/coreRepo/agency.repository";
+import {
+  createCommissionRuleRepo,
+  getAgencyCommissionSummaryRepo,
+  getCommissionRuleListRepo,
+  getCommissionStatementRepo,
+  getReferredUsersRepo,
+  updateCommissionRuleRepo,
+} from "../../repositories/moneyRepo/commission.repository";
+import { getAgencyEarnings } from "../../services/withdrawal.service";
+
+const MONTH_PATTERN = /^(\d{4})-(0[1-9]|1[0-2])$/;
+
+const sendCommissionError = (res: Response, error: any, message: string) => {
+  const errorResponse =
+    error instanceof ErrorType && typeof error.code === "number"
+      ? error
+      : new ErrorType(
+          error.name || "UnknownError",
+          error.message || message,
+          statusCode.INTERNAL_SERVER_ERROR
+        );
+  res.status(errorResponse.code).json({
+    status: false,
+    message: errorResponse.message,
+    error: errorResponse.name,
+  });
+};
+
+// The caller's own agency; admins can look at any agency with ?agencyId=
+const resolveAgencyId = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<number | null> => {
+  if (req.data?.role.id === 1 && req.query.agencyId) {
+    const agency = await findAgencyByIdRepo(Number(req.query.agencyId));
+    if (!agency || agency.isDeleted) {
+      res.status(statusCode.NOT_FOUND).json({
+        status: false,
+        message: "Agency not found",
+        error: "Not found",
+      });
+      return null;
+    }
+    return agency.id || null;
+  }
+  const agency = await findAgencyByUserIdRepo(req.data?.id || 0);
+  if (!agency) {
+    res.status(statusCode.FORBIDDEN).json({
+      status: false,
+      message: "Only an agency has commission",
+      error: "Forbidden",
+    });
+    return null;
+  }
+  return agency.id || null;
+};
+
+const isValidDate = (value: unknown): boolean =>
+  value === null || !isNaN(new Date(value as string).getTime());
+
+// Validate the fields of a rule; returns an error message or the parsed fields
+const parseRuleFields = (
+  body: any,
+  partial: boolean
+): string | Partial<CommissionRuleAttributes> => {
+  const fields: Partial<CommissionRuleAttributes> = {};
+  if (body.source !== undefined || !partial) {
+    if (!Object.values(CommissionSource).includes(body.source)) {
+      return `Valid source is required (${Object.values(CommissionSource).join(", ")})`;
+    }
+    fields.source = body.source;
+  }
+  if (body.rate !== undefined || !partial) {
+    const rate = Number(body.rate);
+    if (!Number.isFinite(rate) || rate < 0 || rate > 100) {
+      return "Rate must be a percentage between 0 and 100";
+    }
+    fields.rate = rate;
+  }
+  if (body.minVolume !== undefined) {
+    const minVolume = Number(body.minVolume);
+    if (!Number.isFinite(minVolume) || minVolume < 0) {
+      return "minVolume must be zero or more";
+    }
+    fields.minVolume = minVolume;
+  } else if (!partial) {
+    fields.minVolume = 0;
+  }
+  if (body.durationMonths !== undefined) {
+    const months = body.durationMonths === null ? null : Number(body.durationMonths);
+    if (months !== null && (!Number.isInteger(months) || months <= 0)) {
+      return "durationMonths must be a positive whole number or null";
+    }
+    fields.durationMonths = months;
+  } else if (!partial) {
+    fields.durationMonths = null;
+  }
+  for (const name of ["startsAt", "endsAt"] as const) {
+    if (body[name] !== undefined) {
+      if (!isValidDate(body[name])) return `Invalid ${name} format`;
+      fields[name] = body[name] === null ? null : new Date(body[name]);
+    } else if (!partial) {
+      fields[name] = null;
+    }
+  }
+  if (fields.startsAt && fields.endsAt && fields.endsAt <= fields.startsAt) {
+    return "endsAt must be after startsAt";
+  }
+  return fields;
+};
+
+export const getCommissionEarnings = async (
+  req: AuthenticatedRequest,
+  res: Response<ResponseType<any>>
+): Promise<void> => {
+  try {
+    const agencyId = await resolveAgencyId(req, res);
+    if (!agencyId) return;
+    const [commission, balance] = await Promise.all([
+      getAgencyCommissionSummaryRepo(agencyId),
+      getAgencyEarnings(agencyId),
+    ]);
+    res.status(statusCode.OK).json({
+      status: true,
+      message: "Earnings retrieved successfully",
+      data: { commission, balance },
+    });
+  } catch (error: any) {
+    sendCommissionError(res, error, "Error fetching earnings");
+  }
+};
+
+export const getReferredUsers = async (
+  req: AuthenticatedRequest,
+  res: Response<ResponseType<any>>
+): Promise<void> => {
+  try {
+    const agencyId = await resolveAgencyId(req, res);
+    if (!agencyId) return;
+    const { page, limit } = req.body;
+    const result = await getReferredUsersRepo(agencyId, {
+      page: Number(page) || undefined,
+      limit: Number(limit) || undefined,
+    });
+    res.status(statusCode.OK).json({
+      status: true,
+      message: "Referred users retrieved successfully",
+      data: result,
+    });
+  } catch (error: any) {
+    sendCommissionError(res, error, "Error fetching referred users");
+  }
+};
+
+export const getCommissionStatement = async (
+  req: AuthenticatedRequest,
+  res: Response<ResponseType<any>>
+): Promise<void> => {
+  try {
+    const match = MONTH_PATTERN.exec(String(req.params.month));
+    if (!match) {
+      res.status(statusCode.BAD_REQUEST).json({
+        status: false,
+        message: "Month must be formatted as YYYY-MM",
+        error: "Invalid field",
+      });
+      return;
+    }
+    const agencyId = await resolveAgencyId(req, res);
+    if (!agencyId) return;
+    const statement = await getCommissionStatementRepo(
+      agencyId,
+      Number(match[1]),
+      Number(match[2])
+    );
+    res.status(statusCode.OK).json({
+      status: true,
+      message: "Statement retrieved successfully",
+      data: statement,
+    });
+  } catch (error: any) {
+    sendCommissionError(res, error, "Error fetching statement");
+  }
+};
+
+export const createCommissionRule = async (
+  req: AuthenticatedRequest,
+  res: Response<ResponseType<any>>
+): Promise<void> => {
+  try {
+    const fields = parseRuleFields(req.body, false);
+    if (typeof fields === "string") {
+      res.status(statusCode.BAD_REQUEST).json({
+        status: false,
+        message: fields,
+        error: "Invalid field",
+      });
+      return;
+    }
+    let agencyId: number | null = null;
+    if (req.body.agencyId) {
+      const agency = await findAgencyByIdRepo(Number(req.body.agencyId));
+      if (!agency || agency.isDeleted) {
+        res.status(statusCode.NOT_FOUND).json({
+          status: false,
+          message: "Agency not found",
+          error: "Not found",
+        });
+        return;
+      }
+      agencyId = agency.id || null;
+    }
+    const rule = await createCommissionRuleRepo({
+      ...(fields as Omit<
+        CommissionRuleAttributes,
+        "id" | "isDeleted" | "agencyId" | "createdBy"
+      >),
+      agencyId,
+      createdBy: req.data?.id || 0,
+    });
+    res.status(statusCode.CREATED).json({
+      status: true,
+      message: "Commission rule created successfully",
+      data: rule,
+    });
+  } catch (error: any) {
+    sendCommissionError(res, error, "Error creating commission rule");
+  }
+};
+
+export const getListCommissionRule = async (
+  req: AuthenticatedRequest,
+  res: Response<ResponseType<any>>
+): Promise<void> => {
+  try {
+    const { agencyId, source, page, limit } = req.body;
+    if (source && !Object.values(CommissionSource).includes(source)) {
+      res.status(statusCode.BAD_REQUEST).json({
+        status: false,
+        message: `Valid source is required (${Object.values(CommissionSource).join(", ")})`,
+        error: "Invalid field",
+      });
+      return;
+    }
+    const result = await getCommissionRuleListRepo({
+      // null lists the default rules only
+      agencyId:
+        agencyId === null ? null : agencyId ? Number(agencyId) : undefined,
+      source,
+      page: Number(page) || undefined,
+      limit: Number(limit) || undefined,
+    });
+    res.status(statusCode.OK).json({
+      status: true,
+      message: "Commission rules retrieved successfully",
+      data: result,
+    });
+  } catch (error: any) {
+    sendCommissionError(res, error, "Error fetching commission rules");
+  }
+};
+
+export const updateCommissionRule = async (
+  req: AuthenticatedRequest,
+  res: Response<ResponseType<any>>
+): Promise<void> => {
+  try {
+    const id = Number(req.params.id);
+    const fields = parseRuleFields(req.body, true);
+    if (!Number.isSafeInteger(id) || id <= 0 || typeof fields === "string") {
+      res.status(statusCode.BAD_REQUEST).json({
+        status: false,
+        message: typeof fields === "string" ? fields : "Invalid rule id",
+        error: "Invalid field",
+      });
+      return;
+    }
+    const rule = await updateCommissionRuleRepo(id, fields);
+    if (!rule) {
+      res.status(statusCode.NOT_FOUND).json({
+        status: false,
+        message: "Commission rule not found",
+        error: "Not found",
+      });
+      return;
+    }
+    res.status(statusCode.OK).json({
+      status: true,
+      message: "Commission rule updated successfully",
+      data: rule,
+    });
+  } catch (error: any) {
+    sendCommissionError(res, error, "Error updating commission rule");
+  }
+};
+
+export const deleteCommissionRule = async (
+  req: AuthenticatedRequest,
+  res: Response<ResponseType<any>>
+): Promise<void> => {
+  try {
+    const rule = await updateCommissionRuleRepo(Number(req.params.id), {
+      isDeleted: true,
+    });
+    if (!rule) {
+      res.status(statusCode.NOT_FOUND).json({
+        status: false,
+        message: "Commission rule not found",
+        error: "Not found",
+      });
+      return;
+    }
+    res.status(statusCode.OK).json({
+      status: true,
+      message: "Commission rule deleted successfully",
+    });
+  } catch (error: any) {
+    sendCommissionError(res, error, "Error deleting commission rule");
+  }
+};
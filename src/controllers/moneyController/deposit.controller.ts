@@ -11,11 +11,10 @@ import { ResponseType } from "../../types/Response.type"; // Adjust path
 import { DepositAttributes } from "../../interfaces/Deposit.interface";
 import { DepositStatus } from "../../enums/depositStatus.enum";
 import { AuthenticatedRequest } from "../../types/AuthenticateRequest.type";
-import { compressAndEncode, uuidToNumber, uuIDv4 } from "../../utils/generate";
-import payOSPaymentMethod from "../../config/payOs.config";
-import { CreateInvoiceInput } from "../../interfaces/Oxapay.interface";
+import { uuidToNumber, uuIDv4 } from "../../utils/generate";
 import { oxapayConfig } from "../../config/oxapay.config";
-import { generateInvoice } from "../../services/oxapay.service";
+import { createOxapayInvoice } from "../../services/oxapayInvoice.service";
+import { createPayOsCheckout } from "../../services/payOs.service";
 import { notificationType } from "../../enums/notification.enum";
 import { createNotificationRepo } from "../../repositories/commonRepo/notification.repository";
 import { getPackageByIdRepo } from "../../repositories/moneyRepo/packge.deposit";
@@ -149,63 +148,39 @@ export const createDeposit = async (
     switch (paymentMethodId) {
       case 1: {
         // USDT
-        const orderInfo = {
+        const result = await createOxapayInvoice({
           userId,
-          // createdBy,
-          // paymentMethodId,
+          createdBy,
           voucherId,
-        };
-
-        const orderEncrypted = compressAndEncode(orderInfo);
-        const data: CreateInvoiceInput = {
-          amount: amount,
+          packageId: null,
+          usdAmount: Number(amount),
           currency: oxapayConfig.currency,
-          lifeTime: parseInt(String(oxapayConfig.lifeTime)),
-          fee_paid_by_payer: parseInt(String(oxapayConfig.feePaidByPayer)),
-          under_paid_cover: parseInt(String(oxapayConfig.underPaidCover)),
-          callback_url: `${process.env.DEV_URL}/callback/oxapay`,
-          order_id: orderEncrypted,
-          // callbackUrl: `${process.env.DEV_URL}/success?orderId=${uuidToNumber(
-          //   orderId
-          // )}&userId=${userId}&voucherId=${voucherId}&paymentMethodId=${paymentMethodId}&amount=${amount}&createdBy=${createdBy}`,
-          return_url: "https://traffic-seo-fe-woad.vercel.app/",
-          sandbox: oxapayConfig.sandbox,
-        };
-
-        const result = await generateInvoice(data);
+        });
         res.status(statusCode.OK).json({
           message: "Create link payment USDT successfully",
           status: true,
           data: {
-            ...result,
-            checkoutUrl: result.payment_url,
+            deposit: result.deposit,
+            payment_url: result.paymentUrl,
+            checkoutUrl: result.paymentUrl,
           },
         });
         return;
       }
       case 3: {
         // PAYOS
-        const orderCodeUnique = uuidToNumber(orderId);
-        const body: any = {
-          orderCode: orderCodeUnique, // Use deposit ID as orderCode
-          amount: Math.floor(amount),
-          description: `v${voucherId}u${userId}c${createdBy}p0`,
-          items: [
-            {
-              name: "Charge money",
-              quantity: 1,
-              price: Math.floor(amount),
-            },
-          ],
-          cancelUrl: `${process.env.FRONT_END_URL}/en/deposit/failed`,
-          returnUrl: `${process.env.FRONT_END_URL}/en/deposit/${orderCodeUnique}`,
-        };
-        const response = await payOSPaymentMethod.createPaymentLink(body);
+        const { checkoutUrl } = await createPayOsCheckout({
+          userId,
+          createdBy,
+          voucherId,
+          packageId: null,
+          amount,
+        });
         res.status(statusCode.CREATED).json({
           status: true,
           message: "Create link payment VietQR successfully",
           data: {
-            checkoutUrl: response.checkoutUrl,
+            checkoutUrl,
           },
         });
         return;
@@ -503,9 +478,7 @@ export const createDepositByPackage = async (
   res: Response<ResponseType<any>>
 ): Promise<void> => {
   const { userId, packageId } = req.body;
-  const orderId = uuIDv4();
   const createdBy = req.data?.id || 0; // Get createdBy from authenticated user
-  const orderCodeUnique = uuidToNumber(orderId);
   const pkg = await getPackageByIdRepo(packageId);
   if (!pkg) {
     res.status(statusCode.BAD_REQUEST).json({
@@ -513,27 +486,20 @@ export const createDepositByPackage = async (
       message: "Package not found",
       error: "Package not found",
     });
+    return;
   }
-  const body: any = {
-    orderCode: orderCodeUnique, // Use deposit ID as orderCode
-    amount: Math.floor(pkg?.price || 0),
-    description: `v0u${userId}c${createdBy}p${pkg?.id}`,
-    items: [
-      {
-        name: "Charge money",
-        quantity: 1,
-        price: Math.floor(pkg?.price || 0),
-      },
-    ],
-    cancelUrl: `${process.env.FRONT_END_URL}/en/deposit/failed`,
-    returnUrl: `${process.env.FRONT_END_URL}/en/deposit/${orderCodeUnique}`,
-  };
-  const response = await payOSPaymentMethod.createPaymentLink(body);
+  const { checkoutUrl } = await createPayOsCheckout({
+    userId,
+    createdBy,
+    voucherId: null,
+    packageId: pkg.id || 0,
+    amount: pkg.price,
+  });
   res.status(statusCode.CREATED).json({
     status: true,
     message: "Create link payment VietQR successfully",
     data: {
-      checkoutUrl: response.checkoutUrl,
+      checkoutUrl,
     },
   });
   return;
@@ -1,52 +1,89 @@
 import { Request, Response } from "express";
 import statusCode from "../../constants/statusCode";
-import {
-  CreateInvoiceInput,
-  CreatePayoutInput,
-} from "../../interfaces/Oxapay.interface";
+import { OxaPayCallback } from "../../interfaces/Oxapay.interface";
 import { oxapayConfig } from "../../config/oxapay.config";
+import { getCurrenciesService, getMyIP } from "../../services/oxapay.service";
 import {
-  generateInvoice,
-  generatePayout,
-  getCurrenciesService,
-  getMyIP,
-} from "../../services/oxapay.service";
-import { decodeAndDecompress } from "../../utils/generate";
-import { createDepositRepo } from "../../repositories/moneyRepo/deposit.repository";
+  createOxapayInvoice,
+  getPackageUsdPrice,
+  settleOxapayInvoice,
+} from "../../services/oxapayInvoice.service";
+import { settlePayoutCallback } from "../../services/withdrawal.service";
+import { getPackageByIdRepo } from "../../repositories/moneyRepo/packge.deposit";
+import { AuthenticatedRequest } from "../../types/AuthenticateRequest.type";
+import { ErrorType } from "../../types/Error.type";
 import crypto from "crypto";
-import { DepositStatus } from "../../enums/depositStatus.enum";
 import { logger } from "../../config/logger.config";
 
 export const createInvoice = async (
-  req: Request,
+  req: AuthenticatedRequest,
   res: Response
 ): Promise<void> => {
   try {
-    const { amount, currency } = req.body;
+    const { amount, packageId, currency } = req.body;
+    const userId = req.data?.id || 0;
+    if ((amount === undefined) === (packageId === undefined)) {
+      res.status(statusCode.BAD_REQUEST).json({
+        status: false,
+        message: "Provide either amount or packageId",
+        error: "Missing or invalid field",
+      });
+      return;
+    }
 
-    const data: CreateInvoiceInput = {
-      amount: amount,
-      currency: currency,
-      lifeTime: parseInt(String(oxapayConfig.lifeTime)),
-      fee_paid_by_payer: parseInt(String(oxapayConfig.feePaidByPayer)),
-      under_paid_cover: parseInt(String(oxapayConfig.underPaidCover)),
-      thanks_message: "Auto Ranker!",
-      callback_url: "",
-      return_url: "/",
-    };
+    let usdAmount = Math.round(Number(amount) * 100) / 100;
+    let invoicePackageId: number | null = null;
+    if (packageId !== undefined) {
+      const pkg = await getPackageByIdRepo(Number(packageId));
+      if (!pkg || pkg.isDeleted) {
+        res.status(statusCode.NOT_FOUND).json({
+          status: false,
+          message: "Package not found",
+          error: "Package not found",
+        });
+        return;
+      }
+      usdAmount = await getPackageUsdPrice(pkg.price);
+      invoicePackageId = pkg.id || null;
+    }
+    if (!Number.isFinite(usdAmount) || usdAmount <= 0) {
+      res.status(statusCode.BAD_REQUEST).json({
+        status: false,
+        message: "Amount must be a positive number",
+        error: "Invalid field",
+      });
+      return;
+    }
 
-    const result = await generateInvoice(data);
-    res.status(statusCode.OK).json({
-      message: "",
+    const result = await createOxapayInvoice({
+      userId,
+      createdBy: userId,
+      voucherId: null,
+      packageId: invoicePackageId,
+      usdAmount,
+      currency: currency || oxapayConfig.currency,
+    });
+    res.status(statusCode.CREATED).json({
+      message: "Create link payment USDT successfully",
       status: true,
-      data: result,
+      data: {
+        deposit: result.deposit,
+        checkoutUrl: result.paymentUrl,
+        expiredAt: result.expiredAt,
+      },
     });
   } catch (error: any) {
-    res.status(statusCode.INTERNAL_SERVER_ERROR).json({
-      status: false,
-      message: "Error fetching deposits",
-      error: error.message,
-    });
+    res
+      .status(
+        error instanceof ErrorType && typeof error.code === "number"
+          ? error.code
+          : statusCode.INTERNAL_SERVER_ERROR
+      )
+      .json({
+        status: false,
+        message: "Error creating invoice",
+        error: error.message,
+      });
   }
 };
 
@@ -71,33 +108,6 @@ export const getCurrencies = async (
   }
 };
 
-export const withDraw = async (req: Request, res: Response): Promise<void> => {
-  try {
-    const { amount, currency, description } = req.body;
-    const data: CreatePayoutInput = {
-      key: oxapayConfig.payoutKey,
-      callbackUrl: "",
-      address: oxapayConfig.payoutAddress,
-      currency: currency,
-      amount: amount,
-      description: description || "",
-    };
-
-    const result = await generatePayout(data);
-    res.status(statusCode.OK).json({
-      message: "",
-      status: true,
-      data: result,
-    });
-  } catch (error: any) {
-    res.status(statusCode.INTERNAL_SERVER_ERROR).json({
-      status: false,
-      message: "Error fetching deposits",
-      error: error.message,
-    });
-  }
-};
-
 export const checkMyIP = async (req: Request, res: Response): Promise<void> => {
   try {
     const result = await getMyIP();
@@ -128,7 +138,7 @@ export async function handleOxaPayWebhook(
       return;
     }
 
-    const data = req.body;
+    const data: OxaPayCallback = req.body;
     const secret =
       data.type === "payout" ? oxapayConfig.payoutKey : oxapayConfig.merchant;
     const calculatedHmac = crypto
@@ -141,16 +151,24 @@ export async function handleOxaPayWebhook(
       return;
     }
 
-    const orderInfo = decodeAndDecompress(data.order_id);
-    await createDepositRepo({
-      createdBy: orderInfo.userId,
-      userId: orderInfo.userId,
-      voucherId: orderInfo.voucherId,
-      amount: data.amount,
-      paymentMethodId: 1,
-      orderId: data.track_id,
-      status: DepositStatus.COMPLETED,
-    });
+    // Payout callbacks are signed with the payout key and settle a withdrawal
+    if (data.type === "payout") {
+      const withdrawal = await settlePayoutCallback(data);
+      if (!withdrawal) {
+        logger.warn(
+          `Oxapay payout callback for unknown track ${data.track_id} (status ${data.status})`
+        );
+      }
+      res.status(statusCode.OK).send("ok");
+      return;
+    }
+
+    const depositStatus = await settleOxapayInvoice(data);
+    if (!depositStatus) {
+      logger.warn(
+        `Oxapay callback for unknown order ${data.order_id} (track ${data.track_id}, status ${data.status})`
+      );
+    }
 
     res.status(statusCode.OK).send("ok");
   } catch (err: any) {
@@ -1,71 +1,279 @@
 import { Request, Response } from "express";
-import { PayOsType } from "../../types/PayOs.type";
-import { parseChargeMoneyString } from "../../utils/utils";
-import {
-  createDepositByPackageRepo,
-  // createDepositByPackageRepo,
-  createDepositRepo,
-} from "../../repositories/moneyRepo/deposit.repository";
-import { DepositStatus } from "../../enums/depositStatus.enum";
+import { PayOsWebhookBody } from "../../types/PayOs.type";
 import statusCode from "../../constants/statusCode";
+import { logger } from "../../config/logger.config";
+import {
+  cancelPayOsCheckout,
+  createPayOsCheckout,
+  settlePayOsPayment,
+  verifyPayOsSignature,
+} from "../../services/payOs.service";
+import { AuthenticatedRequest } from "../../types/AuthenticateRequest.type";
+import { ResponseType } from "../../types/Response.type";
+import { ErrorType } from "../../types/Error.type";
+import { PaymentIntentAttributes } from "../../interfaces/PaymentIntent.interface";
+import { PaymentProvider } from "../../enums/paymentIntent.enum";
+import { VoucherStatus } from "../../enums/voucherStatus.enum";
+import { getPaymentIntentByOrderCodeRepo } from "../../repositories/moneyRepo/paymentIntent.repository";
 import { getPackageByIdRepo } from "../../repositories/moneyRepo/packge.deposit";
-// import { getPackageByIdRepo } from "../../repositories/moneyRepo/packge.deposit";
+import { findVoucherByCodeRepo } from "../../repositories/moneyRepo/voucher.repository";
+
+// One JSON line per rejected delivery so they can be searched and alerted on
+const logRejectedWebhook = (
+  req: Request,
+  reason: string,
+  message: string
+): void => {
+  const { data } = (req.body || {}) as Partial<PayOsWebhookBody>;
+  logger.warn(
+    `PayOS webhook rejected: ${JSON.stringify({
+      reason,
+      message,
+      orderCode: data?.orderCode ?? null,
+      paymentLinkId: data?.paymentLinkId ?? null,
+      ip: req.ip,
+    })}`
+  );
+};
+
 export async function handlePayOsWebhook(
   req: Request,
   res: Response
 ): Promise<void> {
+  const { data, signature } = (req.body || {}) as Partial<PayOsWebhookBody>;
+
+  if (!data || !signature) {
+    logRejectedWebhook(req, "MissingField", "Missing data or signature");
+    res
+      .status(statusCode.BAD_REQUEST)
+      .json({ status: false, message: "Missing data or signature" });
+    return;
+  }
+
+  if (!verifyPayOsSignature(data, signature)) {
+    logRejectedWebhook(req, "InvalidSignature", "Signature does not match");
+    res
+      .status(statusCode.UNAUTHORIZED)
+      .json({ status: false, message: "Invalid signature" });
+    return;
+  }
+
   try {
-    // Extract signature and body from request
-    const { data, signature } = req.body;
-    const returnData: PayOsType = data;
+    const { duplicate } = await settlePayOsPayment(data);
+    if (duplicate) {
+      logRejectedWebhook(req, "Duplicate", "Order has already been paid");
+    }
+    res.status(statusCode.OK).json({
+      status: true,
+      message: duplicate
+        ? "Webhook already processed"
+        : "Webhook processed successfully",
+    });
+  } catch (error: any) {
+    logRejectedWebhook(req, error.name, error.message);
+    // A verified payload that cannot be settled is acknowledged so PayOS stops retrying it
+    if (error.code === statusCode.OK) {
+      res.status(statusCode.OK).json({ status: false, message: error.message });
+      return;
+    }
+    res.status(statusCode.INTERNAL_SERVER_ERROR).json({
+      status: false,
+      message: "Internal server error",
+    });
+  }
+}
+
+// What the checkout endpoints expose of an intent
+const toCheckoutResponse = (intent: PaymentIntentAttributes) => ({
+  orderCode: intent.orderCode,
+  status: intent.status,
+  amount: intent.amount,
+  packageId: intent.packageId,
+  voucherId: intent.voucherId,
+  checkoutUrl: intent.checkoutUrl,
+  depositId: intent.depositId,
+  expiresAt: intent.expiresAt,
+  paidAt: intent.paidAt,
+});
+
+const sendCheckoutError = (res: Response, error: any, message: string) => {
+  const errorResponse =
+    error instanceof ErrorType && typeof error.code === "number"
+      ? error
+      : new ErrorType(
+          error.name || "UnknownError",
+          error.message || message,
+          statusCode.INTERNAL_SERVER_ERROR
+        );
+  res.status(errorResponse.code).json({
+    status: false,
+    message: errorResponse.message,
+    error: errorResponse.name,
+  });
+};
+
+// Load the caller's checkout; admins can read anyone's
+const getOwnCheckout = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<PaymentIntentAttributes | null> => {
+  const user = req.data;
+  const orderCode = Number(req.params.orderCode);
+  if (!Number.isSafeInteger(orderCode) || orderCode <= 0) {
+    res.status(statusCode.BAD_REQUEST).json({
+      status: false,
+      message: "Invalid order code",
+      error: "Invalid field",
+    });
+    return null;
+  }
+  const intent = await getPaymentIntentByOrderCodeRepo(
+    PaymentProvider.PAYOS,
+    orderCode
+  );
+  if (!intent) {
+    res.status(statusCode.NOT_FOUND).json({
+      status: false,
+      message: "Checkout not found",
+      error: "Not found",
+    });
+    return null;
+  }
+  if (user?.role.id === 2 && user.id !== intent.userId) {
+    res.status(statusCode.FORBIDDEN).json({
+      status: false,
+      message: "You not have permission",
+      error: "Forbidden",
+    });
+    return null;
+  }
+  return intent;
+};
 
-    // Check if signature is provided
-    if (!signature) {
-      res
-        .status(statusCode.UNAUTHORIZED)
-        .json({ status: false, message: "Missing signature" });
+export const createPayOsCheckoutLink = async (
+  req: AuthenticatedRequest,
+  res: Response<ResponseType<any>>
+): Promise<void> => {
+  try {
+    const { amount, packageId, voucherCode } = req.body;
+    const userId = req.data?.id || 0;
+    if ((amount === undefined) === (packageId === undefined)) {
+      res.status(statusCode.BAD_REQUEST).json({
+        status: false,
+        message: "Provide either amount or packageId",
+        error: "Missing or invalid field",
+      });
       return;
     }
 
-    // Parse description
-    const parseData = parseChargeMoneyString(returnData.description);
-    console.log(parseData);
-    if (parseData.packageId != 0) {
-      const pkg = await getPackageByIdRepo(parseData.packageId);
-      if (pkg) {
-        await createDepositByPackageRepo({
-          createdBy: parseData.createdBy,
-          userId: parseData.userId,
-          packageId: parseData.packageId,
-          orderId: returnData.orderCode.toString(),
-          status: DepositStatus.COMPLETED,
+    let checkoutAmount = Math.floor(Number(amount));
+    let checkoutPackageId: number | null = null;
+    let voucherId: number | null = null;
+    if (packageId !== undefined) {
+      if (voucherCode) {
+        res.status(statusCode.BAD_REQUEST).json({
+          status: false,
+          message: "A voucher cannot be used with a package",
+          error: "Invalid field",
+        });
+        return;
+      }
+      const pkg = await getPackageByIdRepo(Number(packageId));
+      if (!pkg || pkg.isDeleted) {
+        res.status(statusCode.NOT_FOUND).json({
+          status: false,
+          message: "Package not found",
+          error: "Package not found",
+        });
+        return;
+      }
+      checkoutAmount = Math.floor(Number(pkg.price));
+      checkoutPackageId = pkg.id || null;
+    } else if (voucherCode) {
+      const voucher = await findVoucherByCodeRepo(String(voucherCode));
+      if (
+        !voucher ||
+        voucher.isDeleted ||
+        voucher.status !== VoucherStatus.ACTIVE
+      ) {
+        res.status(statusCode.BAD_REQUEST).json({
+          status: false,
+          message: "Voucher code is invalid or no longer active",
+          error: "Invalid voucher",
         });
-        res
-          .status(statusCode.OK)
-          .json({ status: true, message: "Webhook processed successfully" });
         return;
       }
-    } else {
-      await createDepositRepo({
-        createdBy: parseData.createdBy,
-        amount: returnData.amount,
-        orderId: returnData.orderCode.toString(),
-        paymentMethodId: 3,
-        status: DepositStatus.COMPLETED,
-        userId: parseData.userId,
-        voucherId: parseData.voucherId,
+      voucherId = voucher.id || null;
+    }
+    if (!Number.isSafeInteger(checkoutAmount) || checkoutAmount <= 0) {
+      res.status(statusCode.BAD_REQUEST).json({
+        status: false,
+        message: "Amount must be a positive number",
+        error: "Invalid field",
       });
-      res
-        .status(statusCode.OK)
-        .json({ status: true, message: "Webhook processed successfully" });
       return;
     }
-  } catch (error) {
-    res.status(statusCode.INTERNAL_SERVER_ERROR).json({
-      status: false,
-      message: "Internal server error",
-      details: error,
+
+    const intent = await createPayOsCheckout({
+      userId,
+      createdBy: userId,
+      voucherId,
+      packageId: checkoutPackageId,
+      amount: checkoutAmount,
     });
-    return;
+    res.status(statusCode.CREATED).json({
+      status: true,
+      message: "Create link payment VietQR successfully",
+      data: toCheckoutResponse(intent),
+    });
+  } catch (error: any) {
+    sendCheckoutError(res, error, "Error creating checkout");
   }
-}
+};
+
+export const getPayOsCheckoutStatus = async (
+  req: AuthenticatedRequest,
+  res: Response<ResponseType<any>>
+): Promise<void> => {
+  try {
+    const intent = await getOwnCheckout(req, res);
+    if (!intent) return;
+    res.status(statusCode.OK).json({
+      status: true,
+      message: "Checkout retrieved successfully",
+      data: toCheckoutResponse(intent),
+    });
+  } catch (error: any) {
+    sendCheckoutError(res, error, "Error fetching checkout");
+  }
+};
+
+export const cancelPayOsCheckoutLink = async (
+  req: AuthenticatedRequest,
+  res: Response<ResponseType<any>>
+): Promise<void> => {
+  try {
+    const intent = await getOwnCheckout(req, res);
+    if (!intent) return;
+    const cancelled = await cancelPayOsCheckout(intent, req.body?.reason);
+    if (!cancelled) {
+      res.status(statusCode.CONFLICT).json({
+        status: false,
+        message: "Only a pending checkout can be cancelled",
+        error: "Invalid status",
+      });
+      return;
+    }
+    const updated = await getPaymentIntentByOrderCodeRepo(
+      PaymentProvider.PAYOS,
+      intent.orderCode
+    );
+    res.status(statusCode.OK).json({
+      status: true,
+      message: "Checkout cancelled successfully",
+      data: toCheckoutResponse(updated || intent),
+    });
+  } catch (error: any) {
+    sendCheckoutError(res, error, "Error cancelling checkout");
+  }
+};
@@ -224,7 +224,7 @@ export const getOneTransaction = async (
 
     if (transaction.type === TransactionType.PAY_SERVICE) {
       const campaign = await getCampaignByIdRepo(
-        Number(transaction.referenceId)
+        parseInt(transaction.referenceId || "", 10)
       );
       if (!campaign) {
         res.status(statusCode.OK).json({
@@ -3,9 +3,19 @@ import statusCode from "../../constants/statusCode"; // Adjust path
 import {
   getAllWalletsRepo,
   getWalletByIdRepo,
-  updateWalletRepo,
+  adjustWalletBalanceRepo,
   deleteWalletRepo,
 } from "../../repositories/moneyRepo/wallet.repository"; // Adjust path
+import {
+  getLedgerDriftListRepo,
+  getWalletLedgerEntriesRepo,
+} from "../../repositories/moneyRepo/ledger.repository";
+import { LedgerDriftStatus } from "../../enums/ledger.enum";
+import {
+  getReservedAmountRepo,
+  getReservedAmountsRepo,
+  toWalletBalances,
+} from "../../repositories/moneyRepo/walletHold.repository";
 import { ResponseType } from "../../types/Response.type"; // Adjust path
 import { WalletAttributes } from "../../interfaces/Wallet.interface";
 import { AuthenticatedRequest } from "../../types/AuthenticateRequest.type";
@@ -17,13 +27,16 @@ export const getAllWallets = async (
 ): Promise<void> => {
   try {
     const wallets = await getAllWalletsRepo();
+    const reserved = await getReservedAmountsRepo(
+      wallets.map((wallet) => wallet.id || 0)
+    );
     res.status(statusCode.OK).json({
       status: true,
       message: "Wallets retrieved successfully",
       data: wallets.map((wallet: WalletAttributes) => ({
         id: wallet.id,
         userId: wallet.userId,
-        balance: wallet.balance,
+        ...toWalletBalances(wallet.balance, reserved.get(wallet.id || 0) || 0),
         createdAt: wallet.createdAt,
         updatedAt: wallet.updatedAt,
       })),
@@ -71,13 +84,14 @@ export const getWalletById = async (
       return;
     }
 
+    const reserved = await getReservedAmountRepo(wallet.id || 0);
     res.status(statusCode.OK).json({
       status: true,
       message: "Wallet retrieved successfully",
       data: {
         id: wallet.id,
         userId: wallet.userId,
-        balance: wallet.balance,
+        ...toWalletBalances(wallet.balance, reserved),
         createdAt: wallet.createdAt,
         updatedAt: wallet.updatedAt,
       },
@@ -116,7 +130,7 @@ export const updateWallet = async (
       });
       return;
     }
-    if (balance === undefined || isNaN(balance)) {
+    if (balance === undefined || isNaN(balance) || Number(balance) < 0) {
       res.status(statusCode.BAD_REQUEST).json({
         status: false,
         message: "Valid balance is required",
@@ -132,19 +146,22 @@ export const updateWallet = async (
       });
       return;
     }
-    await updateWalletRepo(Number(id), { balance });
-
- 
+    // Posted as an adjustment transaction so the ledger keeps the correction
+    const updatedWallet =
+      (await adjustWalletBalanceRepo(Number(id), {
+        balance: Number(balance),
+      })) || wallet;
 
+    const reserved = await getReservedAmountRepo(updatedWallet.id || 0);
     res.status(statusCode.OK).json({
       status: true,
       message: "Wallet updated successfully",
       data: {
-        id: wallet.id,
-        userId: wallet.userId,
-        balance: wallet.balance,
-        createdAt: wallet.createdAt,
-        updatedAt: wallet.updatedAt,
+        id: updatedWallet.id,
+        userId: updatedWallet.userId,
+        ...toWalletBalances(updatedWallet.balance, reserved),
+        createdAt: updatedWallet.createdAt,
+        updatedAt: updatedWallet.updatedAt,
       },
     });
   } catch (error: any) {
@@ -202,3 +219,96 @@ export const deleteWallet = async (
     });
   }
 };
+
+// Get the ledger entries behind a wallet balance
+export const getWalletLedger = async (
+  req: AuthenticatedRequest,
+  res: Response<ResponseType<any>>
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const user = req.data;
+    if (!user || !user.id) {
+      res.status(statusCode.UNAUTHORIZED).json({
+        status: false,
+        message: "Unauthorized",
+      });
+      return;
+    }
+    const wallet = await getWalletByIdRepo(Number(id));
+    if (!wallet) {
+      res.status(statusCode.NOT_FOUND).json({
+        status: false,
+        message: "Wallet not found",
+        error: "Resource not found",
+      });
+      return;
+    }
+    if (user.role.id === 2 && user.id !== Number(wallet.userId)) {
+      res.status(statusCode.FORBIDDEN).json({
+        status: false,
+        message: "You not have permission",
+        error: "You not have permission",
+      });
+      return;
+    }
+
+    const { page, limit } = req.query;
+    const ledger = await getWalletLedgerEntriesRepo(Number(id), {
+      page: Number(page) || undefined,
+      limit: Number(limit) || undefined,
+    });
+    res.status(statusCode.OK).json({
+      status: true,
+      message: "Wallet ledger retrieved successfully",
+      data: {
+        walletId: wallet.id,
+        balance: Number(wallet.balance),
+        ledgerBalance: ledger.balance,
+        entries: ledger.entries,
+        total: ledger.total,
+      },
+    });
+  } catch (error: any) {
+    res.status(statusCode.INTERNAL_SERVER_ERROR).json({
+      status: false,
+      message: "Error fetching wallet ledger",
+      error: error.message,
+    });
+  }
+};
+
+// Search the drift flagged by the ledger reconciliation job
+export const searchLedgerDrifts = async (
+  req: Request,
+  res: Response<ResponseType<any>>
+): Promise<void> => {
+  try {
+    const { walletId, status, page, limit } = req.body;
+    if (status && !Object.values(LedgerDriftStatus).includes(status)) {
+      res.status(statusCode.BAD_REQUEST).json({
+        status: false,
+        message: `status must be one of ${Object.values(LedgerDriftStatus).join(", ")}`,
+        error: "Invalid field",
+      });
+      return;
+    }
+    const drifts = await getLedgerDriftListRepo({
+      walletId: Number(walletId) || undefined,
+      status,
+      page: Number(page) || undefined,
+      limit: Number(limit) || undefined,
+    });
+    res.status(statusCode.OK).json({
+      status: true,
+      message: "Ledger drifts retrieved successfully",
+      data: drifts,
+    });
+  } catch (error: any) {
+    res.status(statusCode.INTERNAL_SERVER_ERROR).json({
+      status: false,
+      message: "Error fetching ledger drifts",
+      error: error.message,
+    });
+  }
+};
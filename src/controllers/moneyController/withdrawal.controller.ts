@@ -0,0 +1,335 @@
+import { Response } from "express";
+import statusCode from "../../constants/statusCode";
+import { oxapayConfig } from "../../config/oxapay.config";
+import { WithdrawalStatus } from "../../enums/withdrawalStatus.enum";
+import { AgencyAttributes } from "../../interfaces/Agency.interface";
+import { AuthenticatedRequest } from "../../types/AuthenticateRequest.type";
+import { ResponseType } from "../../types/Response.type";
+import { ErrorType } from "../../types/Error.type";
+import { findAgencyByUserIdRepo } from "../../repositories/coreRepo/agency.repository";
+import {
+  getWithdrawalRequestDetailRepo,
+  getWithdrawalRequestListRepo,
+} from "../../repositories/moneyRepo/withdrawal.repository";
+import {
+  approveWithdrawal,
+  cancelWithdrawal,
+  getAgencyEarnings,
+  reconcileWithdrawal,
+  rejectWithdrawal,
+  requestWithdrawal,
+} from "../../services/withdrawal.service";
+
+const MAX_ADDRESS_LENGTH = 128;
+const MAX_REASON_LENGTH = 500;
+
+const isAdmin = (req: AuthenticatedRequest): boolean =>
+  req.data?.role.id === 1;
+
+const sendWithdrawalError = (res: Response, error: any, message: string) => {
+  const errorResponse =
+    error instanceof ErrorType && typeof error.code === "number"
+      ? error
+      : new ErrorType(
+          error.name || "UnknownError",
+          error.message || message,
+          statusCode.INTERNAL_SERVER_ERROR
+        );
+  res.status(errorResponse.code).json({
+    status: false,
+    message: errorResponse.message,
+    error: errorResponse.name,
+  });
+};
+
+// The agency the caller owns, or a 403 when they do not own one
+const getCallerAgency = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<AgencyAttributes | null> => {
+  const agency = await findAgencyByUserIdRepo(req.data?.id || 0);
+  if (!agency) {
+    res.status(statusCode.FORBIDDEN).json({
+      status: false,
+      message: "Only an agency can withdraw its earnings",
+      error: "Forbidden",
+    });
+    return null;
+  }
+  return agency;
+};
+
+const parseId = (req: AuthenticatedRequest, res: Response): number | null => {
+  const id = Number(req.params.id);
+  if (!Number.isSafeInteger(id) || id <= 0) {
+    res.status(statusCode.BAD_REQUEST).json({
+      status: false,
+      message: "Invalid withdrawal id",
+      error: "Invalid field",
+    });
+    return null;
+  }
+  return id;
+};
+
+export const createWithdrawal = async (
+  req: AuthenticatedRequest,
+  res: Response<ResponseType<any>>
+): Promise<void> => {
+  try {
+    const { amount, currency, network, address } = req.body;
+    const withdrawAmount = Number(amount);
+    if (!Number.isFinite(withdrawAmount) || withdrawAmount <= 0) {
+      res.status(statusCode.BAD_REQUEST).json({
+        status: false,
+        message: "Amount must be a positive number",
+        error: "Invalid field",
+      });
+      return;
+    }
+    const payoutAddress = typeof address === "string" ? address.trim() : "";
+    if (!payoutAddress || payoutAddress.length > MAX_ADDRESS_LENGTH) {
+      res.status(statusCode.BAD_REQUEST).json({
+        status: false,
+        message: "A valid payout address is required",
+        error: "Invalid field",
+      });
+      return;
+    }
+
+    const agency = await getCallerAgency(req, res);
+    if (!agency) return;
+
+    const withdrawal = await requestWithdrawal({
+      agencyId: agency.id || 0,
+      userId: req.data?.id || 0,
+      amount: withdrawAmount,
+      currency: String(currency || oxapayConfig.currency).toUpperCase(),
+      network: network ? String(network) : null,
+      address: payoutAddress,
+    });
+    res.status(statusCode.CREATED).json({
+      status: true,
+      message: "Withdrawal requested successfully",
+      data: withdrawal,
+    });
+  } catch (error: any) {
+    sendWithdrawalError(res, error, "Error requesting withdrawal");
+  }
+};
+
+export const getWithdrawalBalance = async (
+  req: AuthenticatedRequest,
+  res: Response<ResponseType<any>>
+): Promise<void> => {
+  try {
+    const agency = await getCallerAgency(req, res);
+    if (!agency) return;
+    const earnings = await getAgencyEarnings(agency.id || 0);
+    res.status(statusCode.OK).json({
+      status: true,
+      message: "Earnings retrieved successfully",
+      data: earnings,
+    });
+  } catch (error: any) {
+    sendWithdrawalError(res, error, "Error fetching earnings");
+  }
+};
+
+export const getListWithdrawal = async (
+  req: AuthenticatedRequest,
+  res: Response<ResponseType<any>>
+): Promise<void> => {
+  try {
+    const { agencyId, status, page, limit } = req.body;
+    const filters: {
+      agencyId?: number;
+      status?: WithdrawalStatus;
+      page?: number;
+      limit?: number;
+    } = {};
+    if (page) filters.page = Number(page);
+    if (limit) filters.limit = Number(limit);
+    if (status) {
+      if (
+        !Object.values(WithdrawalStatus).includes(status as WithdrawalStatus)
+      ) {
+        res.status(statusCode.BAD_REQUEST).json({
+          status: false,
+          message: `Valid status is required (${Object.values(
+            WithdrawalStatus
+          ).join(", ")})`,
+          error: "Invalid field",
+        });
+        return;
+      }
+      filters.status = status as WithdrawalStatus;
+    }
+    // Admins see every agency, an agency only its own requests
+    if (isAdmin(req)) {
+      if (agencyId) filters.agencyId = Number(agencyId);
+    } else {
+      const agency = await getCallerAgency(req, res);
+      if (!agency) return;
+      filters.agencyId = agency.id;
+    }
+
+    const result = await getWithdrawalRequestListRepo(filters);
+    res.status(statusCode.OK).json({
+      status: true,
+      message: "Withdrawals retrieved successfully",
+      data: {
+        withdrawals: result.withdrawals,
+        total: result.total,
+      },
+    });
+  } catch (error: any) {
+    sendWithdrawalError(res, error, "Error fetching withdrawals");
+  }
+};
+
+export const getOneWithdrawal = async (
+  req: AuthenticatedRequest,
+  res: Response<ResponseType<any>>
+): Promise<void> => {
+  try {
+    const id = parseId(req, res);
+    if (!id) return;
+    const withdrawal = await getWithdrawalRequestDetailRepo(id);
+    if (!withdrawal) {
+      res.status(statusCode.NOT_FOUND).json({
+        status: false,
+        message: "Withdrawal not found",
+        error: "Not found",
+      });
+      return;
+    }
+    if (!isAdmin(req) && withdrawal.userId !== req.data?.id) {
+      res.status(statusCode.FORBIDDEN).json({
+        status: false,
+        message: "You not have permission",
+        error: "Forbidden",
+      });
+      return;
+    }
+    res.status(statusCode.OK).json({
+      status: true,
+      message: "Withdrawal retrieved successfully",
+      data: withdrawal,
+    });
+  } catch (error: any) {
+    sendWithdrawalError(res, error, "Error fetching withdrawal");
+  }
+};
+
+export const cancelWithdrawalRequest = async (
+  req: AuthenticatedRequest,
+  res: Response<ResponseType<any>>
+): Promise<void> => {
+  try {
+    const id = parseId(req, res);
+    if (!id) return;
+    const withdrawal = await getWithdrawalRequestDetailRepo(id);
+    if (!withdrawal || withdrawal.userId !== req.data?.id) {
+      res.status(statusCode.NOT_FOUND).json({
+        status: false,
+        message: "Withdrawal not found",
+        error: "Not found",
+      });
+      return;
+    }
+    const cancelled = await cancelWithdrawal(id, req.data?.id || 0);
+    res.status(statusCode.OK).json({
+      status: true,
+      message: "Withdrawal cancelled successfully",
+      data: cancelled,
+    });
+  } catch (error: any) {
+    sendWithdrawalError(res, error, "Error cancelling withdrawal");
+  }
+};
+
+export const approveWithdrawalRequest = async (
+  req: AuthenticatedRequest,
+  res: Response<ResponseType<any>>
+): Promise<void> => {
+  try {
+    const id = parseId(req, res);
+    if (!id) return;
+    const withdrawal = await approveWithdrawal(id, req.data?.id || 0);
+    res.status(statusCode.OK).json({
+      status: true,
+      message: "Withdrawal approved and payout sent",
+      data: withdrawal,
+    });
+  } catch (error: any) {
+    sendWithdrawalError(res, error, "Error approving withdrawal");
+  }
+};
+
+export const rejectWithdrawalRequest = async (
+  req: AuthenticatedRequest,
+  res: Response<ResponseType<any>>
+): Promise<void> => {
+  try {
+    const id = parseId(req, res);
+    if (!id) return;
+    const reason =
+      typeof req.body?.reason === "string" ? req.body.reason.trim() : "";
+    if (!reason || reason.length > MAX_REASON_LENGTH) {
+      res.status(statusCode.BAD_REQUEST).json({
+        status: false,
+        message: `A reason of at most ${MAX_REASON_LENGTH} characters is required`,
+        error: "Invalid field",
+      });
+      return;
+    }
+    const withdrawal = await rejectWithdrawal(id, req.data?.id || 0, reason);
+    res.status(statusCode.OK).json({
+      status: true,
+      message: "Withdrawal rejected successfully",
+      data: withdrawal,
+    });
+  } catch (error: any) {
+    sendWithdrawalError(res, error, "Error rejecting withdrawal");
+  }
+};
+
+// Settle a payout whose outcome was unknown after checking it in Oxapay
+export const reconcileWithdrawalRequest = async (
+  req: AuthenticatedRequest,
+  res: Response<ResponseType<any>>
+): Promise<void> => {
+  try {
+    const id = parseId(req, res);
+    if (!id) return;
+    const { outcome, trackId } = req.body || {};
+    const note = typeof req.body?.note === "string" ? req.body.note.trim() : "";
+    if (
+      ![WithdrawalStatus.COMPLETED, WithdrawalStatus.FAILED].includes(outcome) ||
+      !note ||
+      note.length > MAX_REASON_LENGTH
+    ) {
+      res.status(statusCode.BAD_REQUEST).json({
+        status: false,
+        message: `outcome must be COMPLETED or FAILED and a note of at most ${MAX_REASON_LENGTH} characters is required`,
+        error: "Invalid field",
+      });
+      return;
+    }
+    const withdrawal = await reconcileWithdrawal(
+      id,
+      req.data?.id || 0,
+      outcome === WithdrawalStatus.COMPLETED,
+      note,
+      typeof trackId === "string" && trackId.trim() ? trackId.trim() : null
+    );
+    res.status(statusCode.OK).json({
+      status: true,
+      message: "Withdrawal reconciled successfully",
+      data: withdrawal,
+    });
+  } catch (error: any) {
+    sendWithdrawalError(res, error, "Error reconciling withdrawal");
+  }
+};
@@ -77,6 +77,26 @@ const permissionCodes = [
   "update-country",
   "delete-country",
   "read-bot-keywords",
+  "update-campaign",
+  "create-campaign-template",
+  "search-campaign-templates",
+  "read-campaign-template",
+  "update-campaign-template",
+  "delete-campaign-template",
+  "read-bot-outbox",
+  "replay-bot-outbox",
+  "read-ledger-drifts",
+  "create-oxapay-payout",
+  "create-withdrawal",
+  "read-withdrawals",
+  "review-withdrawal",
+  "read-agency-commissions",
+  "manage-commission-rules",
+  "manage-agency-clients",
+  "manage-notification-preferences",
+  "read-notifications",
+  "manage-api-keys",
+  "manage-webhooks",
 ];
 
 // Initialize permissions with raw SQL
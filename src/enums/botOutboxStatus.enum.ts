@@ -0,0 +1,6 @@
+export enum BotOutboxStatus {
+  PENDING = "PENDING",
+  PROCESSING = "PROCESSING",
+  DELIVERED = "DELIVERED",
+  DEAD = "DEAD",
+}
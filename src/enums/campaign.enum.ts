@@ -5,4 +5,9 @@ export enum CampaignStatus {
     PROCESSING = "PROCESSING",
     CANCEL = "CANCEL",
     COMPLETED = "COMPLETED",
-  }
\ No newline at end of file
+  }
+
+export enum CampaignRecurrence {
+    WEEKLY = "WEEKLY",
+    MONTHLY = "MONTHLY",
+  }
@@ -0,0 +1,4 @@
+export enum CommissionSource {
+  DEPOSIT = "DEPOSIT", // Paid part of a completed deposit
+  CAMPAIGN_SPEND = "CAMPAIGN_SPEND", // Credit charged for campaigns, net of refunds
+}
@@ -2,4 +2,6 @@ export enum DepositStatus {
     PENDING = "PENDING",
     COMPLETED = "COMPLETED",
     FAILED = "FAILED",
+    UNDERPAID = "UNDERPAID",
+    EXPIRED = "EXPIRED",
   }
\ No newline at end of file
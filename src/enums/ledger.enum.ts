@@ -0,0 +1,21 @@
+export enum LedgerAccountType {
+  USER_WALLET = "USER_WALLET",
+  CASH = "CASH",
+  REVENUE = "REVENUE",
+  REFUNDS = "REFUNDS",
+  PROMOTIONAL_CREDIT = "PROMOTIONAL_CREDIT",
+  AGENCY_COMMISSION = "AGENCY_COMMISSION",
+  AGENCY_PAYABLE = "AGENCY_PAYABLE", // What the platform owes one agency
+  ADJUSTMENT = "ADJUSTMENT",
+  TRANSFERS = "TRANSFERS", // Clearing account of wallet-to-wallet transfers, nets to zero
+}
+
+export enum LedgerEntryDirection {
+  DEBIT = "DEBIT",
+  CREDIT = "CREDIT",
+}
+
+export enum LedgerDriftStatus {
+  OPEN = "OPEN",
+  RESOLVED = "RESOLVED",
+}
@@ -1,8 +1,31 @@
 export enum notificationType {
     CREATE_CAMPAIGN = "CREATE_CAMPAIGN",
+    UPDATE_CAMPAIGN = "UPDATE_CAMPAIGN",
+    RENEW_CAMPAIGN = "RENEW_CAMPAIGN",
     CHARGE_MONEY = "CHARGE_MONEY",
     REFUND_MONEY =  "REFUND_MONEY",
     RUNNING_CAMPAIGN = "RUNNING_CAMPAIGN",
     GIFT = "GIFT",
+    WITHDRAWAL = "WITHDRAWAL",
   }
-  
\ No newline at end of file
+
+export enum NotificationChannel {
+  IN_APP = "IN_APP", // Stored row plus the newNotification socket event
+  EMAIL = "EMAIL",
+  TELEGRAM = "TELEGRAM",
+  WEBHOOK = "WEBHOOK",
+}
+
+export enum NotificationDeliveryStatus {
+  PENDING = "PENDING",
+  PROCESSING = "PROCESSING",
+  DELIVERED = "DELIVERED",
+  DEAD = "DEAD",
+}
+
+// State of a notification for one recipient, derived from readAt / archivedAt
+export enum NotificationRecipientState {
+  UNREAD = "UNREAD",
+  READ = "READ",
+  ARCHIVED = "ARCHIVED",
+}
@@ -0,0 +1,10 @@
+export enum PaymentIntentStatus {
+  PENDING = "PENDING",
+  PAID = "PAID",
+  CANCELLED = "CANCELLED",
+  FAILED = "FAILED", // Expired before it was paid, or the payment link could not be created
+}
+
+export enum PaymentProvider {
+  PAYOS = "PAYOS",
+}
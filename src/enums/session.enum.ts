@@ -0,0 +1,8 @@
+// Why a login session stopped being valid
+export enum SessionRevokeReason {
+  LOGOUT = "LOGOUT",
+  LOGOUT_ALL = "LOGOUT_ALL",
+  REVOKED = "REVOKED", // Ended from another device
+  REFRESH_TOKEN_REUSE = "REFRESH_TOKEN_REUSE",
+  PASSWORD_RESET = "PASSWORD_RESET",
+}
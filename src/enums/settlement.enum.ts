@@ -0,0 +1,14 @@
+export enum SettlementItemType {
+  KEYWORD = "KEYWORD",
+  LINK = "LINK",
+  DIRECT_LINK = "DIRECT_LINK",
+  GOOGLE_MAP_REVIEW = "GOOGLE_MAP_REVIEW",
+  ADJUSTMENT = "ADJUSTMENT",
+}
+
+export enum SettlementUnit {
+  TRAFFIC = "TRAFFIC",
+  DAY = "DAY",
+  REVIEW = "REVIEW",
+  CREDIT = "CREDIT",
+}
@@ -1,5 +1,9 @@
 export enum TransactionType {
     DEPOSIT = "DEPOSIT",
     PAY_SERVICE = "PAY_SERVICE",
-    REFUND_SERVICE = "REFUND_SERVICE"
+    REFUND_SERVICE = "REFUND_SERVICE",
+    ADJUSTMENT_CREDIT = "ADJUSTMENT_CREDIT",
+    ADJUSTMENT_DEBIT = "ADJUSTMENT_DEBIT",
+    TRANSFER_OUT = "TRANSFER_OUT",
+    TRANSFER_IN = "TRANSFER_IN"
   }
\ No newline at end of file
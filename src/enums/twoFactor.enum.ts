@@ -0,0 +1,6 @@
+// Ways to pass the second step of a login or to re-authenticate
+export enum TwoFactorMethod {
+  TOTP = "totp",
+  BACKUP_CODE = "backup_code",
+  EMAIL = "email",
+}
@@ -0,0 +1,5 @@
+export enum WalletHoldStatus {
+  HELD = "HELD",
+  CAPTURED = "CAPTURED",
+  RELEASED = "RELEASED",
+}
@@ -0,0 +1,21 @@
+// Events a user can subscribe a webhook endpoint to
+export enum WebhookEvent {
+  CAMPAIGN_CREATED = "campaign.created",
+  CAMPAIGN_ACTIVATED = "campaign.activated",
+  CAMPAIGN_PAUSED = "campaign.paused",
+  CAMPAIGN_COMPLETED = "campaign.completed",
+  CAMPAIGN_CANCELLED = "campaign.cancelled",
+  REFUND_ISSUED = "refund.issued",
+  DEPOSIT_COMPLETED = "deposit.completed",
+  WALLET_LOW_BALANCE = "wallet.low_balance",
+}
+
+// Sent by the "send test event" endpoint only, never subscribed to
+export const WEBHOOK_TEST_EVENT = "webhook.test";
+
+export enum WebhookDeliveryStatus {
+  PENDING = "PENDING",
+  PROCESSING = "PROCESSING",
+  DELIVERED = "DELIVERED",
+  DEAD = "DEAD",
+}
@@ -0,0 +1,10 @@
+export enum WithdrawalStatus {
+  PENDING = "PENDING", // Waiting for an admin
+  APPROVED = "APPROVED", // Approved, payout being sent to Oxapay
+  PROCESSING = "PROCESSING", // Payout accepted by Oxapay, waiting for its callback
+  NEEDS_RECONCILIATION = "NEEDS_RECONCILIATION", // Oxapay may have accepted the payout, an admin checks
+  COMPLETED = "COMPLETED",
+  REJECTED = "REJECTED",
+  FAILED = "FAILED",
+  CANCELLED = "CANCELLED",
+}
@@ -0,0 +1,15 @@
+import { WalletBalances } from "./WalletHold.interface";
+
+// What an agency sees of one of the users it invited
+export interface AgencyClientSummary extends WalletBalances {
+  id: number;
+  username: string;
+  email: string;
+  phoneNumber?: string;
+  isActive?: boolean;
+  createdAt?: Date;
+  walletId: number | null;
+  activeCampaigns: number;
+  totalSpend: number; // Credit charged for campaigns, net of refunds
+  lastActivityAt: Date | null; // Latest transaction or campaign change
+}
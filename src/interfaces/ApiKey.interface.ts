@@ -0,0 +1,25 @@
+import { UserAttributes } from "./User.interface";
+
+// A user-scoped key for programmatic access; only the hash of the key is stored
+export interface ApiKeyAttributes {
+  id?: number;
+  userId: number;
+  users?: UserAttributes;
+  name: string;
+  keyPrefix: string; // First characters of the key, shown to tell keys apart
+  keyHash: string;
+  permissions: string[]; // Subset of the owner's permission codes
+  rateLimit: number; // Requests per rate limit window
+  lastUsedAt?: Date | null;
+  expiresAt?: Date | null;
+  revokedAt?: Date | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+// What authenticateToken attaches to a request made with an API key
+export interface ApiKeyContext {
+  id: number;
+  permissions: string[];
+  rateLimit: number;
+}
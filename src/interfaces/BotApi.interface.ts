@@ -0,0 +1,108 @@
+import { DistributionType } from "../enums/distribution.enum";
+import { KeywordType } from "../enums/keywordType.enum";
+import { DirectLinkType } from "../enums/directLinkType.enum";
+
+export type BotApiMethod = "POST" | "PUT";
+
+export interface BotApiCallOptions {
+  timeout?: number;
+  idempotent?: boolean;
+}
+
+export interface BotKeywordSetInput {
+  keywordId: number;
+  title: string;
+  keyword: string;
+  videoTitle?: string;
+  urls?: string | string[];
+  distribution: DistributionType;
+  traffic: number;
+  device: string;
+  domain: string;
+  timeOnSite: number;
+  keywordType?: KeywordType;
+  timeStart: Date | string;
+  timeEnd: Date | string;
+  searchTool: string;
+}
+
+export interface BotKeywordUpdateInput {
+  keywordId: number;
+  timeEnd: string;
+  traffic?: number;
+}
+
+export interface BotLinkSetInput {
+  linkId: number;
+  link: string;
+  timeStart: Date | string;
+  timeEnd: Date | string;
+}
+
+export interface BotDirectLinkSetInput {
+  directLinkId: number;
+  link: string;
+  traffic: number;
+  distribution: DistributionType;
+  device: string;
+  searchTool: string;
+  timeOnSite: number;
+  timeStart: Date | string;
+  timeEnd: Date | string;
+  directLinkType: DirectLinkType;
+}
+
+export interface BotGoogleMapsReviewSetInput {
+  googleMapsReviewId: number;
+  content: string;
+  googleMapsUrl: string;
+  stars: number;
+  device: string;
+  timeStart: Date | string;
+  timeEnd: Date | string;
+}
+
+export interface BotKeywordSuccessCountInput {
+  keywordId: number;
+  time_start: string;
+  time_end: string;
+}
+
+export interface BotDirectLinkSuccessCountInput {
+  directLinkId: number;
+  time_start: string;
+  time_end: string;
+}
+
+export interface BotSuccessCountResult {
+  success_count: number;
+}
+
+export interface BotSearchLogInput {
+  page: number;
+  limit: number;
+  keywordId: number;
+}
+
+export type BotLogType = "SEARCHLOG" | "DIRECTLOG";
+
+export interface BotSearchLogByTypeInput {
+  page: number;
+  limit: number;
+  keywordId?: number;
+  linkId?: number;
+  type: BotLogType;
+}
+
+export interface BotSearchLogEntry {
+  device: string;
+  keywordId: number;
+  timestamp: string;
+  statusId: number;
+  statusName: string;
+}
+
+export interface BotSearchLogResult {
+  data: BotSearchLogEntry[];
+  total?: number;
+}
@@ -0,0 +1,21 @@
+import { BotOutboxStatus } from "../enums/botOutboxStatus.enum";
+import { CampaignAttributes } from "./Campaign.interface";
+
+export type BotOutboxMethod = "POST" | "PUT";
+
+export interface BotOutboxAttributes {
+  id?: number;
+  campaignId: number | null;
+  campaigns?: CampaignAttributes;
+  endpoint: string;
+  method: BotOutboxMethod;
+  payload: Record<string, any> | Record<string, any>[];
+  status: BotOutboxStatus;
+  attempts: number;
+  nextAttemptAt: Date;
+  lockedAt?: Date | null;
+  lastError?: string | null;
+  deliveredAt?: Date | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
@@ -0,0 +1,45 @@
+export type BotSimulatorJobType =
+  | "KEYWORD"
+  | "LINK"
+  | "DIRECT_LINK"
+  | "GOOGLE_MAPS_REVIEW";
+
+export type BotSimulatorFaultMode = "none" | "error" | "timeout" | "malformed";
+
+export type BotSimulatorResponseFormat = "json" | "xml";
+
+export interface BotSimulatorJob {
+  type: BotSimulatorJobType;
+  id: number;
+  traffic: number;
+  device: string;
+  timeStart: Date;
+  timeEnd: Date;
+  payload: Record<string, any>;
+}
+
+export interface BotSimulatorFaultConfig {
+  mode: BotSimulatorFaultMode;
+  rate: number; // Fraction of matching requests that fail, 0..1
+  remaining?: number; // Stop injecting after this many faults
+  status: number; // HTTP status returned in "error" mode
+  endpoints?: string[]; // Only inject on these endpoints (all when empty)
+  latencyMS: number; // Added to every response
+}
+
+export interface BotSimulatorOptions {
+  token?: string;
+  seed: string;
+  successRate: number;
+  responseFormat: BotSimulatorResponseFormat;
+  fault: BotSimulatorFaultConfig;
+}
+
+export interface BotSimulatorLogEntry {
+  device: string;
+  keywordId?: number;
+  linkId?: number;
+  timestamp: string;
+  statusId: number;
+  statusName: string;
+}
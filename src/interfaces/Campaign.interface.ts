@@ -1,5 +1,6 @@
-import { CampaignStatus } from "../enums/campaign.enum";
+import { CampaignRecurrence, CampaignStatus } from "../enums/campaign.enum";
 import { DirectLinkAttributes } from "./DirectLink.interface";
+import { GoogleMapReviewAttributes } from "./GoogleMapReview.interface";
 import { KeywordAttributes } from "./Keyword.interface";
 import { LinkAttributes } from "./Link.interface";
 import { UserAttributes } from "./User.interface";
@@ -25,8 +26,27 @@ export interface CampaignAttributes  {
   keywords?: KeywordAttributes[]
   links?: LinkAttributes[];
   directLinks?: DirectLinkAttributes[];
+  googleMapReviews?: GoogleMapReviewAttributes[];
   isDeleted?: boolean;
   status: CampaignStatus;
+  recurrence?: CampaignRecurrence | null;
+  recurrenceCount?: number | null; // Total occurrences including the first one
+  recurrenceUntil?: Date | null; // No occurrence starts after this date
+  occurrence?: number;
+  parentCampaignId?: number | null; // Campaign this one was renewed from
+  cancelReason?: string | null;
+  cancelledBy?: number | null; // User who cancelled the campaign
   createdAt?: Date;
   updatedAt?: Date;
 }
+
+export interface CampaignUpdateInput {
+  endDate?: string;
+  addKeywords?: KeywordAttributes[];
+  removeKeywordIds?: number[];
+  updateKeywords?: { id: number; traffic: number }[];
+  addLinks?: LinkAttributes[];
+  removeLinkIds?: number[];
+  addDirectLinks?: DirectLinkAttributes[];
+  removeDirectLinkIds?: number[];
+}
@@ -0,0 +1,26 @@
+import { CampaignStatus } from "../enums/campaign.enum";
+import { SettlementItemType } from "../enums/settlement.enum";
+
+// Successful visits reported by the bot against what the campaign planned
+export interface TrafficProgress {
+  delivered: number;
+  planned: number;
+}
+
+export interface CampaignProgressItem {
+  itemType: SettlementItemType.KEYWORD | SettlementItemType.DIRECT_LINK;
+  itemId: number;
+  name: string;
+  today: TrafficProgress;
+  total: TrafficProgress;
+}
+
+// Payload of the campaignProgress socket event, also cached in Redis
+export interface CampaignProgress {
+  campaignId: number;
+  status: CampaignStatus;
+  today: TrafficProgress;
+  total: TrafficProgress;
+  items: CampaignProgressItem[];
+  updatedAt: string;
+}
@@ -0,0 +1,46 @@
+import { DistributionType } from "../enums/distribution.enum";
+import { KeywordType } from "../enums/keywordType.enum";
+import { DirectLinkType } from "../enums/directLinkType.enum";
+import { UserAttributes } from "./User.interface";
+
+export interface CampaignTemplateKeyword {
+  name: string;
+  urls: string[];
+  distribution: DistributionType;
+  traffic: number;
+  timeOnSite?: number;
+  keywordType?: KeywordType;
+  videoTitle?: string;
+}
+
+export interface CampaignTemplateLink {
+  link: string;
+  distribution?: DistributionType;
+}
+
+export interface CampaignTemplateDirectLink {
+  link: string;
+  distribution: DistributionType;
+  traffic: number;
+  timeOnSite?: number;
+  type?: DirectLinkType;
+}
+
+export interface CampaignTemplateAttributes {
+  id?: number;
+  userId: number;
+  users?: UserAttributes;
+  name: string;
+  campaignTypeId: number;
+  countryId: number | null;
+  device: string | null;
+  title: string | null;
+  domain: string | null;
+  search: string | null;
+  keywords: CampaignTemplateKeyword[];
+  links: CampaignTemplateLink[];
+  directLinks: CampaignTemplateDirectLink[];
+  isDeleted?: boolean;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
@@ -0,0 +1,44 @@
+import { CommissionSource } from "../enums/commission.enum";
+
+export interface CommissionRuleAttributes {
+  id?: number;
+  agencyId: number | null; // Null for the default rules of every agency
+  source: CommissionSource;
+  rate: number; // Percent of the base amount
+  minVolume: number; // Tier threshold: the agency's volume for this source in the month
+  durationMonths: number | null; // Only pays for users registered less than this many months ago
+  startsAt: Date | null;
+  endsAt: Date | null;
+  isDeleted: boolean;
+  createdBy: number;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface AgencyCommissionAttributes {
+  id?: number;
+  agencyId: number;
+  referredUserId: number;
+  ruleId: number | null; // Null for a refund reversal
+  source: CommissionSource;
+  transactionId: number; // Wallet transaction the commission was computed from
+  referenceId: string | null; // Campaign of a spend, to reverse it on refund
+  baseAmount: number; // Negative for a refund reversal
+  rate: number;
+  amount: number; // Credit owed to the agency, negative for a reversal
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface CommissionStatementLine {
+  source: CommissionSource;
+  volume: number;
+  commission: number;
+}
+
+export interface CommissionStatement {
+  month: string; // YYYY-MM
+  lines: CommissionStatementLine[];
+  total: number;
+  referredUsers: { userId: number; username?: string; commission: number }[];
+}
@@ -14,6 +14,9 @@ export interface DepositAttributes {
   transactions?: TransactionAttributes;
   voucherId: number | null;
   amount: number;
+  cryptoCurrency?: string | null; // Coin a crypto invoice is priced in
+  cryptoAmount?: number | null; // Invoice amount in cryptoCurrency
+  exchangeRate?: number | null; // USD per cryptoCurrency unit when the invoice was created
   status: DepositStatus;
   packageId?: number;
   packages?: PackageAttributes;
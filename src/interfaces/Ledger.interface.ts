@@ -0,0 +1,45 @@
+import {
+  LedgerAccountType,
+  LedgerDriftStatus,
+  LedgerEntryDirection,
+} from "../enums/ledger.enum";
+
+export interface LedgerAccountAttributes {
+  id?: number;
+  code: string; // "USER_WALLET:<walletId>", "AGENCY_PAYABLE:<agencyId>" or the system account type
+  type: LedgerAccountType;
+  walletId: number | null;
+  agencyId?: number | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface LedgerEntryAttributes {
+  id?: number;
+  accountId: number;
+  transactionId: number | null; // null for journals without a wallet transaction, e.g. opening balances and payouts
+  reference: string;
+  direction: LedgerEntryDirection;
+  amount: number;
+  account?: LedgerAccountAttributes;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface LedgerDriftAttributes {
+  id?: number;
+  walletId: number;
+  walletBalance: number;
+  ledgerBalance: number;
+  drift: number; // walletBalance - ledgerBalance
+  status: LedgerDriftStatus;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+// One side of a journal; the debits and credits of a journal must add up
+export interface LedgerPosting {
+  accountId: number;
+  direction: LedgerEntryDirection;
+  amount: number;
+}
@@ -16,6 +16,7 @@ export interface LinkAttributes {
   url?: string;
   page?: string;
   cost: number;
+  billedDays?: number | null; // Days paid for in cost
   isDeleted?: boolean;
   createdAt?: Date;
   updatedAt?: Date;
@@ -0,0 +1,66 @@
+import {
+  NotificationChannel,
+  NotificationDeliveryStatus,
+} from "../enums/notification.enum";
+import { NotificationAttributes } from "./Notification.interface";
+
+// Channels delivered by the dispatcher worker, everything but IN_APP
+export type ExternalNotificationChannel = Exclude<
+  NotificationChannel,
+  NotificationChannel.IN_APP
+>;
+
+// An explicit opt-in or opt-out; types without a row use the defaults
+export interface NotificationPreferenceAttributes {
+  id?: number;
+  userId: number;
+  type: string; // notificationType
+  channel: NotificationChannel;
+  enabled: boolean;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+// Where a user receives a channel: a Telegram chat id or a webhook URL
+export interface NotificationEndpointAttributes {
+  id?: number;
+  userId: number;
+  channel: NotificationChannel;
+  target: string;
+  secret: string | null; // Signs webhook bodies
+  isActive: boolean;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+// One notification sent to one user over one external channel
+export interface NotificationDeliveryAttributes {
+  id?: number;
+  notificationId: number;
+  notifications?: NotificationAttributes;
+  userId: number;
+  channel: ExternalNotificationChannel;
+  target: string;
+  status: NotificationDeliveryStatus;
+  attempts: number;
+  nextAttemptAt: Date;
+  lockedAt?: Date | null;
+  lastError?: string | null;
+  deliveredAt?: Date | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface RenderedNotification {
+  subject: string;
+  text: string;
+  link: string;
+}
+
+export interface NotificationChannelSender {
+  send: (
+    delivery: NotificationDeliveryAttributes,
+    notification: NotificationAttributes,
+    message: RenderedNotification
+  ) => Promise<void>;
+}
@@ -0,0 +1,30 @@
+import { NotificationAttributes } from "./Notification.interface";
+
+// One recipient of a notification and what they did with it
+export interface NotificationRecipientAttributes {
+  id?: number;
+  notificationId: number;
+  notifications?: NotificationAttributes;
+  userId: number;
+  readAt: Date | null;
+  archivedAt: Date | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+// A notification as listed to one recipient
+export interface RecipientNotification {
+  id: number;
+  name: string;
+  content: string;
+  type: string;
+  createdAt?: Date;
+  isRead: boolean;
+  readAt: Date | null;
+  archivedAt: Date | null;
+}
+
+export interface UnreadNotificationCount {
+  total: number;
+  byType: Record<string, number>;
+}
@@ -17,10 +17,10 @@ export interface CreateInvoiceInput {
 }
 
 export interface CreateInvoiceResult {
-  result: number,
-  message: string,
-  trackId: string,
-  payment_url: string
+  track_id: string,
+  payment_url: string,
+  expired_at: number,  // Unix timestamp after which the invoice can no longer be paid
+  date: number,
 }
 
 export interface CreatePayoutInput {
@@ -0,0 +1,25 @@
+import {
+  PaymentIntentStatus,
+  PaymentProvider,
+} from "../enums/paymentIntent.enum";
+
+// What a checkout link was created for, so the webhook never trusts the payload for it
+export interface PaymentIntentAttributes {
+  id?: number;
+  provider: PaymentProvider;
+  orderCode: number;
+  userId: number;
+  createdBy: number;
+  voucherId: number | null;
+  packageId: number | null;
+  amount: number; // Amount the provider must report as paid, in its currency
+  status: PaymentIntentStatus;
+  paymentLinkId: string | null;
+  checkoutUrl: string | null;
+  depositId: number | null;
+  reference: string | null; // Provider transaction reference of the payment
+  expiresAt: Date | null; // When the provider stops accepting payment for the link
+  paidAt: Date | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
@@ -0,0 +1,29 @@
+import {
+  SettlementItemType,
+  SettlementUnit,
+} from "../enums/settlement.enum";
+
+export interface SettlementLineItemAttributes {
+  id?: number;
+  campaignId: number;
+  transactionId: number | null; // REFUND_SERVICE paying this line back, or PAY_SERVICE capturing a hold
+  itemType: SettlementItemType;
+  itemId: number;
+  name: string;
+  unit: SettlementUnit;
+  billedQuantity: number;
+  deliveredQuantity: number;
+  billedCost: number;
+  deliveredCost: number;
+  refundAmount: number;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface CampaignSettlement {
+  campaignId: number;
+  lineItems: SettlementLineItemAttributes[];
+  totalBilled: number;
+  totalDelivered: number;
+  totalRefund: number;
+}
@@ -0,0 +1,29 @@
+import { SessionRevokeReason } from "../enums/session.enum";
+import { UserAttributes } from "./User.interface";
+
+// One signed-in device; its refresh tokens form a single rotation family
+export interface UserSessionAttributes {
+  id?: number;
+  userId: number;
+  users?: UserAttributes;
+  userAgent?: string | null;
+  ipAddress?: string | null;
+  lastSeenAt: Date;
+  expiresAt: Date; // Pushed forward on every refresh
+  revokedAt?: Date | null;
+  revokedReason?: SessionRevokeReason | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+// An opaque refresh token of a session; only its hash is stored
+export interface RefreshTokenAttributes {
+  id?: number;
+  sessionId: number;
+  userSessions?: UserSessionAttributes;
+  tokenHash: string;
+  expiresAt: Date;
+  usedAt?: Date | null; // Set when exchanged, a second use is a replay
+  createdAt?: Date;
+  updatedAt?: Date;
+}
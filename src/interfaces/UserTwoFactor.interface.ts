@@ -0,0 +1,21 @@
+import { UserAttributes } from "./User.interface";
+
+// TOTP enrollment of a user; the row exists from setup, enabledAt is set once a code is verified
+export interface UserTwoFactorAttributes {
+  id?: number;
+  userId: number;
+  users?: UserAttributes;
+  secret: string; // Base32 TOTP secret
+  backupCodes: string[]; // SHA-256 hashes of the unused backup codes
+  lastUsedStep?: number | null; // Last accepted TOTP time step, a code is only accepted once
+  enabledAt?: Date | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+// A login that passed the password check and still needs a second factor
+export interface TwoFactorChallenge {
+  userId: number;
+  email: string;
+  enroll: boolean; // 2FA is mandatory for the user but not set up yet
+}
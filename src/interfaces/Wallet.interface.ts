@@ -5,6 +5,8 @@ export interface WalletAttributes {
   userId: number;
   users?: UserAttributes;
   balance: number;
+  reserved?: number; // Held for scheduled campaigns, not stored on the wallet
+  available?: number;
   isDeleted?: boolean;
   createdAt?: Date;
   updatedAt?: Date;
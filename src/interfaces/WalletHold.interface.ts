@@ -0,0 +1,19 @@
+import { WalletHoldStatus } from "../enums/walletHoldStatus.enum";
+
+export interface WalletHoldAttributes {
+  id?: number;
+  walletId: number;
+  campaignId: number;
+  amount: number; // Credit reserved while HELD
+  capturedAmount: number; // Part charged on capture, the rest was released
+  status: WalletHoldStatus;
+  transactionId: number | null; // PAY_SERVICE transaction of the capture
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface WalletBalances {
+  balance: number;
+  reserved: number;
+  available: number;
+}
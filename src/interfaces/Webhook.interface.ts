@@ -0,0 +1,44 @@
+import { WebhookDeliveryStatus } from "../enums/webhook.enum";
+
+// A URL registered by a user to receive the events it subscribes to
+export interface WebhookEndpointAttributes {
+  id?: number;
+  userId: number;
+  url: string;
+  secret: string; // Signs every payload, shown to the user on creation only
+  events: string[]; // WebhookEvent values
+  description?: string | null;
+  lowBalanceThreshold?: number | null; // wallet.low_balance fires when the balance drops below it
+  isActive: boolean;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+// Body POSTed to the endpoint
+export interface WebhookPayload {
+  id: string; // Same for every attempt, so receivers can drop duplicates
+  event: string;
+  createdAt: string;
+  data: Record<string, any>;
+}
+
+// One event sent to one endpoint, with the outcome of its last attempt
+export interface WebhookDeliveryAttributes {
+  id?: number;
+  endpointId: number;
+  webhookEndpoints?: WebhookEndpointAttributes;
+  userId: number;
+  eventId: string;
+  event: string;
+  payload: WebhookPayload;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  nextAttemptAt: Date;
+  lockedAt?: Date | null;
+  responseStatus?: number | null;
+  responseBody?: string | null;
+  lastError?: string | null;
+  deliveredAt?: Date | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
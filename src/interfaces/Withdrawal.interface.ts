@@ -0,0 +1,42 @@
+import { WithdrawalStatus } from "../enums/withdrawalStatus.enum";
+
+export interface WithdrawalRequestAttributes {
+  id?: number;
+  agencyId: number;
+  userId: number; // Agency owner who asked for the payout
+  amount: number; // Credit taken from the agency's earned balance
+  usdAmount: number; // amount at USD_TO_CREDIT when requested
+  currency: string;
+  network: string | null;
+  address: string;
+  cryptoAmount: number | null; // Sent amount, priced when the payout is sent
+  exchangeRate: number | null; // USD per currency unit when the payout is sent
+  status: WithdrawalStatus;
+  trackId: string | null; // Oxapay payout track id
+  reviewedBy: number | null;
+  reviewedAt: Date | null;
+  rejectReason: string | null;
+  failureReason: string | null;
+  completedAt: Date | null;
+  events?: WithdrawalEventAttributes[];
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+// One status change of a withdrawal request; actorId is null for callbacks
+export interface WithdrawalEventAttributes {
+  id?: number;
+  withdrawalId: number;
+  fromStatus: WithdrawalStatus | null;
+  toStatus: WithdrawalStatus;
+  actorId: number | null;
+  note: string | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface AgencyEarnings {
+  earned: number; // Ledger balance of the agency's payable account
+  reserved: number; // Held by open withdrawal requests
+  available: number;
+}
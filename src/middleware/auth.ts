@@ -6,6 +6,101 @@ import statusCode from "../constants/statusCode";
 import { AuthenticatedRequest } from "../types/AuthenticateRequest.type";
 import { getUserPermissions } from "../repositories/commonRepo/user.repository";
 import { isTokenBlacklisted } from "../utils/utils";
+import { findAgencyByUserIdRepo } from "../repositories/coreRepo/agency.repository";
+import { getAgencyClientRepo } from "../repositories/coreRepo/agencyClient.repository";
+import { ErrorType } from "../types/Error.type";
+import { apiKeyRoutes } from "../config/apiKey.config";
+import {
+  consumeApiKeyRateLimit,
+  isApiKey,
+  verifyApiKey,
+} from "../services/apiKey.service";
+import { touchApiKeyRepo } from "../repositories/commonRepo/apiKey.repository";
+import { logger } from "../config/logger.config";
+import { isSessionRevoked } from "../services/session.service";
+import { touchSessionRepo } from "../repositories/commonRepo/session.repository";
+
+/**
+ * Check an access token the way every entry point must: not blacklisted by
+ * logout, signed with JWT_SECRET, not expired and of a session that was not
+ * logged out. Used by authenticateToken and by the Socket.IO handshake.
+ */
+export const verifyAccessToken = async (token: string): Promise<JwtPayload> => {
+  if (await isTokenBlacklisted(token)) {
+    throw new ErrorType(
+      "TokenBlacklistedError",
+      "Token is blacklisted",
+      statusCode.UNAUTHORIZED
+    );
+  }
+  let payload: JwtPayload;
+  try {
+    payload = jwt.verify(token, process.env.JWT_SECRET as string) as JwtPayload;
+  } catch (error: any) {
+    if (error instanceof jwt.TokenExpiredError) {
+      throw new ErrorType(
+        "TokenExpiredError",
+        "Unauthorized: Token expired",
+        statusCode.EXPIRED_TOKEN
+      );
+    }
+    throw new ErrorType(
+      "InvalidTokenError",
+      "Unauthorized: Invalid token",
+      statusCode.UNAUTHORIZED
+    );
+  }
+  if (payload.sid && (await isSessionRevoked(payload.sid))) {
+    throw new ErrorType(
+      "SessionRevokedError",
+      "Unauthorized: Session has been logged out",
+      statusCode.UNAUTHORIZED
+    );
+  }
+  return payload;
+};
+
+/**
+ * Authenticate a request made with an API key instead of a login token: only
+ * on the apiKeyRoutes groups, within the key's rate limit. authorization then
+ * narrows the owner's permissions to the key's.
+ */
+const authenticateApiKey = async (
+  req: AuthenticatedRequest,
+  res: Response<ResponseType<null>>,
+  next: NextFunction,
+  key: string
+): Promise<void> => {
+  const routeGroup = req.baseUrl.replace(/^\/api/, "");
+  if (!apiKeyRoutes.includes(routeGroup)) {
+    res.status(statusCode.FORBIDDEN).json({
+      status: false,
+      message: "API keys cannot be used on this route",
+    });
+    return;
+  }
+
+  const { user, apiKey } = await verifyApiKey(key);
+  const rateLimit = await consumeApiKeyRateLimit(apiKey);
+  res.setHeader("X-RateLimit-Limit", apiKey.rateLimit);
+  res.setHeader("X-RateLimit-Remaining", rateLimit.remaining);
+  res.setHeader("X-RateLimit-Reset", rateLimit.resetInSeconds);
+  if (!rateLimit.allowed) {
+    res.setHeader("Retry-After", rateLimit.resetInSeconds);
+    res.status(statusCode.TOO_MANY_REQUESTS).json({
+      status: false,
+      message: "API key rate limit exceeded, please try again later",
+    });
+    return;
+  }
+
+  req.data = user;
+  req.apiKey = apiKey;
+  touchApiKeyRepo(apiKey.id).catch((error) =>
+    logger.error(`Failed to update last use of API key ${apiKey.id}: ${error.message}`)
+  );
+  next();
+};
 
 export const authenticateToken = async (
   req: AuthenticatedRequest,
@@ -13,7 +108,11 @@ export const authenticateToken = async (
   next: NextFunction
 ): Promise<void> => {
   const authHeader = req.headers["authorization"];
-  const token = authHeader && authHeader.split(" ")[1]; // Bearer <token>
+  const apiKeyHeader = req.headers["x-api-key"];
+  // Bearer <token>, where the token may also be an API key
+  const token =
+    (typeof apiKeyHeader === "string" && apiKeyHeader) ||
+    (authHeader && authHeader.split(" ")[1]);
 
   if (!token) {
     const response: ResponseType<null> = {
@@ -23,40 +122,32 @@ export const authenticateToken = async (
     res.status(statusCode.UNAUTHORIZED).json(response);
     return;
   }
-  const isBlacklisted = await isTokenBlacklisted(token);
-  if (isBlacklisted) {
-    res.status(statusCode.UNAUTHORIZED).json({
-      status: false,
-      message: "Token is blacklisted",
-    });
-    return;
-  }
   try {
-    const decoded = jwt.verify(
-      token,
-      process.env.JWT_SECRET as string
-    ) as JwtPayload;
-    req.data = decoded;
-    next();
-  } catch (error: any) {
-    let errorMessage = "Unauthorized: Invalid token";
-    if (error instanceof jwt.TokenExpiredError) {
-      errorMessage = "Unauthorized: Token expired";
-      const response: ResponseType<null> = {
-        status: false,
-        message: errorMessage,
-      };
-      res.status(statusCode.EXPIRED_TOKEN).json(response);
-      return;
-    } else if (error instanceof jwt.JsonWebTokenError) {
-      errorMessage = "Unauthorized: Invalid token";
-      const response: ResponseType<null> = {
-        status: false,
-        message: errorMessage,
-      };
-      res.status(statusCode.UNAUTHORIZED).json(response);
+    if (isApiKey(token)) {
+      await authenticateApiKey(req, res, next, token);
       return;
     }
+    req.data = await verifyAccessToken(token);
+    const sessionId = req.data.sid;
+    if (sessionId) {
+      touchSessionRepo(sessionId).catch((error) =>
+        logger.error(`Failed to update last use of session ${sessionId}: ${error.message}`)
+      );
+    }
+    next();
+  } catch (error: any) {
+    const response: ResponseType<null> = {
+      status: false,
+      message:
+        error instanceof ErrorType ? error.message : "Unauthorized: Invalid token",
+    };
+    res
+      .status(
+        error instanceof ErrorType && typeof error.code === "number"
+          ? error.code
+          : statusCode.UNAUTHORIZED
+      )
+      .json(response);
   }
 };
 
@@ -89,9 +180,15 @@ export const authorization =
         return;
       }
 
+      // An API key only carries the permissions chosen for it, and loses
+      // any its owner no longer has
+      const grantedPermissions = req.apiKey
+        ? permissions.filter((perm) => req.apiKey!.permissions.includes(perm))
+        : permissions;
+
       // Check if user has all required permissions
       const hasPermission = requiredPermissions.every((perm) =>
-        permissions.includes(perm)
+        grantedPermissions.includes(perm)
       );
       // const hasPermission = true
       if (!hasPermission) {
@@ -184,4 +281,46 @@ export const isAdmin = async (
       error: error.message,
     });
   }
-}
\ No newline at end of file
+}
+
+// Resolve the caller's agency and, on routes with :clientId, a user it invited
+export const agencyScope = async (
+  req: AuthenticatedRequest,
+  res: Response<ResponseType<null>>,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const agency = await findAgencyByUserIdRepo(req.data?.id || 0);
+    if (!agency) {
+      res.status(statusCode.FORBIDDEN).json({
+        status: false,
+        message: "Only an agency can manage clients",
+      });
+      return;
+    }
+    req.agency = agency;
+
+    if (req.params.clientId !== undefined) {
+      const clientId = Number(req.params.clientId);
+      const client = Number.isSafeInteger(clientId)
+        ? await getAgencyClientRepo(agency.id || 0, clientId)
+        : null;
+      // Users of other agencies are reported as missing, not forbidden
+      if (!client) {
+        res.status(statusCode.NOT_FOUND).json({
+          status: false,
+          message: "Client not found",
+        });
+        return;
+      }
+      req.client = client;
+    }
+    next();
+  } catch (error: any) {
+    res.status(statusCode.INTERNAL_SERVER_ERROR).json({
+      status: false,
+      message: "Error checking agency client",
+      error: error.message,
+    });
+  }
+};
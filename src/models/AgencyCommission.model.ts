@@ -0,0 +1,130 @@
+import { DataTypes, Model } from "sequelize";
+import {
+  Agency,
+  CommissionRule,
+  sequelizeSystem,
+  TransactionModel,
+  User,
+} from "./index.model";
+import { AgencyCommissionAttributes } from "../interfaces/Commission.interface";
+import { CommissionSource } from "../enums/commission.enum";
+
+// MySQL returns DECIMAL columns as strings
+const decimalField = (
+  name: keyof AgencyCommissionAttributes,
+  precision: number,
+  scale: number
+) => ({
+  type: DataTypes.DECIMAL(precision, scale),
+  allowNull: false,
+  defaultValue: 0,
+  get(this: Model) {
+    return Number(this.getDataValue(name) || 0);
+  },
+});
+
+class AgencyCommission
+  extends Model<AgencyCommissionAttributes>
+  implements AgencyCommissionAttributes
+{
+  public id!: number;
+  public agencyId!: number;
+  public referredUserId!: number;
+  public ruleId!: number | null;
+  public source!: CommissionSource;
+  public transactionId!: number;
+  public referenceId!: string | null;
+  public baseAmount!: number;
+  public rate!: number;
+  public amount!: number;
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+AgencyCommission.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      autoIncrement: true,
+      primaryKey: true,
+    },
+    agencyId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      references: {
+        model: Agency,
+        key: "id",
+      },
+    },
+    referredUserId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      references: {
+        model: User,
+        key: "id",
+      },
+    },
+    ruleId: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      references: {
+        model: CommissionRule,
+        key: "id",
+      },
+    },
+    source: {
+      type: DataTypes.STRING,
+      allowNull: false,
+    },
+    transactionId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      unique: true,
+      references: {
+        model: TransactionModel,
+        key: "id",
+      },
+    },
+    referenceId: {
+      type: DataTypes.STRING,
+      allowNull: true,
+    },
+    baseAmount: decimalField("baseAmount", 15, 2),
+    rate: decimalField("rate", 5, 2),
+    amount: decimalField("amount", 15, 2),
+    createdAt: {
+      type: DataTypes.DATE,
+      defaultValue: DataTypes.NOW,
+      get() {
+        const rawValue = this.getDataValue("createdAt") as Date;
+        if (!rawValue) return null;
+        const adjustedDate = new Date(rawValue);
+        adjustedDate.setHours(adjustedDate.getHours() + 7);
+        return adjustedDate.toISOString().replace("Z", "");
+      },
+    },
+    updatedAt: {
+      type: DataTypes.DATE,
+      defaultValue: DataTypes.NOW,
+      get() {
+        const rawValue = this.getDataValue("updatedAt") as Date;
+        if (!rawValue) return null;
+        const adjustedDate = new Date(rawValue);
+        adjustedDate.setHours(adjustedDate.getHours() + 7);
+        return adjustedDate.toISOString().replace("Z", "");
+      },
+    },
+  },
+  {
+    sequelize: sequelizeSystem,
+    modelName: "AgencyCommission",
+    tableName: "agency_commissions",
+    timestamps: true,
+    indexes: [
+      { fields: ["agencyId", "createdAt"] },
+      { fields: ["agencyId", "source", "referenceId"] },
+    ],
+  }
+);
+
+export default AgencyCommission;
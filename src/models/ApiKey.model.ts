@@ -0,0 +1,103 @@
+import { DataTypes, Model } from "sequelize";
+import { sequelizeSystem, User } from "./index.model";
+import { ApiKeyAttributes } from "../interfaces/ApiKey.interface";
+import { UserAttributes } from "../interfaces/User.interface";
+
+class ApiKey extends Model<ApiKeyAttributes> implements ApiKeyAttributes {
+  public id!: number;
+  public userId!: number;
+  public users?: UserAttributes;
+  public name!: string;
+  public keyPrefix!: string;
+  public keyHash!: string;
+  public permissions!: string[];
+  public rateLimit!: number;
+  public lastUsedAt!: Date | null;
+  public expiresAt!: Date | null;
+  public revokedAt!: Date | null;
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+ApiKey.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      autoIncrement: true,
+      primaryKey: true,
+    },
+    userId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      references: {
+        model: User,
+        key: "id",
+      },
+    },
+    name: {
+      type: DataTypes.STRING,
+      allowNull: false,
+    },
+    keyPrefix: {
+      type: DataTypes.STRING(16),
+      allowNull: false,
+    },
+    keyHash: {
+      type: DataTypes.STRING(64),
+      allowNull: false,
+      unique: true,
+    },
+    permissions: {
+      type: DataTypes.JSON,
+      allowNull: false,
+      defaultValue: [],
+    },
+    rateLimit: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+    },
+    lastUsedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    expiresAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    revokedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    createdAt: {
+      type: DataTypes.DATE,
+      defaultValue: DataTypes.NOW,
+      get() {
+        const rawValue = this.getDataValue("createdAt") as Date;
+        if (!rawValue) return null;
+        const adjustedDate = new Date(rawValue);
+        adjustedDate.setHours(adjustedDate.getHours() + 7);
+        return adjustedDate.toISOString().replace("Z", "");
+      },
+    },
+    updatedAt: {
+      type: DataTypes.DATE,
+      defaultValue: DataTypes.NOW,
+      get() {
+        const rawValue = this.getDataValue("updatedAt") as Date;
+        if (!rawValue) return null;
+        const adjustedDate = new Date(rawValue);
+        adjustedDate.setHours(adjustedDate.getHours() + 7);
+        return adjustedDate.toISOString().replace("Z", "");
+      },
+    },
+  },
+  {
+    sequelize: sequelizeSystem,
+    modelName: "ApiKey",
+    tableName: "api_keys",
+    timestamps: true,
+    indexes: [{ fields: ["userId"] }],
+  }
+);
+
+export default ApiKey;
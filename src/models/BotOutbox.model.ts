@@ -0,0 +1,125 @@
+import { DataTypes, Model } from "sequelize";
+import { Campaign, sequelizeSystem } from "./index.model";
+import { BotOutboxStatus } from "../enums/botOutboxStatus.enum";
+import {
+  BotOutboxAttributes,
+  BotOutboxMethod,
+} from "../interfaces/BotOutbox.interface";
+
+class BotOutbox
+  extends Model<BotOutboxAttributes>
+  implements BotOutboxAttributes
+{
+  public id!: number;
+  public campaignId!: number | null;
+  public endpoint!: string;
+  public method!: BotOutboxMethod;
+  public payload!: Record<string, any> | Record<string, any>[];
+  public status!: BotOutboxStatus;
+  public attempts!: number;
+  public nextAttemptAt!: Date;
+  public lockedAt!: Date | null;
+  public lastError!: string | null;
+  public deliveredAt!: Date | null;
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+BotOutbox.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      autoIncrement: true,
+      primaryKey: true,
+    },
+    campaignId: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      references: {
+        model: Campaign,
+        key: "id",
+      },
+    },
+    endpoint: {
+      type: DataTypes.STRING,
+      allowNull: false,
+    },
+    method: {
+      type: DataTypes.STRING,
+      allowNull: false,
+      defaultValue: "POST",
+    },
+    payload: {
+      type: DataTypes.TEXT("long"),
+      allowNull: false,
+      get() {
+        const rawValue = this.getDataValue("payload") as unknown as string;
+        return rawValue ? JSON.parse(rawValue) : {};
+      },
+      set(value: Record<string, any> | Record<string, any>[]) {
+        this.setDataValue(
+          "payload",
+          JSON.stringify(value) as unknown as Record<string, any>
+        );
+      },
+    },
+    status: {
+      type: DataTypes.STRING,
+      allowNull: false,
+      defaultValue: BotOutboxStatus.PENDING,
+    },
+    attempts: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0,
+    },
+    nextAttemptAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+    lockedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    lastError: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    deliveredAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    createdAt: {
+      type: DataTypes.DATE,
+      defaultValue: DataTypes.NOW,
+      get() {
+        const rawValue = this.getDataValue("createdAt") as Date;
+        if (!rawValue) return null;
+        const adjustedDate = new Date(rawValue);
+        adjustedDate.setHours(adjustedDate.getHours() + 7);
+        return adjustedDate.toISOString().replace("Z", "");
+      },
+    },
+    updatedAt: {
+      type: DataTypes.DATE,
+      defaultValue: DataTypes.NOW,
+      get() {
+        const rawValue = this.getDataValue("updatedAt") as Date;
+        if (!rawValue) return null;
+        const adjustedDate = new Date(rawValue);
+        adjustedDate.setHours(adjustedDate.getHours() + 7);
+        return adjustedDate.toISOString().replace("Z", "");
+      },
+    },
+  },
+  {
+    sequelize: sequelizeSystem,
+    modelName: "BotOutbox",
+    tableName: "bot_outbox",
+    timestamps: true,
+    indexes: [{ fields: ["status", "nextAttemptAt"] }],
+  }
+);
+
+export default BotOutbox;
@@ -1,11 +1,12 @@
 import { DataTypes, Model } from "sequelize";
 import { Country, sequelizeSystem, User } from "./index.model";
-import { CampaignStatus } from "../enums/campaign.enum";
+import { CampaignRecurrence, CampaignStatus } from "../enums/campaign.enum";
 import { CampaignAttributes } from "../interfaces/Campaign.interface";
 import CampaignType from "./CampaignType.model";
 import { KeywordAttributes } from "../interfaces/Keyword.interface";
 import { LinkAttributes } from "../interfaces/Link.interface";
 import { DirectLinkAttributes } from "../interfaces/DirectLink.interface";
+import { GoogleMapReviewAttributes } from "../interfaces/GoogleMapReview.interface";
 class Campaign extends Model<CampaignAttributes> implements CampaignAttributes {
   public id!: number;
   public userId!: number;
@@ -24,8 +25,16 @@ class Campaign extends Model<CampaignAttributes> implements CampaignAttributes {
   public keywords!: KeywordAttributes[];
   public links!: LinkAttributes[];
   public directLinks!: DirectLinkAttributes[];
+  public googleMapReviews!: GoogleMapReviewAttributes[];
   public isDeleted!: boolean;
   public status!: CampaignStatus;
+  public recurrence!: CampaignRecurrence | null;
+  public recurrenceCount!: number | null;
+  public recurrenceUntil!: Date | null;
+  public occurrence!: number;
+  public parentCampaignId!: number | null;
+  public cancelReason!: string | null;
+  public cancelledBy!: number | null;
   public readonly createdAt!: Date;
   public readonly updatedAt!: Date;
 }
@@ -100,6 +109,35 @@ Campaign.init(
       type: DataTypes.BOOLEAN,
       allowNull: false,
     },
+    recurrence: {
+      type: DataTypes.STRING,
+      allowNull: true,
+    },
+    recurrenceCount: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+    },
+    recurrenceUntil: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    occurrence: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 1,
+    },
+    parentCampaignId: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+    },
+    cancelReason: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    cancelledBy: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+    },
     createdAt: {
       type: DataTypes.DATE,
       defaultValue: DataTypes.NOW,
@@ -0,0 +1,143 @@
+import { DataTypes, Model } from "sequelize";
+import { Country, sequelizeSystem, User } from "./index.model";
+import CampaignType from "./CampaignType.model";
+import { logger } from "../config/logger.config";
+import {
+  CampaignTemplateAttributes,
+  CampaignTemplateDirectLink,
+  CampaignTemplateKeyword,
+  CampaignTemplateLink,
+} from "../interfaces/CampaignTemplate.interface";
+
+class CampaignTemplate
+  extends Model<CampaignTemplateAttributes>
+  implements CampaignTemplateAttributes
+{
+  public id!: number;
+  public userId!: number;
+  public name!: string;
+  public campaignTypeId!: number;
+  public countryId!: number | null;
+  public device!: string | null;
+  public title!: string | null;
+  public domain!: string | null;
+  public search!: string | null;
+  public keywords!: CampaignTemplateKeyword[]; // Array stored as JSON
+  public links!: CampaignTemplateLink[]; // Array stored as JSON
+  public directLinks!: CampaignTemplateDirectLink[]; // Array stored as JSON
+  public isDeleted!: boolean;
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+// Item lists are only read and written as a whole, so they are kept as JSON
+const jsonArrayField = (
+  field: "keywords" | "links" | "directLinks"
+) => ({
+  type: DataTypes.TEXT("long"),
+  allowNull: false,
+  get(this: CampaignTemplate) {
+    const rawValue = this.getDataValue(field) as unknown;
+    try {
+      return typeof rawValue === "string" ? JSON.parse(rawValue) : rawValue || [];
+    } catch (error) {
+      logger.error(error);
+      return [];
+    }
+  },
+  set(this: CampaignTemplate, value: any[]) {
+    this.setDataValue(field, JSON.stringify(value || []) as any);
+  },
+});
+
+CampaignTemplate.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      autoIncrement: true,
+      primaryKey: true,
+    },
+    userId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      references: {
+        model: User,
+        key: "id",
+      },
+    },
+    name: {
+      type: DataTypes.STRING,
+      allowNull: false,
+    },
+    campaignTypeId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      references: {
+        model: CampaignType,
+        key: "id",
+      },
+    },
+    countryId: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      references: {
+        model: Country,
+        key: "id",
+      },
+    },
+    device: {
+      type: DataTypes.STRING,
+      allowNull: true,
+    },
+    title: {
+      type: DataTypes.STRING,
+      allowNull: true,
+    },
+    domain: {
+      type: DataTypes.STRING,
+      allowNull: true,
+    },
+    search: {
+      type: DataTypes.STRING,
+      allowNull: true,
+    },
+    keywords: jsonArrayField("keywords"),
+    links: jsonArrayField("links"),
+    directLinks: jsonArrayField("directLinks"),
+    isDeleted: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: false,
+    },
+    createdAt: {
+      type: DataTypes.DATE,
+      defaultValue: DataTypes.NOW,
+      get() {
+        const rawValue = this.getDataValue("createdAt") as Date;
+        if (!rawValue) return null;
+        const adjustedDate = new Date(rawValue);
+        adjustedDate.setHours(adjustedDate.getHours() + 7);
+        return adjustedDate.toISOString().replace("Z", "");
+      },
+    },
+    updatedAt: {
+      type: DataTypes.DATE,
+      defaultValue: DataTypes.NOW,
+      get() {
+        const rawValue = this.getDataValue("updatedAt") as Date;
+        if (!rawValue) return null;
+        const adjustedDate = new Date(rawValue);
+        adjustedDate.setHours(adjustedDate.getHours() + 7);
+        return adjustedDate.toISOString().replace("Z", "");
+      },
+    },
+  },
+  {
+    sequelize: sequelizeSystem,
+    modelName: "CampaignTemplate",
+    tableName: "campaign_templates",
+    timestamps: true,
+  }
+);
+
+export default CampaignTemplate;
@@ -0,0 +1,116 @@
+import { DataTypes, Model } from "sequelize";
+import { Agency, sequelizeSystem, User } from "./index.model";
+import { CommissionRuleAttributes } from "../interfaces/Commission.interface";
+import { CommissionSource } from "../enums/commission.enum";
+
+// MySQL returns DECIMAL columns as strings
+const decimalField = (
+  name: keyof CommissionRuleAttributes,
+  precision: number,
+  scale: number
+) => ({
+  type: DataTypes.DECIMAL(precision, scale),
+  allowNull: false,
+  defaultValue: 0,
+  get(this: Model) {
+    return Number(this.getDataValue(name) || 0);
+  },
+});
+
+class CommissionRule
+  extends Model<CommissionRuleAttributes>
+  implements CommissionRuleAttributes
+{
+  public id!: number;
+  public agencyId!: number | null;
+  public source!: CommissionSource;
+  public rate!: number;
+  public minVolume!: number;
+  public durationMonths!: number | null;
+  public startsAt!: Date | null;
+  public endsAt!: Date | null;
+  public isDeleted!: boolean;
+  public createdBy!: number;
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+CommissionRule.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      autoIncrement: true,
+      primaryKey: true,
+    },
+    agencyId: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      references: {
+        model: Agency,
+        key: "id",
+      },
+    },
+    source: {
+      type: DataTypes.STRING,
+      allowNull: false,
+    },
+    rate: decimalField("rate", 5, 2),
+    minVolume: decimalField("minVolume", 15, 2),
+    durationMonths: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+    },
+    startsAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    endsAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    isDeleted: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: false,
+    },
+    createdBy: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      references: {
+        model: User,
+        key: "id",
+      },
+    },
+    createdAt: {
+      type: DataTypes.DATE,
+      defaultValue: DataTypes.NOW,
+      get() {
+        const rawValue = this.getDataValue("createdAt") as Date;
+        if (!rawValue) return null;
+        const adjustedDate = new Date(rawValue);
+        adjustedDate.setHours(adjustedDate.getHours() + 7);
+        return adjustedDate.toISOString().replace("Z", "");
+      },
+    },
+    updatedAt: {
+      type: DataTypes.DATE,
+      defaultValue: DataTypes.NOW,
+      get() {
+        const rawValue = this.getDataValue("updatedAt") as Date;
+        if (!rawValue) return null;
+        const adjustedDate = new Date(rawValue);
+        adjustedDate.setHours(adjustedDate.getHours() + 7);
+        return adjustedDate.toISOString().replace("Z", "");
+      },
+    },
+  },
+  {
+    sequelize: sequelizeSystem,
+    modelName: "CommissionRule",
+    tableName: "commission_rules",
+    timestamps: true,
+    indexes: [{ fields: ["source", "agencyId"] }],
+  }
+);
+
+export default CommissionRule;
@@ -9,7 +9,11 @@ class Deposit extends Model<DepositAttributes> implements DepositAttributes {
   public userId!: number;
   public voucherId!: number;
   public paymentMethodId!: number;
+  public packageId?: number;
   public amount!: number;
+  public cryptoCurrency?: string | null;
+  public cryptoAmount?: number | null;
+  public exchangeRate?: number | null;
   public status!: DepositStatus;
   public acceptedBy?: string;
   public createdBy?: number;
@@ -59,6 +63,27 @@ Deposit.init(
       type: DataTypes.DECIMAL(10, 2),
       allowNull: false,
     },
+    cryptoCurrency: {
+      type: DataTypes.STRING(16),
+      allowNull: true,
+    },
+    cryptoAmount: {
+      type: DataTypes.DECIMAL(24, 8),
+      allowNull: true,
+      // MySQL returns DECIMAL columns as strings
+      get() {
+        const value = this.getDataValue("cryptoAmount");
+        return value === null || value === undefined ? null : Number(value);
+      },
+    },
+    exchangeRate: {
+      type: DataTypes.DECIMAL(24, 8),
+      allowNull: true,
+      get() {
+        const value = this.getDataValue("exchangeRate");
+        return value === null || value === undefined ? null : Number(value);
+      },
+    },
     status: {
       type: DataTypes.STRING,
       allowNull: false,
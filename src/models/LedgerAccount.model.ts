@@ -0,0 +1,84 @@
+import { DataTypes, Model } from "sequelize";
+import { Agency, sequelizeSystem, Wallet } from "./index.model";
+import { LedgerAccountType } from "../enums/ledger.enum";
+import { LedgerAccountAttributes } from "../interfaces/Ledger.interface";
+
+class LedgerAccount
+  extends Model<LedgerAccountAttributes>
+  implements LedgerAccountAttributes
+{
+  public id!: number;
+  public code!: string;
+  public type!: LedgerAccountType;
+  public walletId!: number | null;
+  public agencyId!: number | null;
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+LedgerAccount.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      autoIncrement: true,
+      primaryKey: true,
+    },
+    code: {
+      type: DataTypes.STRING,
+      allowNull: false,
+      unique: true,
+    },
+    type: {
+      type: DataTypes.STRING,
+      allowNull: false,
+    },
+    walletId: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      unique: true,
+      references: {
+        model: Wallet,
+        key: "id",
+      },
+    },
+    agencyId: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      unique: true,
+      references: {
+        model: Agency,
+        key: "id",
+      },
+    },
+    createdAt: {
+      type: DataTypes.DATE,
+      defaultValue: DataTypes.NOW,
+      get() {
+        const rawValue = this.getDataValue("createdAt") as Date;
+        if (!rawValue) return null;
+        const adjustedDate = new Date(rawValue);
+        adjustedDate.setHours(adjustedDate.getHours() + 7);
+        return adjustedDate.toISOString().replace("Z", "");
+      },
+    },
+    updatedAt: {
+      type: DataTypes.DATE,
+      defaultValue: DataTypes.NOW,
+      get() {
+        const rawValue = this.getDataValue("updatedAt") as Date;
+        if (!rawValue) return null;
+        const adjustedDate = new Date(rawValue);
+        adjustedDate.setHours(adjustedDate.getHours() + 7);
+        return adjustedDate.toISOString().replace("Z", "");
+      },
+    },
+  },
+  {
+    sequelize: sequelizeSystem,
+    modelName: "LedgerAccount",
+    tableName: "ledger_accounts",
+    timestamps: true,
+  }
+);
+
+export default LedgerAccount;
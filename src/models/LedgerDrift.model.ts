@@ -0,0 +1,85 @@
+import { DataTypes, Model } from "sequelize";
+import { sequelizeSystem, Wallet } from "./index.model";
+import { LedgerDriftStatus } from "../enums/ledger.enum";
+import { LedgerDriftAttributes } from "../interfaces/Ledger.interface";
+
+// MySQL returns DECIMAL columns as strings
+const amountField = (name: keyof LedgerDriftAttributes) => ({
+  type: DataTypes.DECIMAL(10, 2),
+  allowNull: false,
+  defaultValue: 0,
+  get(this: Model) {
+    return Number(this.getDataValue(name) || 0);
+  },
+});
+
+class LedgerDrift
+  extends Model<LedgerDriftAttributes>
+  implements LedgerDriftAttributes
+{
+  public id!: number;
+  public walletId!: number;
+  public walletBalance!: number;
+  public ledgerBalance!: number;
+  public drift!: number;
+  public status!: LedgerDriftStatus;
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+LedgerDrift.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      autoIncrement: true,
+      primaryKey: true,
+    },
+    walletId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      references: {
+        model: Wallet,
+        key: "id",
+      },
+    },
+    walletBalance: amountField("walletBalance"),
+    ledgerBalance: amountField("ledgerBalance"),
+    drift: amountField("drift"),
+    status: {
+      type: DataTypes.STRING,
+      allowNull: false,
+      defaultValue: LedgerDriftStatus.OPEN,
+    },
+    createdAt: {
+      type: DataTypes.DATE,
+      defaultValue: DataTypes.NOW,
+      get() {
+        const rawValue = this.getDataValue("createdAt") as Date;
+        if (!rawValue) return null;
+        const adjustedDate = new Date(rawValue);
+        adjustedDate.setHours(adjustedDate.getHours() + 7);
+        return adjustedDate.toISOString().replace("Z", "");
+      },
+    },
+    updatedAt: {
+      type: DataTypes.DATE,
+      defaultValue: DataTypes.NOW,
+      get() {
+        const rawValue = this.getDataValue("updatedAt") as Date;
+        if (!rawValue) return null;
+        const adjustedDate = new Date(rawValue);
+        adjustedDate.setHours(adjustedDate.getHours() + 7);
+        return adjustedDate.toISOString().replace("Z", "");
+      },
+    },
+  },
+  {
+    sequelize: sequelizeSystem,
+    modelName: "LedgerDrift",
+    tableName: "ledger_drifts",
+    timestamps: true,
+    indexes: [{ fields: ["walletId", "status"] }],
+  }
+);
+
+export default LedgerDrift;
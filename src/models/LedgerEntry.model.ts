@@ -0,0 +1,92 @@
+import { DataTypes, Model } from "sequelize";
+import { LedgerAccount, sequelizeSystem, TransactionModel } from "./index.model";
+import { LedgerEntryDirection } from "../enums/ledger.enum";
+import { LedgerEntryAttributes } from "../interfaces/Ledger.interface";
+
+// Entries are append-only: a mistake is corrected by a new transaction, never by an update
+class LedgerEntry
+  extends Model<LedgerEntryAttributes>
+  implements LedgerEntryAttributes
+{
+  public id!: number;
+  public accountId!: number;
+  public transactionId!: number | null;
+  public reference!: string;
+  public direction!: LedgerEntryDirection;
+  public amount!: number;
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+LedgerEntry.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      autoIncrement: true,
+      primaryKey: true,
+    },
+    accountId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      references: {
+        model: LedgerAccount,
+        key: "id",
+      },
+    },
+    transactionId: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      references: {
+        model: TransactionModel,
+        key: "id",
+      },
+    },
+    reference: {
+      type: DataTypes.STRING,
+      allowNull: false,
+    },
+    direction: {
+      type: DataTypes.STRING,
+      allowNull: false,
+    },
+    amount: {
+      type: DataTypes.DECIMAL(10, 2),
+      allowNull: false,
+      // MySQL returns DECIMAL columns as strings
+      get() {
+        return Number(this.getDataValue("amount") || 0);
+      },
+    },
+    createdAt: {
+      type: DataTypes.DATE,
+      defaultValue: DataTypes.NOW,
+      get() {
+        const rawValue = this.getDataValue("createdAt") as Date;
+        if (!rawValue) return null;
+        const adjustedDate = new Date(rawValue);
+        adjustedDate.setHours(adjustedDate.getHours() + 7);
+        return adjustedDate.toISOString().replace("Z", "");
+      },
+    },
+    updatedAt: {
+      type: DataTypes.DATE,
+      defaultValue: DataTypes.NOW,
+      get() {
+        const rawValue = this.getDataValue("updatedAt") as Date;
+        if (!rawValue) return null;
+        const adjustedDate = new Date(rawValue);
+        adjustedDate.setHours(adjustedDate.getHours() + 7);
+        return adjustedDate.toISOString().replace("Z", "");
+      },
+    },
+  },
+  {
+    sequelize: sequelizeSystem,
+    modelName: "LedgerEntry",
+    tableName: "ledger_entries",
+    timestamps: true,
+    indexes: [{ fields: ["accountId"] }, { fields: ["transactionId"] }],
+  }
+);
+
+export default LedgerEntry;
@@ -15,6 +15,7 @@ class Link extends Model<LinkAttributes> implements LinkAttributes {
   public status!: LinkStatus;
   public indexStatus!: IndexStatus;
   public cost!: number;
+  public billedDays!: number | null;
   public url!: string;
   public page!: string;
   public isDeleted!: boolean;
@@ -65,6 +66,10 @@ Link.init(
       type: DataTypes.FLOAT,
       allowNull: false,
     },
+    billedDays: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+    },
     anchorText: {
       type: DataTypes.STRING,
       allowNull: true,
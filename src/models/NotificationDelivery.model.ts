@@ -0,0 +1,121 @@
+import { DataTypes, Model } from "sequelize";
+import { Notification, sequelizeSystem, User } from "./index.model";
+import { NotificationDeliveryStatus } from "../enums/notification.enum";
+import {
+  ExternalNotificationChannel,
+  NotificationDeliveryAttributes,
+} from "../interfaces/NotificationDelivery.interface";
+
+class NotificationDelivery
+  extends Model<NotificationDeliveryAttributes>
+  implements NotificationDeliveryAttributes
+{
+  public id!: number;
+  public notificationId!: number;
+  public userId!: number;
+  public channel!: ExternalNotificationChannel;
+  public target!: string;
+  public status!: NotificationDeliveryStatus;
+  public attempts!: number;
+  public nextAttemptAt!: Date;
+  public lockedAt!: Date | null;
+  public lastError!: string | null;
+  public deliveredAt!: Date | null;
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+NotificationDelivery.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      autoIncrement: true,
+      primaryKey: true,
+    },
+    notificationId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      references: {
+        model: Notification,
+        key: "id",
+      },
+    },
+    userId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      references: {
+        model: User,
+        key: "id",
+      },
+    },
+    channel: {
+      type: DataTypes.STRING,
+      allowNull: false,
+    },
+    target: {
+      type: DataTypes.STRING(1024),
+      allowNull: false,
+    },
+    status: {
+      type: DataTypes.STRING,
+      allowNull: false,
+      defaultValue: NotificationDeliveryStatus.PENDING,
+    },
+    attempts: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0,
+    },
+    nextAttemptAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+    lockedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    lastError: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    deliveredAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    createdAt: {
+      type: DataTypes.DATE,
+      defaultValue: DataTypes.NOW,
+      get() {
+        const rawValue = this.getDataValue("createdAt") as Date;
+        if (!rawValue) return null;
+        const adjustedDate = new Date(rawValue);
+        adjustedDate.setHours(adjustedDate.getHours() + 7);
+        return adjustedDate.toISOString().replace("Z", "");
+      },
+    },
+    updatedAt: {
+      type: DataTypes.DATE,
+      defaultValue: DataTypes.NOW,
+      get() {
+        const rawValue = this.getDataValue("updatedAt") as Date;
+        if (!rawValue) return null;
+        const adjustedDate = new Date(rawValue);
+        adjustedDate.setHours(adjustedDate.getHours() + 7);
+        return adjustedDate.toISOString().replace("Z", "");
+      },
+    },
+  },
+  {
+    sequelize: sequelizeSystem,
+    modelName: "NotificationDelivery",
+    tableName: "notification_deliveries",
+    timestamps: true,
+    indexes: [
+      { fields: ["status", "nextAttemptAt"] },
+      { fields: ["userId", "createdAt"] },
+    ],
+  }
+);
+
+export default NotificationDelivery;
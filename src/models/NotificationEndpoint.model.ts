@@ -0,0 +1,84 @@
+import { DataTypes, Model } from "sequelize";
+import { sequelizeSystem, User } from "./index.model";
+import { NotificationChannel } from "../enums/notification.enum";
+import { NotificationEndpointAttributes } from "../interfaces/NotificationDelivery.interface";
+
+class NotificationEndpoint
+  extends Model<NotificationEndpointAttributes>
+  implements NotificationEndpointAttributes
+{
+  public id!: number;
+  public userId!: number;
+  public channel!: NotificationChannel;
+  public target!: string;
+  public secret!: string | null;
+  public isActive!: boolean;
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+NotificationEndpoint.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      autoIncrement: true,
+      primaryKey: true,
+    },
+    userId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      references: {
+        model: User,
+        key: "id",
+      },
+    },
+    channel: {
+      type: DataTypes.STRING,
+      allowNull: false,
+    },
+    target: {
+      type: DataTypes.STRING(1024),
+      allowNull: false,
+    },
+    secret: {
+      type: DataTypes.STRING,
+      allowNull: true,
+    },
+    isActive: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: true,
+    },
+    createdAt: {
+      type: DataTypes.DATE,
+      defaultValue: DataTypes.NOW,
+      get() {
+        const rawValue = this.getDataValue("createdAt") as Date;
+        if (!rawValue) return null;
+        const adjustedDate = new Date(rawValue);
+        adjustedDate.setHours(adjustedDate.getHours() + 7);
+        return adjustedDate.toISOString().replace("Z", "");
+      },
+    },
+    updatedAt: {
+      type: DataTypes.DATE,
+      defaultValue: DataTypes.NOW,
+      get() {
+        const rawValue = this.getDataValue("updatedAt") as Date;
+        if (!rawValue) return null;
+        const adjustedDate = new Date(rawValue);
+        adjustedDate.setHours(adjustedDate.getHours() + 7);
+        return adjustedDate.toISOString().replace("Z", "");
+      },
+    },
+  },
+  {
+    sequelize: sequelizeSystem,
+    modelName: "NotificationEndpoint",
+    tableName: "notification_endpoints",
+    timestamps: true,
+    indexes: [{ unique: true, fields: ["userId", "channel"] }],
+  }
+);
+
+export default NotificationEndpoint;
@@ -0,0 +1,79 @@
+import { DataTypes, Model } from "sequelize";
+import { sequelizeSystem, User } from "./index.model";
+import { NotificationChannel } from "../enums/notification.enum";
+import { NotificationPreferenceAttributes } from "../interfaces/NotificationDelivery.interface";
+
+class NotificationPreference
+  extends Model<NotificationPreferenceAttributes>
+  implements NotificationPreferenceAttributes
+{
+  public id!: number;
+  public userId!: number;
+  public type!: string;
+  public channel!: NotificationChannel;
+  public enabled!: boolean;
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+NotificationPreference.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      autoIncrement: true,
+      primaryKey: true,
+    },
+    userId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      references: {
+        model: User,
+        key: "id",
+      },
+    },
+    type: {
+      type: DataTypes.STRING,
+      allowNull: false,
+    },
+    channel: {
+      type: DataTypes.STRING,
+      allowNull: false,
+    },
+    enabled: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: true,
+    },
+    createdAt: {
+      type: DataTypes.DATE,
+      defaultValue: DataTypes.NOW,
+      get() {
+        const rawValue = this.getDataValue("createdAt") as Date;
+        if (!rawValue) return null;
+        const adjustedDate = new Date(rawValue);
+        adjustedDate.setHours(adjustedDate.getHours() + 7);
+        return adjustedDate.toISOString().replace("Z", "");
+      },
+    },
+    updatedAt: {
+      type: DataTypes.DATE,
+      defaultValue: DataTypes.NOW,
+      get() {
+        const rawValue = this.getDataValue("updatedAt") as Date;
+        if (!rawValue) return null;
+        const adjustedDate = new Date(rawValue);
+        adjustedDate.setHours(adjustedDate.getHours() + 7);
+        return adjustedDate.toISOString().replace("Z", "");
+      },
+    },
+  },
+  {
+    sequelize: sequelizeSystem,
+    modelName: "NotificationPreference",
+    tableName: "notification_preferences",
+    timestamps: true,
+    indexes: [{ unique: true, fields: ["userId", "type", "channel"] }],
+  }
+);
+
+export default NotificationPreference;
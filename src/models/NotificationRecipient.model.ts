@@ -0,0 +1,86 @@
+import { DataTypes, Model } from "sequelize";
+import { Notification, sequelizeSystem, User } from "./index.model";
+import { NotificationAttributes } from "../interfaces/Notification.interface";
+import { NotificationRecipientAttributes } from "../interfaces/NotificationRecipient.interface";
+
+class NotificationRecipient
+  extends Model<NotificationRecipientAttributes>
+  implements NotificationRecipientAttributes
+{
+  public id!: number;
+  public notificationId!: number;
+  public notifications?: NotificationAttributes;
+  public userId!: number;
+  public readAt!: Date | null;
+  public archivedAt!: Date | null;
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+NotificationRecipient.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      autoIncrement: true,
+      primaryKey: true,
+    },
+    notificationId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      references: {
+        model: Notification,
+        key: "id",
+      },
+    },
+    userId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      references: {
+        model: User,
+        key: "id",
+      },
+    },
+    readAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    archivedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    createdAt: {
+      type: DataTypes.DATE,
+      defaultValue: DataTypes.NOW,
+      get() {
+        const rawValue = this.getDataValue("createdAt") as Date;
+        if (!rawValue) return null;
+        const adjustedDate = new Date(rawValue);
+        adjustedDate.setHours(adjustedDate.getHours() + 7);
+        return adjustedDate.toISOString().replace("Z", "");
+      },
+    },
+    updatedAt: {
+      type: DataTypes.DATE,
+      defaultValue: DataTypes.NOW,
+      get() {
+        const rawValue = this.getDataValue("updatedAt") as Date;
+        if (!rawValue) return null;
+        const adjustedDate = new Date(rawValue);
+        adjustedDate.setHours(adjustedDate.getHours() + 7);
+        return adjustedDate.toISOString().replace("Z", "");
+      },
+    },
+  },
+  {
+    sequelize: sequelizeSystem,
+    modelName: "NotificationRecipient",
+    tableName: "notification_recipients",
+    timestamps: true,
+    indexes: [
+      { unique: true, fields: ["notificationId", "userId"] },
+      { fields: ["userId", "archivedAt", "readAt"] },
+    ],
+  }
+);
+
+export default NotificationRecipient;
@@ -0,0 +1,155 @@
+import { DataTypes, Model } from "sequelize";
+import { Deposit, Package, sequelizeSystem, User, Voucher } from "./index.model";
+import {
+  PaymentIntentStatus,
+  PaymentProvider,
+} from "../enums/paymentIntent.enum";
+import { PaymentIntentAttributes } from "../interfaces/PaymentIntent.interface";
+
+class PaymentIntent
+  extends Model<PaymentIntentAttributes>
+  implements PaymentIntentAttributes
+{
+  public id!: number;
+  public provider!: PaymentProvider;
+  public orderCode!: number;
+  public userId!: number;
+  public createdBy!: number;
+  public voucherId!: number | null;
+  public packageId!: number | null;
+  public amount!: number;
+  public status!: PaymentIntentStatus;
+  public paymentLinkId!: string | null;
+  public checkoutUrl!: string | null;
+  public depositId!: number | null;
+  public reference!: string | null;
+  public expiresAt!: Date | null;
+  public paidAt!: Date | null;
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+PaymentIntent.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      autoIncrement: true,
+      primaryKey: true,
+    },
+    provider: {
+      type: DataTypes.STRING,
+      allowNull: false,
+    },
+    orderCode: {
+      type: DataTypes.BIGINT,
+      allowNull: false,
+      get() {
+        return Number(this.getDataValue("orderCode"));
+      },
+    },
+    userId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      references: {
+        model: User,
+        key: "id",
+      },
+    },
+    createdBy: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+    },
+    voucherId: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      references: {
+        model: Voucher,
+        key: "id",
+      },
+    },
+    packageId: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      references: {
+        model: Package,
+        key: "id",
+      },
+    },
+    amount: {
+      type: DataTypes.DECIMAL(15, 2),
+      allowNull: false,
+      // MySQL returns DECIMAL columns as strings
+      get() {
+        return Number(this.getDataValue("amount") || 0);
+      },
+    },
+    status: {
+      type: DataTypes.STRING,
+      allowNull: false,
+      defaultValue: PaymentIntentStatus.PENDING,
+    },
+    paymentLinkId: {
+      type: DataTypes.STRING,
+      allowNull: true,
+    },
+    checkoutUrl: {
+      type: DataTypes.STRING(512),
+      allowNull: true,
+    },
+    depositId: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      references: {
+        model: Deposit,
+        key: "id",
+      },
+    },
+    reference: {
+      type: DataTypes.STRING,
+      allowNull: true,
+    },
+    expiresAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    paidAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    createdAt: {
+      type: DataTypes.DATE,
+      defaultValue: DataTypes.NOW,
+      get() {
+        const rawValue = this.getDataValue("createdAt") as Date;
+        if (!rawValue) return null;
+        const adjustedDate = new Date(rawValue);
+        adjustedDate.setHours(adjustedDate.getHours() + 7);
+        return adjustedDate.toISOString().replace("Z", "");
+      },
+    },
+    updatedAt: {
+      type: DataTypes.DATE,
+      defaultValue: DataTypes.NOW,
+      get() {
+        const rawValue = this.getDataValue("updatedAt") as Date;
+        if (!rawValue) return null;
+        const adjustedDate = new Date(rawValue);
+        adjustedDate.setHours(adjustedDate.getHours() + 7);
+        return adjustedDate.toISOString().replace("Z", "");
+      },
+    },
+  },
+  {
+    sequelize: sequelizeSystem,
+    modelName: "PaymentIntent",
+    tableName: "payment_intents",
+    timestamps: true,
+    indexes: [
+      { unique: true, fields: ["provider", "orderCode"] },
+      { fields: ["userId"] },
+      { fields: ["status", "expiresAt"] },
+    ],
+  }
+);
+
+export default PaymentIntent;
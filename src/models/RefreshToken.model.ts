@@ -0,0 +1,82 @@
+import { DataTypes, Model } from "sequelize";
+import { sequelizeSystem, UserSession } from "./index.model";
+import {
+  RefreshTokenAttributes,
+  UserSessionAttributes,
+} from "../interfaces/UserSession.interface";
+
+class RefreshToken
+  extends Model<RefreshTokenAttributes>
+  implements RefreshTokenAttributes
+{
+  public id!: number;
+  public sessionId!: number;
+  public userSessions?: UserSessionAttributes;
+  public tokenHash!: string;
+  public expiresAt!: Date;
+  public usedAt!: Date | null;
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+RefreshToken.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      autoIncrement: true,
+      primaryKey: true,
+    },
+    sessionId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      references: {
+        model: UserSession,
+        key: "id",
+      },
+    },
+    tokenHash: {
+      type: DataTypes.STRING(64),
+      allowNull: false,
+      unique: true,
+    },
+    expiresAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+    },
+    usedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    createdAt: {
+      type: DataTypes.DATE,
+      defaultValue: DataTypes.NOW,
+      get() {
+        const rawValue = this.getDataValue("createdAt") as Date;
+        if (!rawValue) return null;
+        const adjustedDate = new Date(rawValue);
+        adjustedDate.setHours(adjustedDate.getHours() + 7);
+        return adjustedDate.toISOString().replace("Z", "");
+      },
+    },
+    updatedAt: {
+      type: DataTypes.DATE,
+      defaultValue: DataTypes.NOW,
+      get() {
+        const rawValue = this.getDataValue("updatedAt") as Date;
+        if (!rawValue) return null;
+        const adjustedDate = new Date(rawValue);
+        adjustedDate.setHours(adjustedDate.getHours() + 7);
+        return adjustedDate.toISOString().replace("Z", "");
+      },
+    },
+  },
+  {
+    sequelize: sequelizeSystem,
+    modelName: "RefreshToken",
+    tableName: "refresh_tokens",
+    timestamps: true,
+    indexes: [{ fields: ["sessionId"] }],
+  }
+);
+
+export default RefreshToken;
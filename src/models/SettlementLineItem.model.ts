@@ -0,0 +1,124 @@
+import { DataTypes, Model } from "sequelize";
+import { Campaign, sequelizeSystem, TransactionModel } from "./index.model";
+import {
+  SettlementItemType,
+  SettlementUnit,
+} from "../enums/settlement.enum";
+import { SettlementLineItemAttributes } from "../interfaces/SettlementLineItem.interface";
+
+// MySQL returns DECIMAL columns as strings
+const amountField = (name: keyof SettlementLineItemAttributes) => ({
+  type: DataTypes.DECIMAL(10, 2),
+  allowNull: false,
+  defaultValue: 0,
+  get(this: Model) {
+    return Number(this.getDataValue(name) || 0);
+  },
+});
+
+class SettlementLineItem
+  extends Model<SettlementLineItemAttributes>
+  implements SettlementLineItemAttributes
+{
+  public id!: number;
+  public campaignId!: number;
+  public transactionId!: number | null;
+  public itemType!: SettlementItemType;
+  public itemId!: number;
+  public name!: string;
+  public unit!: SettlementUnit;
+  public billedQuantity!: number;
+  public deliveredQuantity!: number;
+  public billedCost!: number;
+  public deliveredCost!: number;
+  public refundAmount!: number;
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+SettlementLineItem.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      autoIncrement: true,
+      primaryKey: true,
+    },
+    campaignId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      references: {
+        model: Campaign,
+        key: "id",
+      },
+    },
+    transactionId: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      references: {
+        model: TransactionModel,
+        key: "id",
+      },
+    },
+    itemType: {
+      type: DataTypes.STRING,
+      allowNull: false,
+    },
+    itemId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+    },
+    name: {
+      type: DataTypes.STRING,
+      allowNull: false,
+      defaultValue: "",
+    },
+    unit: {
+      type: DataTypes.STRING,
+      allowNull: false,
+    },
+    billedQuantity: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0,
+    },
+    deliveredQuantity: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0,
+    },
+    billedCost: amountField("billedCost"),
+    deliveredCost: amountField("deliveredCost"),
+    refundAmount: amountField("refundAmount"),
+    createdAt: {
+      type: DataTypes.DATE,
+      defaultValue: DataTypes.NOW,
+      get() {
+        const rawValue = this.getDataValue("createdAt") as Date;
+        if (!rawValue) return null;
+        const adjustedDate = new Date(rawValue);
+        adjustedDate.setHours(adjustedDate.getHours() + 7);
+        return adjustedDate.toISOString().replace("Z", "");
+      },
+    },
+    updatedAt: {
+      type: DataTypes.DATE,
+      defaultValue: DataTypes.NOW,
+      get() {
+        const rawValue = this.getDataValue("updatedAt") as Date;
+        if (!rawValue) return null;
+        const adjustedDate = new Date(rawValue);
+        adjustedDate.setHours(adjustedDate.getHours() + 7);
+        return adjustedDate.toISOString().replace("Z", "");
+      },
+    },
+  },
+  {
+    sequelize: sequelizeSystem,
+    modelName: "SettlementLineItem",
+    tableName: "settlement_line_items",
+    timestamps: true,
+    indexes: [{ fields: ["campaignId"] }, { fields: ["transactionId"] }],
+  }
+);
+
+export default SettlementLineItem;
@@ -0,0 +1,96 @@
+import { DataTypes, Model } from "sequelize";
+import { sequelizeSystem, User } from "./index.model";
+import { UserSessionAttributes } from "../interfaces/UserSession.interface";
+import { UserAttributes } from "../interfaces/User.interface";
+import { SessionRevokeReason } from "../enums/session.enum";
+
+class UserSession
+  extends Model<UserSessionAttributes>
+  implements UserSessionAttributes
+{
+  public id!: number;
+  public userId!: number;
+  public users?: UserAttributes;
+  public userAgent!: string | null;
+  public ipAddress!: string | null;
+  public lastSeenAt!: Date;
+  public expiresAt!: Date;
+  public revokedAt!: Date | null;
+  public revokedReason!: SessionRevokeReason | null;
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+UserSession.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      autoIncrement: true,
+      primaryKey: true,
+    },
+    userId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      references: {
+        model: User,
+        key: "id",
+      },
+    },
+    userAgent: {
+      type: DataTypes.STRING(512),
+      allowNull: true,
+    },
+    ipAddress: {
+      type: DataTypes.STRING(64),
+      allowNull: true,
+    },
+    lastSeenAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+    expiresAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+    },
+    revokedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    revokedReason: {
+      type: DataTypes.STRING(32),
+      allowNull: true,
+    },
+    createdAt: {
+      type: DataTypes.DATE,
+      defaultValue: DataTypes.NOW,
+      get() {
+        const rawValue = this.getDataValue("createdAt") as Date;
+        if (!rawValue) return null;
+        const adjustedDate = new Date(rawValue);
+        adjustedDate.setHours(adjustedDate.getHours() + 7);
+        return adjustedDate.toISOString().replace("Z", "");
+      },
+    },
+    updatedAt: {
+      type: DataTypes.DATE,
+      defaultValue: DataTypes.NOW,
+      get() {
+        const rawValue = this.getDataValue("updatedAt") as Date;
+        if (!rawValue) return null;
+        const adjustedDate = new Date(rawValue);
+        adjustedDate.setHours(adjustedDate.getHours() + 7);
+        return adjustedDate.toISOString().replace("Z", "");
+      },
+    },
+  },
+  {
+    sequelize: sequelizeSystem,
+    modelName: "UserSession",
+    tableName: "user_sessions",
+    timestamps: true,
+    indexes: [{ fields: ["userId"] }],
+  }
+);
+
+export default UserSession;
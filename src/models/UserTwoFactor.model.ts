@@ -0,0 +1,85 @@
+import { DataTypes, Model } from "sequelize";
+import { sequelizeSystem, User } from "./index.model";
+import { UserTwoFactorAttributes } from "../interfaces/UserTwoFactor.interface";
+import { UserAttributes } from "../interfaces/User.interface";
+
+class UserTwoFactor
+  extends Model<UserTwoFactorAttributes>
+  implements UserTwoFactorAttributes
+{
+  public id!: number;
+  public userId!: number;
+  public users?: UserAttributes;
+  public secret!: string;
+  public backupCodes!: string[];
+  public lastUsedStep!: number | null;
+  public enabledAt!: Date | null;
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+UserTwoFactor.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      autoIncrement: true,
+      primaryKey: true,
+    },
+    userId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      unique: true,
+      references: {
+        model: User,
+        key: "id",
+      },
+    },
+    secret: {
+      type: DataTypes.STRING(64),
+      allowNull: false,
+    },
+    backupCodes: {
+      type: DataTypes.JSON,
+      allowNull: false,
+      defaultValue: [],
+    },
+    lastUsedStep: {
+      type: DataTypes.BIGINT,
+      allowNull: true,
+    },
+    enabledAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    createdAt: {
+      type: DataTypes.DATE,
+      defaultValue: DataTypes.NOW,
+      get() {
+        const rawValue = this.getDataValue("createdAt") as Date;
+        if (!rawValue) return null;
+        const adjustedDate = new Date(rawValue);
+        adjustedDate.setHours(adjustedDate.getHours() + 7);
+        return adjustedDate.toISOString().replace("Z", "");
+      },
+    },
+    updatedAt: {
+      type: DataTypes.DATE,
+      defaultValue: DataTypes.NOW,
+      get() {
+        const rawValue = this.getDataValue("updatedAt") as Date;
+        if (!rawValue) return null;
+        const adjustedDate = new Date(rawValue);
+        adjustedDate.setHours(adjustedDate.getHours() + 7);
+        return adjustedDate.toISOString().replace("Z", "");
+      },
+    },
+  },
+  {
+    sequelize: sequelizeSystem,
+    modelName: "UserTwoFactor",
+    tableName: "user_two_factors",
+    timestamps: true,
+  }
+);
+
+export default UserTwoFactor;
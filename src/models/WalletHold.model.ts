@@ -0,0 +1,107 @@
+import { DataTypes, Model } from "sequelize";
+import {
+  Campaign,
+  sequelizeSystem,
+  TransactionModel,
+  Wallet,
+} from "./index.model";
+import { WalletHoldStatus } from "../enums/walletHoldStatus.enum";
+import { WalletHoldAttributes } from "../interfaces/WalletHold.interface";
+
+// MySQL returns DECIMAL columns as strings
+const amountField = (name: keyof WalletHoldAttributes) => ({
+  type: DataTypes.DECIMAL(10, 2),
+  allowNull: false,
+  defaultValue: 0,
+  get(this: Model) {
+    return Number(this.getDataValue(name) || 0);
+  },
+});
+
+class WalletHold
+  extends Model<WalletHoldAttributes>
+  implements WalletHoldAttributes
+{
+  public id!: number;
+  public walletId!: number;
+  public campaignId!: number;
+  public amount!: number;
+  public capturedAmount!: number;
+  public status!: WalletHoldStatus;
+  public transactionId!: number | null;
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+WalletHold.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      autoIncrement: true,
+      primaryKey: true,
+    },
+    walletId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      references: {
+        model: Wallet,
+        key: "id",
+      },
+    },
+    campaignId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      unique: true,
+      references: {
+        model: Campaign,
+        key: "id",
+      },
+    },
+    amount: amountField("amount"),
+    capturedAmount: amountField("capturedAmount"),
+    status: {
+      type: DataTypes.STRING,
+      allowNull: false,
+      defaultValue: WalletHoldStatus.HELD,
+    },
+    transactionId: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      references: {
+        model: TransactionModel,
+        key: "id",
+      },
+    },
+    createdAt: {
+      type: DataTypes.DATE,
+      defaultValue: DataTypes.NOW,
+      get() {
+        const rawValue = this.getDataValue("createdAt") as Date;
+        if (!rawValue) return null;
+        const adjustedDate = new Date(rawValue);
+        adjustedDate.setHours(adjustedDate.getHours() + 7);
+        return adjustedDate.toISOString().replace("Z", "");
+      },
+    },
+    updatedAt: {
+      type: DataTypes.DATE,
+      defaultValue: DataTypes.NOW,
+      get() {
+        const rawValue = this.getDataValue("updatedAt") as Date;
+        if (!rawValue) return null;
+        const adjustedDate = new Date(rawValue);
+        adjustedDate.setHours(adjustedDate.getHours() + 7);
+        return adjustedDate.toISOString().replace("Z", "");
+      },
+    },
+  },
+  {
+    sequelize: sequelizeSystem,
+    modelName: "WalletHold",
+    tableName: "wallet_holds",
+    timestamps: true,
+    indexes: [{ fields: ["walletId", "status"] }],
+  }
+);
+
+export default WalletHold;
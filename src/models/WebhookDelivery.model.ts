@@ -0,0 +1,139 @@
+import { DataTypes, Model } from "sequelize";
+import { sequelizeSystem, User, WebhookEndpoint } from "./index.model";
+import { WebhookDeliveryStatus } from "../enums/webhook.enum";
+import {
+  WebhookDeliveryAttributes,
+  WebhookEndpointAttributes,
+  WebhookPayload,
+} from "../interfaces/Webhook.interface";
+
+class WebhookDelivery
+  extends Model<WebhookDeliveryAttributes>
+  implements WebhookDeliveryAttributes
+{
+  public id!: number;
+  public endpointId!: number;
+  public webhookEndpoints?: WebhookEndpointAttributes;
+  public userId!: number;
+  public eventId!: string;
+  public event!: string;
+  public payload!: WebhookPayload;
+  public status!: WebhookDeliveryStatus;
+  public attempts!: number;
+  public nextAttemptAt!: Date;
+  public lockedAt!: Date | null;
+  public responseStatus!: number | null;
+  public responseBody!: string | null;
+  public lastError!: string | null;
+  public deliveredAt!: Date | null;
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+WebhookDelivery.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      autoIncrement: true,
+      primaryKey: true,
+    },
+    endpointId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      references: {
+        model: WebhookEndpoint,
+        key: "id",
+      },
+    },
+    userId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      references: {
+        model: User,
+        key: "id",
+      },
+    },
+    eventId: {
+      type: DataTypes.STRING(36),
+      allowNull: false,
+    },
+    event: {
+      type: DataTypes.STRING,
+      allowNull: false,
+    },
+    payload: {
+      type: DataTypes.JSON,
+      allowNull: false,
+    },
+    status: {
+      type: DataTypes.STRING,
+      allowNull: false,
+      defaultValue: WebhookDeliveryStatus.PENDING,
+    },
+    attempts: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0,
+    },
+    nextAttemptAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+    lockedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    responseStatus: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+    },
+    responseBody: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    lastError: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    deliveredAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    createdAt: {
+      type: DataTypes.DATE,
+      defaultValue: DataTypes.NOW,
+      get() {
+        const rawValue = this.getDataValue("createdAt") as Date;
+        if (!rawValue) return null;
+        const adjustedDate = new Date(rawValue);
+        adjustedDate.setHours(adjustedDate.getHours() + 7);
+        return adjustedDate.toISOString().replace("Z", "");
+      },
+    },
+    updatedAt: {
+      type: DataTypes.DATE,
+      defaultValue: DataTypes.NOW,
+      get() {
+        const rawValue = this.getDataValue("updatedAt") as Date;
+        if (!rawValue) return null;
+        const adjustedDate = new Date(rawValue);
+        adjustedDate.setHours(adjustedDate.getHours() + 7);
+        return adjustedDate.toISOString().replace("Z", "");
+      },
+    },
+  },
+  {
+    sequelize: sequelizeSystem,
+    modelName: "WebhookDelivery",
+    tableName: "webhook_deliveries",
+    timestamps: true,
+    indexes: [
+      { fields: ["status", "nextAttemptAt"] },
+      { fields: ["endpointId", "createdAt"] },
+      { fields: ["userId", "createdAt"] },
+    ],
+  }
+);
+
+export default WebhookDelivery;
@@ -0,0 +1,94 @@
+import { DataTypes, Model } from "sequelize";
+import { sequelizeSystem, User } from "./index.model";
+import { WebhookEndpointAttributes } from "../interfaces/Webhook.interface";
+
+class WebhookEndpoint
+  extends Model<WebhookEndpointAttributes>
+  implements WebhookEndpointAttributes
+{
+  public id!: number;
+  public userId!: number;
+  public url!: string;
+  public secret!: string;
+  public events!: string[];
+  public description!: string | null;
+  public lowBalanceThreshold!: number | null;
+  public isActive!: boolean;
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+WebhookEndpoint.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      autoIncrement: true,
+      primaryKey: true,
+    },
+    userId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      references: {
+        model: User,
+        key: "id",
+      },
+    },
+    url: {
+      type: DataTypes.STRING(1024),
+      allowNull: false,
+    },
+    secret: {
+      type: DataTypes.STRING,
+      allowNull: false,
+    },
+    events: {
+      type: DataTypes.JSON,
+      allowNull: false,
+      defaultValue: [],
+    },
+    description: {
+      type: DataTypes.STRING,
+      allowNull: true,
+    },
+    lowBalanceThreshold: {
+      type: DataTypes.DECIMAL(10, 2),
+      allowNull: true,
+    },
+    isActive: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: true,
+    },
+    createdAt: {
+      type: DataTypes.DATE,
+      defaultValue: DataTypes.NOW,
+      get() {
+        const rawValue = this.getDataValue("createdAt") as Date;
+        if (!rawValue) return null;
+        const adjustedDate = new Date(rawValue);
+        adjustedDate.setHours(adjustedDate.getHours() + 7);
+        return adjustedDate.toISOString().replace("Z", "");
+      },
+    },
+    updatedAt: {
+      type: DataTypes.DATE,
+      defaultValue: DataTypes.NOW,
+      get() {
+        const rawValue = this.getDataValue("updatedAt") as Date;
+        if (!rawValue) return null;
+        const adjustedDate = new Date(rawValue);
+        adjustedDate.setHours(adjustedDate.getHours() + 7);
+        return adjustedDate.toISOString().replace("Z", "");
+      },
+    },
+  },
+  {
+    sequelize: sequelizeSystem,
+    modelName: "WebhookEndpoint",
+    tableName: "webhook_endpoints",
+    timestamps: true,
+    indexes: [{ fields: ["userId"] }],
+  }
+);
+
+export default WebhookEndpoint;
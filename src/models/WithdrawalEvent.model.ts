@@ -0,0 +1,84 @@
+import { DataTypes, Model } from "sequelize";
+import { sequelizeSystem, WithdrawalRequest } from "./index.model";
+import { WithdrawalStatus } from "../enums/withdrawalStatus.enum";
+import { WithdrawalEventAttributes } from "../interfaces/Withdrawal.interface";
+
+// Append-only audit trail of withdrawal status changes
+class WithdrawalEvent
+  extends Model<WithdrawalEventAttributes>
+  implements WithdrawalEventAttributes
+{
+  public id!: number;
+  public withdrawalId!: number;
+  public fromStatus!: WithdrawalStatus | null;
+  public toStatus!: WithdrawalStatus;
+  public actorId!: number | null;
+  public note!: string | null;
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+WithdrawalEvent.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      autoIncrement: true,
+      primaryKey: true,
+    },
+    withdrawalId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      references: {
+        model: WithdrawalRequest,
+        key: "id",
+      },
+    },
+    fromStatus: {
+      type: DataTypes.STRING,
+      allowNull: true,
+    },
+    toStatus: {
+      type: DataTypes.STRING,
+      allowNull: false,
+    },
+    actorId: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+    },
+    note: {
+      type: DataTypes.STRING(512),
+      allowNull: true,
+    },
+    createdAt: {
+      type: DataTypes.DATE,
+      defaultValue: DataTypes.NOW,
+      get() {
+        const rawValue = this.getDataValue("createdAt") as Date;
+        if (!rawValue) return null;
+        const adjustedDate = new Date(rawValue);
+        adjustedDate.setHours(adjustedDate.getHours() + 7);
+        return adjustedDate.toISOString().replace("Z", "");
+      },
+    },
+    updatedAt: {
+      type: DataTypes.DATE,
+      defaultValue: DataTypes.NOW,
+      get() {
+        const rawValue = this.getDataValue("updatedAt") as Date;
+        if (!rawValue) return null;
+        const adjustedDate = new Date(rawValue);
+        adjustedDate.setHours(adjustedDate.getHours() + 7);
+        return adjustedDate.toISOString().replace("Z", "");
+      },
+    },
+  },
+  {
+    sequelize: sequelizeSystem,
+    modelName: "WithdrawalEvent",
+    tableName: "withdrawal_events",
+    timestamps: true,
+    indexes: [{ fields: ["withdrawalId"] }],
+  }
+);
+
+export default WithdrawalEvent;
@@ -0,0 +1,147 @@
+import { DataTypes, Model } from "sequelize";
+import { Agency, sequelizeSystem, User } from "./index.model";
+import { WithdrawalStatus } from "../enums/withdrawalStatus.enum";
+import { WithdrawalRequestAttributes } from "../interfaces/Withdrawal.interface";
+
+// MySQL returns DECIMAL columns as strings
+const decimalField = (
+  name: keyof WithdrawalRequestAttributes,
+  precision: number,
+  scale: number,
+  allowNull: boolean
+) => ({
+  type: DataTypes.DECIMAL(precision, scale),
+  allowNull,
+  get(this: Model) {
+    const value = this.getDataValue(name);
+    return value === null || value === undefined ? null : Number(value);
+  },
+});
+
+class WithdrawalRequest
+  extends Model<WithdrawalRequestAttributes>
+  implements WithdrawalRequestAttributes
+{
+  public id!: number;
+  public agencyId!: number;
+  public userId!: number;
+  public amount!: number;
+  public usdAmount!: number;
+  public currency!: string;
+  public network!: string | null;
+  public address!: string;
+  public cryptoAmount!: number | null;
+  public exchangeRate!: number | null;
+  public status!: WithdrawalStatus;
+  public trackId!: string | null;
+  public reviewedBy!: number | null;
+  public reviewedAt!: Date | null;
+  public rejectReason!: string | null;
+  public failureReason!: string | null;
+  public completedAt!: Date | null;
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+WithdrawalRequest.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      autoIncrement: true,
+      primaryKey: true,
+    },
+    agencyId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      references: {
+        model: Agency,
+        key: "id",
+      },
+    },
+    userId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      references: {
+        model: User,
+        key: "id",
+      },
+    },
+    amount: decimalField("amount", 15, 2, false),
+    usdAmount: decimalField("usdAmount", 15, 2, false),
+    currency: {
+      type: DataTypes.STRING(16),
+      allowNull: false,
+    },
+    network: {
+      type: DataTypes.STRING(32),
+      allowNull: true,
+    },
+    address: {
+      type: DataTypes.STRING(128),
+      allowNull: false,
+    },
+    cryptoAmount: decimalField("cryptoAmount", 24, 8, true),
+    exchangeRate: decimalField("exchangeRate", 24, 8, true),
+    status: {
+      type: DataTypes.STRING,
+      allowNull: false,
+      defaultValue: WithdrawalStatus.PENDING,
+    },
+    trackId: {
+      type: DataTypes.STRING,
+      allowNull: true,
+      unique: true,
+    },
+    reviewedBy: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+    },
+    reviewedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    rejectReason: {
+      type: DataTypes.STRING,
+      allowNull: true,
+    },
+    failureReason: {
+      type: DataTypes.STRING,
+      allowNull: true,
+    },
+    completedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    createdAt: {
+      type: DataTypes.DATE,
+      defaultValue: DataTypes.NOW,
+      get() {
+        const rawValue = this.getDataValue("createdAt") as Date;
+        if (!rawValue) return null;
+        const adjustedDate = new Date(rawValue);
+        adjustedDate.setHours(adjustedDate.getHours() + 7);
+        return adjustedDate.toISOString().replace("Z", "");
+      },
+    },
+    updatedAt: {
+      type: DataTypes.DATE,
+      defaultValue: DataTypes.NOW,
+      get() {
+        const rawValue = this.getDataValue("updatedAt") as Date;
+        if (!rawValue) return null;
+        const adjustedDate = new Date(rawValue);
+        adjustedDate.setHours(adjustedDate.getHours() + 7);
+        return adjustedDate.toISOString().replace("Z", "");
+      },
+    },
+  },
+  {
+    sequelize: sequelizeSystem,
+    modelName: "WithdrawalRequest",
+    tableName: "withdrawal_requests",
+    timestamps: true,
+    indexes: [{ fields: ["agencyId", "status"] }, { fields: ["status"] }],
+  }
+);
+
+export default WithdrawalRequest;
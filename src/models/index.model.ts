@@ -21,6 +21,28 @@ import Package from "./Package.model"
 import Report from "./Report.model"
 import DirectLink from "./DirectLink.model";
 import GoogleMapReview from "./GoogleMapReview.model"
+import BotOutbox from "./BotOutbox.model";
+import CampaignTemplate from "./CampaignTemplate.model";
+import SettlementLineItem from "./SettlementLineItem.model";
+import LedgerAccount from "./LedgerAccount.model";
+import LedgerEntry from "./LedgerEntry.model";
+import LedgerDrift from "./LedgerDrift.model";
+import WalletHold from "./WalletHold.model";
+import PaymentIntent from "./PaymentIntent.model";
+import WithdrawalRequest from "./WithdrawalRequest.model";
+import WithdrawalEvent from "./WithdrawalEvent.model";
+import CommissionRule from "./CommissionRule.model";
+import AgencyCommission from "./AgencyCommission.model";
+import NotificationPreference from "./NotificationPreference.model";
+import NotificationEndpoint from "./NotificationEndpoint.model";
+import NotificationDelivery from "./NotificationDelivery.model";
+import NotificationRecipient from "./NotificationRecipient.model";
+import ApiKey from "./ApiKey.model";
+import WebhookEndpoint from "./WebhookEndpoint.model";
+import WebhookDelivery from "./WebhookDelivery.model";
+import UserTwoFactor from "./UserTwoFactor.model";
+import UserSession from "./UserSession.model";
+import RefreshToken from "./RefreshToken.model";
 // Initialize models (this ensures they're loaded)
 export const models = {
   Role,
@@ -43,7 +65,29 @@ export const models = {
   Package,
   Report,
   DirectLink,
-  GoogleMapReview
+  GoogleMapReview,
+  BotOutbox,
+  CampaignTemplate,
+  SettlementLineItem,
+  LedgerAccount,
+  LedgerEntry,
+  LedgerDrift,
+  WalletHold,
+  PaymentIntent,
+  WithdrawalRequest,
+  WithdrawalEvent,
+  CommissionRule,
+  AgencyCommission,
+  NotificationPreference,
+  NotificationEndpoint,
+  NotificationDelivery,
+  NotificationRecipient,
+  ApiKey,
+  WebhookEndpoint,
+  WebhookDelivery,
+  UserTwoFactor,
+  UserSession,
+  RefreshToken,
 };
 
 
@@ -67,6 +111,9 @@ User.hasMany(Deposit, { foreignKey: "userId", as: "deposits", onDelete: 'SET NUL
 Deposit.belongsTo(Voucher, { foreignKey: "voucherId", as: "vouchers", onDelete: 'SET NULL' });
 Voucher.hasMany(Deposit, { foreignKey: "voucherId", as: "deposits", onDelete: 'SET NULL' });
 
+Campaign.belongsTo(Campaign, { foreignKey: "parentCampaignId", as: "parentCampaign", onDelete: "SET NULL" });
+Campaign.hasOne(Campaign, { foreignKey: "parentCampaignId", as: "renewedCampaign", onDelete: "SET NULL" });
+
 Campaign.belongsTo(CampaignType, { foreignKey: "campaignTypeId", as: "campaignTypes", onDelete: "SET NULL" });
 CampaignType.hasMany(Campaign, { foreignKey: "campaignTypeId", as: "campaigns", onDelete: "SET NULL" });
 
@@ -93,6 +140,74 @@ Campaign.hasMany(DirectLink, { foreignKey: "campaignId", as: "directLinks", onDe
 GoogleMapReview.belongsTo(Campaign, { foreignKey: "campaignId", as: "campaigns", onDelete: 'SET NULL' });
 Campaign.hasMany(GoogleMapReview, { foreignKey: "campaignId", as: "googleMapReviews", onDelete: 'SET NULL' });
 
+BotOutbox.belongsTo(Campaign, { foreignKey: "campaignId", as: "campaigns", onDelete: 'SET NULL' });
+Campaign.hasMany(BotOutbox, { foreignKey: "campaignId", as: "botOutbox", onDelete: 'SET NULL' });
+
+CampaignTemplate.belongsTo(User, { foreignKey: "userId", as: "users", onDelete: 'SET NULL' });
+User.hasMany(CampaignTemplate, { foreignKey: "userId", as: "campaignTemplates", onDelete: 'SET NULL' });
+
+SettlementLineItem.belongsTo(Campaign, { foreignKey: "campaignId", as: "campaigns", onDelete: 'CASCADE' });
+Campaign.hasMany(SettlementLineItem, { foreignKey: "campaignId", as: "settlementLineItems", onDelete: 'CASCADE' });
+SettlementLineItem.belongsTo(TransactionModel, { foreignKey: "transactionId", as: "transactions", onDelete: 'SET NULL' });
+TransactionModel.hasMany(SettlementLineItem, { foreignKey: "transactionId", as: "settlementLineItems", onDelete: 'SET NULL' });
+
+LedgerAccount.belongsTo(Wallet, { foreignKey: "walletId", as: "wallet", onDelete: 'SET NULL' });
+Wallet.hasOne(LedgerAccount, { foreignKey: "walletId", as: "ledgerAccount", onDelete: 'SET NULL' });
+LedgerEntry.belongsTo(LedgerAccount, { foreignKey: "accountId", as: "account", onDelete: 'RESTRICT' });
+LedgerAccount.hasMany(LedgerEntry, { foreignKey: "accountId", as: "entries", onDelete: 'RESTRICT' });
+LedgerEntry.belongsTo(TransactionModel, { foreignKey: "transactionId", as: "transactions", onDelete: 'RESTRICT' });
+TransactionModel.hasMany(LedgerEntry, { foreignKey: "transactionId", as: "ledgerEntries", onDelete: 'RESTRICT' });
+LedgerDrift.belongsTo(Wallet, { foreignKey: "walletId", as: "wallet", onDelete: 'CASCADE' });
+
+WalletHold.belongsTo(Wallet, { foreignKey: "walletId", as: "wallet", onDelete: 'CASCADE' });
+Wallet.hasMany(WalletHold, { foreignKey: "walletId", as: "holds", onDelete: 'CASCADE' });
+WalletHold.belongsTo(Campaign, { foreignKey: "campaignId", as: "campaigns", onDelete: 'CASCADE' });
+Campaign.hasOne(WalletHold, { foreignKey: "campaignId", as: "walletHold", onDelete: 'CASCADE' });
+WalletHold.belongsTo(TransactionModel, { foreignKey: "transactionId", as: "transactions", onDelete: 'SET NULL' });
+
+PaymentIntent.belongsTo(User, { foreignKey: "userId", as: "users", onDelete: 'CASCADE' });
+User.hasMany(PaymentIntent, { foreignKey: "userId", as: "paymentIntents", onDelete: 'CASCADE' });
+PaymentIntent.belongsTo(Deposit, { foreignKey: "depositId", as: "deposits", onDelete: 'SET NULL' });
+
+LedgerAccount.belongsTo(Agency, { foreignKey: "agencyId", as: "agency", onDelete: 'SET NULL' });
+Agency.hasOne(LedgerAccount, { foreignKey: "agencyId", as: "ledgerAccount", onDelete: 'SET NULL' });
+WithdrawalRequest.belongsTo(Agency, { foreignKey: "agencyId", as: "agency", onDelete: 'CASCADE' });
+Agency.hasMany(WithdrawalRequest, { foreignKey: "agencyId", as: "withdrawalRequests", onDelete: 'CASCADE' });
+WithdrawalRequest.belongsTo(User, { foreignKey: "userId", as: "users", onDelete: 'CASCADE' });
+WithdrawalRequest.hasMany(WithdrawalEvent, { foreignKey: "withdrawalId", as: "events", onDelete: 'CASCADE' });
+WithdrawalEvent.belongsTo(WithdrawalRequest, { foreignKey: "withdrawalId", as: "withdrawal", onDelete: 'CASCADE' });
+
+CommissionRule.belongsTo(Agency, { foreignKey: "agencyId", as: "agency", onDelete: 'CASCADE' });
+AgencyCommission.belongsTo(Agency, { foreignKey: "agencyId", as: "agency", onDelete: 'CASCADE' });
+Agency.hasMany(AgencyCommission, { foreignKey: "agencyId", as: "commissions", onDelete: 'CASCADE' });
+AgencyCommission.belongsTo(User, { foreignKey: "referredUserId", as: "referredUser", onDelete: 'CASCADE' });
+AgencyCommission.belongsTo(CommissionRule, { foreignKey: "ruleId", as: "rule", onDelete: 'SET NULL' });
+AgencyCommission.belongsTo(TransactionModel, { foreignKey: "transactionId", as: "transactions", onDelete: 'CASCADE' });
+
+User.hasMany(NotificationPreference, { foreignKey: "userId", as: "notificationPreferences", onDelete: 'CASCADE' });
+NotificationPreference.belongsTo(User, { foreignKey: "userId", as: "users", onDelete: 'CASCADE' });
+User.hasMany(NotificationEndpoint, { foreignKey: "userId", as: "notificationEndpoints", onDelete: 'CASCADE' });
+NotificationEndpoint.belongsTo(User, { foreignKey: "userId", as: "users", onDelete: 'CASCADE' });
+NotificationDelivery.belongsTo(Notification, { foreignKey: "notificationId", as: "notifications", onDelete: 'CASCADE' });
+Notification.hasMany(NotificationDelivery, { foreignKey: "notificationId", as: "deliveries", onDelete: 'CASCADE' });
+NotificationDelivery.belongsTo(User, { foreignKey: "userId", as: "users", onDelete: 'CASCADE' });
+NotificationRecipient.belongsTo(Notification, { foreignKey: "notificationId", as: "notifications", onDelete: 'CASCADE' });
+Notification.hasMany(NotificationRecipient, { foreignKey: "notificationId", as: "recipients", onDelete: 'CASCADE' });
+NotificationRecipient.belongsTo(User, { foreignKey: "userId", as: "users", onDelete: 'CASCADE' });
+User.hasMany(ApiKey, { foreignKey: "userId", as: "apiKeys", onDelete: 'CASCADE' });
+ApiKey.belongsTo(User, { foreignKey: "userId", as: "users", onDelete: 'CASCADE' });
+User.hasMany(WebhookEndpoint, { foreignKey: "userId", as: "webhookEndpoints", onDelete: 'CASCADE' });
+WebhookEndpoint.belongsTo(User, { foreignKey: "userId", as: "users", onDelete: 'CASCADE' });
+WebhookEndpoint.hasMany(WebhookDelivery, { foreignKey: "endpointId", as: "deliveries", onDelete: 'CASCADE' });
+WebhookDelivery.belongsTo(WebhookEndpoint, { foreignKey: "endpointId", as: "webhookEndpoints", onDelete: 'CASCADE' });
+WebhookDelivery.belongsTo(User, { foreignKey: "userId", as: "users", onDelete: 'CASCADE' });
+User.hasOne(UserTwoFactor, { foreignKey: "userId", as: "twoFactor", onDelete: 'CASCADE' });
+UserTwoFactor.belongsTo(User, { foreignKey: "userId", as: "users", onDelete: 'CASCADE' });
+User.hasMany(UserSession, { foreignKey: "userId", as: "sessions", onDelete: 'CASCADE' });
+UserSession.belongsTo(User, { foreignKey: "userId", as: "users", onDelete: 'CASCADE' });
+UserSession.hasMany(RefreshToken, { foreignKey: "sessionId", as: "refreshTokens", onDelete: 'CASCADE' });
+RefreshToken.belongsTo(UserSession, { foreignKey: "sessionId", as: "userSessions", onDelete: 'CASCADE' });
+
 Role.hasMany(RolePermission, { foreignKey: "roleId", as: "rolePermissions", onDelete: 'SET NULL' });
 Permission.hasMany(RolePermission, {
   foreignKey: "permissionId",
@@ -151,5 +266,27 @@ export {
   Report,
   DirectLink,
   GoogleMapReview,
+  BotOutbox,
+  CampaignTemplate,
+  SettlementLineItem,
+  LedgerAccount,
+  LedgerEntry,
+  LedgerDrift,
+  WalletHold,
+  PaymentIntent,
+  WithdrawalRequest,
+  WithdrawalEvent,
+  CommissionRule,
+  AgencyCommission,
+  NotificationPreference,
+  NotificationEndpoint,
+  NotificationDelivery,
+  NotificationRecipient,
+  ApiKey,
+  WebhookEndpoint,
+  WebhookDelivery,
+  UserTwoFactor,
+  UserSession,
+  RefreshToken,
   sequelizeSystem,
 };
@@ -0,0 +1,112 @@
+import { Op } from "sequelize";
+import { ApiKey, Role, User } from "../../models/index.model";
+import { ApiKeyAttributes } from "../../interfaces/ApiKey.interface";
+import { ErrorType } from "../../types/Error.type";
+
+// The hash never leaves the repository
+const PUBLIC_ATTRIBUTES = { exclude: ["keyHash"] };
+
+// Don't write lastUsedAt more than once a minute per key
+const LAST_USED_PRECISION = 60 * 1000;
+
+export const createApiKeyRepo = async (
+  data: ApiKeyAttributes
+): Promise<ApiKeyAttributes> => {
+  try {
+    const apiKey = await ApiKey.create(data);
+    const publicKey: Partial<ApiKeyAttributes> = apiKey.toJSON();
+    delete publicKey.keyHash;
+    return publicKey as ApiKeyAttributes;
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
+
+export const getApiKeysByUserIdRepo = async (
+  userId: number
+): Promise<ApiKeyAttributes[]> => {
+  try {
+    return await ApiKey.findAll({
+      where: { userId },
+      attributes: PUBLIC_ATTRIBUTES,
+      order: [["id", "DESC"]],
+    });
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
+
+// Keys that can still be used: not revoked and not expired
+export const countActiveApiKeysRepo = async (userId: number): Promise<number> => {
+  try {
+    return await ApiKey.count({
+      where: {
+        userId,
+        revokedAt: null,
+        [Op.or]: [{ expiresAt: null }, { expiresAt: { [Op.gt]: new Date() } }],
+      },
+    });
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
+
+// The key with its owner and the owner's role, shaped like a login token payload
+export const findApiKeyByHashRepo = async (
+  keyHash: string
+): Promise<ApiKey | null> => {
+  try {
+    return await ApiKey.findOne({
+      where: { keyHash },
+      include: [
+        {
+          model: User,
+          as: "users",
+          attributes: { exclude: ["password", "roleId"] },
+          include: [{ model: Role, as: "role" }],
+        },
+      ],
+    });
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
+
+export const revokeApiKeyRepo = async (
+  id: number,
+  userId: number
+): Promise<boolean> => {
+  try {
+    const [affectedRows] = await ApiKey.update(
+      { revokedAt: new Date() },
+      { where: { id, userId, revokedAt: null } }
+    );
+    return affectedRows > 0;
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
+
+export const touchApiKeyRepo = async (id: number): Promise<void> => {
+  try {
+    const now = new Date();
+    await ApiKey.update(
+      { lastUsedAt: now },
+      {
+        where: {
+          id,
+          [Op.or]: [
+            { lastUsedAt: null },
+            {
+              lastUsedAt: {
+                [Op.lt]: new Date(now.getTime() - LAST_USED_PRECISION),
+              },
+            },
+          ],
+        },
+      }
+    );
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
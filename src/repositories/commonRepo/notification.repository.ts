@@ -3,9 +3,16 @@ import { NotificationAttributes } from "../../interfaces/Notification.interface"
 import { Notification } from "../../models/index.model";
 import { ErrorType } from "../../types/Error.type";
 import { logger } from "../../config/logger.config";
-import { Op, Sequelize } from "sequelize";
+import { resolveNotificationRecipientsRepo } from "./notificationPreference.repository";
+import { enqueueNotificationDeliveriesRepo } from "./notificationDelivery.repository";
+import { createNotificationRecipientsRepo } from "./notificationRecipient.repository";
+import { socketService } from "../../services/socket.service";
 
-// Create a new notification
+/**
+ * Create a new notification with one read-state record per recipient.
+ * Recipients who keep IN_APP on get the newNotification socket event; email, Telegram and webhook deliveries are
+ * queued in the same transaction for the notification dispatcher worker.
+ */
 export const createNotificationRepo = async (data: {
   userId: number[];
   name: string;
@@ -19,28 +26,36 @@ export const createNotificationRepo = async (data: {
       ...data,
       userId: data.userId,
     }, { transaction });
+    await createNotificationRecipientsRepo(
+      notification.id,
+      data.userId,
+      transaction
+    );
 
-    // Emit real-time notification
-    try {
-      const io = (global as any).io;
-      if (io) {
-        logger.info('Socket.io instance found, emitting notification');
-        const notificationData = {
-          id: notification.id,
-          name: notification.name,
-          content: notification.content,
-          type: notification.type,
-          createdAt: notification.createdAt,
-        };
+    const { inAppUserIds, deliveries } = await resolveNotificationRecipientsRepo(
+      data.userId,
+      data.type,
+      transaction
+    );
+    await enqueueNotificationDeliveriesRepo(
+      notification.id,
+      deliveries,
+      transaction
+    );
 
-        notification.userId.forEach((userId: number) => {
-          const room = `user_${userId}`;
-          logger.info(`Emitting to room: ${room}`);
-          io.to(room).emit("newNotification", notificationData);
-        });
-      } else {
-        logger.warn('Socket.io instance not found, notification saved but not emitted');
-      }
+    // Emit real-time notification; the Redis adapter or emitter reaches the
+    // user's sockets from any worker
+    try {
+      const notificationData = {
+        id: notification.id,
+        name: notification.name,
+        content: notification.content,
+        type: notification.type,
+        createdAt: notification.createdAt,
+      };
+      inAppUserIds.forEach((userId: number) =>
+        socketService.emitToUser(userId, "newNotification", notificationData)
+      );
     } catch (socketError: any) {
       // Log socket error but don't fail the notification creation
       logger.error('Error emitting socket notification:', socketError.message);
@@ -52,45 +67,3 @@ export const createNotificationRepo = async (data: {
     throw new ErrorType(error.name, error.message, error.code);
   }
 };
-
-// Get notifications by userId and type
-export const getNotificationsByUserIdAndTypeRepo = async (filters: {
-  userId: number;
-  type?: string;
-  page?: number;
-  limit?: number;
-}): Promise<{ notifications: NotificationAttributes[]; total: number }> => {
-  try {
-    const where: any = {
-      [Op.and]: [
-        Sequelize.literal(`JSON_CONTAINS(userId, '${JSON.stringify([filters.userId])}')`),
-      ]
-    };
-
-    if (filters.type) {
-      where.type = filters.type;
-    }
-    const queryOptions: any = {
-      where,
-      order: [["createdAt", "DESC"]],
-    };
-    // console.log("queryOptions", queryOptions);
-    // Apply pagination only if page and limit are not 0
-    if (
-      filters.page &&
-      filters.limit &&
-      filters.page > 0 &&
-      filters.limit > 0
-    ) {
-      queryOptions.offset = (filters.page - 1) * filters.limit;
-      queryOptions.limit = filters.limit;
-    }
-
-    const { rows: notifications, count: total } =
-      await Notification.findAndCountAll(queryOptions);
-
-    return { notifications, total };
-  } catch (error: any) {
-    throw new ErrorType(error.name, error.message, error.code);
-  }
-};
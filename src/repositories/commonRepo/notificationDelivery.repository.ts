@@ -0,0 +1,211 @@
+import { Op, Transaction } from "sequelize";
+import { Notification, NotificationDelivery } from "../../models/index.model";
+import { NotificationDeliveryStatus } from "../../enums/notification.enum";
+import {
+  ExternalNotificationChannel,
+  NotificationDeliveryAttributes,
+} from "../../interfaces/NotificationDelivery.interface";
+import { ErrorType } from "../../types/Error.type";
+import statusCode from "../../constants/statusCode";
+
+// Queue external deliveries of a notification, inside the caller's transaction
+export const enqueueNotificationDeliveriesRepo = async (
+  notificationId: number,
+  deliveries: {
+    userId: number;
+    channel: ExternalNotificationChannel;
+    target: string;
+  }[],
+  transaction?: Transaction
+): Promise<void> => {
+  try {
+    if (!deliveries.length) return;
+    await NotificationDelivery.bulkCreate(
+      deliveries.map((delivery) => ({
+        ...delivery,
+        notificationId,
+        status: NotificationDeliveryStatus.PENDING,
+        attempts: 0,
+        nextAttemptAt: new Date(),
+      })),
+      { transaction }
+    );
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
+
+// Lock a batch of due deliveries, oldest first, with their notification
+export const claimDueNotificationDeliveriesRepo = async (
+  limit: number
+): Promise<NotificationDeliveryAttributes[]> => {
+  try {
+    const candidates = await NotificationDelivery.findAll({
+      where: {
+        status: NotificationDeliveryStatus.PENDING,
+        nextAttemptAt: { [Op.lte]: new Date() },
+      },
+      include: [{ model: Notification, as: "notifications" }],
+      order: [["id", "ASC"]],
+      limit,
+    });
+
+    const claimed: NotificationDeliveryAttributes[] = [];
+    for (const delivery of candidates) {
+      // Conditional update so a delivery is never sent by two dispatchers
+      const [affectedRows] = await NotificationDelivery.update(
+        { status: NotificationDeliveryStatus.PROCESSING, lockedAt: new Date() },
+        { where: { id: delivery.id, status: NotificationDeliveryStatus.PENDING } }
+      );
+      if (affectedRows === 1) {
+        claimed.push(delivery);
+      }
+    }
+    return claimed;
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
+
+// Put deliveries locked by a dispatcher that died back into the queue
+export const releaseStaleNotificationDeliveriesRepo = async (
+  lockedBefore: Date
+): Promise<number> => {
+  try {
+    const [affectedRows] = await NotificationDelivery.update(
+      { status: NotificationDeliveryStatus.PENDING, lockedAt: null },
+      {
+        where: {
+          status: NotificationDeliveryStatus.PROCESSING,
+          lockedAt: { [Op.lt]: lockedBefore },
+        },
+      }
+    );
+    return affectedRows;
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
+
+export const markNotificationDeliveredRepo = async (
+  id: number,
+  attempts: number
+): Promise<void> => {
+  try {
+    await NotificationDelivery.update(
+      {
+        status: NotificationDeliveryStatus.DELIVERED,
+        attempts,
+        lockedAt: null,
+        lastError: null,
+        deliveredAt: new Date(),
+      },
+      { where: { id } }
+    );
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
+
+// Schedule the next attempt, or dead-letter the delivery when nextAttemptAt is null
+export const markNotificationDeliveryFailedRepo = async (
+  id: number,
+  attempts: number,
+  lastError: string,
+  nextAttemptAt: Date | null
+): Promise<void> => {
+  try {
+    await NotificationDelivery.update(
+      nextAttemptAt
+        ? {
+            status: NotificationDeliveryStatus.PENDING,
+            attempts,
+            lockedAt: null,
+            lastError,
+            nextAttemptAt,
+          }
+        : {
+            status: NotificationDeliveryStatus.DEAD,
+            attempts,
+            lockedAt: null,
+            lastError,
+          },
+      { where: { id } }
+    );
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
+
+export const getNotificationDeliveryListRepo = async (filters: {
+  userId?: number;
+  notificationId?: number;
+  channel?: ExternalNotificationChannel;
+  status?: NotificationDeliveryStatus;
+  page?: number;
+  limit?: number;
+}): Promise<{ deliveries: NotificationDeliveryAttributes[]; total: number }> => {
+  try {
+    const where: any = {};
+    if (filters.userId) where.userId = filters.userId;
+    if (filters.notificationId) where.notificationId = filters.notificationId;
+    if (filters.channel) where.channel = filters.channel;
+    if (filters.status) where.status = filters.status;
+
+    const queryOptions: any = {
+      where,
+      include: [
+        {
+          model: Notification,
+          as: "notifications",
+          attributes: ["id", "name", "type", "createdAt"],
+        },
+      ],
+      order: [["createdAt", "DESC"]],
+    };
+    if (
+      filters.page &&
+      filters.limit &&
+      filters.page > 0 &&
+      filters.limit > 0
+    ) {
+      queryOptions.offset = (filters.page - 1) * filters.limit;
+      queryOptions.limit = filters.limit;
+    }
+
+    const { rows: deliveries, count: total } =
+      await NotificationDelivery.findAndCountAll(queryOptions);
+    return { deliveries, total };
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
+
+// Re-queue a dead-lettered delivery for immediate sending
+export const replayNotificationDeliveryRepo = async (
+  id: number,
+  userId?: number
+): Promise<NotificationDeliveryAttributes> => {
+  const delivery = await NotificationDelivery.findByPk(id);
+  if (!delivery || (userId && delivery.userId !== userId)) {
+    throw new ErrorType(
+      "NotFoundError",
+      "Notification delivery not found",
+      statusCode.NOT_FOUND
+    );
+  }
+  if (delivery.status !== NotificationDeliveryStatus.DEAD) {
+    throw new ErrorType(
+      "ValidationError",
+      "Only failed deliveries can be retried",
+      statusCode.BAD_REQUEST
+    );
+  }
+  await delivery.update({
+    status: NotificationDeliveryStatus.PENDING,
+    attempts: 0,
+    lockedAt: null,
+    nextAttemptAt: new Date(),
+  });
+  return delivery;
+};
@@ -0,0 +1,189 @@
+import { Op, Transaction } from "sequelize";
+import {
+  NotificationEndpoint,
+  NotificationPreference,
+  User,
+} from "../../models/index.model";
+import { NotificationChannel } from "../../enums/notification.enum";
+import {
+  ExternalNotificationChannel,
+  NotificationEndpointAttributes,
+  NotificationPreferenceAttributes,
+} from "../../interfaces/NotificationDelivery.interface";
+import { isChannelEnabledByDefault } from "../../config/notification.config";
+import { ErrorType } from "../../types/Error.type";
+
+export const getNotificationPreferencesRepo = async (
+  userId: number
+): Promise<NotificationPreferenceAttributes[]> => {
+  try {
+    return await NotificationPreference.findAll({
+      where: { userId },
+      order: [
+        ["type", "ASC"],
+        ["channel", "ASC"],
+      ],
+    });
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
+
+// Insert or overwrite one row per (type, channel) pair
+export const saveNotificationPreferencesRepo = async (
+  userId: number,
+  preferences: { type: string; channel: NotificationChannel; enabled: boolean }[]
+): Promise<void> => {
+  try {
+    await NotificationPreference.bulkCreate(
+      preferences.map((preference) => ({ ...preference, userId })),
+      { updateOnDuplicate: ["enabled", "updatedAt"] }
+    );
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
+
+export const getNotificationEndpointsRepo = async (
+  userId: number
+): Promise<NotificationEndpointAttributes[]> => {
+  try {
+    return await NotificationEndpoint.findAll({ where: { userId } });
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
+
+export const getNotificationEndpointRepo = async (
+  userId: number,
+  channel: NotificationChannel
+): Promise<NotificationEndpointAttributes | null> => {
+  try {
+    return await NotificationEndpoint.findOne({ where: { userId, channel } });
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
+
+// A user has at most one endpoint per channel; saving again replaces it
+export const saveNotificationEndpointRepo = async (
+  data: {
+    userId: number;
+    channel: NotificationChannel;
+    target: string;
+    secret: string | null;
+  }
+): Promise<NotificationEndpointAttributes> => {
+  try {
+    const endpoint = await NotificationEndpoint.findOne({
+      where: { userId: data.userId, channel: data.channel },
+    });
+    if (endpoint) {
+      return await endpoint.update({
+        target: data.target,
+        secret: data.secret,
+        isActive: true,
+      });
+    }
+    return await NotificationEndpoint.create({ ...data, isActive: true });
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
+
+export const deleteNotificationEndpointRepo = async (
+  userId: number,
+  channel: NotificationChannel
+): Promise<boolean> => {
+  try {
+    const deletedRows = await NotificationEndpoint.destroy({
+      where: { userId, channel },
+    });
+    return deletedRows > 0;
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
+
+/**
+ * Apply the recipients' preferences to one notification type: who gets the
+ * in-app push, and which external channels to deliver to and where. A saved
+ * preference wins over isChannelEnabledByDefault; Telegram and webhooks also
+ * need an active endpoint, email an address on a live account.
+ */
+export const resolveNotificationRecipientsRepo = async (
+  userIds: number[],
+  type: string,
+  transaction?: Transaction
+): Promise<{
+  inAppUserIds: number[];
+  deliveries: {
+    userId: number;
+    channel: ExternalNotificationChannel;
+    target: string;
+  }[];
+}> => {
+  try {
+    const ids = userIds.map(Number);
+    if (!ids.length) return { inAppUserIds: [], deliveries: [] };
+
+    // Sequential: queries of one transaction share a connection
+    const users = await User.findAll({
+      where: { id: { [Op.in]: ids }, isDeleted: false },
+      attributes: ["id", "email"],
+      transaction,
+    });
+    const preferences = await NotificationPreference.findAll({
+      where: { userId: { [Op.in]: ids }, type },
+      transaction,
+    });
+    const endpoints = await NotificationEndpoint.findAll({
+      where: { userId: { [Op.in]: ids }, isActive: true },
+      transaction,
+    });
+
+    const isEnabled = (userId: number, channel: NotificationChannel) => {
+      const preference = preferences.find(
+        (item) => item.userId === userId && item.channel === channel
+      );
+      return preference
+        ? preference.enabled
+        : isChannelEnabledByDefault(channel, type);
+    };
+
+    const inAppUserIds = ids.filter((userId) =>
+      isEnabled(userId, NotificationChannel.IN_APP)
+    );
+    const deliveries: {
+      userId: number;
+      channel: ExternalNotificationChannel;
+      target: string;
+    }[] = [];
+    for (const user of users) {
+      if (user.email && isEnabled(user.id, NotificationChannel.EMAIL)) {
+        deliveries.push({
+          userId: user.id,
+          channel: NotificationChannel.EMAIL,
+          target: user.email,
+        });
+      }
+      for (const endpoint of endpoints) {
+        if (
+          endpoint.userId === user.id &&
+          (endpoint.channel === NotificationChannel.TELEGRAM ||
+            endpoint.channel === NotificationChannel.WEBHOOK) &&
+          isEnabled(user.id, endpoint.channel)
+        ) {
+          deliveries.push({
+            userId: user.id,
+            channel: endpoint.channel,
+            target: endpoint.target,
+          });
+        }
+      }
+    }
+    return { inAppUserIds, deliveries };
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
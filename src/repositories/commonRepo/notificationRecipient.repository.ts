@@ -0,0 +1,250 @@
+import { Op, QueryTypes, Transaction, fn, col } from "sequelize";
+import {
+  Notification,
+  NotificationRecipient,
+  sequelizeSystem,
+} from "../../models/index.model";
+import { NotificationRecipientState } from "../../enums/notification.enum";
+import {
+  RecipientNotification,
+  UnreadNotificationCount,
+} from "../../interfaces/NotificationRecipient.interface";
+import { redisClient } from "../../config/redis.config";
+import { logger } from "../../config/logger.config";
+import { ErrorType } from "../../types/Error.type";
+
+// Users whose notifications from before recipient records have been imported
+const IMPORTED_USERS_KEY = "notification:recipients:imported";
+
+export const createNotificationRecipientsRepo = async (
+  notificationId: number,
+  userIds: number[],
+  transaction?: Transaction
+): Promise<void> => {
+  try {
+    const uniqueUserIds = [...new Set(userIds.map(Number))];
+    if (!uniqueUserIds.length) return;
+    await NotificationRecipient.bulkCreate(
+      uniqueUserIds.map((userId) => ({
+        notificationId,
+        userId,
+        readAt: null,
+        archivedAt: null,
+      })),
+      { transaction, ignoreDuplicates: true }
+    );
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
+
+/**
+ * Notifications created before recipient records only list their users in
+ * the JSON userId column. Copy them once per user, as already read, so the
+ * unread badge starts from new notifications only.
+ */
+export const importLegacyNotificationRecipientsRepo = async (
+  userId: number
+): Promise<void> => {
+  try {
+    if (await redisClient.sIsMember(IMPORTED_USERS_KEY, userId.toString())) {
+      return;
+    }
+    await sequelizeSystem.query(
+      `INSERT INTO notification_recipients (notificationId, userId, readAt, archivedAt, createdAt, updatedAt)
+       SELECT n.id, :userId, n.createdAt, NULL, n.createdAt, NOW()
+       FROM notifications n
+       WHERE JSON_CONTAINS(n.userId, :userIds)
+         AND NOT EXISTS (
+           SELECT 1 FROM notification_recipients r
+           WHERE r.notificationId = n.id AND r.userId = :userId
+         )`,
+      {
+        replacements: { userId, userIds: JSON.stringify([userId]) },
+        type: QueryTypes.INSERT,
+      }
+    );
+    await redisClient.sAdd(IMPORTED_USERS_KEY, userId.toString());
+  } catch (error: any) {
+    // Listing still works for new notifications; try again on the next call
+    logger.error(
+      `Failed to import notifications of user ${userId}: ${error.message}`
+    );
+  }
+};
+
+const stateWhere = (state?: NotificationRecipientState | "ALL") => {
+  switch (state) {
+    case NotificationRecipientState.UNREAD:
+      return { readAt: null, archivedAt: null };
+    case NotificationRecipientState.READ:
+      return { readAt: { [Op.ne]: null }, archivedAt: null };
+    case NotificationRecipientState.ARCHIVED:
+      return { archivedAt: { [Op.ne]: null } };
+    case "ALL":
+      return {};
+    default:
+      // The inbox: everything not archived
+      return { archivedAt: null };
+  }
+};
+
+export const getRecipientNotificationsRepo = async (filters: {
+  userId: number;
+  type?: string;
+  state?: NotificationRecipientState | "ALL";
+  page?: number;
+  limit?: number;
+}): Promise<{ notifications: RecipientNotification[]; total: number }> => {
+  try {
+    await importLegacyNotificationRecipientsRepo(filters.userId);
+
+    const notificationWhere: any = { isDeleted: false };
+    if (filters.type) notificationWhere.type = filters.type;
+
+    const queryOptions: any = {
+      where: { userId: filters.userId, ...stateWhere(filters.state) },
+      include: [
+        {
+          model: Notification,
+          as: "notifications",
+          where: notificationWhere,
+          attributes: ["id", "name", "content", "type", "createdAt"],
+        },
+      ],
+      order: [["notificationId", "DESC"]],
+    };
+    if (
+      filters.page &&
+      filters.limit &&
+      filters.page > 0 &&
+      filters.limit > 0
+    ) {
+      queryOptions.offset = (filters.page - 1) * filters.limit;
+      queryOptions.limit = filters.limit;
+    }
+
+    const { rows, count: total } =
+      await NotificationRecipient.findAndCountAll(queryOptions);
+    const notifications = rows.map((recipient) => {
+      const notification = recipient.notifications!;
+      return {
+        id: notification.id!,
+        name: notification.name,
+        content: notification.content,
+        type: notification.type,
+        createdAt: notification.createdAt,
+        isRead: !!recipient.readAt,
+        readAt: recipient.readAt,
+        archivedAt: recipient.archivedAt,
+      };
+    });
+    return { notifications, total };
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
+
+export const getUnreadNotificationCountRepo = async (
+  userId: number
+): Promise<UnreadNotificationCount> => {
+  try {
+    await importLegacyNotificationRecipientsRepo(userId);
+
+    const rows = (await NotificationRecipient.findAll({
+      where: { userId, readAt: null, archivedAt: null },
+      include: [
+        {
+          model: Notification,
+          as: "notifications",
+          where: { isDeleted: false },
+          attributes: [],
+        },
+      ],
+      attributes: [
+        [col("notifications.type"), "type"],
+        [fn("COUNT", col("NotificationRecipient.id")), "count"],
+      ],
+      group: ["notifications.type"],
+      raw: true,
+    })) as unknown as { type: string; count: string }[];
+
+    const byType: Record<string, number> = {};
+    for (const row of rows) {
+      byType[row.type] = Number(row.count);
+    }
+    const total = Object.values(byType).reduce((sum, count) => sum + count, 0);
+    return { total, byType };
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
+
+/**
+ * Change the state of some of a user's notifications: all of them when
+ * notificationIds is omitted, optionally narrowed to one type. Returns the
+ * ids that actually changed.
+ */
+export const updateNotificationRecipientStateRepo = async (
+  userId: number,
+  state: NotificationRecipientState,
+  scope: { notificationIds?: number[]; type?: string }
+): Promise<number[]> => {
+  try {
+    await importLegacyNotificationRecipientsRepo(userId);
+
+    const now = new Date();
+    const where: any = { userId };
+    let changes: any;
+    if (state === NotificationRecipientState.READ) {
+      where.readAt = null;
+      changes = { readAt: now };
+    } else if (state === NotificationRecipientState.UNREAD) {
+      where.readAt = { [Op.ne]: null };
+      // Marking unread brings an archived notification back to the inbox
+      changes = { readAt: null, archivedAt: null };
+    } else {
+      where.archivedAt = null;
+      // An archived notification never counts as unread
+      changes = { archivedAt: now, readAt: fn("COALESCE", col("readAt"), now) };
+    }
+    if (scope.notificationIds) {
+      where.notificationId = { [Op.in]: scope.notificationIds };
+    }
+
+    const recipients = await NotificationRecipient.findAll({
+      where,
+      include: [
+        {
+          model: Notification,
+          as: "notifications",
+          where: scope.type ? { type: scope.type } : {},
+          attributes: [],
+        },
+      ],
+      attributes: ["id", "notificationId"],
+    });
+    if (!recipients.length) return [];
+
+    await NotificationRecipient.update(changes, {
+      where: { id: { [Op.in]: recipients.map((recipient) => recipient.id) } },
+    });
+    return recipients.map((recipient) => recipient.notificationId);
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
+
+export const getNotificationRecipientRepo = async (
+  userId: number,
+  notificationId: number
+): Promise<NotificationRecipient | null> => {
+  try {
+    await importLegacyNotificationRecipientsRepo(userId);
+    return await NotificationRecipient.findOne({
+      where: { userId, notificationId },
+    });
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
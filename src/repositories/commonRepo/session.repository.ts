@@ -0,0 +1,174 @@
+import { Op } from "sequelize";
+import {
+  RefreshToken,
+  sequelizeSystem,
+  UserSession,
+} from "../../models/index.model";
+import { UserSessionAttributes } from "../../interfaces/UserSession.interface";
+import { SessionRevokeReason } from "../../enums/session.enum";
+import { ErrorType } from "../../types/Error.type";
+
+// Don't write lastSeenAt more than once a minute per session
+const LAST_SEEN_PRECISION = 60 * 1000;
+
+export type RefreshTokenRotation =
+  | { result: "ROTATED"; session: UserSessionAttributes }
+  | { result: "REUSED"; session: UserSessionAttributes }
+  | { result: "INVALID" };
+
+export const createSessionRepo = async (
+  data: UserSessionAttributes,
+  tokenHash: string
+): Promise<UserSessionAttributes> => {
+  try {
+    return await sequelizeSystem.transaction(async (transaction) => {
+      const session = await UserSession.create(data, { transaction });
+      await RefreshToken.create(
+        { sessionId: session.id, tokenHash, expiresAt: data.expiresAt },
+        { transaction }
+      );
+      return session.toJSON() as UserSessionAttributes;
+    });
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
+
+/**
+ * Exchange a refresh token for the next one of its session. A token that was
+ * already exchanged means it leaked, so the whole session is revoked.
+ */
+export const rotateRefreshTokenRepo = async (
+  tokenHash: string,
+  nextTokenHash: string,
+  expiresAt: Date,
+  client: { userAgent: string | null; ipAddress: string | null }
+): Promise<RefreshTokenRotation> => {
+  try {
+    return await sequelizeSystem.transaction(async (transaction) => {
+      const refreshToken = await RefreshToken.findOne({
+        where: { tokenHash },
+        include: [{ model: UserSession, as: "userSessions" }],
+        transaction,
+        lock: transaction.LOCK.UPDATE,
+      });
+      const session = refreshToken?.userSessions as UserSession | undefined;
+      const now = new Date();
+      if (!refreshToken || !session || session.revokedAt) {
+        return { result: "INVALID" } as const;
+      }
+      if (refreshToken.usedAt) {
+        await session.update(
+          {
+            revokedAt: now,
+            revokedReason: SessionRevokeReason.REFRESH_TOKEN_REUSE,
+          },
+          { transaction }
+        );
+        return {
+          result: "REUSED",
+          session: session.toJSON() as UserSessionAttributes,
+        } as const;
+      }
+      if (new Date(refreshToken.expiresAt) <= now) {
+        return { result: "INVALID" } as const;
+      }
+
+      await refreshToken.update({ usedAt: now }, { transaction });
+      await RefreshToken.create(
+        { sessionId: session.id, tokenHash: nextTokenHash, expiresAt },
+        { transaction }
+      );
+      await session.update(
+        {
+          lastSeenAt: now,
+          expiresAt,
+          userAgent: client.userAgent || session.userAgent,
+          ipAddress: client.ipAddress || session.ipAddress,
+        },
+        { transaction }
+      );
+      return {
+        result: "ROTATED",
+        session: session.toJSON() as UserSessionAttributes,
+      } as const;
+    });
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
+
+// Sessions that can still be refreshed, most recently used first
+export const getActiveSessionsRepo = async (
+  userId: number
+): Promise<UserSessionAttributes[]> => {
+  try {
+    return await UserSession.findAll({
+      where: { userId, revokedAt: null, expiresAt: { [Op.gt]: new Date() } },
+      order: [["lastSeenAt", "DESC"]],
+    });
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
+
+export const revokeSessionRepo = async (
+  id: number,
+  userId: number,
+  reason: SessionRevokeReason
+): Promise<boolean> => {
+  try {
+    const [affectedRows] = await UserSession.update(
+      { revokedAt: new Date(), revokedReason: reason },
+      { where: { id, userId, revokedAt: null } }
+    );
+    return affectedRows > 0;
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
+
+// Revoke every open session of a user and return their ids
+export const revokeAllSessionsRepo = async (
+  userId: number,
+  reason: SessionRevokeReason
+): Promise<number[]> => {
+  try {
+    return await sequelizeSystem.transaction(async (transaction) => {
+      const sessions = await UserSession.findAll({
+        where: { userId, revokedAt: null },
+        attributes: ["id"],
+        transaction,
+        lock: transaction.LOCK.UPDATE,
+      });
+      const ids = sessions.map((session) => session.id);
+      if (ids.length) {
+        await UserSession.update(
+          { revokedAt: new Date(), revokedReason: reason },
+          { where: { id: { [Op.in]: ids } }, transaction }
+        );
+      }
+      return ids;
+    });
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
+
+export const touchSessionRepo = async (id: number): Promise<void> => {
+  try {
+    const now = new Date();
+    await UserSession.update(
+      { lastSeenAt: now },
+      {
+        where: {
+          id,
+          revokedAt: null,
+          lastSeenAt: { [Op.lt]: new Date(now.getTime() - LAST_SEEN_PRECISION) },
+        },
+      }
+    );
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
@@ -0,0 +1,127 @@
+import { Op } from "sequelize";
+import { sequelizeSystem, UserTwoFactor } from "../../models/index.model";
+import { UserTwoFactorAttributes } from "../../interfaces/UserTwoFactor.interface";
+import { ErrorType } from "../../types/Error.type";
+
+export const getUserTwoFactorRepo = async (
+  userId: number
+): Promise<UserTwoFactorAttributes | null> => {
+  try {
+    const twoFactor = await UserTwoFactor.findOne({ where: { userId } });
+    return twoFactor ? (twoFactor.toJSON() as UserTwoFactorAttributes) : null;
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
+
+// Start or restart an enrollment; only a row that is not enabled yet is replaced
+export const saveTwoFactorSecretRepo = async (
+  userId: number,
+  secret: string
+): Promise<boolean> => {
+  try {
+    const existing = await UserTwoFactor.findOne({ where: { userId } });
+    if (!existing) {
+      await UserTwoFactor.create({ userId, secret, backupCodes: [] });
+      return true;
+    }
+    const [affectedRows] = await UserTwoFactor.update(
+      { secret, backupCodes: [], lastUsedStep: null },
+      { where: { userId, enabledAt: null } }
+    );
+    return affectedRows > 0;
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
+
+export const enableTwoFactorRepo = async (
+  userId: number,
+  backupCodes: string[]
+): Promise<boolean> => {
+  try {
+    const [affectedRows] = await UserTwoFactor.update(
+      { backupCodes, enabledAt: new Date() },
+      { where: { userId, enabledAt: null } }
+    );
+    return affectedRows > 0;
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
+
+/**
+ * Record a TOTP time step as used. The conditional update makes a code
+ * single-use even when two requests race with it.
+ */
+export const useTotpStepRepo = async (
+  userId: number,
+  step: number
+): Promise<boolean> => {
+  try {
+    const [affectedRows] = await UserTwoFactor.update(
+      { lastUsedStep: step },
+      {
+        where: {
+          userId,
+          [Op.or]: [{ lastUsedStep: null }, { lastUsedStep: { [Op.lt]: step } }],
+        },
+      }
+    );
+    return affectedRows > 0;
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
+
+// Remove a backup code hash, false when it was not among the unused ones
+export const useBackupCodeRepo = async (
+  userId: number,
+  codeHash: string
+): Promise<boolean> => {
+  try {
+    return await sequelizeSystem.transaction(async (transaction) => {
+      const twoFactor = await UserTwoFactor.findOne({
+        where: { userId, enabledAt: { [Op.ne]: null } },
+        transaction,
+        lock: transaction.LOCK.UPDATE,
+      });
+      const backupCodes = twoFactor?.backupCodes || [];
+      if (!twoFactor || !backupCodes.includes(codeHash)) {
+        return false;
+      }
+      await twoFactor.update(
+        { backupCodes: backupCodes.filter((hash) => hash !== codeHash) },
+        { transaction }
+      );
+      return true;
+    });
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
+
+export const replaceBackupCodesRepo = async (
+  userId: number,
+  backupCodes: string[]
+): Promise<void> => {
+  try {
+    await UserTwoFactor.update(
+      { backupCodes },
+      { where: { userId, enabledAt: { [Op.ne]: null } } }
+    );
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
+
+export const deleteUserTwoFactorRepo = async (
+  userId: number
+): Promise<boolean> => {
+  try {
+    const deleted = await UserTwoFactor.destroy({ where: { userId } });
+    return deleted > 0;
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
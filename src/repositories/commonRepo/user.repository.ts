@@ -86,6 +86,27 @@ export const findUserByEmailRepo = async (
   }
 };
 
+// The user shaped like a login token payload, for tokens issued on refresh
+export const findUserForTokenRepo = async (
+  id: number
+): Promise<User | null> => {
+  try {
+    return await User.findOne({
+      where: { id, isDeleted: false },
+      attributes: { exclude: ["roleId", "password"] },
+      include: [
+        {
+          model: Role,
+          as: "role",
+          attributes: { exclude: ["createdAt", "updatedAt"] },
+        },
+      ],
+    });
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
+
 export const findUserByUsernameRepo = async (
   username: string
 ): Promise<UserAttributes | null> => {
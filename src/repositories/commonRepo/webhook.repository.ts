@@ -0,0 +1,461 @@
+import { Op, Transaction } from "sequelize";
+import {
+  WebhookDelivery,
+  WebhookEndpoint,
+} from "../../models/index.model";
+import {
+  WEBHOOK_TEST_EVENT,
+  WebhookDeliveryStatus,
+  WebhookEvent,
+} from "../../enums/webhook.enum";
+import {
+  WebhookDeliveryAttributes,
+  WebhookEndpointAttributes,
+  WebhookPayload,
+} from "../../interfaces/Webhook.interface";
+import { CampaignAttributes } from "../../interfaces/Campaign.interface";
+import { TransactionAttributes } from "../../interfaces/Transaction.interface";
+import { TransactionStatus } from "../../enums/transactionStatus.enum";
+import { TransactionType } from "../../enums/transactionType.enum";
+import { CampaignStatus } from "../../enums/campaign.enum";
+import { webhookConfig } from "../../config/webhook.config";
+import { uuIDv4 } from "../../utils/generate";
+import { ErrorType } from "../../types/Error.type";
+import statusCode from "../../constants/statusCode";
+
+export const createWebhookEndpointRepo = async (
+  data: WebhookEndpointAttributes
+): Promise<WebhookEndpointAttributes> => {
+  try {
+    return await WebhookEndpoint.create(data);
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
+
+export const getWebhookEndpointsRepo = async (
+  userId: number
+): Promise<WebhookEndpointAttributes[]> => {
+  try {
+    return await WebhookEndpoint.findAll({
+      where: { userId },
+      order: [["id", "DESC"]],
+    });
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
+
+export const countWebhookEndpointsRepo = async (
+  userId: number
+): Promise<number> => {
+  try {
+    return await WebhookEndpoint.count({ where: { userId } });
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
+
+// Endpoints of other users are reported as missing
+export const getWebhookEndpointRepo = async (
+  id: number,
+  userId: number
+): Promise<WebhookEndpoint> => {
+  const endpoint = await WebhookEndpoint.findOne({ where: { id, userId } });
+  if (!endpoint) {
+    throw new ErrorType(
+      "NotFoundError",
+      "Webhook endpoint not found",
+      statusCode.NOT_FOUND
+    );
+  }
+  return endpoint;
+};
+
+export const updateWebhookEndpointRepo = async (
+  id: number,
+  userId: number,
+  changes: Partial<
+    Pick<
+      WebhookEndpointAttributes,
+      "url" | "events" | "description" | "lowBalanceThreshold" | "isActive"
+    >
+  >
+): Promise<WebhookEndpointAttributes> => {
+  const endpoint = await getWebhookEndpointRepo(id, userId);
+  try {
+    return await endpoint.update(changes);
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
+
+export const deleteWebhookEndpointRepo = async (
+  id: number,
+  userId: number
+): Promise<boolean> => {
+  try {
+    const deletedRows = await WebhookEndpoint.destroy({ where: { id, userId } });
+    return deletedRows > 0;
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
+
+const buildPayload = (
+  event: string,
+  data: Record<string, any>
+): WebhookPayload => ({
+  id: uuIDv4(),
+  event,
+  createdAt: new Date().toISOString(),
+  data,
+});
+
+const queueDeliveries = async (
+  endpoints: WebhookEndpointAttributes[],
+  payload: WebhookPayload,
+  transaction?: Transaction
+): Promise<WebhookDeliveryAttributes[]> =>
+  WebhookDelivery.bulkCreate(
+    endpoints.map((endpoint) => ({
+      endpointId: endpoint.id!,
+      userId: endpoint.userId,
+      eventId: payload.id,
+      event: payload.event,
+      payload,
+      status: WebhookDeliveryStatus.PENDING,
+      attempts: 0,
+      nextAttemptAt: new Date(),
+    })),
+    { transaction }
+  );
+
+/**
+ * Queue an event for every active endpoint of the user subscribed to it,
+ * inside the caller's transaction so it is only sent if the change commits.
+ * `accepts` narrows the endpoints further, e.g. by their own threshold.
+ */
+export const enqueueWebhookEventRepo = async (
+  userId: number,
+  event: WebhookEvent,
+  data: Record<string, any>,
+  transaction?: Transaction,
+  accepts: (endpoint: WebhookEndpointAttributes) => boolean = () => true
+): Promise<number> => {
+  try {
+    const endpoints = (
+      await WebhookEndpoint.findAll({
+        where: { userId, isActive: true },
+        transaction,
+      })
+    ).filter(
+      (endpoint) => (endpoint.events || []).includes(event) && accepts(endpoint)
+    );
+    if (!endpoints.length) return 0;
+    await queueDeliveries(endpoints, buildPayload(event, data), transaction);
+    return endpoints.length;
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
+
+const CAMPAIGN_STATUS_EVENTS: Partial<Record<CampaignStatus, WebhookEvent>> = {
+  [CampaignStatus.ACTIVE]: WebhookEvent.CAMPAIGN_ACTIVATED,
+  [CampaignStatus.PAUSED]: WebhookEvent.CAMPAIGN_PAUSED,
+  [CampaignStatus.COMPLETED]: WebhookEvent.CAMPAIGN_COMPLETED,
+  [CampaignStatus.CANCEL]: WebhookEvent.CAMPAIGN_CANCELLED,
+};
+
+// Queue a campaign event; without an event, the one matching the campaign's status
+export const enqueueCampaignWebhookEventRepo = async (
+  campaign: CampaignAttributes,
+  transaction?: Transaction,
+  event: WebhookEvent | undefined = CAMPAIGN_STATUS_EVENTS[campaign.status],
+  extra: Record<string, any> = {}
+): Promise<number> => {
+  if (!event) return 0;
+  return enqueueWebhookEventRepo(
+    campaign.userId,
+    event,
+    {
+      campaignId: campaign.id,
+      name: campaign.name,
+      status: campaign.status,
+      campaignTypeId: campaign.campaignTypeId,
+      startDate: campaign.startDate,
+      endDate: campaign.endDate,
+      ...extra,
+    },
+    transaction
+  );
+};
+
+/**
+ * Wallet events of a transaction posted by createTransactionRepo: a
+ * completed deposit, and a balance that just dropped below an endpoint's
+ * low balance threshold (once per crossing, not on every later debit).
+ */
+export const enqueueWalletWebhookEventsRepo = async (
+  walletTransaction: TransactionAttributes,
+  wallet: { id: number; userId: number; balance: number },
+  previousBalance: number,
+  transaction?: Transaction
+): Promise<void> => {
+  const balance = Number(wallet.balance);
+  if (
+    walletTransaction.type === TransactionType.DEPOSIT &&
+    walletTransaction.status === TransactionStatus.COMPLETED
+  ) {
+    await enqueueWebhookEventRepo(
+      wallet.userId,
+      WebhookEvent.DEPOSIT_COMPLETED,
+      {
+        walletId: wallet.id,
+        transactionId: walletTransaction.id,
+        referenceId: walletTransaction.referenceId,
+        amount: Number(walletTransaction.amount),
+        balance,
+      },
+      transaction
+    );
+  }
+  if (balance < previousBalance) {
+    await enqueueWebhookEventRepo(
+      wallet.userId,
+      WebhookEvent.WALLET_LOW_BALANCE,
+      {
+        walletId: wallet.id,
+        transactionId: walletTransaction.id,
+        transactionType: walletTransaction.type,
+        balance,
+      },
+      transaction,
+      (endpoint) => {
+        const threshold = Number(
+          endpoint.lowBalanceThreshold ?? webhookConfig.defaultLowBalanceThreshold
+        );
+        return previousBalance >= threshold && balance < threshold;
+      }
+    );
+  }
+};
+
+/**
+ * A webhook.test delivery for one endpoint, whatever it subscribes to. It is
+ * created already claimed: the caller sends it right away, not the worker.
+ */
+export const createTestWebhookDeliveryRepo = async (
+  endpoint: WebhookEndpointAttributes
+): Promise<WebhookDeliveryAttributes> => {
+  try {
+    const payload = buildPayload(WEBHOOK_TEST_EVENT, {
+      endpointId: endpoint.id,
+      message: "This is a test event",
+    });
+    return await WebhookDelivery.create({
+      endpointId: endpoint.id!,
+      userId: endpoint.userId,
+      eventId: payload.id,
+      event: payload.event,
+      payload,
+      status: WebhookDeliveryStatus.PROCESSING,
+      attempts: 0,
+      nextAttemptAt: new Date(),
+      lockedAt: new Date(),
+    });
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
+
+// Lock a batch of due deliveries, oldest first, with their endpoint
+export const claimDueWebhookDeliveriesRepo = async (
+  limit: number
+): Promise<WebhookDeliveryAttributes[]> => {
+  try {
+    const candidates = await WebhookDelivery.findAll({
+      where: {
+        status: WebhookDeliveryStatus.PENDING,
+        nextAttemptAt: { [Op.lte]: new Date() },
+      },
+      include: [{ model: WebhookEndpoint, as: "webhookEndpoints" }],
+      order: [["id", "ASC"]],
+      limit,
+    });
+
+    const claimed: WebhookDeliveryAttributes[] = [];
+    for (const delivery of candidates) {
+      // Conditional update so a delivery is never sent by two dispatchers
+      const [affectedRows] = await WebhookDelivery.update(
+        { status: WebhookDeliveryStatus.PROCESSING, lockedAt: new Date() },
+        { where: { id: delivery.id, status: WebhookDeliveryStatus.PENDING } }
+      );
+      if (affectedRows === 1) {
+        claimed.push(delivery);
+      }
+    }
+    return claimed;
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
+
+// Put deliveries locked by a dispatcher that died back into the queue
+export const releaseStaleWebhookDeliveriesRepo = async (
+  lockedBefore: Date
+): Promise<number> => {
+  try {
+    const [affectedRows] = await WebhookDelivery.update(
+      { status: WebhookDeliveryStatus.PENDING, lockedAt: null },
+      {
+        where: {
+          status: WebhookDeliveryStatus.PROCESSING,
+          lockedAt: { [Op.lt]: lockedBefore },
+        },
+      }
+    );
+    return affectedRows;
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
+
+export const markWebhookDeliveredRepo = async (
+  id: number,
+  attempts: number,
+  response: { responseStatus: number; responseBody: string | null }
+): Promise<void> => {
+  try {
+    await WebhookDelivery.update(
+      {
+        status: WebhookDeliveryStatus.DELIVERED,
+        attempts,
+        lockedAt: null,
+        lastError: null,
+        deliveredAt: new Date(),
+        ...response,
+      },
+      { where: { id } }
+    );
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
+
+// Schedule the next attempt, or dead-letter the delivery when nextAttemptAt is null
+export const markWebhookDeliveryFailedRepo = async (
+  id: number,
+  attempts: number,
+  failure: {
+    responseStatus: number | null;
+    responseBody: string | null;
+    lastError: string;
+  },
+  nextAttemptAt: Date | null
+): Promise<void> => {
+  try {
+    await WebhookDelivery.update(
+      nextAttemptAt
+        ? {
+            status: WebhookDeliveryStatus.PENDING,
+            attempts,
+            lockedAt: null,
+            nextAttemptAt,
+            ...failure,
+          }
+        : {
+            status: WebhookDeliveryStatus.DEAD,
+            attempts,
+            lockedAt: null,
+            ...failure,
+          },
+      { where: { id } }
+    );
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
+
+export const getWebhookDeliveryRepo = async (
+  id: number
+): Promise<WebhookDeliveryAttributes | null> => {
+  try {
+    return await WebhookDelivery.findByPk(id);
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
+
+export const getWebhookDeliveryListRepo = async (filters: {
+  userId?: number;
+  endpointId?: number;
+  event?: string;
+  status?: WebhookDeliveryStatus;
+  page?: number;
+  limit?: number;
+}): Promise<{ deliveries: WebhookDeliveryAttributes[]; total: number }> => {
+  try {
+    const where: any = {};
+    if (filters.userId) where.userId = filters.userId;
+    if (filters.endpointId) where.endpointId = filters.endpointId;
+    if (filters.event) where.event = filters.event;
+    if (filters.status) where.status = filters.status;
+
+    const queryOptions: any = {
+      where,
+      include: [
+        {
+          model: WebhookEndpoint,
+          as: "webhookEndpoints",
+          attributes: ["id", "url", "description"],
+        },
+      ],
+      order: [["createdAt", "DESC"]],
+    };
+    if (
+      filters.page &&
+      filters.limit &&
+      filters.page > 0 &&
+      filters.limit > 0
+    ) {
+      queryOptions.offset = (filters.page - 1) * filters.limit;
+      queryOptions.limit = filters.limit;
+    }
+
+    const { rows: deliveries, count: total } =
+      await WebhookDelivery.findAndCountAll(queryOptions);
+    return { deliveries, total };
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
+
+// Re-queue a dead-lettered delivery for immediate sending
+export const replayWebhookDeliveryRepo = async (
+  id: number,
+  userId?: number
+): Promise<WebhookDeliveryAttributes> => {
+  const delivery = await WebhookDelivery.findByPk(id);
+  if (!delivery || (userId && delivery.userId !== userId)) {
+    throw new ErrorType(
+      "NotFoundError",
+      "Webhook delivery not found",
+      statusCode.NOT_FOUND
+    );
+  }
+  if (delivery.status !== WebhookDeliveryStatus.DEAD) {
+    throw new ErrorType(
+      "ValidationError",
+      "Only failed deliveries can be retried",
+      statusCode.BAD_REQUEST
+    );
+  }
+  await delivery.update({
+    status: WebhookDeliveryStatus.PENDING,
+    attempts: 0,
+    lockedAt: null,
+    nextAttemptAt: new Date(),
+  });
+  return delivery;
+};
@@ -213,3 +213,18 @@ export const findAgencyByInviteCodeRepo = async (
   });
   return agency;
 };
+
+export const findAgencyByUserIdRepo = async (
+  userId: number
+): Promise<AgencyAttributes | null> => {
+  try {
+    const agency = await Agency.findOne({
+      where: { userId, isDeleted: false },
+    });
+    return agency ? (agency.toJSON() as AgencyAttributes) : null;
+  } catch (error) {
+    throw new Error(
+      `Error finding agency by user ID: ${(error as Error).message}`
+    );
+  }
+};
@@ -0,0 +1,196 @@
+import { Op, col, fn, literal } from "sequelize";
+import {
+  Campaign,
+  TransactionModel,
+  User,
+  Wallet,
+} from "../../models/index.model";
+import { CampaignStatus } from "../../enums/campaign.enum";
+import { TransactionType } from "../../enums/transactionType.enum";
+import { UserAttributes } from "../../interfaces/User.interface";
+import { AgencyClientSummary } from "../../interfaces/AgencyClient.interface";
+import { ErrorType } from "../../types/Error.type";
+import {
+  getReservedAmountsRepo,
+  toWalletBalances,
+} from "../moneyRepo/walletHold.repository";
+
+const roundCredit = (value: number): number => Math.round(value * 100) / 100;
+
+const CLIENT_ATTRIBUTES = [
+  "id",
+  "username",
+  "email",
+  "phoneNumber",
+  "isActive",
+  "createdAt",
+];
+
+// Credit charged for campaigns, net of refunds
+const NET_SPEND = literal(
+  `SUM(CASE WHEN type = '${TransactionType.PAY_SERVICE}' THEN amount WHEN type = '${TransactionType.REFUND_SERVICE}' THEN -amount ELSE 0 END)`
+);
+
+const latest = (...dates: (Date | string | null | undefined)[]): Date | null =>
+  dates
+    .filter((date): date is Date | string => !!date)
+    .map((date) => new Date(date))
+    .reduce<Date | null>(
+      (last, date) => (!last || date > last ? date : last),
+      null
+    );
+
+// A user the agency invited; null for anyone else
+export const getAgencyClientRepo = async (
+  agencyId: number,
+  clientId: number
+): Promise<UserAttributes | null> => {
+  try {
+    return await User.findOne({
+      where: { id: clientId, invitedBy: agencyId, isDeleted: false },
+      attributes: CLIENT_ATTRIBUTES,
+    });
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
+
+/**
+ * Wallet balances, ACTIVE campaigns, net campaign spend and the time of the
+ * latest transaction or campaign of each client, in three grouped queries.
+ */
+export const getAgencyClientSummariesRepo = async (
+  clients: UserAttributes[]
+): Promise<AgencyClientSummary[]> => {
+  try {
+    const userIds = clients.map((client) => client.id!);
+    if (!userIds.length) return [];
+
+    const wallets = await Wallet.findAll({
+      where: { userId: { [Op.in]: userIds } },
+      attributes: ["id", "userId", "balance"],
+    });
+    const walletIds = wallets.map((wallet) => wallet.id);
+    const reserved = await getReservedAmountsRepo(walletIds);
+    const spending = walletIds.length
+      ? ((await TransactionModel.findAll({
+          attributes: [
+            "walletId",
+            [NET_SPEND, "spend"],
+            [fn("MAX", col("createdAt")), "lastTransactionAt"],
+          ],
+          where: { walletId: { [Op.in]: walletIds }, isDeleted: false },
+          group: ["walletId"],
+          raw: true,
+        })) as unknown as {
+          walletId: number;
+          spend: string | null;
+          lastTransactionAt: Date | null;
+        }[])
+      : [];
+    const campaigns = (await Campaign.findAll({
+      attributes: [
+        "userId",
+        [
+          literal(
+            `SUM(CASE WHEN status = '${CampaignStatus.ACTIVE}' THEN 1 ELSE 0 END)`
+          ),
+          "activeCampaigns",
+        ],
+        [fn("MAX", col("updatedAt")), "lastCampaignAt"],
+      ],
+      where: { userId: { [Op.in]: userIds }, isDeleted: false },
+      group: ["userId"],
+      raw: true,
+    })) as unknown as {
+      userId: number;
+      activeCampaigns: string | null;
+      lastCampaignAt: Date | null;
+    }[];
+
+    return clients.map((client) => {
+      const wallet = wallets.find((item) => item.userId === client.id);
+      const spend = spending.find(
+        (item) => wallet && Number(item.walletId) === wallet.id
+      );
+      const campaign = campaigns.find(
+        (item) => Number(item.userId) === client.id
+      );
+      return {
+        id: client.id!,
+        username: client.username,
+        email: client.email,
+        phoneNumber: client.phoneNumber,
+        isActive: client.isActive,
+        createdAt: client.createdAt,
+        walletId: wallet?.id || null,
+        ...toWalletBalances(
+          Number(wallet?.balance) || 0,
+          (wallet && reserved.get(wallet.id)) || 0
+        ),
+        activeCampaigns: Number(campaign?.activeCampaigns) || 0,
+        totalSpend: roundCredit(Number(spend?.spend) || 0),
+        lastActivityAt: latest(
+          spend?.lastTransactionAt,
+          campaign?.lastCampaignAt
+        ),
+      };
+    });
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
+
+export const getAgencyClientListRepo = async (
+  agencyId: number,
+  filters: { search?: string; page?: number; limit?: number }
+): Promise<{ clients: AgencyClientSummary[]; total: number }> => {
+  try {
+    const where: any = { invitedBy: agencyId, isDeleted: false };
+    if (filters.search) {
+      where[Op.or] = [
+        { username: { [Op.like]: `%${filters.search}%` } },
+        { email: { [Op.like]: `%${filters.search}%` } },
+      ];
+    }
+    const queryOptions: any = {
+      where,
+      attributes: CLIENT_ATTRIBUTES,
+      order: [["createdAt", "DESC"]],
+    };
+    if (filters.page && filters.limit && filters.page > 0 && filters.limit > 0) {
+      queryOptions.offset = (filters.page - 1) * filters.limit;
+      queryOptions.limit = filters.limit;
+    }
+    const { rows, count: total } = await User.findAndCountAll(queryOptions);
+    const clients = await getAgencyClientSummariesRepo(rows);
+    return { clients, total };
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
+
+// The client's most recent campaigns, for the detail view
+export const getAgencyClientCampaignsRepo = async (
+  clientId: number,
+  limit: number
+): Promise<Campaign[]> => {
+  try {
+    return await Campaign.findAll({
+      where: { userId: clientId, isDeleted: false },
+      attributes: [
+        "id",
+        "name",
+        "campaignTypeId",
+        "status",
+        "startDate",
+        "endDate",
+        "createdAt",
+      ],
+      order: [["createdAt", "DESC"]],
+      limit,
+    });
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
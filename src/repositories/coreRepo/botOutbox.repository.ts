@@ -0,0 +1,292 @@
+import { Op, Transaction } from "sequelize";
+import { BotOutbox } from "../../models/index.model";
+import { BotOutboxStatus } from "../../enums/botOutboxStatus.enum";
+import {
+  BotOutboxAttributes,
+  BotOutboxMethod,
+} from "../../interfaces/BotOutbox.interface";
+import { ErrorType } from "../../types/Error.type";
+import statusCode from "../../constants/statusCode";
+
+// Store a bot API call in the outbox, inside the caller's transaction
+export const enqueueBotOutboxRepo = async (
+  data: {
+    campaignId: number | null;
+    endpoint: string;
+    method?: BotOutboxMethod;
+    payload: Record<string, any> | Record<string, any>[];
+  },
+  transaction?: Transaction
+): Promise<BotOutboxAttributes> => {
+  try {
+    const message = await BotOutbox.create(
+      {
+        campaignId: data.campaignId,
+        endpoint: data.endpoint,
+        method: data.method || "POST",
+        payload: data.payload,
+        status: BotOutboxStatus.PENDING,
+        attempts: 0,
+        nextAttemptAt: new Date(),
+      },
+      { transaction }
+    );
+    return message;
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
+
+/**
+ * Lock a batch of due messages for delivery, oldest first. A campaign's
+ * message waits while an earlier one of the same campaign is undelivered
+ * (retrying, in flight elsewhere or dead), unless that one is claimed in
+ * this batch, so the bot receives each campaign's calls in order.
+ */
+export const claimDueBotOutboxRepo = async (
+  limit: number
+): Promise<BotOutboxAttributes[]> => {
+  try {
+    const candidates = await BotOutbox.findAll({
+      where: {
+        status: BotOutboxStatus.PENDING,
+        nextAttemptAt: { [Op.lte]: new Date() },
+      },
+      order: [["id", "ASC"]],
+      limit,
+    });
+
+    const claimed: BotOutboxAttributes[] = [];
+    const claimedIds = new Set<number>();
+    const blockedCampaigns = new Set<number>();
+    for (const message of candidates) {
+      const { campaignId } = message;
+      if (campaignId) {
+        if (blockedCampaigns.has(campaignId)) continue;
+        const earlier = await BotOutbox.findAll({
+          where: {
+            campaignId,
+            id: { [Op.lt]: message.id },
+            status: { [Op.ne]: BotOutboxStatus.DELIVERED },
+          },
+          attributes: ["id"],
+        });
+        if (earlier.some((item) => !claimedIds.has(item.id))) {
+          blockedCampaigns.add(campaignId);
+          continue;
+        }
+      }
+      // Conditional update so a message is never delivered by two dispatchers
+      const [affectedRows] = await BotOutbox.update(
+        { status: BotOutboxStatus.PROCESSING, lockedAt: new Date() },
+        { where: { id: message.id, status: BotOutboxStatus.PENDING } }
+      );
+      if (affectedRows === 1) {
+        claimed.push(message);
+        claimedIds.add(message.id);
+      } else if (campaignId) {
+        blockedCampaigns.add(campaignId);
+      }
+    }
+    return claimed;
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
+
+// Hand a claimed message back untouched, e.g. when an earlier one of its campaign failed
+export const releaseBotOutboxRepo = async (id: number): Promise<void> => {
+  try {
+    await BotOutbox.update(
+      { status: BotOutboxStatus.PENDING, lockedAt: null },
+      { where: { id, status: BotOutboxStatus.PROCESSING } }
+    );
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
+
+// Put messages locked by a dispatcher that died back into the queue
+export const releaseStaleBotOutboxRepo = async (
+  lockedBefore: Date
+): Promise<number> => {
+  try {
+    const [affectedRows] = await BotOutbox.update(
+      { status: BotOutboxStatus.PENDING, lockedAt: null },
+      {
+        where: {
+          status: BotOutboxStatus.PROCESSING,
+          lockedAt: { [Op.lt]: lockedBefore },
+        },
+      }
+    );
+    return affectedRows;
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
+
+export const markBotOutboxDeliveredRepo = async (
+  id: number,
+  attempts: number
+): Promise<void> => {
+  try {
+    await BotOutbox.update(
+      {
+        status: BotOutboxStatus.DELIVERED,
+        attempts,
+        lockedAt: null,
+        lastError: null,
+        deliveredAt: new Date(),
+      },
+      { where: { id } }
+    );
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
+
+// Schedule the next attempt, or dead-letter the message when nextAttemptAt is null
+export const markBotOutboxFailedRepo = async (
+  id: number,
+  attempts: number,
+  lastError: string,
+  nextAttemptAt: Date | null
+): Promise<void> => {
+  try {
+    await BotOutbox.update(
+      nextAttemptAt
+        ? {
+            status: BotOutboxStatus.PENDING,
+            attempts,
+            lockedAt: null,
+            lastError,
+            nextAttemptAt,
+          }
+        : {
+            status: BotOutboxStatus.DEAD,
+            attempts,
+            lockedAt: null,
+            lastError,
+          },
+      { where: { id } }
+    );
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
+
+export const getBotOutboxListRepo = async (filters: {
+  campaignId?: number;
+  endpoint?: string;
+  status?: BotOutboxStatus;
+  page?: number;
+  limit?: number;
+}): Promise<{ messages: BotOutboxAttributes[]; total: number }> => {
+  try {
+    const where: any = {};
+    if (filters.campaignId) where.campaignId = filters.campaignId;
+    if (filters.endpoint) where.endpoint = filters.endpoint;
+    if (filters.status) where.status = filters.status;
+
+    const queryOptions: any = {
+      where,
+      order: [["createdAt", "DESC"]],
+    };
+    if (
+      filters.page &&
+      filters.limit &&
+      filters.page > 0 &&
+      filters.limit > 0
+    ) {
+      queryOptions.offset = (filters.page - 1) * filters.limit;
+      queryOptions.limit = filters.limit;
+    }
+
+    const { rows: messages, count: total } = await BotOutbox.findAndCountAll(
+      queryOptions
+    );
+    return { messages, total };
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
+
+export const getBotOutboxByIdRepo = async (
+  id: number
+): Promise<BotOutboxAttributes | null> => {
+  try {
+    return await BotOutbox.findByPk(id);
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
+
+/**
+ * Re-queue a dead-lettered message, or one whose dispatcher lock is older
+ * than `lockedBefore`, for immediate delivery. A message still being
+ * delivered is refused so the bot is not called twice.
+ */
+export const replayBotOutboxRepo = async (
+  id: number,
+  lockedBefore: Date
+): Promise<BotOutboxAttributes> => {
+  const message = await BotOutbox.findByPk(id);
+  if (!message) {
+    throw new ErrorType(
+      "NotFoundError",
+      "Outbox message not found",
+      statusCode.NOT_FOUND
+    );
+  }
+  const [affectedRows] = await BotOutbox.update(
+    {
+      status: BotOutboxStatus.PENDING,
+      attempts: 0,
+      lockedAt: null,
+      nextAttemptAt: new Date(),
+    },
+    {
+      where: {
+        id,
+        [Op.or]: [
+          { status: BotOutboxStatus.DEAD },
+          {
+            status: BotOutboxStatus.PROCESSING,
+            lockedAt: { [Op.lt]: lockedBefore },
+          },
+        ],
+      },
+    }
+  );
+  if (affectedRows === 0) {
+    throw new ErrorType(
+      "ValidationError",
+      `A ${message.status} outbox message cannot be replayed, only dead or stuck messages can`,
+      statusCode.BAD_REQUEST
+    );
+  }
+  return message.reload();
+};
+
+// Re-queue every dead-lettered message, optionally for one campaign only
+export const replayDeadBotOutboxRepo = async (
+  campaignId?: number
+): Promise<number> => {
+  try {
+    const where: any = { status: BotOutboxStatus.DEAD };
+    if (campaignId) where.campaignId = campaignId;
+    const [affectedRows] = await BotOutbox.update(
+      {
+        status: BotOutboxStatus.PENDING,
+        attempts: 0,
+        lockedAt: null,
+        nextAttemptAt: new Date(),
+      },
+      { where }
+    );
+    return affectedRows;
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
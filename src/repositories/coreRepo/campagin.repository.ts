@@ -1,5 +1,5 @@
 import { Op, Transaction } from "sequelize";
-import { CampaignStatus } from "../../enums/campaign.enum";
+import { CampaignRecurrence, CampaignStatus } from "../../enums/campaign.enum";
 import {
   Campaign,
   DirectLink,
@@ -15,6 +15,8 @@ import { CampaignReportList } from "../../interfaces/CampaignReport.interface";
 import { LinkStatus } from "../../enums/linkStatus.enum";
 import { keywordStatus } from "../../enums/keywordStatus.enum";
 import statusCode from "../../constants/statusCode";
+import { WebhookEvent } from "../../enums/webhook.enum";
+import { enqueueCampaignWebhookEventRepo } from "../commonRepo/webhook.repository";
 
 export const getCampaignListRepo = async (filters: {
   key?: string;
@@ -114,11 +116,23 @@ export const createCampaignRepo = async (
     campaignTypeId: number;
     status: CampaignStatus;
     isDeleted: boolean;
+    recurrence?: CampaignRecurrence | null;
+    recurrenceCount?: number | null;
+    recurrenceUntil?: Date | null;
+    occurrence?: number;
+    parentCampaignId?: number | null;
   },
   transaction?: Transaction
 ): Promise<CampaignAttributes> => {
   try {
     const campaign = await Campaign.create(data, { transaction });
+    await enqueueCampaignWebhookEventRepo(
+      campaign,
+      transaction,
+      WebhookEvent.CAMPAIGN_CREATED
+    );
+    // Campaigns starting today are created already running
+    await enqueueCampaignWebhookEventRepo(campaign, transaction);
     return campaign;
   } catch (error: any) {
     throw new ErrorType(error.name, error.message, error.code);
@@ -170,6 +184,29 @@ export const getCampaignByIdRepo = async (
   }
 };
 
+// Lock the campaign row and load its live items, for edits that change billing
+export const getCampaignForUpdateRepo = async (
+  id: number,
+  transaction: Transaction
+) => {
+  try {
+    const campaign = await Campaign.findByPk(id, {
+      transaction,
+      lock: transaction.LOCK.UPDATE,
+    });
+    if (!campaign || campaign.isDeleted) {
+      return null;
+    }
+    const where = { campaignId: id, isDeleted: false };
+    const keywords = await Keyword.findAll({ where, transaction });
+    const links = await Link.findAll({ where, transaction });
+    const directLinks = await DirectLink.findAll({ where, transaction });
+    return { campaign, keywords, links, directLinks };
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
+
 export const getCampaignReport = async (
   status?: CampaignStatus,
   startDate?: string,
@@ -308,6 +345,9 @@ export const pauseCampaignRepo = async (
         }
       );
 
+      // Sent by the webhook dispatcher once the status change is committed
+      await enqueueCampaignWebhookEventRepo(campaign, t);
+
       // Commit the transaction if it was created here
       if (!transaction) {
         await t.commit();
@@ -391,6 +431,9 @@ export const continueCampaignRepo = async (
         }
       );
 
+      // Sent by the webhook dispatcher once the status change is committed
+      await enqueueCampaignWebhookEventRepo(campaign, t);
+
       // Commit the transaction if it was created here
       if (!transaction) {
         await t.commit();
@@ -415,8 +458,19 @@ export const continueCampaignRepo = async (
   }
 };
 
+export const CANCELLABLE_CAMPAIGN_STATUSES = [
+  CampaignStatus.NOT_STARTED,
+  CampaignStatus.ACTIVE,
+  CampaignStatus.PAUSED,
+];
+
 export const cancelCampaignRepo = async (
   id: number,
+  data: {
+    endDate: Date;
+    cancelReason?: string | null;
+    cancelledBy?: number | null;
+  },
   transaction?: Transaction
 ): Promise<boolean> => {
   try {
@@ -432,8 +486,11 @@ export const cancelCampaignRepo = async (
     const t = transaction || (await sequelizeSystem.transaction());
 
     try {
-      // Find the campaign
-      const campaign = await Campaign.findByPk(id, { transaction: t });
+      // Lock the campaign so two cancellations cannot both refund it
+      const campaign = await Campaign.findByPk(id, {
+        transaction: t,
+        lock: t.LOCK.UPDATE,
+      });
 
       if (!campaign) {
         throw new ErrorType(
@@ -442,29 +499,25 @@ export const cancelCampaignRepo = async (
           statusCode.NOT_FOUND
         );
       }
-
-      // Get current date and reset time to 00:00:00.000
-      const currentDate = new Date();
-      currentDate.setHours(0, 0, 0, 0);
-
-      // Get campaign startDate and reset time to 00:00:00.000
-      const startDate = new Date(campaign.startDate);
-      startDate.setHours(0, 0, 0, 0);
-
-      // Prepare update data
-      const updateData: { status: CampaignStatus; startDate?: Date; endDate: Date } = {
-        status: CampaignStatus.PROCESSING,
-        endDate: new Date(), // Always set endDate to current date/time
-      };
-
-      // If startDate is before currentDate, set both startDate and endDate to current date
-      if (startDate < currentDate) {
-        updateData.startDate = new Date();
-        updateData.endDate = new Date();
+      if (!CANCELLABLE_CAMPAIGN_STATUSES.includes(campaign.status)) {
+        throw new ErrorType(
+          "InvalidStatusError",
+          `Campaign with status ${campaign.status} cannot be cancelled`,
+          statusCode.BAD_REQUEST
+        );
       }
 
-      // Update campaign
-      await campaign.update(updateData, { transaction: t });
+      // endDate becomes the stop date; startDate is kept so the settlement
+      // can measure what was delivered between the two
+      await campaign.update(
+        {
+          status: CampaignStatus.CANCEL,
+          endDate: data.endDate,
+          cancelReason: data.cancelReason || null,
+          cancelledBy: data.cancelledBy || null,
+        },
+        { transaction: t }
+      );
 
       // Update all associated keywords to INACTIVE
       await Keyword.update(
@@ -490,6 +543,9 @@ export const cancelCampaignRepo = async (
         }
       );
 
+      // Sent by the webhook dispatcher once the status change is committed
+      await enqueueCampaignWebhookEventRepo(campaign, t);
+
       // Commit the transaction if it was created here
       if (!transaction) {
         await t.commit();
@@ -0,0 +1,113 @@
+import { Op } from "sequelize";
+import { CampaignTemplate, User } from "../../models/index.model";
+import { CampaignTemplateAttributes } from "../../interfaces/CampaignTemplate.interface";
+import { ErrorType } from "../../types/Error.type";
+
+export const createCampaignTemplateRepo = async (
+  data: CampaignTemplateAttributes
+): Promise<CampaignTemplateAttributes> => {
+  try {
+    const template = await CampaignTemplate.create({
+      ...data,
+      isDeleted: false,
+    });
+    return template;
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
+
+export const getCampaignTemplateListRepo = async (filters: {
+  key?: string;
+  userId?: number;
+  campaignTypeId?: number;
+  page?: number;
+  limit?: number;
+}): Promise<{ templates: CampaignTemplateAttributes[]; total: number }> => {
+  try {
+    const where: any = { isDeleted: false };
+    if (filters.key) {
+      where[Op.or] = [
+        { name: { [Op.like]: `%${filters.key}%` } },
+        { domain: { [Op.like]: `%${filters.key}%` } },
+      ];
+    }
+    if (filters.userId) where.userId = filters.userId;
+    if (filters.campaignTypeId) where.campaignTypeId = filters.campaignTypeId;
+
+    const queryOptions: any = {
+      where,
+      order: [["createdAt", "DESC"]],
+      include: [
+        {
+          model: User,
+          as: "users",
+          attributes: ["username"], // Only fetch the username
+        },
+      ],
+    };
+
+    // Apply pagination only if page and limit are not 0
+    if (
+      filters.page &&
+      filters.limit &&
+      filters.page > 0 &&
+      filters.limit > 0
+    ) {
+      queryOptions.offset = (filters.page - 1) * filters.limit;
+      queryOptions.limit = filters.limit;
+    }
+
+    const { rows: templates, count: total } =
+      await CampaignTemplate.findAndCountAll(queryOptions);
+    return { templates, total };
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
+
+export const getCampaignTemplateByIdRepo = async (
+  id: number
+): Promise<CampaignTemplateAttributes | null> => {
+  try {
+    const template = await CampaignTemplate.findOne({
+      where: { id, isDeleted: false },
+    });
+    return template;
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
+
+export const updateCampaignTemplateRepo = async (
+  id: number,
+  data: Partial<CampaignTemplateAttributes>
+): Promise<CampaignTemplateAttributes | null> => {
+  try {
+    const template = await CampaignTemplate.findOne({
+      where: { id, isDeleted: false },
+    });
+    if (!template) return null;
+
+    await template.update(data);
+    return template;
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
+
+export const deleteCampaignTemplateRepo = async (
+  id: number
+): Promise<boolean> => {
+  try {
+    const template = await CampaignTemplate.findOne({
+      where: { id, isDeleted: false },
+    });
+    if (!template) return false;
+
+    await template.update({ isDeleted: true });
+    return true;
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
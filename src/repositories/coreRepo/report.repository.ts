@@ -5,7 +5,7 @@ import { ErrorType } from "../../types/Error.type";
 import { LinkAttributes } from "../../interfaces/Link.interface";
 import { KeywordAttributes } from "../../interfaces/Keyword.interface";
 import { DirectLinkAttributes } from "../../interfaces/DirectLink.interface";
-import { baseApiPython } from "../../config/botAPI.config";
+import { botApi } from "../../config/botAPI.config";
 import {
   calculateCampaignMetrics,
   formatDate,
@@ -207,10 +207,7 @@ export const getOneCampaignReportRepo = async (
         time_start: formatDate(campaign.startDate),
         time_end: formatDate(campaign.endDate),
       };
-      const result = await baseApiPython(
-        "keyword/success-count-duration",
-        dataPython
-      );
+      const result = await botApi.getKeywordSuccessCount(dataPython);
       return {
         id: keyword.id,
         campaignId: campaign.id,
@@ -238,10 +235,7 @@ export const getOneCampaignReportRepo = async (
         time_start: formatDate(campaign.startDate),
         time_end: formatDate(campaign.endDate),
       };
-      const result = await baseApiPython(
-        "direct-link/success-count-duration",
-        dataPython
-      );
+      const result = await botApi.getDirectLinkSuccessCount(dataPython);
       return {
         id: directLink.id,
         campaignId: campaign.id,
@@ -456,10 +450,7 @@ const calculateTraffic = async (
             time_end: formatInTheEndDate(date),
           };
           try {
-            const result = await baseApiPython(
-              "keyword/success-count-duration",
-              dataPython
-            );
+            const result = await botApi.getKeywordSuccessCount(dataPython);
             return {
               date,
               traffic: Number(result.success_count) || 0,
@@ -486,10 +477,7 @@ const calculateTraffic = async (
             time_end: formatInTheEndDate(date),
           };
           try {
-            const result = await baseApiPython(
-              "direct-link/success-count-duration",
-              dataPython
-            );
+            const result = await botApi.getDirectLinkSuccessCount(dataPython);
             return {
               date,
               traffic: Number(result.success_count) || 0,
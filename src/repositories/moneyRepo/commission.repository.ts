@@ -0,0 +1,517 @@
+import { Op, Transaction, col, fn } from "sequelize";
+import {
+  Agency,
+  AgencyCommission,
+  CommissionRule,
+  User,
+  Wallet,
+} from "../../models/index.model";
+import { CommissionSource } from "../../enums/commission.enum";
+import {
+  LedgerAccountType,
+  LedgerEntryDirection,
+} from "../../enums/ledger.enum";
+import { TransactionType } from "../../enums/transactionType.enum";
+import {
+  AgencyCommissionAttributes,
+  CommissionRuleAttributes,
+  CommissionStatement,
+} from "../../interfaces/Commission.interface";
+import { TransactionAttributes } from "../../interfaces/Transaction.interface";
+import { UserAttributes } from "../../interfaces/User.interface";
+import { ErrorType } from "../../types/Error.type";
+import {
+  getAgencyLedgerAccountRepo,
+  getSystemLedgerAccountRepo,
+  postLedgerEntriesRepo,
+} from "./ledger.repository";
+
+const roundCredit = (value: number): number => Math.round(value * 100) / 100;
+
+const startOfMonth = (date: Date): Date =>
+  new Date(date.getFullYear(), date.getMonth(), 1);
+
+const addMonths = (date: Date, months: number): Date => {
+  const result = new Date(date);
+  result.setMonth(result.getMonth() + months);
+  return result;
+};
+
+// Campaign payments reference the campaign id, edits as "<campaignId>-edit-<time>"
+const campaignReference = (referenceId?: string | null): string | null =>
+  referenceId ? referenceId.split("-")[0] : null;
+
+// Rules in force at the given time, the agency's own and the defaults
+export const getActiveCommissionRulesRepo = async (
+  agencyId: number,
+  source: CommissionSource,
+  at: Date,
+  transaction?: Transaction
+): Promise<CommissionRuleAttributes[]> => {
+  try {
+    return await CommissionRule.findAll({
+      where: {
+        source,
+        isDeleted: false,
+        agencyId: { [Op.or]: [agencyId, null] },
+        [Op.and]: [
+          { [Op.or]: [{ startsAt: null }, { startsAt: { [Op.lte]: at } }] },
+          { [Op.or]: [{ endsAt: null }, { endsAt: { [Op.gt]: at } }] },
+        ],
+      },
+      transaction,
+    });
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
+
+/**
+ * Pick the rule that pays for a transaction: an agency's own rules replace
+ * the defaults, rules limited to a number of months only pay for users who
+ * registered within them, and among the rest the highest tier the volume
+ * has reached wins.
+ */
+export const selectCommissionRule = (
+  rules: CommissionRuleAttributes[],
+  agencyId: number,
+  volume: number,
+  registeredAt: Date,
+  at: Date
+): CommissionRuleAttributes | null => {
+  const own = rules.filter((rule) => rule.agencyId === agencyId);
+  const candidates = (own.length ? own : rules).filter(
+    (rule) =>
+      rule.minVolume <= volume &&
+      (!rule.durationMonths ||
+        addMonths(registeredAt, rule.durationMonths) > at)
+  );
+  return candidates.reduce<CommissionRuleAttributes | null>(
+    (best, rule) => (!best || rule.minVolume > best.minVolume ? rule : best),
+    null
+  );
+};
+
+// Commission flows between the AGENCY_COMMISSION expense and the agency's payable account
+const postCommissionToLedgerRepo = async (
+  commission: AgencyCommissionAttributes,
+  transaction: Transaction
+): Promise<void> => {
+  const amount = roundCredit(Math.abs(commission.amount));
+  if (amount === 0) return;
+  const payable = await getAgencyLedgerAccountRepo(
+    commission.agencyId,
+    transaction
+  );
+  const expense = await getSystemLedgerAccountRepo(
+    LedgerAccountType.AGENCY_COMMISSION,
+    transaction
+  );
+  const accrued = commission.amount > 0;
+  await postLedgerEntriesRepo(
+    {
+      transactionId: null,
+      reference: `commission:${commission.id}`,
+      postings: [
+        {
+          accountId: payable.id!,
+          direction: accrued
+            ? LedgerEntryDirection.CREDIT
+            : LedgerEntryDirection.DEBIT,
+          amount,
+        },
+        {
+          accountId: expense.id!,
+          direction: accrued
+            ? LedgerEntryDirection.DEBIT
+            : LedgerEntryDirection.CREDIT,
+          amount,
+        },
+      ],
+    },
+    transaction
+  );
+};
+
+// A refund takes back the commission paid on the campaign's spend, pro rata
+const reverseSpendCommissionRepo = async (
+  agencyId: number,
+  userId: number,
+  walletTransaction: TransactionAttributes,
+  transaction: Transaction
+): Promise<AgencyCommissionAttributes | null> => {
+  const referenceId = campaignReference(walletTransaction.referenceId);
+  if (!referenceId) return null;
+  const totals = (await AgencyCommission.findOne({
+    attributes: [
+      [fn("SUM", col("baseAmount")), "baseAmount"],
+      [fn("SUM", col("amount")), "amount"],
+    ],
+    where: {
+      agencyId,
+      source: CommissionSource.CAMPAIGN_SPEND,
+      referenceId,
+    },
+    raw: true,
+    transaction,
+  })) as unknown as { baseAmount: string | null; amount: string | null };
+  const baseAmount = roundCredit(Number(totals?.baseAmount) || 0);
+  const paid = roundCredit(Number(totals?.amount) || 0);
+  if (baseAmount <= 0) return null;
+
+  const refunded = Math.min(
+    roundCredit(Number(walletTransaction.amount)),
+    baseAmount
+  );
+  const rate = roundCredit((paid / baseAmount) * 100);
+  return await AgencyCommission.create(
+    {
+      agencyId,
+      referredUserId: userId,
+      ruleId: null,
+      source: CommissionSource.CAMPAIGN_SPEND,
+      transactionId: walletTransaction.id!,
+      referenceId,
+      baseAmount: -refunded,
+      rate,
+      amount: -roundCredit((paid * refunded) / baseAmount),
+    },
+    { transaction }
+  );
+};
+
+/**
+ * Record what a wallet transaction of an invited user earns their agency and
+ * post it to the agency's payable account. Deposits pay on the part that was
+ * paid for (not voucher bonus), campaign payments on the credit charged and
+ * campaign refunds reverse it. Every transaction is recorded, with a zero
+ * amount when no rule applies, so the entries also give the monthly volume
+ * the tiers are measured on. Runs inside the transaction that created the
+ * wallet transaction.
+ */
+export const accrueAgencyCommissionRepo = async (
+  walletTransaction: TransactionAttributes,
+  wallet: Wallet,
+  promotionalAmount: number,
+  transaction: Transaction
+): Promise<AgencyCommissionAttributes | null> => {
+  try {
+    const source =
+      walletTransaction.type === TransactionType.DEPOSIT
+        ? CommissionSource.DEPOSIT
+        : walletTransaction.type === TransactionType.PAY_SERVICE ||
+          walletTransaction.type === TransactionType.REFUND_SERVICE
+        ? CommissionSource.CAMPAIGN_SPEND
+        : null;
+    if (!source) return null;
+
+    const user = await User.findByPk(wallet.userId, {
+      attributes: ["id", "invitedBy", "createdAt"],
+      transaction,
+    });
+    if (!user?.invitedBy) return null;
+    // Lock the agency so its monthly volume is read by one accrual at a time
+    const agency = await Agency.findOne({
+      where: { id: user.invitedBy, isDeleted: false },
+      transaction,
+      lock: transaction.LOCK.UPDATE,
+    });
+    if (!agency || agency.userId === user.id) return null;
+
+    let commission: AgencyCommissionAttributes | null;
+    if (walletTransaction.type === TransactionType.REFUND_SERVICE) {
+      commission = await reverseSpendCommissionRepo(
+        agency.id,
+        user.id,
+        walletTransaction,
+        transaction
+      );
+    } else {
+      const amount = roundCredit(Number(walletTransaction.amount));
+      const baseAmount =
+        source === CommissionSource.DEPOSIT
+          ? roundCredit(amount - Math.min(Math.max(promotionalAmount, 0), amount))
+          : amount;
+      if (baseAmount <= 0) return null;
+
+      const now = new Date();
+      const monthVolume = await AgencyCommission.sum("baseAmount", {
+        where: {
+          agencyId: agency.id,
+          source,
+          createdAt: { [Op.gte]: startOfMonth(now) },
+        },
+        transaction,
+      });
+      const rules = await getActiveCommissionRulesRepo(
+        agency.id,
+        source,
+        now,
+        transaction
+      );
+      const rule = selectCommissionRule(
+        rules,
+        agency.id,
+        roundCredit((Number(monthVolume) || 0) + baseAmount),
+        new Date(user.getDataValue("createdAt") as Date),
+        now
+      );
+      const rate = rule?.rate || 0;
+      commission = await AgencyCommission.create(
+        {
+          agencyId: agency.id,
+          referredUserId: user.id,
+          ruleId: rule?.id || null,
+          source,
+          transactionId: walletTransaction.id!,
+          referenceId:
+            source === CommissionSource.CAMPAIGN_SPEND
+              ? campaignReference(walletTransaction.referenceId)
+              : null,
+          baseAmount,
+          rate,
+          amount: roundCredit((baseAmount * rate) / 100),
+        },
+        { transaction }
+      );
+    }
+
+    if (commission) {
+      await postCommissionToLedgerRepo(commission, transaction);
+    }
+    return commission;
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
+
+export const createCommissionRuleRepo = async (
+  data: Omit<CommissionRuleAttributes, "id" | "isDeleted">
+): Promise<CommissionRuleAttributes> => {
+  try {
+    return await CommissionRule.create({ ...data, isDeleted: false });
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
+
+export const getCommissionRuleByIdRepo = async (
+  id: number
+): Promise<CommissionRule | null> => {
+  try {
+    return await CommissionRule.findOne({ where: { id, isDeleted: false } });
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
+
+export const updateCommissionRuleRepo = async (
+  id: number,
+  data: Partial<Omit<CommissionRuleAttributes, "id" | "createdBy">>
+): Promise<CommissionRuleAttributes | null> => {
+  try {
+    const rule = await CommissionRule.findOne({
+      where: { id, isDeleted: false },
+    });
+    if (!rule) return null;
+    await rule.update(data);
+    return rule;
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
+
+export const getCommissionRuleListRepo = async (filters: {
+  agencyId?: number | null;
+  source?: CommissionSource;
+  page?: number;
+  limit?: number;
+}): Promise<{ rules: CommissionRuleAttributes[]; total: number }> => {
+  try {
+    const where: any = { isDeleted: false };
+    if (filters.agencyId !== undefined) where.agencyId = filters.agencyId;
+    if (filters.source) where.source = filters.source;
+
+    const queryOptions: any = {
+      where,
+      order: [
+        ["source", "ASC"],
+        ["agencyId", "ASC"],
+        ["minVolume", "ASC"],
+      ],
+    };
+    if (filters.page && filters.limit && filters.page > 0 && filters.limit > 0) {
+      queryOptions.offset = (filters.page - 1) * filters.limit;
+      queryOptions.limit = filters.limit;
+    }
+    const { rows: rules, count: total } =
+      await CommissionRule.findAndCountAll(queryOptions);
+    return { rules, total };
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
+
+// Commission accrued so far, in total and for the current month
+export const getAgencyCommissionSummaryRepo = async (
+  agencyId: number
+): Promise<{
+  total: number;
+  thisMonth: number;
+  bySource: Record<CommissionSource, number>;
+}> => {
+  try {
+    const rows = (await AgencyCommission.findAll({
+      attributes: ["source", [fn("SUM", col("amount")), "amount"]],
+      where: { agencyId },
+      group: ["source"],
+      raw: true,
+    })) as unknown as { source: CommissionSource; amount: string | null }[];
+    const thisMonth = await AgencyCommission.sum("amount", {
+      where: { agencyId, createdAt: { [Op.gte]: startOfMonth(new Date()) } },
+    });
+
+    const bySource = {
+      [CommissionSource.DEPOSIT]: 0,
+      [CommissionSource.CAMPAIGN_SPEND]: 0,
+    };
+    for (const row of rows) {
+      bySource[row.source] = roundCredit(Number(row.amount) || 0);
+    }
+    return {
+      total: roundCredit(
+        Object.values(bySource).reduce((sum, value) => sum + value, 0)
+      ),
+      thisMonth: roundCredit(Number(thisMonth) || 0),
+      bySource,
+    };
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
+
+// Users who registered with the agency's invite code, with what each earned it
+export const getReferredUsersRepo = async (
+  agencyId: number,
+  filters: { page?: number; limit?: number }
+): Promise<{
+  users: (Pick<UserAttributes, "id" | "username" | "email" | "createdAt"> & {
+    commission: number;
+  })[];
+  total: number;
+}> => {
+  try {
+    const queryOptions: any = {
+      where: { invitedBy: agencyId },
+      attributes: ["id", "username", "email", "createdAt"],
+      order: [["createdAt", "DESC"]],
+    };
+    if (filters.page && filters.limit && filters.page > 0 && filters.limit > 0) {
+      queryOptions.offset = (filters.page - 1) * filters.limit;
+      queryOptions.limit = filters.limit;
+    }
+    const { rows, count: total } = await User.findAndCountAll(queryOptions);
+
+    const userIds = rows.map((user) => user.id);
+    const totals = userIds.length
+      ? ((await AgencyCommission.findAll({
+          attributes: ["referredUserId", [fn("SUM", col("amount")), "amount"]],
+          where: { agencyId, referredUserId: { [Op.in]: userIds } },
+          group: ["referredUserId"],
+          raw: true,
+        })) as unknown as { referredUserId: number; amount: string | null }[])
+      : [];
+    const commissionByUser = new Map(
+      totals.map((row) => [
+        Number(row.referredUserId),
+        roundCredit(Number(row.amount) || 0),
+      ])
+    );
+
+    return {
+      users: rows.map((user) => ({
+        id: user.id,
+        username: user.username,
+        email: user.email,
+        createdAt: user.createdAt,
+        commission: commissionByUser.get(user.id) || 0,
+      })),
+      total,
+    };
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
+
+// Volume and commission of one calendar month, by source and by referred user
+export const getCommissionStatementRepo = async (
+  agencyId: number,
+  year: number,
+  month: number
+): Promise<CommissionStatement> => {
+  try {
+    const where = {
+      agencyId,
+      createdAt: {
+        [Op.gte]: new Date(year, month - 1, 1),
+        [Op.lt]: new Date(year, month, 1),
+      },
+    };
+    const sources = (await AgencyCommission.findAll({
+      attributes: [
+        "source",
+        [fn("SUM", col("baseAmount")), "volume"],
+        [fn("SUM", col("amount")), "commission"],
+      ],
+      where,
+      group: ["source"],
+      raw: true,
+    })) as unknown as {
+      source: CommissionSource;
+      volume: string | null;
+      commission: string | null;
+    }[];
+    const users = (await AgencyCommission.findAll({
+      attributes: [
+        "referredUserId",
+        [fn("SUM", col("amount")), "commission"],
+      ],
+      where,
+      include: [
+        {
+          model: User,
+          as: "referredUser",
+          attributes: ["username"],
+        },
+      ],
+      group: ["referredUserId", "referredUser.id"],
+      order: [[fn("SUM", col("amount")), "DESC"]],
+      raw: true,
+    })) as unknown as {
+      referredUserId: number;
+      commission: string | null;
+      "referredUser.username"?: string;
+    }[];
+
+    const lines = Object.values(CommissionSource).map((source) => {
+      const row = sources.find((item) => item.source === source);
+      return {
+        source,
+        volume: roundCredit(Number(row?.volume) || 0),
+        commission: roundCredit(Number(row?.commission) || 0),
+      };
+    });
+    return {
+      month: `${year}-${String(month).padStart(2, "0")}`,
+      lines,
+      total: roundCredit(lines.reduce((sum, line) => sum + line.commission, 0)),
+      referredUsers: users.map((row) => ({
+        userId: Number(row.referredUserId),
+        username: row["referredUser.username"],
+        commission: roundCredit(Number(row.commission) || 0),
+      })),
+    };
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
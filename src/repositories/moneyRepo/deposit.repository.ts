@@ -84,8 +84,9 @@ export const createDepositRepo = async (data: {
   paymentMethodId: number;
   orderId: string;
   status: DepositStatus;
-}): Promise<DepositAttributes> => {
-  return await sequelizeSystem.transaction(async (t: Transaction) => {
+}, transaction?: Transaction): Promise<DepositAttributes> => {
+  // Runs as a savepoint when the caller already holds a transaction
+  return await sequelizeSystem.transaction({ transaction }, async (t: Transaction) => {
     try {
       // Validate existing deposit
       const existingDeposit = await Deposit.findOne({
@@ -129,30 +130,21 @@ export const createDepositRepo = async (data: {
 
       // Handle completed deposit
       if (data.status === DepositStatus.COMPLETED) {
-        const amount = parseFloat(
-          data.amount.toString().replace(/[^0-9.]/g, "")
+        const credit = await getVoucherDepositCredit(
+          data.amount,
+          data.paymentMethodId,
+          voucherValue
         );
-        if (isNaN(amount) || amount <= 0) {
-          throw new ErrorType(
-            "InvalidAmountError",
-            "Invalid deposit amount format"
-          );
-        }
-
-        // Get exchange rate
-        const exchangeValue = await getExchangeRate(data.paymentMethodId);
-        const transactionAmount = amount / exchangeValue;
-        const finalAmount =
-          transactionAmount + transactionAmount * (voucherValue / 100);
 
         // Create transaction and notification
         await createTransactionRepo(
           {
             walletId: wallet.id,
-            amount: finalAmount,
+            amount: credit.amount,
             status: TransactionStatus.COMPLETED,
             type: TransactionType.DEPOSIT,
             referenceId: String(newDeposit.id),
+            promotionalAmount: credit.promotionalAmount,
           },
           t
         );
@@ -165,6 +157,35 @@ export const createDepositRepo = async (data: {
   });
 };
 
+// Credit bought by a paid amount, with the voucher bonus counted as promotional
+const getVoucherDepositCredit = async (
+  paidAmount: number,
+  paymentMethodId: number,
+  voucherValue: number
+): Promise<{ amount: number; promotionalAmount: number }> => {
+  const amount = parseFloat(paidAmount.toString().replace(/[^0-9.]/g, ""));
+  if (isNaN(amount) || amount <= 0) {
+    throw new ErrorType("InvalidAmountError", "Invalid deposit amount format");
+  }
+
+  // Get exchange rate
+  const exchangeValue = await getExchangeRate(paymentMethodId);
+  const transactionAmount = amount / exchangeValue;
+  const bonusAmount = transactionAmount * (voucherValue / 100);
+  return {
+    amount: transactionAmount + bonusAmount,
+    promotionalAmount: bonusAmount,
+  };
+};
+
+// A package's credit is bought by its price, so none of it is promotional
+const getPackageDepositCredit = (pkg: {
+  bonus?: number | null;
+}): { amount: number; promotionalAmount: number } => ({
+  amount: pkg.bonus || 0,
+  promotionalAmount: 0,
+});
+
 const getExchangeRate = async (paymentMethodId: number): Promise<number> => {
   if (paymentMethodId === 1) {
     const config = await getConfigByNameRepo(ConfigApp.USD_TO_CREDIT);
@@ -340,8 +361,9 @@ export const createDepositByPackageRepo = async (data: {
   packageId: number;
   orderId: string;
   status: DepositStatus;
-}): Promise<DepositAttributes> => {
-  return await sequelizeSystem.transaction(async (t: Transaction) => {
+}, transaction?: Transaction): Promise<DepositAttributes> => {
+  // Runs as a savepoint when the caller already holds a transaction
+  return await sequelizeSystem.transaction({ transaction }, async (t: Transaction) => {
     try {
       // Validate existing deposit
       const existingDeposit = await Deposit.findOne({
@@ -382,16 +404,17 @@ export const createDepositByPackageRepo = async (data: {
         { transaction: t }
       );
 
-      const transactionAmount = pkg?.bonus || 0;
+      const credit = getPackageDepositCredit(pkg);
 
       // Create transaction and notification
       await createTransactionRepo(
         {
           walletId: wallet.id,
-          amount: transactionAmount,
+          amount: credit.amount,
           status: TransactionStatus.COMPLETED,
           type: TransactionType.DEPOSIT,
           referenceId: String(newDeposit.id),
+          promotionalAmount: credit.promotionalAmount,
         },
         t
       );
@@ -402,3 +425,164 @@ export const createDepositByPackageRepo = async (data: {
     }
   });
 };
+
+// A deposit awaiting payment; it is credited by completePendingDepositRepo
+export const createPendingDepositRepo = async (
+  data: {
+    createdBy: number;
+    userId: number;
+    voucherId: number | null;
+    packageId: number | null;
+    amount: number;
+    paymentMethodId: number;
+    orderId: string;
+    cryptoCurrency?: string | null;
+    cryptoAmount?: number | null;
+    exchangeRate?: number | null;
+  },
+  transaction?: Transaction
+): Promise<DepositAttributes> => {
+  try {
+    const existingDeposit = await Deposit.findOne({
+      where: { orderId: data.orderId },
+      transaction,
+    });
+    if (existingDeposit) {
+      throw new ErrorType(
+        "DuplicateOrderIdError",
+        `Deposit with orderId ${data.orderId} already exists`
+      );
+    }
+    return await Deposit.create(
+      {
+        userId: data.userId,
+        voucherId: data.voucherId,
+        amount: data.amount,
+        status: DepositStatus.PENDING,
+        createdBy: data.createdBy,
+        paymentMethodId: data.paymentMethodId,
+        orderId: data.orderId,
+        acceptedBy: "system",
+        packageId: data.packageId ?? undefined,
+        cryptoCurrency: data.cryptoCurrency ?? null,
+        cryptoAmount: data.cryptoAmount ?? null,
+        exchangeRate: data.exchangeRate ?? null,
+      },
+      { transaction }
+    );
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
+
+// An underpaid crypto invoice is still credited once the payer tops it up
+const AWAITING_PAYMENT_STATUSES = [DepositStatus.PENDING, DepositStatus.UNDERPAID];
+
+/**
+ * Credit a paid PENDING deposit to the owner's wallet: a package buys its
+ * bonus credit, an amount is converted at the payment method's rate plus
+ * the voucher bonus. The deposit row is locked so it is credited once.
+ */
+export const completePendingDepositRepo = async (
+  depositId: number,
+  transaction: Transaction
+): Promise<DepositAttributes> => {
+  try {
+    const deposit = await Deposit.findByPk(depositId, {
+      transaction,
+      lock: transaction.LOCK.UPDATE,
+    });
+    if (!deposit) {
+      throw new ErrorType("NotFoundError", "Deposit not found");
+    }
+    if (!AWAITING_PAYMENT_STATUSES.includes(deposit.status)) {
+      throw new ErrorType(
+        "InvalidStatusError",
+        `Deposit status ${deposit.status} cannot be completed`
+      );
+    }
+    const wallet = await Wallet.findOne({
+      where: { userId: deposit.userId },
+      transaction,
+    });
+    if (!wallet) {
+      throw new ErrorType("NotFoundError", "Wallet not found for this user");
+    }
+
+    let credit = { amount: 0, promotionalAmount: 0 };
+    if (deposit.packageId) {
+      const pkg = await getPackageByIdRepo(deposit.packageId);
+      if (!pkg) {
+        throw new ErrorType("NotFoundError", "Package not found");
+      }
+      credit = getPackageDepositCredit(pkg);
+    } else {
+      const voucher = deposit.voucherId
+        ? await getVoucherByIdRepo(deposit.voucherId)
+        : null;
+      credit = await getVoucherDepositCredit(
+        deposit.amount,
+        deposit.paymentMethodId || 0,
+        voucher?.value || 0
+      );
+    }
+
+    await deposit.update(
+      { status: DepositStatus.COMPLETED, acceptedBy: "system" },
+      { transaction }
+    );
+    await createTransactionRepo(
+      {
+        walletId: wallet.id,
+        amount: credit.amount,
+        status: TransactionStatus.COMPLETED,
+        type: TransactionType.DEPOSIT,
+        referenceId: String(deposit.id),
+        promotionalAmount: credit.promotionalAmount,
+      },
+      transaction
+    );
+    return deposit;
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
+
+// Move a deposit still awaiting payment to another status; settled deposits are left alone
+export const updatePendingDepositStatusRepo = async (
+  depositId: number,
+  status: DepositStatus,
+  transaction?: Transaction
+): Promise<boolean> => {
+  try {
+    const [count] = await Deposit.update(
+      { status },
+      {
+        where: {
+          id: depositId,
+          status: { [Op.in]: AWAITING_PAYMENT_STATUSES },
+        },
+        transaction,
+      }
+    );
+    return count > 0;
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
+
+// Locks the deposit when called inside a transaction
+export const getDepositByOrderIdForUpdateRepo = async (
+  orderId: string,
+  transaction: Transaction
+): Promise<Deposit | null> => {
+  try {
+    return await Deposit.findOne({
+      where: { orderId },
+      transaction,
+      lock: transaction.LOCK.UPDATE,
+    });
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
@@ -0,0 +1,475 @@
+import { Op, Transaction, fn, literal } from "sequelize";
+import {
+  LedgerAccount,
+  LedgerDrift,
+  LedgerEntry,
+  TransactionModel,
+  Wallet,
+} from "../../models/index.model";
+import {
+  LedgerAccountType,
+  LedgerDriftStatus,
+  LedgerEntryDirection,
+} from "../../enums/ledger.enum";
+import { TransactionType } from "../../enums/transactionType.enum";
+import {
+  LedgerAccountAttributes,
+  LedgerDriftAttributes,
+  LedgerEntryAttributes,
+  LedgerPosting,
+} from "../../interfaces/Ledger.interface";
+import { TransactionAttributes } from "../../interfaces/Transaction.interface";
+import { ErrorType } from "../../types/Error.type";
+
+const roundCredit = (value: number): number => Math.round(value * 100) / 100;
+
+// Balances are credit minus debit, so a wallet account reads as the credit the user holds
+const SIGNED_AMOUNT = literal(
+  `CASE WHEN direction = '${LedgerEntryDirection.CREDIT}' THEN amount ELSE -amount END`
+);
+
+const walletAccountCode = (walletId: number) =>
+  `${LedgerAccountType.USER_WALLET}:${walletId}`;
+
+const agencyAccountCode = (agencyId: number) =>
+  `${LedgerAccountType.AGENCY_PAYABLE}:${agencyId}`;
+
+type SystemLedgerAccountType = Exclude<
+  LedgerAccountType,
+  LedgerAccountType.USER_WALLET | LedgerAccountType.AGENCY_PAYABLE
+>;
+
+export const getSystemLedgerAccountRepo = async (
+  type: SystemLedgerAccountType,
+  transaction?: Transaction
+): Promise<LedgerAccountAttributes> => {
+  try {
+    const [account] = await LedgerAccount.findOrCreate({
+      where: { code: type },
+      defaults: { code: type, type, walletId: null },
+      transaction,
+    });
+    return account;
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
+
+export const getLedgerBalanceRepo = async (
+  accountId: number,
+  transaction?: Transaction
+): Promise<number> => {
+  try {
+    const result = (await LedgerEntry.findOne({
+      attributes: [[fn("SUM", SIGNED_AMOUNT), "balance"]],
+      where: { accountId },
+      raw: true,
+      transaction,
+    })) as unknown as { balance: string | null } | null;
+    return roundCredit(Number(result?.balance || 0));
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
+
+/**
+ * Write one balanced journal. Zero amounts are dropped, and the journal is
+ * rejected unless its debits equal its credits to the cent.
+ */
+export const postLedgerEntriesRepo = async (
+  journal: {
+    transactionId: number | null;
+    reference: string;
+    postings: LedgerPosting[];
+  },
+  transaction?: Transaction
+): Promise<LedgerEntryAttributes[]> => {
+  try {
+    const postings = journal.postings
+      .map((posting) => ({ ...posting, amount: roundCredit(posting.amount) }))
+      .filter((posting) => posting.amount !== 0);
+    if (postings.some((posting) => posting.amount < 0)) {
+      throw new ErrorType(
+        "InvalidAmountError",
+        "Ledger amounts cannot be negative"
+      );
+    }
+    const total = (direction: LedgerEntryDirection) =>
+      roundCredit(
+        postings
+          .filter((posting) => posting.direction === direction)
+          .reduce((sum, posting) => sum + posting.amount, 0)
+      );
+    if (
+      total(LedgerEntryDirection.DEBIT) !== total(LedgerEntryDirection.CREDIT)
+    ) {
+      throw new ErrorType(
+        "UnbalancedLedgerError",
+        `Journal ${journal.reference} does not balance`
+      );
+    }
+    if (!postings.length) return [];
+
+    return await LedgerEntry.bulkCreate(
+      postings.map((posting) => ({
+        ...posting,
+        transactionId: journal.transactionId,
+        reference: journal.reference,
+      })),
+      { transaction }
+    );
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
+
+/**
+ * Get the ledger account of a wallet, opening it on first use. A wallet that
+ * already held credit before the ledger existed gets an opening balance
+ * against ADJUSTMENT, so its history starts from the cached balance.
+ * Call it with the wallet row locked.
+ */
+export const getWalletLedgerAccountRepo = async (
+  wallet: Wallet,
+  transaction: Transaction
+): Promise<LedgerAccountAttributes> => {
+  try {
+    const existing = await LedgerAccount.findOne({
+      where: { walletId: wallet.id },
+      transaction,
+    });
+    if (existing) return existing;
+
+    const account = await LedgerAccount.create(
+      {
+        code: walletAccountCode(wallet.id),
+        type: LedgerAccountType.USER_WALLET,
+        walletId: wallet.id,
+      },
+      { transaction }
+    );
+    const openingBalance = roundCredit(Number(wallet.balance) || 0);
+    if (openingBalance !== 0) {
+      const adjustment = await getSystemLedgerAccountRepo(
+        LedgerAccountType.ADJUSTMENT,
+        transaction
+      );
+      const credit = openingBalance > 0;
+      await postLedgerEntriesRepo(
+        {
+          transactionId: null,
+          reference: `opening-balance:${wallet.id}`,
+          postings: [
+            {
+              accountId: account.id!,
+              direction: credit
+                ? LedgerEntryDirection.CREDIT
+                : LedgerEntryDirection.DEBIT,
+              amount: Math.abs(openingBalance),
+            },
+            {
+              accountId: adjustment.id!,
+              direction: credit
+                ? LedgerEntryDirection.DEBIT
+                : LedgerEntryDirection.CREDIT,
+              amount: Math.abs(openingBalance),
+            },
+          ],
+        },
+        transaction
+      );
+    }
+    return account;
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
+
+// The payable account of an agency, opened empty on first use
+export const getAgencyLedgerAccountRepo = async (
+  agencyId: number,
+  transaction?: Transaction
+): Promise<LedgerAccountAttributes> => {
+  try {
+    const [account] = await LedgerAccount.findOrCreate({
+      where: { agencyId },
+      defaults: {
+        code: agencyAccountCode(agencyId),
+        type: LedgerAccountType.AGENCY_PAYABLE,
+        walletId: null,
+        agencyId,
+      },
+      transaction,
+    });
+    return account;
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
+
+/**
+ * Post a wallet transaction. Money only moves between a wallet and a system
+ * account: deposits come from CASH (and PROMOTIONAL_CREDIT for the bonus part),
+ * payments go to REVENUE, refunds come out of REFUNDS, admin corrections go
+ * through ADJUSTMENT and both legs of a transfer between wallets go through
+ * TRANSFERS.
+ */
+export const postTransactionToLedgerRepo = async (
+  walletTransaction: TransactionAttributes,
+  walletAccountId: number,
+  promotionalAmount: number,
+  transaction: Transaction
+): Promise<LedgerEntryAttributes[]> => {
+  const amount = roundCredit(Number(walletTransaction.amount));
+  const walletSide = (direction: LedgerEntryDirection): LedgerPosting => ({
+    accountId: walletAccountId,
+    direction,
+    amount,
+  });
+  const systemSide = async (
+    type: SystemLedgerAccountType,
+    direction: LedgerEntryDirection,
+    value: number = amount
+  ): Promise<LedgerPosting> => ({
+    accountId: (await getSystemLedgerAccountRepo(type, transaction)).id!,
+    direction,
+    amount: value,
+  });
+
+  let postings: LedgerPosting[];
+  switch (walletTransaction.type) {
+    case TransactionType.DEPOSIT: {
+      const promotional = roundCredit(
+        Math.min(Math.max(promotionalAmount, 0), amount)
+      );
+      postings = [
+        walletSide(LedgerEntryDirection.CREDIT),
+        await systemSide(
+          LedgerAccountType.CASH,
+          LedgerEntryDirection.DEBIT,
+          roundCredit(amount - promotional)
+        ),
+        await systemSide(
+          LedgerAccountType.PROMOTIONAL_CREDIT,
+          LedgerEntryDirection.DEBIT,
+          promotional
+        ),
+      ];
+      break;
+    }
+    case TransactionType.PAY_SERVICE:
+      postings = [
+        walletSide(LedgerEntryDirection.DEBIT),
+        await systemSide(LedgerAccountType.REVENUE, LedgerEntryDirection.CREDIT),
+      ];
+      break;
+    case TransactionType.REFUND_SERVICE:
+      postings = [
+        walletSide(LedgerEntryDirection.CREDIT),
+        await systemSide(LedgerAccountType.REFUNDS, LedgerEntryDirection.DEBIT),
+      ];
+      break;
+    case TransactionType.ADJUSTMENT_CREDIT:
+      postings = [
+        walletSide(LedgerEntryDirection.CREDIT),
+        await systemSide(
+          LedgerAccountType.ADJUSTMENT,
+          LedgerEntryDirection.DEBIT
+        ),
+      ];
+      break;
+    case TransactionType.ADJUSTMENT_DEBIT:
+      postings = [
+        walletSide(LedgerEntryDirection.DEBIT),
+        await systemSide(
+          LedgerAccountType.ADJUSTMENT,
+          LedgerEntryDirection.CREDIT
+        ),
+      ];
+      break;
+    case TransactionType.TRANSFER_OUT:
+      postings = [
+        walletSide(LedgerEntryDirection.DEBIT),
+        await systemSide(LedgerAccountType.TRANSFERS, LedgerEntryDirection.CREDIT),
+      ];
+      break;
+    case TransactionType.TRANSFER_IN:
+      postings = [
+        walletSide(LedgerEntryDirection.CREDIT),
+        await systemSide(LedgerAccountType.TRANSFERS, LedgerEntryDirection.DEBIT),
+      ];
+      break;
+    default:
+      throw new ErrorType(
+        "InvalidTypeError",
+        `Transaction type ${walletTransaction.type} has no ledger posting rule`
+      );
+  }
+
+  return postLedgerEntriesRepo(
+    {
+      transactionId: walletTransaction.id || null,
+      reference: `transaction:${walletTransaction.id}`,
+      postings,
+    },
+    transaction
+  );
+};
+
+export const getWalletLedgerEntriesRepo = async (
+  walletId: number,
+  filters: { page?: number; limit?: number }
+): Promise<{
+  entries: LedgerEntryAttributes[];
+  total: number;
+  balance: number;
+}> => {
+  try {
+    const account = await LedgerAccount.findOne({ where: { walletId } });
+    if (!account) return { entries: [], total: 0, balance: 0 };
+
+    const queryOptions: any = {
+      where: { accountId: account.id },
+      order: [["id", "DESC"]],
+      include: [
+        {
+          model: TransactionModel,
+          as: "transactions",
+          attributes: ["id", "type", "status", "referenceId"],
+        },
+      ],
+    };
+    if (filters.page && filters.limit && filters.page > 0 && filters.limit > 0) {
+      queryOptions.offset = (filters.page - 1) * filters.limit;
+      queryOptions.limit = filters.limit;
+    }
+    const { rows: entries, count: total } =
+      await LedgerEntry.findAndCountAll(queryOptions);
+    const balance = await getLedgerBalanceRepo(account.id);
+    return { entries, total, balance };
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
+
+// Ledger balance of every wallet account, keyed by wallet id
+export const getWalletLedgerBalancesRepo = async (
+  transaction?: Transaction
+): Promise<Map<number, number>> => {
+  try {
+    const rows = (await LedgerEntry.findAll({
+      attributes: [
+        [literal("`account`.`walletId`"), "walletId"],
+        [fn("SUM", SIGNED_AMOUNT), "balance"],
+      ],
+      include: [
+        {
+          model: LedgerAccount,
+          as: "account",
+          attributes: [],
+          where: { walletId: { [Op.ne]: null } },
+        },
+      ],
+      group: ["account.walletId"],
+      raw: true,
+      transaction,
+    })) as unknown as { walletId: number; balance: string | null }[];
+    return new Map(
+      rows.map((row) => [
+        Number(row.walletId),
+        roundCredit(Number(row.balance || 0)),
+      ])
+    );
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
+
+export const getWalletIdsWithoutLedgerAccountRepo = async (): Promise<
+  number[]
+> => {
+  try {
+    const wallets = await Wallet.findAll({
+      attributes: ["id"],
+      include: [
+        {
+          model: LedgerAccount,
+          as: "ledgerAccount",
+          attributes: [],
+          required: false,
+        },
+      ],
+      where: { "$ledgerAccount.id$": null },
+    });
+    return wallets.map((wallet) => wallet.id);
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
+
+// Keep a single OPEN record per wallet, refreshed by every reconciliation run
+export const flagLedgerDriftRepo = async (
+  data: Omit<LedgerDriftAttributes, "id" | "status">
+): Promise<LedgerDriftAttributes> => {
+  try {
+    const existing = await LedgerDrift.findOne({
+      where: { walletId: data.walletId, status: LedgerDriftStatus.OPEN },
+    });
+    if (existing) {
+      await existing.update(data);
+      return existing;
+    }
+    return await LedgerDrift.create({
+      ...data,
+      status: LedgerDriftStatus.OPEN,
+    });
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
+
+export const resolveLedgerDriftsRepo = async (
+  walletIds: number[]
+): Promise<number> => {
+  try {
+    const [count] = await LedgerDrift.update(
+      { status: LedgerDriftStatus.RESOLVED },
+      {
+        where: {
+          status: LedgerDriftStatus.OPEN,
+          walletId: { [Op.notIn]: walletIds.length ? walletIds : [0] },
+        },
+      }
+    );
+    return count;
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
+
+export const getLedgerDriftListRepo = async (filters: {
+  walletId?: number;
+  status?: LedgerDriftStatus;
+  page?: number;
+  limit?: number;
+}): Promise<{ drifts: LedgerDriftAttributes[]; total: number }> => {
+  try {
+    const where: any = {};
+    if (filters.walletId) where.walletId = filters.walletId;
+    if (filters.status) where.status = filters.status;
+
+    const queryOptions: any = {
+      where,
+      order: [["updatedAt", "DESC"]],
+    };
+    if (filters.page && filters.limit && filters.page > 0 && filters.limit > 0) {
+      queryOptions.offset = (filters.page - 1) * filters.limit;
+      queryOptions.limit = filters.limit;
+    }
+    const { rows: drifts, count: total } =
+      await LedgerDrift.findAndCountAll(queryOptions);
+    return { drifts, total };
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
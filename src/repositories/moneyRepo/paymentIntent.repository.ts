@@ -0,0 +1,75 @@
+import { Op, Transaction } from "sequelize";
+import { PaymentIntent } from "../../models/index.model";
+import { PaymentIntentAttributes } from "../../interfaces/PaymentIntent.interface";
+import {
+  PaymentIntentStatus,
+  PaymentProvider,
+} from "../../enums/paymentIntent.enum";
+import { ErrorType } from "../../types/Error.type";
+
+export const createPaymentIntentRepo = async (
+  data: PaymentIntentAttributes,
+  transaction?: Transaction
+): Promise<PaymentIntentAttributes> => {
+  try {
+    return (await PaymentIntent.create(data, { transaction })).get({
+      plain: true,
+    });
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
+
+export const updatePaymentIntentRepo = async (
+  id: number,
+  data: Partial<PaymentIntentAttributes>,
+  transaction?: Transaction
+): Promise<boolean> => {
+  try {
+    const [count] = await PaymentIntent.update(data, {
+      where: { id },
+      transaction,
+    });
+    return count > 0;
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
+
+// Locks the intent when called inside a transaction, so one webhook settles it
+export const getPaymentIntentByOrderCodeRepo = async (
+  provider: PaymentProvider,
+  orderCode: number,
+  transaction?: Transaction
+): Promise<PaymentIntent | null> => {
+  try {
+    return await PaymentIntent.findOne({
+      where: { provider, orderCode },
+      transaction,
+      lock: transaction ? transaction.LOCK.UPDATE : undefined,
+    });
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
+
+// Pending intents whose link expired before the cutoff, oldest first
+export const getExpiredPendingPaymentIntentsRepo = async (
+  provider: PaymentProvider,
+  cutoff: Date,
+  limit: number
+): Promise<PaymentIntent[]> => {
+  try {
+    return await PaymentIntent.findAll({
+      where: {
+        provider,
+        status: PaymentIntentStatus.PENDING,
+        expiresAt: { [Op.lt]: cutoff },
+      },
+      order: [["expiresAt", "ASC"]],
+      limit,
+    });
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
@@ -0,0 +1,41 @@
+import { Transaction } from "sequelize";
+import { SettlementLineItem, TransactionModel } from "../../models/index.model";
+import { SettlementLineItemAttributes } from "../../interfaces/SettlementLineItem.interface";
+import { TransactionAttributes } from "../../interfaces/Transaction.interface";
+import { ErrorType } from "../../types/Error.type";
+
+export const createSettlementLineItemsRepo = async (
+  lineItems: SettlementLineItemAttributes[],
+  transaction?: Transaction
+): Promise<SettlementLineItemAttributes[]> => {
+  try {
+    return await SettlementLineItem.bulkCreate(lineItems, { transaction });
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
+
+export const getSettlementByCampaignIdRepo = async (
+  campaignId: number,
+  transaction?: Transaction
+): Promise<{
+  lineItems: SettlementLineItemAttributes[];
+  refundTransaction: TransactionAttributes | null;
+} | null> => {
+  try {
+    const lineItems = await SettlementLineItem.findAll({
+      where: { campaignId },
+      order: [["id", "ASC"]],
+      transaction,
+    });
+    if (!lineItems.length) return null;
+
+    const transactionId = lineItems[0].transactionId;
+    const refundTransaction = transactionId
+      ? await TransactionModel.findByPk(transactionId, { transaction })
+      : null;
+    return { lineItems, refundTransaction };
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
@@ -10,7 +10,29 @@ import { ErrorType } from "../../types/Error.type";
 import { Transaction as SequelizeTransaction } from "sequelize";
 import { TransactionType } from "../../enums/transactionType.enum";
 import { TransactionAttributes } from "../../interfaces/Transaction.interface";
-
+import {
+  getLedgerBalanceRepo,
+  getWalletLedgerAccountRepo,
+  postTransactionToLedgerRepo,
+} from "./ledger.repository";
+import { getReservedAmountRepo } from "./walletHold.repository";
+import { accrueAgencyCommissionRepo } from "./commission.repository";
+import { enqueueWalletWebhookEventsRepo } from "../commonRepo/webhook.repository";
+
+const DEBIT_TRANSACTION_TYPES = [
+  TransactionType.PAY_SERVICE,
+  TransactionType.ADJUSTMENT_DEBIT,
+  TransactionType.TRANSFER_OUT,
+];
+
+/**
+ * Create a wallet transaction and post it to the ledger. The wallet row is
+ * locked for the whole posting and wallet.balance is re-read from the ledger
+ * afterwards, so it is only ever a cache of the ledger sum.
+ * promotionalAmount is the part of a deposit funded by a bonus rather than
+ * by the payment itself. Transactions of users invited by an agency also
+ * accrue its commission.
+ */
 export const createTransactionRepo = async (
   data: {
     walletId: number;
@@ -18,41 +40,13 @@ export const createTransactionRepo = async (
     status: TransactionStatus;
     type: TransactionType;
     referenceId?: string | null;
+    promotionalAmount?: number;
   },
   _transaction?: SequelizeTransaction
 ): Promise<TransactionAttributes> => {
   try {
-    const wallet = await Wallet.findByPk(data.walletId, {
-      transaction: _transaction,
-    });
-    if (!wallet) {
-      throw new ErrorType("NotFoundError", "Wallet not found");
-    }
-
-    // Check for existing transaction with same referenceId and type
-    if (data.referenceId) {
-      const existingTransaction = await TransactionModel.findOne({
-        where: {
-          referenceId: data.referenceId,
-          type: data.type,
-          isDeleted: false
-        },
-        transaction: _transaction
-      });
-
-      if (existingTransaction) {
-        throw new ErrorType(
-          "DuplicateTransactionError",
-          `Transaction already exists for reference ${data.referenceId}`
-        );
-      }
-    }
-
-    // Ensure balance and amount are numbers
-    const balance = parseFloat(wallet.balance.toString());
     const amount = parseFloat(data.amount.toString());
-
-    if (isNaN(balance) || isNaN(amount)) {
+    if (isNaN(amount)) {
       throw new ErrorType("InvalidDataError", "Balance or amount is invalid");
     }
 
@@ -64,6 +58,46 @@ export const createTransactionRepo = async (
     const transaction = _transaction || (await sequelizeSystem.transaction());
 
     try {
+      const wallet = await Wallet.findByPk(data.walletId, {
+        transaction,
+        lock: transaction.LOCK.UPDATE,
+      });
+      if (!wallet) {
+        throw new ErrorType("NotFoundError", "Wallet not found");
+      }
+
+      // Check for existing transaction with same referenceId and type
+      if (data.referenceId) {
+        const existingTransaction = await TransactionModel.findOne({
+          where: {
+            referenceId: data.referenceId,
+            type: data.type,
+            isDeleted: false
+          },
+          transaction
+        });
+
+        if (existingTransaction) {
+          throw new ErrorType(
+            "DuplicateTransactionError",
+            `Transaction already exists for reference ${data.referenceId}`
+          );
+        }
+      }
+
+      const account = await getWalletLedgerAccountRepo(wallet, transaction);
+      if (DEBIT_TRANSACTION_TYPES.includes(data.type)) {
+        // Credit reserved for scheduled campaigns cannot be spent elsewhere
+        const balance = await getLedgerBalanceRepo(account.id!, transaction);
+        const reserved = await getReservedAmountRepo(wallet.id, transaction);
+        if (balance - reserved < amount) {
+          throw new ErrorType(
+            "InsufficientFundsError",
+            "Insufficient wallet balance"
+          );
+        }
+      }
+
       const newTransaction = await TransactionModel.create(
         {
           walletId: data.walletId,
@@ -86,27 +120,27 @@ export const createTransactionRepo = async (
         }
       );
 
-      if (data.type === TransactionType.PAY_SERVICE) {
-        if (balance < amount) {
-          throw new ErrorType(
-            "InsufficientFundsError",
-            "Insufficient wallet balance"
-          );
-        }
-        wallet.balance = balance - amount;
-      } else if (
-        data.type === TransactionType.DEPOSIT ||
-        data.type === TransactionType.REFUND_SERVICE
-      ) {
-        wallet.balance = balance + amount;
-      } else {
-        throw new ErrorType(
-          "InvalidTypeError",
-          "Transaction type must be PAY_SERVICE or DEPOSIT"
-        );
-      }
-
+      await postTransactionToLedgerRepo(
+        newTransaction,
+        account.id!,
+        data.promotionalAmount || 0,
+        transaction
+      );
+      const previousBalance = Number(wallet.balance);
+      wallet.balance = await getLedgerBalanceRepo(account.id!, transaction);
       await wallet.save({ transaction });
+      await accrueAgencyCommissionRepo(
+        newTransaction,
+        wallet,
+        data.promotionalAmount || 0,
+        transaction
+      );
+      await enqueueWalletWebhookEventsRepo(
+        newTransaction,
+        wallet,
+        previousBalance,
+        transaction
+      );
 
       // Commit only if we started the transaction
       if (!_transaction) {
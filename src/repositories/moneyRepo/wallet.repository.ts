@@ -1,6 +1,15 @@
+import { Transaction } from "sequelize";
 import { WalletAttributes } from "../../interfaces/Wallet.interface";
-import { Wallet } from "../../models/index.model";
+import { sequelizeSystem, Wallet } from "../../models/index.model";
 import { ErrorType } from "../../types/Error.type";
+import { TransactionStatus } from "../../enums/transactionStatus.enum";
+import { TransactionType } from "../../enums/transactionType.enum";
+import { createTransactionRepo } from "./transaction.repository";
+import {
+  getLedgerBalanceRepo,
+  getWalletLedgerAccountRepo,
+} from "./ledger.repository";
+import { getReservedAmountRepo } from "./walletHold.repository";
 
 export const getAllWalletsRepo = async (): Promise<WalletAttributes[]> => {
   try {
@@ -23,16 +32,44 @@ export const getWalletByIdRepo = async (id: number): Promise<WalletAttributes |
   }
 };
 
-export const updateWalletRepo = async (
+/**
+ * Bring a wallet to the balance an admin asked for. The difference is posted
+ * as an ADJUSTMENT_CREDIT or ADJUSTMENT_DEBIT transaction, never written over
+ * the cached balance, so the correction stays in the ledger.
+ */
+export const adjustWalletBalanceRepo = async (
   id: number,
   data: { balance: number }
 ): Promise<WalletAttributes | null> => {
   try {
-    const wallet = await Wallet.findByPk(id);
-    if (!wallet) return null;
+    return await sequelizeSystem.transaction(async (t) => {
+      const wallet = await Wallet.findByPk(id, {
+        transaction: t,
+        lock: t.LOCK.UPDATE,
+      });
+      if (!wallet) return null;
 
-    await wallet.update({ balance: data.balance });
-    return wallet;
+      const account = await getWalletLedgerAccountRepo(wallet, t);
+      const ledgerBalance = await getLedgerBalanceRepo(account.id!, t);
+      const delta =
+        Math.round((Number(data.balance) - ledgerBalance) * 100) / 100;
+      if (delta !== 0) {
+        await createTransactionRepo(
+          {
+            walletId: wallet.id,
+            amount: Math.abs(delta),
+            status: TransactionStatus.COMPLETED,
+            type:
+              delta > 0
+                ? TransactionType.ADJUSTMENT_CREDIT
+                : TransactionType.ADJUSTMENT_DEBIT,
+          },
+          t
+        );
+      }
+      await wallet.reload({ transaction: t });
+      return wallet;
+    });
   } catch (error: any) {
     throw new ErrorType(error.name, error.message, error.code);
   }
@@ -50,25 +87,23 @@ export const deleteWalletRepo = async (id: number): Promise<boolean> => {
   }
 };
 
-export const getWalletByUserIdRepo = async (userId: number): Promise<WalletAttributes | null> => {
+// Locks the wallet so balance checks hold until the transaction ends
+export const getWalletByUserIdForUpdateRepo = async (
+  userId: number,
+  transaction: Transaction
+): Promise<Wallet | null> => {
   try {
-    const wallet = await Wallet.findOne({
+    return await Wallet.findOne({
       where: { userId },
+      transaction,
+      lock: transaction.LOCK.UPDATE,
     });
-
-    if (!wallet) {
-      return null;
-    }
-    return wallet.get({ plain: true }) as WalletAttributes;
   } catch (error: any) {
-    // Handle Sequelize or other errors
-    const errorMessage = error.message || 'Failed to fetch wallet';
-    const errorCode = error.code || 'DATABASE_ERROR';
-    throw new ErrorType(error.name || 'SequelizeError', errorMessage, errorCode);
+    throw new ErrorType(error.name, error.message, error.code);
   }
 };
 
-export const updateWalletBalanceByUserId = async (userId: number,  data: { balance: number }): Promise<WalletAttributes | null> => {
+export const getWalletByUserIdRepo = async (userId: number): Promise<WalletAttributes | null> => {
   try {
     const wallet = await Wallet.findOne({
       where: { userId },
@@ -77,10 +112,12 @@ export const updateWalletBalanceByUserId = async (userId: number,  data: { balan
     if (!wallet) {
       return null;
     }
-    await wallet.update({ balance: data.balance });
-    return wallet;
+    return wallet.get({ plain: true }) as WalletAttributes;
   } catch (error: any) {
-    throw new ErrorType(error.name, error.message, error.code);
+    // Handle Sequelize or other errors
+    const errorMessage = error.message || 'Failed to fetch wallet';
+    const errorCode = error.code || 'DATABASE_ERROR';
+    throw new ErrorType(error.name || 'SequelizeError', errorMessage, errorCode);
   }
 };
 
@@ -95,7 +132,8 @@ export const compareWalletAmount = async (userId: number, cost: number): Promise
     }
 
     const walletValue = wallet.get({ plain: true }) as WalletAttributes;
-    if (walletValue.balance<cost) return false
+    const reserved = await getReservedAmountRepo(wallet.id);
+    if (walletValue.balance - reserved < cost) return false
     return true
   } catch (error: any) {
     // Handle Sequelize or other errors
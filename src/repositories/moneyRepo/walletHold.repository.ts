@@ -0,0 +1,167 @@
+import { Op, Transaction, fn, col } from "sequelize";
+import { Wallet, WalletHold } from "../../models/index.model";
+import { WalletHoldStatus } from "../../enums/walletHoldStatus.enum";
+import {
+  WalletBalances,
+  WalletHoldAttributes,
+} from "../../interfaces/WalletHold.interface";
+import { ErrorType } from "../../types/Error.type";
+import {
+  getLedgerBalanceRepo,
+  getWalletLedgerAccountRepo,
+} from "./ledger.repository";
+
+const roundCredit = (value: number): number => Math.round(value * 100) / 100;
+
+export const getReservedAmountRepo = async (
+  walletId: number,
+  transaction?: Transaction
+): Promise<number> => {
+  try {
+    const reserved = await WalletHold.sum("amount", {
+      where: { walletId, status: WalletHoldStatus.HELD },
+      transaction,
+    });
+    return roundCredit(Number(reserved) || 0);
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
+
+// Reserved credit of many wallets at once, keyed by wallet id
+export const getReservedAmountsRepo = async (
+  walletIds: number[]
+): Promise<Map<number, number>> => {
+  try {
+    if (!walletIds.length) return new Map();
+    const rows = (await WalletHold.findAll({
+      attributes: ["walletId", [fn("SUM", col("amount")), "reserved"]],
+      where: { walletId: { [Op.in]: walletIds }, status: WalletHoldStatus.HELD },
+      group: ["walletId"],
+      raw: true,
+    })) as unknown as { walletId: number; reserved: string | null }[];
+    return new Map(
+      rows.map((row) => [
+        Number(row.walletId),
+        roundCredit(Number(row.reserved) || 0),
+      ])
+    );
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
+
+export const toWalletBalances = (
+  balance: number,
+  reserved: number
+): WalletBalances => ({
+  balance: roundCredit(Number(balance) || 0),
+  reserved,
+  available: roundCredit((Number(balance) || 0) - reserved),
+});
+
+// Ledger balance minus open holds; call it with the wallet row locked
+export const getAvailableLedgerBalanceRepo = async (
+  wallet: Wallet,
+  transaction: Transaction
+): Promise<number> => {
+  try {
+    const account = await getWalletLedgerAccountRepo(wallet, transaction);
+    const balance = await getLedgerBalanceRepo(account.id!, transaction);
+    const reserved = await getReservedAmountRepo(wallet.id, transaction);
+    return roundCredit(balance - reserved);
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
+
+const lockWallet = async (
+  walletId: number,
+  transaction: Transaction
+): Promise<Wallet> => {
+  const wallet = await Wallet.findByPk(walletId, {
+    transaction,
+    lock: transaction.LOCK.UPDATE,
+  });
+  if (!wallet) {
+    throw new ErrorType("NotFoundError", "Wallet not found");
+  }
+  return wallet;
+};
+
+export const createWalletHoldRepo = async (
+  data: { walletId: number; campaignId: number; amount: number },
+  transaction: Transaction
+): Promise<WalletHoldAttributes> => {
+  try {
+    const amount = roundCredit(Number(data.amount));
+    if (isNaN(amount) || amount < 0) {
+      throw new ErrorType("InvalidAmountError", "Amount cannot be negative");
+    }
+    const wallet = await lockWallet(data.walletId, transaction);
+    const available = await getAvailableLedgerBalanceRepo(wallet, transaction);
+    if (available < amount) {
+      throw new ErrorType(
+        "InsufficientFundsError",
+        "Insufficient wallet balance"
+      );
+    }
+    return await WalletHold.create(
+      {
+        walletId: data.walletId,
+        campaignId: data.campaignId,
+        amount,
+        capturedAmount: 0,
+        status: WalletHoldStatus.HELD,
+        transactionId: null,
+      },
+      { transaction }
+    );
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
+
+export const getHeldCampaignHoldRepo = async (
+  campaignId: number,
+  transaction: Transaction
+): Promise<WalletHold | null> => {
+  try {
+    return await WalletHold.findOne({
+      where: { campaignId, status: WalletHoldStatus.HELD },
+      transaction,
+      lock: transaction.LOCK.UPDATE,
+    });
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
+
+// Raising a hold needs the extra credit to be available, lowering it never fails
+export const updateWalletHoldAmountRepo = async (
+  hold: WalletHold,
+  amount: number,
+  transaction: Transaction
+): Promise<WalletHoldAttributes> => {
+  try {
+    const newAmount = roundCredit(Math.max(amount, 0));
+    const increase = roundCredit(newAmount - hold.amount);
+    if (increase > 0) {
+      const wallet = await lockWallet(hold.walletId, transaction);
+      const available = await getAvailableLedgerBalanceRepo(
+        wallet,
+        transaction
+      );
+      if (available < increase) {
+        throw new ErrorType(
+          "InsufficientFundsError",
+          "Insufficient wallet balance"
+        );
+      }
+    }
+    await hold.update({ amount: newAmount }, { transaction });
+    return hold;
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
@@ -0,0 +1,292 @@
+import { Op, Transaction } from "sequelize";
+import {
+  Agency,
+  WithdrawalEvent,
+  WithdrawalRequest,
+} from "../../models/index.model";
+import { WithdrawalStatus } from "../../enums/withdrawalStatus.enum";
+import {
+  LedgerAccountType,
+  LedgerEntryDirection,
+} from "../../enums/ledger.enum";
+import {
+  AgencyEarnings,
+  WithdrawalRequestAttributes,
+} from "../../interfaces/Withdrawal.interface";
+import { ErrorType } from "../../types/Error.type";
+import {
+  getAgencyLedgerAccountRepo,
+  getLedgerBalanceRepo,
+  getSystemLedgerAccountRepo,
+  postLedgerEntriesRepo,
+} from "./ledger.repository";
+
+const roundCredit = (value: number): number => Math.round(value * 100) / 100;
+
+// Requests that still hold part of the earned balance
+export const OPEN_WITHDRAWAL_STATUSES = [
+  WithdrawalStatus.PENDING,
+  WithdrawalStatus.APPROVED,
+  WithdrawalStatus.PROCESSING,
+  WithdrawalStatus.NEEDS_RECONCILIATION,
+];
+
+// Lock the agency row so concurrent requests see each other's reservations
+export const lockAgencyRepo = async (
+  agencyId: number,
+  transaction: Transaction
+): Promise<Agency | null> => {
+  try {
+    return await Agency.findOne({
+      where: { id: agencyId, isDeleted: false },
+      transaction,
+      lock: transaction.LOCK.UPDATE,
+    });
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
+
+export const getAgencyEarningsRepo = async (
+  agencyId: number,
+  transaction?: Transaction
+): Promise<AgencyEarnings> => {
+  try {
+    const account = await getAgencyLedgerAccountRepo(agencyId, transaction);
+    const earned = await getLedgerBalanceRepo(account.id!, transaction);
+    const reserved = await WithdrawalRequest.sum("amount", {
+      where: { agencyId, status: { [Op.in]: OPEN_WITHDRAWAL_STATUSES } },
+      transaction,
+    });
+    return {
+      earned,
+      reserved: roundCredit(Number(reserved) || 0),
+      available: roundCredit(earned - (Number(reserved) || 0)),
+    };
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
+
+// Credit requested since the given time, rejected and cancelled requests excluded
+export const getRequestedWithdrawalAmountRepo = async (
+  agencyId: number,
+  since: Date,
+  transaction?: Transaction
+): Promise<number> => {
+  try {
+    const requested = await WithdrawalRequest.sum("amount", {
+      where: {
+        agencyId,
+        createdAt: { [Op.gte]: since },
+        status: {
+          [Op.notIn]: [WithdrawalStatus.REJECTED, WithdrawalStatus.CANCELLED],
+        },
+      },
+      transaction,
+    });
+    return roundCredit(Number(requested) || 0);
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
+
+export const createWithdrawalRequestRepo = async (
+  data: Pick<
+    WithdrawalRequestAttributes,
+    | "agencyId"
+    | "userId"
+    | "amount"
+    | "usdAmount"
+    | "currency"
+    | "network"
+    | "address"
+  >,
+  transaction: Transaction
+): Promise<WithdrawalRequest> => {
+  try {
+    const request = await WithdrawalRequest.create(
+      {
+        ...data,
+        cryptoAmount: null,
+        exchangeRate: null,
+        status: WithdrawalStatus.PENDING,
+        trackId: null,
+        reviewedBy: null,
+        reviewedAt: null,
+        rejectReason: null,
+        failureReason: null,
+        completedAt: null,
+      },
+      { transaction }
+    );
+    await WithdrawalEvent.create(
+      {
+        withdrawalId: request.id,
+        fromStatus: null,
+        toStatus: WithdrawalStatus.PENDING,
+        actorId: data.userId,
+        note: null,
+      },
+      { transaction }
+    );
+    return request;
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
+
+// Locks the request when called inside a transaction
+export const getWithdrawalRequestByIdRepo = async (
+  id: number,
+  transaction?: Transaction
+): Promise<WithdrawalRequest | null> => {
+  try {
+    return await WithdrawalRequest.findByPk(id, {
+      transaction,
+      lock: transaction ? transaction.LOCK.UPDATE : undefined,
+    });
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
+
+export const getWithdrawalRequestByTrackIdRepo = async (
+  trackId: string,
+  transaction: Transaction
+): Promise<WithdrawalRequest | null> => {
+  try {
+    return await WithdrawalRequest.findOne({
+      where: { trackId },
+      transaction,
+      lock: transaction.LOCK.UPDATE,
+    });
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
+
+export const getWithdrawalRequestDetailRepo = async (
+  id: number
+): Promise<WithdrawalRequestAttributes | null> => {
+  try {
+    return await WithdrawalRequest.findByPk(id, {
+      include: [
+        {
+          model: WithdrawalEvent,
+          as: "events",
+        },
+      ],
+      order: [[{ model: WithdrawalEvent, as: "events" }, "id", "ASC"]],
+    });
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
+
+/**
+ * Move a locked request to a new status and record who did it. The caller
+ * checks that the transition is allowed.
+ */
+export const transitionWithdrawalRepo = async (
+  request: WithdrawalRequest,
+  toStatus: WithdrawalStatus,
+  change: {
+    actorId: number | null;
+    note?: string | null;
+    data?: Partial<WithdrawalRequestAttributes>;
+  },
+  transaction: Transaction
+): Promise<WithdrawalRequest> => {
+  try {
+    const fromStatus = request.status;
+    await request.update(
+      { ...(change.data || {}), status: toStatus },
+      { transaction }
+    );
+    await WithdrawalEvent.create(
+      {
+        withdrawalId: request.id,
+        fromStatus,
+        toStatus,
+        actorId: change.actorId,
+        note: change.note || null,
+      },
+      { transaction }
+    );
+    return request;
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
+
+// The payout left the platform: the agency is owed less and cash went out
+export const postWithdrawalToLedgerRepo = async (
+  request: WithdrawalRequestAttributes,
+  transaction: Transaction
+): Promise<void> => {
+  try {
+    const payable = await getAgencyLedgerAccountRepo(
+      request.agencyId,
+      transaction
+    );
+    const cash = await getSystemLedgerAccountRepo(
+      LedgerAccountType.CASH,
+      transaction
+    );
+    await postLedgerEntriesRepo(
+      {
+        transactionId: null,
+        reference: `withdrawal:${request.id}`,
+        postings: [
+          {
+            accountId: payable.id!,
+            direction: LedgerEntryDirection.DEBIT,
+            amount: request.amount,
+          },
+          {
+            accountId: cash.id!,
+            direction: LedgerEntryDirection.CREDIT,
+            amount: request.amount,
+          },
+        ],
+      },
+      transaction
+    );
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
+
+export const getWithdrawalRequestListRepo = async (filters: {
+  agencyId?: number;
+  status?: WithdrawalStatus;
+  page?: number;
+  limit?: number;
+}): Promise<{ withdrawals: WithdrawalRequestAttributes[]; total: number }> => {
+  try {
+    const where: any = {};
+    if (filters.agencyId) where.agencyId = filters.agencyId;
+    if (filters.status) where.status = filters.status;
+
+    // The PENDING queue is listed oldest first so admins work it in order
+    const queryOptions: any = {
+      where,
+      order: [
+        [
+          "createdAt",
+          filters.status === WithdrawalStatus.PENDING ? "ASC" : "DESC",
+        ],
+      ],
+    };
+    if (filters.page && filters.limit && filters.page > 0 && filters.limit > 0) {
+      queryOptions.offset = (filters.page - 1) * filters.limit;
+      queryOptions.limit = filters.limit;
+    }
+    const { rows: withdrawals, count: total } =
+      await WithdrawalRequest.findAndCountAll(queryOptions);
+    return { withdrawals, total };
+  } catch (error: any) {
+    throw new ErrorType(error.name, error.message, error.code);
+  }
+};
@@ -0,0 +1,135 @@
+import express from "express";
+import {
+  getBotOutboxById,
+  replayBotOutbox,
+  replayDeadBotOutbox,
+  searchBotOutbox,
+} from "../../../controllers/coreController/botOutbox.controller";
+import { authorization } from "../../../middleware/auth";
+
+const router = express.Router();
+
+/**
+ * @swagger
+ * /bot-outbox/search:
+ *   post:
+ *     summary: Search bot outbox messages
+ *     description: List queued, delivered and dead-lettered calls to the Python bot API, with pagination support.
+ *     tags: [BOT]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               campaignId:
+ *                 type: integer
+ *                 example: 12
+ *               endpoint:
+ *                 type: string
+ *                 example: "keyword/set"
+ *               status:
+ *                 type: string
+ *                 enum: [PENDING, PROCESSING, DELIVERED, DEAD]
+ *                 example: "DEAD"
+ *               page:
+ *                 type: integer
+ *                 example: 1
+ *               limit:
+ *                 type: integer
+ *                 example: 10
+ *     responses:
+ *       200:
+ *         description: Outbox messages retrieved successfully
+ *       400:
+ *         description: Invalid status filter
+ *       500:
+ *         description: Internal server error
+ */
+router.post("/search", authorization(["read-bot-outbox"]), searchBotOutbox);
+
+/**
+ * @swagger
+ * /bot-outbox/replay-dead:
+ *   post:
+ *     summary: Replay all dead-lettered outbox messages
+ *     description: Re-queue every DEAD message for immediate delivery, optionally restricted to one campaign.
+ *     tags: [BOT]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               campaignId:
+ *                 type: integer
+ *                 example: 12
+ *     responses:
+ *       200:
+ *         description: Dead outbox messages queued for replay
+ *       500:
+ *         description: Internal server error
+ */
+router.post(
+  "/replay-dead",
+  authorization(["replay-bot-outbox"]),
+  replayDeadBotOutbox
+);
+
+/**
+ * @swagger
+ * /bot-outbox/{id}:
+ *   get:
+ *     summary: Get an outbox message by ID
+ *     description: Returns the payload, attempts and last delivery error of one outbox message.
+ *     tags: [BOT]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Outbox message retrieved successfully
+ *       404:
+ *         description: Outbox message not found
+ *       500:
+ *         description: Internal server error
+ */
+router.get("/:id", authorization(["read-bot-outbox"]), getBotOutboxById);
+
+/**
+ * @swagger
+ * /bot-outbox/replay/{id}:
+ *   put:
+ *     summary: Replay an outbox message
+ *     description: Reset attempts and re-queue a dead-lettered message, or one whose dispatcher lock is older than 5 minutes, for immediate delivery. Messages waiting for a retry or being delivered cannot be replayed.
+ *     tags: [BOT]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Outbox message queued for replay
+ *       400:
+ *         description: Message is delivered, waiting for a retry or being delivered
+ *       404:
+ *         description: Outbox message not found
+ */
+router.put("/replay/:id", authorization(["replay-bot-outbox"]), replayBotOutbox);
+
+export default router;
@@ -0,0 +1,175 @@
+import express from "express";
+import {
+  createApiKey,
+  getApiKeys,
+  revokeApiKey,
+} from "../../../controllers/commonController/apiKey.controller";
+import { authorization } from "../../../middleware/auth";
+
+const router = express.Router();
+
+/**
+ * @swagger
+ * tags:
+ *   name: API Keys
+ *   description: |
+ *     Keys for scripts and integrations. Send a key as `X-API-Key: tsk_...` (or `Authorization: Bearer tsk_...`)
+ *     on the /campaigns, /keywords, /report and /wallets routes. A key acts as its owner with only the
+ *     permissions chosen for it, and answers 429 once it exceeds its rate limit; every response carries
+ *     X-RateLimit-Limit, X-RateLimit-Remaining and X-RateLimit-Reset.
+ *
+ * components:
+ *   schemas:
+ *     ApiKey:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: integer
+ *           example: 1
+ *         userId:
+ *           type: integer
+ *           example: 2
+ *         name:
+ *           type: string
+ *           example: "Reporting script"
+ *         keyPrefix:
+ *           type: string
+ *           example: "tsk_Zx81aQ2c"
+ *         permissions:
+ *           type: array
+ *           items:
+ *             type: string
+ *           example: ["search-campaigns", "read-campaign"]
+ *         rateLimit:
+ *           type: integer
+ *           description: Requests per minute
+ *           example: 60
+ *         lastUsedAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         expiresAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         revokedAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         isActive:
+ *           type: boolean
+ *           example: true
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ */
+
+/**
+ * @swagger
+ * /api-keys:
+ *   post:
+ *     summary: Create an API key
+ *     description: The key is returned once, only its hash is stored. Permissions must be a subset of your own.
+ *     tags: [API Keys]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - permissions
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 example: "Reporting script"
+ *               permissions:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 example: ["search-campaigns", "read-campaign"]
+ *               rateLimit:
+ *                 type: integer
+ *                 description: Requests per minute, 60 by default
+ *                 example: 120
+ *               expiresAt:
+ *                 type: string
+ *                 format: date-time
+ *                 example: "2026-12-31T00:00:00Z"
+ *     responses:
+ *       201:
+ *         description: API key created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   allOf:
+ *                     - $ref: '#/components/schemas/ApiKey'
+ *                     - type: object
+ *                       properties:
+ *                         key:
+ *                           type: string
+ *                           example: "tsk_Zx81aQ2c..."
+ *       400:
+ *         description: Invalid name, permissions, rateLimit or expiresAt, or too many active keys
+ *   get:
+ *     summary: List your API keys
+ *     description: Includes revoked and expired keys, with their last use.
+ *     tags: [API Keys]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: API keys retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/ApiKey'
+ */
+router.post("/", authorization(["manage-api-keys"]), createApiKey);
+router.get("/", authorization(["manage-api-keys"]), getApiKeys);
+
+/**
+ * @swagger
+ * /api-keys/{id}:
+ *   delete:
+ *     summary: Revoke an API key
+ *     description: The key stops working immediately.
+ *     tags: [API Keys]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: API key revoked successfully
+ *       404:
+ *         description: API key not found or already revoked
+ */
+router.delete("/:id", authorization(["manage-api-keys"]), revokeApiKey);
+
+export default router;
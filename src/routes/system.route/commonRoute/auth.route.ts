@@ -1,13 +1,34 @@
 import express from "express";
 import {
   changePassword,
+  completeTwoFactorEnrollment,
   confirmUser,
+  forgotPassword,
   getMe,
   loginUser,
   refreshToken,
   registerUser,
   resendOtp,
+  resetPassword,
+  sendTwoFactorLoginEmail,
+  startTwoFactorEnrollment,
+  verifyTwoFactorLogin,
 } from "../../../controllers/commonController/auth.controller";
+import {
+  disableTwoFactor,
+  enableTwoFactor,
+  getTwoFactorStatus,
+  regenerateTwoFactorBackupCodes,
+  sendTwoFactorEmailCode,
+  setupTwoFactor,
+} from "../../../controllers/commonController/twoFactor.controller";
+import {
+  getSessions,
+  logout,
+  logoutAllDevices,
+  refreshSessionToken,
+  revokeSessionById,
+} from "../../../controllers/commonController/session.controller";
 import { authenticateToken } from "../../../middleware/auth";
 import { getUserImage } from "../../../controllers/commonController/user.controller";
 import { checkInviteCode } from "../../../controllers/coreController/agency.controller";
@@ -75,7 +96,7 @@ router.get("/image/:id", getUserImage);
  * /auth:
  *   post:
  *     summary: User login
- *     description: Authenticate a user with email and password, returning  JWT token.
+ *     description: Authenticate a user with email and password, returning  JWT token. When the user has two-factor authentication enabled, or it is mandatory for them (TWO_FACTOR_MANDATORY config, admins and agency owners), no token is returned; the response carries twoFactorRequired, enrollmentRequired and a challengeToken to finish the login with /auth/2fa/verify or /auth/2fa/enroll.
  *     tags: [Authentication]
  *     requestBody:
  *       required: true
@@ -111,6 +132,10 @@ router.get("/image/:id", getUserImage);
  *                   type: string
  *                   description: JWT token for authentication
  *                   example: eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...
+ *                 refreshToken:
+ *                   type: string
+ *                   description: Opaque single-use token for POST /auth/token/refresh
+ *                   example: rt_Zk3...
  *       400:
  *         description: Bad request - Missing email or password
  *         content:
@@ -377,6 +402,76 @@ router.post("/register", registerUser);
  *                   example: Database connection failed
  */
 router.post("/change-password", authenticateToken, changePassword);
+
+/**
+ * @swagger
+ * /auth/forgot-password:
+ *   post:
+ *     summary: Request a password reset link
+ *     description: Emails a single-use reset link valid for 30 minutes. The answer is the same whether or not the email has an account. Limited to 3 requests per email and 10 per IP address per hour.
+ *     tags: [Authentication]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - email
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 example: user@example.com
+ *     responses:
+ *       200:
+ *         description: Reset link sent if the account exists
+ *         content:
+ *           application/json:
+ *             example:
+ *               status: true
+ *               message: If an account exists for this email, a reset link has been sent
+ *       400:
+ *         description: Missing or invalid email
+ *       429:
+ *         description: Too many password reset requests for this email or IP address
+ */
+router.post("/forgot-password", forgotPassword);
+
+/**
+ * @swagger
+ * /auth/reset-password:
+ *   post:
+ *     summary: Set a new password with a reset link
+ *     description: Consumes the token from the emailed link and logs the user out of every session.
+ *     tags: [Authentication]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - token
+ *               - newPassword
+ *             properties:
+ *               token:
+ *                 type: string
+ *                 description: Token from the reset link
+ *               newPassword:
+ *                 type: string
+ *                 example: newPassword123
+ *     responses:
+ *       200:
+ *         description: Password reset
+ *         content:
+ *           application/json:
+ *             example:
+ *               status: true
+ *               message: Password reset successfully, please log in again
+ *       400:
+ *         description: Invalid password, or the link is invalid, expired or already used
+ */
+router.post("/reset-password", resetPassword);
 /**
  * @swagger
  * /auth/getMe:
@@ -481,82 +576,22 @@ router.get("/getMe", authenticateToken, getMe);
  * @swagger
  * /auth/refresh:
  *   get:
- *     summary: Refresh an access token
- *     description: Refreshes an existing access token by validating it, blacklisting the old token, and issuing a new one. The token must be provided in the Authorization header as a Bearer token.
+ *     summary: Removed, use POST /auth/token/refresh
+ *     description: Renewing an access token from itself let any token live forever, past refresh token rotation and reuse detection. The endpoint now always answers 410; refresh with the refresh token from the login at POST /auth/token/refresh.
+ *     deprecated: true
  *     tags:
  *       - Authentication
- *     security:
- *       - bearerAuth: []
  *     responses:
- *       200:
- *         description: Token refreshed successfully
- *         content:
- *           application/json:
- *             schema:
- *               type: object
- *               properties:
- *                 status:
- *                   type: boolean
- *                   example: true
- *                 message:
- *                   type: string
- *                   example: Token refreshed successfully
- *                 data:
- *                   type: object
- *                   properties:
- *                     token:
- *                       type: string
- *                       description: The new JWT access token
- *                       example: eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...
- *       400:
- *         description: Bad request - Access token is missing
- *         content:
- *           application/json:
- *             schema:
- *               type: object
- *               properties:
- *                 status:
- *                   type: boolean
- *                   example: false
- *                 message:
- *                   type: string
- *                   example: Access token is required
- *       401:
- *         description: Unauthorized - Token is blacklisted or invalid/expired
- *         content:
- *           application/json:
- *             schema:
- *               type: object
- *               properties:
- *                 status:
- *                   type: boolean
- *                   example: false
- *                 message:
- *                   type: string
- *                   example: Token is blacklisted
- *       500:
- *         description: Internal server error
+ *       410:
+ *         description: Endpoint removed
  *         content:
  *           application/json:
- *             schema:
- *               type: object
- *               properties:
- *                 status:
- *                   type: boolean
- *                   example: false
- *                 message:
- *                   type: string
- *                   example: Internal server error
- *                 error:
- *                   type: string
- *                   example: Something went wrong
- *     securitySchemes:
- *       bearerAuth:
- *         type: http
- *         scheme: bearer
- *         bearerFormat: JWT
+ *             example:
+ *               status: false
+ *               message: This endpoint was removed, use POST /auth/token/refresh with your refresh token
+ *               error: EndpointRemovedError
  */
-router.get("/refresh", authenticateToken, refreshToken);
+router.get("/refresh", refreshToken);
 /**
  * @swagger
  * /auth/confirm:
@@ -742,4 +777,442 @@ router.post("/resend-otp", resendOtp);
  */
 router.post("/checkInviteCode",checkInviteCode)
 
+/**
+ * @swagger
+ * /auth/2fa/verify:
+ *   post:
+ *     summary: Finish a login with a second factor
+ *     description: Exchanges the challengeToken from POST /auth and a code for the usual login response. A challenge lives 5 minutes and allows 5 attempts; every code is single use.
+ *     tags: [Authentication]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - challengeToken
+ *               - code
+ *             properties:
+ *               challengeToken:
+ *                 type: string
+ *               method:
+ *                 type: string
+ *                 enum: [totp, backup_code, email]
+ *                 default: totp
+ *               code:
+ *                 type: string
+ *                 example: "123456"
+ *     responses:
+ *       200:
+ *         description: Login successful
+ *       401:
+ *         description: Invalid code, or the challenge expired
+ *       429:
+ *         description: Too many attempts, log in again
+ */
+router.post("/2fa/verify", verifyTwoFactorLogin);
+
+/**
+ * @swagger
+ * /auth/2fa/email:
+ *   post:
+ *     summary: Email a sign-in code
+ *     description: Fallback for users without their authenticator app. The code is then sent to /auth/2fa/verify with method "email". One email per minute.
+ *     tags: [Authentication]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - challengeToken
+ *             properties:
+ *               challengeToken:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Verification code sent
+ *       401:
+ *         description: The challenge expired
+ *       429:
+ *         description: A code was sent less than a minute ago
+ */
+router.post("/2fa/email", sendTwoFactorLoginEmail);
+
+/**
+ * @swagger
+ * /auth/2fa/enroll:
+ *   post:
+ *     summary: Set up 2FA during a login that requires it
+ *     description: For a challenge with enrollmentRequired. Returns the secret, its otpauth URL and a QR code to scan.
+ *     tags: [Authentication]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - challengeToken
+ *             properties:
+ *               challengeToken:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Secret created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/TwoFactorSetup'
+ *       401:
+ *         description: The challenge expired
+ */
+router.post("/2fa/enroll", startTwoFactorEnrollment);
+
+/**
+ * @swagger
+ * /auth/2fa/enroll/verify:
+ *   post:
+ *     summary: Confirm the 2FA setup and finish the login
+ *     description: Enables 2FA with a first code from the app and returns the login response together with the backup codes, shown only this once.
+ *     tags: [Authentication]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - challengeToken
+ *               - code
+ *             properties:
+ *               challengeToken:
+ *                 type: string
+ *               code:
+ *                 type: string
+ *                 example: "123456"
+ *     responses:
+ *       200:
+ *         description: Two-factor authentication enabled and login successful
+ *       401:
+ *         description: Invalid code, or the challenge expired
+ */
+router.post("/2fa/enroll/verify", completeTwoFactorEnrollment);
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     TwoFactorSetup:
+ *       type: object
+ *       properties:
+ *         status:
+ *           type: boolean
+ *         message:
+ *           type: string
+ *         data:
+ *           type: object
+ *           properties:
+ *             secret:
+ *               type: string
+ *               description: Base32 secret, for manual entry
+ *             otpauthUrl:
+ *               type: string
+ *               example: "otpauth://totp/Cyno%20Traffic:john%40example.com?secret=...&issuer=Cyno%20Traffic"
+ *             qrCode:
+ *               type: string
+ *               description: PNG data URL of the otpauth URL
+ *
+ * /auth/2fa:
+ *   get:
+ *     summary: Two-factor status of the current user
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Two-factor status retrieved successfully
+ *         content:
+ *           application/json:
+ *             example:
+ *               status: true
+ *               message: Two-factor status retrieved successfully
+ *               data:
+ *                 enabled: true
+ *                 enabledAt: "2025-06-01T10:00:00.000Z"
+ *                 backupCodesRemaining: 9
+ *                 required: false
+ */
+router.get("/2fa", authenticateToken, getTwoFactorStatus);
+
+/**
+ * @swagger
+ * /auth/2fa/setup:
+ *   post:
+ *     summary: Start enrolling an authenticator app
+ *     description: Creates a new secret; 2FA stays off until /auth/2fa/enable confirms a code. Calling it again replaces a secret that was not confirmed yet.
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Secret created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/TwoFactorSetup'
+ *       400:
+ *         description: Two-factor authentication is already enabled
+ */
+router.post("/2fa/setup", authenticateToken, setupTwoFactor);
+
+/**
+ * @swagger
+ * /auth/2fa/enable:
+ *   post:
+ *     summary: Confirm the setup with a code from the app
+ *     description: Returns 10 backup codes, shown only this once.
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               code:
+ *                 type: string
+ *                 example: "123456"
+ *     responses:
+ *       200:
+ *         description: Two-factor authentication enabled
+ *         content:
+ *           application/json:
+ *             example:
+ *               status: true
+ *               message: Two-factor authentication enabled, store the backup codes somewhere safe as they will not be shown again
+ *               data:
+ *                 backupCodes: ["3f9a1-0c2d4", "..."]
+ *       400:
+ *         description: No setup started, or already enabled
+ *       401:
+ *         description: Invalid code
+ */
+router.post("/2fa/enable", authenticateToken, enableTwoFactor);
+
+/**
+ * @swagger
+ * /auth/2fa/email-code:
+ *   post:
+ *     summary: Email a verification code to the current user
+ *     description: For re-authenticating with method "email" when disabling 2FA or renewing backup codes. One email per minute.
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Verification code sent
+ *       429:
+ *         description: A code was sent less than a minute ago
+ */
+router.post("/2fa/email-code", authenticateToken, sendTwoFactorEmailCode);
+
+/**
+ * @swagger
+ * /auth/2fa/backup-codes:
+ *   post:
+ *     summary: Replace the backup codes
+ *     description: Needs the password and a second factor. The previous backup codes stop working.
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/TwoFactorReauth'
+ *     responses:
+ *       200:
+ *         description: New backup codes generated
+ *       401:
+ *         description: Incorrect password or code
+ */
+router.post(
+  "/2fa/backup-codes",
+  authenticateToken,
+  regenerateTwoFactorBackupCodes
+);
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     TwoFactorReauth:
+ *       type: object
+ *       required:
+ *         - password
+ *         - code
+ *       properties:
+ *         password:
+ *           type: string
+ *         method:
+ *           type: string
+ *           enum: [totp, backup_code, email]
+ *           default: totp
+ *         code:
+ *           type: string
+ *
+ * /auth/2fa/disable:
+ *   post:
+ *     summary: Turn two-factor authentication off
+ *     description: Needs the password and a second factor. Not allowed while 2FA is mandatory for the user.
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/TwoFactorReauth'
+ *     responses:
+ *       200:
+ *         description: Two-factor authentication disabled
+ *       401:
+ *         description: Incorrect password or code
+ *       403:
+ *         description: Two-factor authentication is mandatory for the account
+ */
+router.post("/2fa/disable", authenticateToken, disableTwoFactor);
+
+/**
+ * @swagger
+ * /auth/token/refresh:
+ *   post:
+ *     summary: Rotate a refresh token
+ *     description: Exchanges the refresh token for a new access token and a new refresh token. Each refresh token works once; sending a used one again is treated as theft and logs its session out on every device.
+ *     tags: [Authentication]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - refreshToken
+ *             properties:
+ *               refreshToken:
+ *                 type: string
+ *                 example: rt_Zk3...
+ *     responses:
+ *       200:
+ *         description: Token refreshed successfully
+ *         content:
+ *           application/json:
+ *             example:
+ *               status: true
+ *               message: Token refreshed successfully
+ *               data:
+ *                 token: eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...
+ *                 refreshToken: rt_Qa8...
+ *                 refreshTokenExpiresAt: "2025-07-01T10:00:00.000Z"
+ *       401:
+ *         description: Invalid, expired or reused refresh token
+ */
+router.post("/token/refresh", refreshSessionToken);
+
+/**
+ * @swagger
+ * /auth/sessions:
+ *   get:
+ *     summary: List signed-in devices
+ *     description: Open sessions of the current user, most recently seen first. `current` marks the session of the calling token.
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Sessions retrieved successfully
+ *         content:
+ *           application/json:
+ *             example:
+ *               status: true
+ *               message: Sessions retrieved successfully
+ *               data:
+ *                 - id: 12
+ *                   userAgent: Mozilla/5.0 (Windows NT 10.0; Win64; x64)
+ *                   ipAddress: 203.0.113.7
+ *                   lastSeenAt: "2025-06-01T10:00:00.000Z"
+ *                   expiresAt: "2025-07-01T10:00:00.000Z"
+ *                   createdAt: "2025-06-01T08:00:00.000"
+ *                   current: true
+ */
+router.get("/sessions", authenticateToken, getSessions);
+
+/**
+ * @swagger
+ * /auth/sessions/{id}:
+ *   delete:
+ *     summary: Log out a device
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Session logged out successfully
+ *       404:
+ *         description: Session not found or already logged out
+ */
+router.delete("/sessions/:id", authenticateToken, revokeSessionById);
+
+/**
+ * @swagger
+ * /auth/logout:
+ *   post:
+ *     summary: Log out this device
+ *     description: Ends the session of the calling token; its access and refresh tokens stop working.
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Logged out successfully
+ */
+router.post("/logout", authenticateToken, logout);
+
+/**
+ * @swagger
+ * /auth/logout-all:
+ *   post:
+ *     summary: Log out all devices
+ *     description: Ends every session of the current user, including this one.
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Sessions logged out
+ *         content:
+ *           application/json:
+ *             example:
+ *               status: true
+ *               message: Logged out of 3 session(s)
+ *               data:
+ *                 revokedSessions: 3
+ */
+router.post("/logout-all", authenticateToken, logoutAllDevices);
+
 export default router;
@@ -1,9 +1,20 @@
 import express from "express";
 import {
+  bulkUpdateNotifications,
   createNotification,
+  deleteNotificationChannel,
+  getNotificationDeliveries,
+  getNotificationPreferences,
   getNotificationsByUserIdAndType,
+  getUnreadNotificationCount,
+  markAllNotificationsRead,
+  retryNotificationDelivery,
+  saveNotificationChannel,
+  setNotificationState,
+  updateNotificationPreferences,
 } from "../../../controllers/commonController/notification.controller";
 import { authorization } from "../../../middleware/auth";
+import { NotificationRecipientState } from "../../../enums/notification.enum";
 // ok em
 const router = express.Router();
 
@@ -137,6 +148,10 @@ router.post("/", authorization(["create-notification"]), createNotification);
  *                 type: string
  *                 description: Type of the notification
  *                 example: "INFO"
+ *               state:
+ *                 type: string
+ *                 enum: [UNREAD, READ, ARCHIVED, ALL]
+ *                 description: Defaults to the inbox, every notification that is not archived
  *               page:
  *                 type: integer
  *                 description: Page number for pagination (default is 0, which skips pagination)
@@ -170,9 +185,6 @@ router.post("/", authorization(["create-notification"]), createNotification);
  *                           id:
  *                             type: integer
  *                             example: 1
- *                           userId:
- *                             type: integer
- *                             example: 1
  *                           name:
  *                             type: string
  *                             example: "Payment Reminder"
@@ -186,6 +198,16 @@ router.post("/", authorization(["create-notification"]), createNotification);
  *                             type: string
  *                             format: date-time
  *                             example: "2025-04-10T07:00:00"
+ *                           isRead:
+ *                             type: boolean
+ *                           readAt:
+ *                             type: string
+ *                             format: date-time
+ *                             nullable: true
+ *                           archivedAt:
+ *                             type: string
+ *                             format: date-time
+ *                             nullable: true
  *                     total:
  *                       type: integer
  *                       example: 50
@@ -228,4 +250,454 @@ router.post(
   getNotificationsByUserIdAndType
 );
 
+/**
+ * @swagger
+ * /notifications/unread-count:
+ *   get:
+ *     summary: Count the caller's unread notifications
+ *     description: Unread and not archived, in total and per notification type, for the bell badge.
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Unread notification count retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   $ref: '#/components/schemas/UnreadNotificationCount'
+ */
+router.get(
+  "/unread-count",
+  authorization(["read-notifications"]),
+  getUnreadNotificationCount
+);
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     UnreadNotificationCount:
+ *       type: object
+ *       properties:
+ *         total:
+ *           type: integer
+ *           example: 3
+ *         byType:
+ *           type: object
+ *           additionalProperties:
+ *             type: integer
+ *           example: { "REFUND_MONEY": 1, "RUNNING_CAMPAIGN": 2 }
+ *
+ * /notifications/read-all:
+ *   post:
+ *     summary: Mark all of the caller's notifications as read
+ *     description: Other open tabs receive a notificationStateChanged socket event with notificationIds null and the new unread counts.
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               type:
+ *                 type: string
+ *                 description: Only notifications of this type
+ *                 example: RUNNING_CAMPAIGN
+ *     responses:
+ *       200:
+ *         description: Notifications marked as read
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     updated:
+ *                       type: integer
+ *                       example: 12
+ */
+router.post(
+  "/read-all",
+  authorization(["read-notifications"]),
+  markAllNotificationsRead
+);
+
+/**
+ * @swagger
+ * /notifications/bulk:
+ *   post:
+ *     summary: Mark several notifications read, unread or archived
+ *     description: Ids that are not the caller's, or already in that state, are skipped. Archiving also marks as read; marking unread brings a notification back from the archive.
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [ids, state]
+ *             properties:
+ *               ids:
+ *                 type: array
+ *                 items:
+ *                   type: integer
+ *                 example: [12, 15]
+ *               state:
+ *                 type: string
+ *                 enum: [UNREAD, READ, ARCHIVED]
+ *     responses:
+ *       200:
+ *         description: Notifications updated successfully
+ *       400:
+ *         description: Missing ids or invalid state
+ */
+router.post(
+  "/bulk",
+  authorization(["read-notifications"]),
+  bulkUpdateNotifications
+);
+
+/**
+ * @swagger
+ * /notifications/{id}/{action}:
+ *   post:
+ *     summary: Mark one notification read, unread or archived
+ *     description: |
+ *       Changes are pushed to the caller's open tabs as a notificationStateChanged socket event:
+ *       { state, notificationIds, type?, unread: UnreadNotificationCount }
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: path
+ *         name: action
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [read, unread, archive]
+ *     responses:
+ *       200:
+ *         description: Notification updated successfully
+ *       404:
+ *         description: Notification not found
+ */
+router.post(
+  "/:id/read",
+  authorization(["read-notifications"]),
+  setNotificationState(NotificationRecipientState.READ)
+);
+router.post(
+  "/:id/unread",
+  authorization(["read-notifications"]),
+  setNotificationState(NotificationRecipientState.UNREAD)
+);
+router.post(
+  "/:id/archive",
+  authorization(["read-notifications"]),
+  setNotificationState(NotificationRecipientState.ARCHIVED)
+);
+
+/**
+ * @swagger
+ * /notifications/preferences:
+ *   get:
+ *     summary: Get the caller's notification preferences
+ *     description: One entry per notification type and channel with the value in effect. isDefault is true when the user never changed it. IN_APP is on by default, EMAIL for money and running-campaign types, TELEGRAM and WEBHOOK once connected.
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Notification preferences retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: Notification preferences retrieved successfully
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     preferences:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           type:
+ *                             type: string
+ *                             example: REFUND_MONEY
+ *                           channel:
+ *                             type: string
+ *                             enum: [IN_APP, EMAIL, TELEGRAM, WEBHOOK]
+ *                           enabled:
+ *                             type: boolean
+ *                           isDefault:
+ *                             type: boolean
+ *                     endpoints:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           channel:
+ *                             type: string
+ *                             enum: [TELEGRAM, WEBHOOK]
+ *                           target:
+ *                             type: string
+ *                           isActive:
+ *                             type: boolean
+ *                           hasSecret:
+ *                             type: boolean
+ *   put:
+ *     summary: Turn channels on or off per notification type
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - preferences
+ *             properties:
+ *               preferences:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   required: [type, channel, enabled]
+ *                   properties:
+ *                     type:
+ *                       type: string
+ *                       example: RUNNING_CAMPAIGN
+ *                     channel:
+ *                       type: string
+ *                       enum: [IN_APP, EMAIL, TELEGRAM, WEBHOOK]
+ *                     enabled:
+ *                       type: boolean
+ *                       example: true
+ *     responses:
+ *       200:
+ *         description: Notification preferences updated successfully
+ *       400:
+ *         description: Unknown type or channel
+ */
+router.get(
+  "/preferences",
+  authorization(["manage-notification-preferences"]),
+  getNotificationPreferences
+);
+router.put(
+  "/preferences",
+  authorization(["manage-notification-preferences"]),
+  updateNotificationPreferences
+);
+
+/**
+ * @swagger
+ * /notifications/channels/{channel}:
+ *   put:
+ *     summary: Connect Telegram or a webhook
+ *     description: |
+ *       TELEGRAM takes the chat id the bot should write to (or an @channel name).
+ *       WEBHOOK takes a public http(s) URL (loopback, private and link-local addresses are rejected) that receives each notification as a JSON POST. With a secret, X-Notification-Signature holds the hex HMAC-SHA256 of "<X-Notification-Timestamp>.<raw body>".
+ *       Saving again replaces the previous target.
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: channel
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [TELEGRAM, WEBHOOK]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - target
+ *             properties:
+ *               target:
+ *                 type: string
+ *                 example: "https://example.com/hooks/notifications"
+ *               secret:
+ *                 type: string
+ *                 description: Webhooks only
+ *     responses:
+ *       200:
+ *         description: Notification channel saved successfully
+ *       400:
+ *         description: Invalid channel or target
+ *   delete:
+ *     summary: Disconnect Telegram or a webhook
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: channel
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [TELEGRAM, WEBHOOK]
+ *     responses:
+ *       200:
+ *         description: Notification channel removed successfully
+ *       404:
+ *         description: Notification channel not found
+ */
+router.put(
+  "/channels/:channel",
+  authorization(["manage-notification-preferences"]),
+  saveNotificationChannel
+);
+router.delete(
+  "/channels/:channel",
+  authorization(["manage-notification-preferences"]),
+  deleteNotificationChannel
+);
+
+/**
+ * @swagger
+ * /notifications/deliveries/search:
+ *   post:
+ *     summary: List email, Telegram and webhook deliveries
+ *     description: Users see their own deliveries; admins may filter by userId. A delivery is retried with backoff and becomes DEAD after its last failed attempt.
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               userId:
+ *                 type: integer
+ *                 description: Admins only
+ *               notificationId:
+ *                 type: integer
+ *               channel:
+ *                 type: string
+ *                 enum: [EMAIL, TELEGRAM, WEBHOOK]
+ *               status:
+ *                 type: string
+ *                 enum: [PENDING, PROCESSING, DELIVERED, DEAD]
+ *               page:
+ *                 type: integer
+ *                 example: 1
+ *               limit:
+ *                 type: integer
+ *                 example: 10
+ *     responses:
+ *       200:
+ *         description: Notification deliveries retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     deliveries:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           id:
+ *                             type: integer
+ *                           notificationId:
+ *                             type: integer
+ *                           channel:
+ *                             type: string
+ *                           target:
+ *                             type: string
+ *                           status:
+ *                             type: string
+ *                           attempts:
+ *                             type: integer
+ *                           lastError:
+ *                             type: string
+ *                             nullable: true
+ *                           deliveredAt:
+ *                             type: string
+ *                             format: date-time
+ *                             nullable: true
+ *                     total:
+ *                       type: integer
+ */
+router.post(
+  "/deliveries/search",
+  authorization(["manage-notification-preferences"]),
+  getNotificationDeliveries
+);
+
+/**
+ * @swagger
+ * /notifications/deliveries/{id}/retry:
+ *   post:
+ *     summary: Retry a dead delivery now
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Notification delivery queued for retry
+ *       400:
+ *         description: The delivery is not DEAD
+ *       404:
+ *         description: Notification delivery not found
+ */
+router.post(
+  "/deliveries/:id/retry",
+  authorization(["manage-notification-preferences"]),
+  retryNotificationDelivery
+);
+
 export default router;
@@ -0,0 +1,361 @@
+import express from "express";
+import {
+  createWebhookEndpoint,
+  deleteWebhookEndpoint,
+  getWebhookDeliveries,
+  getWebhookEndpoints,
+  retryWebhookDelivery,
+  sendTestWebhookEvent,
+  updateWebhookEndpoint,
+} from "../../../controllers/commonController/webhook.controller";
+import { authorization } from "../../../middleware/auth";
+
+const router = express.Router();
+
+/**
+ * @swagger
+ * tags:
+ *   name: Webhooks
+ *   description: |
+ *     Endpoints that receive campaign and wallet events as a JSON POST of `{ id, event, createdAt, data }`.
+ *     Each request carries X-Webhook-Id (the event id, the same on every retry), X-Webhook-Event,
+ *     X-Webhook-Timestamp and X-Webhook-Signature, the hex HMAC-SHA256 of "<X-Webhook-Timestamp>.<raw body>"
+ *     with the endpoint's secret. Any non-2xx answer is retried with exponential backoff, 8 attempts in all.
+ *
+ * components:
+ *   schemas:
+ *     WebhookEndpoint:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: integer
+ *           example: 1
+ *         url:
+ *           type: string
+ *           example: "https://example.com/hooks/traffic"
+ *         events:
+ *           type: array
+ *           items:
+ *             type: string
+ *             enum: [campaign.created, campaign.activated, campaign.paused, campaign.completed, campaign.cancelled, refund.issued, deposit.completed, wallet.low_balance]
+ *         description:
+ *           type: string
+ *           nullable: true
+ *         lowBalanceThreshold:
+ *           type: number
+ *           nullable: true
+ *           description: wallet.low_balance fires when the balance drops below it (10 by default)
+ *           example: 50
+ *         isActive:
+ *           type: boolean
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         updatedAt:
+ *           type: string
+ *           format: date-time
+ *     WebhookDelivery:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: integer
+ *         endpointId:
+ *           type: integer
+ *         eventId:
+ *           type: string
+ *         event:
+ *           type: string
+ *           example: campaign.paused
+ *         payload:
+ *           type: object
+ *         status:
+ *           type: string
+ *           enum: [PENDING, PROCESSING, DELIVERED, DEAD]
+ *         attempts:
+ *           type: integer
+ *         nextAttemptAt:
+ *           type: string
+ *           format: date-time
+ *         responseStatus:
+ *           type: integer
+ *           nullable: true
+ *           example: 200
+ *         responseBody:
+ *           type: string
+ *           nullable: true
+ *         lastError:
+ *           type: string
+ *           nullable: true
+ *         deliveredAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ */
+
+/**
+ * @swagger
+ * /webhooks:
+ *   post:
+ *     summary: Register a webhook endpoint
+ *     description: The signing secret is returned once, in this response.
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - url
+ *               - events
+ *             properties:
+ *               url:
+ *                 type: string
+ *                 description: Public http(s) URL; loopback, private and link-local addresses are rejected
+ *                 example: "https://example.com/hooks/traffic"
+ *               events:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 example: ["campaign.completed", "refund.issued"]
+ *               description:
+ *                 type: string
+ *               lowBalanceThreshold:
+ *                 type: number
+ *                 example: 50
+ *     responses:
+ *       201:
+ *         description: Webhook endpoint created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: boolean
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   allOf:
+ *                     - $ref: '#/components/schemas/WebhookEndpoint'
+ *                     - type: object
+ *                       properties:
+ *                         secret:
+ *                           type: string
+ *                           example: "whsec_3f9a..."
+ *       400:
+ *         description: Invalid url, events or threshold, or too many endpoints
+ *   get:
+ *     summary: List your webhook endpoints
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Webhook endpoints retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: boolean
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/WebhookEndpoint'
+ */
+router.post("/", authorization(["manage-webhooks"]), createWebhookEndpoint);
+router.get("/", authorization(["manage-webhooks"]), getWebhookEndpoints);
+
+/**
+ * @swagger
+ * /webhooks/deliveries/search:
+ *   post:
+ *     summary: List webhook deliveries
+ *     description: Users see deliveries of their own endpoints; admins may filter by userId. Newest first, with the receiver's response code and the start of its body.
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               userId:
+ *                 type: integer
+ *                 description: Admins only
+ *               endpointId:
+ *                 type: integer
+ *               event:
+ *                 type: string
+ *                 example: refund.issued
+ *               status:
+ *                 type: string
+ *                 enum: [PENDING, PROCESSING, DELIVERED, DEAD]
+ *               page:
+ *                 type: integer
+ *                 example: 1
+ *               limit:
+ *                 type: integer
+ *                 example: 20
+ *     responses:
+ *       200:
+ *         description: Webhook deliveries retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: boolean
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     deliveries:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/WebhookDelivery'
+ *                     total:
+ *                       type: integer
+ */
+router.post(
+  "/deliveries/search",
+  authorization(["manage-webhooks"]),
+  getWebhookDeliveries
+);
+
+/**
+ * @swagger
+ * /webhooks/deliveries/{id}/retry:
+ *   post:
+ *     summary: Retry a failed webhook delivery
+ *     description: Only DEAD deliveries can be retried; the delivery is queued again with a fresh set of attempts.
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Webhook delivery queued for retry
+ *       400:
+ *         description: The delivery has not failed
+ *       404:
+ *         description: Webhook delivery not found
+ */
+router.post(
+  "/deliveries/:id/retry",
+  authorization(["manage-webhooks"]),
+  retryWebhookDelivery
+);
+
+/**
+ * @swagger
+ * /webhooks/{id}:
+ *   put:
+ *     summary: Update a webhook endpoint
+ *     description: Only the fields sent are changed. isActive false stops new events without deleting the endpoint.
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               url:
+ *                 type: string
+ *               events:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               description:
+ *                 type: string
+ *               lowBalanceThreshold:
+ *                 type: number
+ *               isActive:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Webhook endpoint updated successfully
+ *       400:
+ *         description: Invalid field
+ *       404:
+ *         description: Webhook endpoint not found
+ *   delete:
+ *     summary: Delete a webhook endpoint
+ *     description: Its delivery log is deleted with it.
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Webhook endpoint deleted successfully
+ *       404:
+ *         description: Webhook endpoint not found
+ */
+router.put("/:id", authorization(["manage-webhooks"]), updateWebhookEndpoint);
+router.delete("/:id", authorization(["manage-webhooks"]), deleteWebhookEndpoint);
+
+/**
+ * @swagger
+ * /webhooks/{id}/test:
+ *   post:
+ *     summary: Send a test event
+ *     description: Sends a signed webhook.test event right away, whatever the endpoint subscribes to, and returns the logged delivery. A failed test is not retried.
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Result of the test, status is false when the endpoint did not answer 2xx
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: boolean
+ *                 message:
+ *                   type: string
+ *                   example: Test event delivered
+ *                 data:
+ *                   $ref: '#/components/schemas/WebhookDelivery'
+ *       404:
+ *         description: Webhook endpoint not found
+ */
+router.post("/:id/test", authorization(["manage-webhooks"]), sendTestWebhookEvent);
+
+export default router;
@@ -12,15 +12,23 @@ import keywordRoute from "./coreRoute/keyword.route";
 import linkRoute from "./coreRoute/link.route";
 import reportRoute from "./coreRoute/report.route";
 import botRoute from "./botRoute/bot.route";
+import botOutboxRoute from "./botRoute/botOutbox.route";
 import oxapayRoute from "./moneyRoute/oxapay.route"
 import configRoute from "./commonRoute/config.route"
 import agencyRoute from "./coreRoute/agency.route"
+import agencyClientRoute from "./coreRoute/agencyClient.route";
 import packageRoute from "./moneyRoute/package.route"
+import payOsRoute from "./moneyRoute/payOs.route";
+import withdrawalRoute from "./moneyRoute/withdrawal.route";
+import commissionRoute from "./moneyRoute/commission.route";
 import reportUserRoute from "./commonRoute/reportUser.route"
 // Common routes
 import authRoute from "./commonRoute/auth.route";
 import notificationRoute from "./commonRoute/notification.route";
+import apiKeyRoute from "./commonRoute/apiKey.route";
+import webhookRoute from "./commonRoute/webhook.route";
 import campaignRoute from "./coreRoute/campaign.route";
+import campaignTemplateRoute from "./coreRoute/campaignTemplate.route";
 import directLinkRoute from "./coreRoute/directLink.route";
 import googleMapsReviewRoute from "./coreRoute/googleMapReview.route"
 export const publicRoutes = {
@@ -36,17 +44,25 @@ export const protectedRoutes = {
   "/wallets": walletRoute,
   "/permissions": permissionRoute,
   "/notifications": notificationRoute,
+  "/api-keys": apiKeyRoute,
+  "/webhooks": webhookRoute,
   "/keywords": keywordRoute,
   "/links": linkRoute,
   "/roles": roleRoute,
   "/campaigns": campaignRoute,
+  "/campaign-templates": campaignTemplateRoute,
   "/role-permissions": rolePermissionRoute,
   "/report": reportRoute,
   "/bot" : botRoute,
+  "/bot-outbox": botOutboxRoute,
   "/oxapay": oxapayRoute,
   "/configs": configRoute,
   "/agencies": agencyRoute,
+  "/agency-clients": agencyClientRoute,
   "/packages": packageRoute,
+  "/payments/payos": payOsRoute,
+  "/withdrawals": withdrawalRoute,
+  "/commissions": commissionRoute,
   "/report-user": reportUserRoute,
   "/direct-link": directLinkRoute,
   "google-maps-review": googleMapsReviewRoute
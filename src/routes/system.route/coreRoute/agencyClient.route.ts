@@ -0,0 +1,348 @@
+import express from "express";
+import {
+  getAgencyClient,
+  getAgencyClientList,
+  onBehalfOfClient,
+  topUpAgencyClient,
+} from "../../../controllers/coreController/agencyClient.controller";
+import {
+  createCampaign,
+  createDirectLinkCampaign,
+  createGoogleMapReviewCampaign,
+} from "../../../controllers/coreController/campaign.controller";
+import { agencyScope, authorization } from "../../../middleware/auth";
+
+const router = express.Router();
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     AgencyClient:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: integer
+ *           example: 42
+ *         username:
+ *           type: string
+ *           example: client01
+ *         email:
+ *           type: string
+ *           example: client01@example.com
+ *         phoneNumber:
+ *           type: string
+ *         isActive:
+ *           type: boolean
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         walletId:
+ *           type: integer
+ *           nullable: true
+ *         balance:
+ *           type: number
+ *           example: 250
+ *         reserved:
+ *           type: number
+ *           description: Held for scheduled campaigns
+ *           example: 50
+ *         available:
+ *           type: number
+ *           example: 200
+ *         activeCampaigns:
+ *           type: integer
+ *           example: 2
+ *         totalSpend:
+ *           type: number
+ *           description: Credit charged for campaigns, net of refunds
+ *           example: 1200
+ *         lastActivityAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *           description: Latest transaction or campaign change
+ */
+
+/**
+ * @swagger
+ * /agency-clients/search:
+ *   post:
+ *     summary: List the calling agency's clients
+ *     description: Users who registered with the agency's invite code, with their wallet balance, active campaigns, total spend and last activity.
+ *     tags: [Agency Clients]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               search:
+ *                 type: string
+ *                 description: Part of the username or email
+ *               page:
+ *                 type: integer
+ *                 example: 1
+ *               limit:
+ *                 type: integer
+ *                 example: 10
+ *     responses:
+ *       200:
+ *         description: Clients retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: Clients retrieved successfully
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     clients:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/AgencyClient'
+ *                     total:
+ *                       type: integer
+ *       403:
+ *         description: The caller is not an agency
+ */
+router.post(
+  "/search",
+  authorization(["manage-agency-clients"]),
+  agencyScope,
+  getAgencyClientList
+);
+
+/**
+ * @swagger
+ * /agency-clients/{clientId}:
+ *   get:
+ *     summary: Get one client with its recent campaigns
+ *     tags: [Agency Clients]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: clientId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Client retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: Client retrieved successfully
+ *                 data:
+ *                   allOf:
+ *                     - $ref: '#/components/schemas/AgencyClient'
+ *                     - type: object
+ *                       properties:
+ *                         campaigns:
+ *                           type: array
+ *                           description: The 10 latest campaigns
+ *                           items:
+ *                             type: object
+ *       403:
+ *         description: The caller is not an agency
+ *       404:
+ *         description: The user was not invited by the agency
+ */
+router.get(
+  "/:clientId",
+  authorization(["manage-agency-clients"]),
+  agencyScope,
+  getAgencyClient
+);
+
+/**
+ * @swagger
+ * /agency-clients/{clientId}/top-up:
+ *   post:
+ *     summary: Top up a client's wallet from the agency's wallet
+ *     description: Moves credit from the agency owner's wallet to the client's wallet as a TRANSFER_OUT / TRANSFER_IN pair. Credit held for the agency's own scheduled campaigns cannot be moved. A top-up earns no commission.
+ *     tags: [Agency Clients]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: clientId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - amount
+ *             properties:
+ *               amount:
+ *                 type: number
+ *                 description: Credit to move
+ *                 example: 100
+ *     responses:
+ *       200:
+ *         description: Client wallet topped up successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: Client wallet topped up successfully
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     reference:
+ *                       type: string
+ *                       description: referenceId of both transactions
+ *                       example: "agency-topup:2f1c0b9e-0d5a-4c61-9a53-0c1f3f7f6d11"
+ *                     amount:
+ *                       type: number
+ *                       example: 100
+ *                     client:
+ *                       $ref: '#/components/schemas/AgencyClient'
+ *       400:
+ *         description: Invalid amount or not enough available credit in the agency wallet
+ *       403:
+ *         description: The caller is not an agency
+ *       404:
+ *         description: Client or wallet not found
+ */
+router.post(
+  "/:clientId/top-up",
+  authorization(["manage-agency-clients"]),
+  agencyScope,
+  topUpAgencyClient
+);
+
+/**
+ * @swagger
+ * /agency-clients/{clientId}/campaigns:
+ *   post:
+ *     summary: Create a keyword campaign for a client
+ *     description: Same body as POST /campaigns; the campaign belongs to the client in the URL, whatever userId the body holds, and is paid from the client's wallet.
+ *     tags: [Agency Clients]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: clientId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *     responses:
+ *       201:
+ *         description: Campaign created successfully
+ *       400:
+ *         description: Invalid field or insufficient balance
+ *       403:
+ *         description: The caller is not an agency
+ *       404:
+ *         description: The user was not invited by the agency
+ */
+router.post(
+  "/:clientId/campaigns",
+  authorization(["manage-agency-clients", "create-campaign"]),
+  agencyScope,
+  onBehalfOfClient(createCampaign)
+);
+
+/**
+ * @swagger
+ * /agency-clients/{clientId}/campaigns/direct-links:
+ *   post:
+ *     summary: Create a direct link campaign for a client
+ *     description: Same body as POST /campaigns/direct-links, created for the client in the URL.
+ *     tags: [Agency Clients]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: clientId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *     responses:
+ *       201:
+ *         description: Campaign created successfully
+ *       404:
+ *         description: The user was not invited by the agency
+ */
+router.post(
+  "/:clientId/campaigns/direct-links",
+  authorization(["manage-agency-clients", "create-campaign"]),
+  agencyScope,
+  onBehalfOfClient(createDirectLinkCampaign)
+);
+
+/**
+ * @swagger
+ * /agency-clients/{clientId}/campaigns/google-maps-review:
+ *   post:
+ *     summary: Create a Google Maps review campaign for a client
+ *     description: Same body as POST /campaigns/google-maps-review, created for the client in the URL.
+ *     tags: [Agency Clients]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: clientId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *     responses:
+ *       201:
+ *         description: Campaign created successfully
+ *       404:
+ *         description: The user was not invited by the agency
+ */
+router.post(
+  "/:clientId/campaigns/google-maps-review",
+  authorization(["manage-agency-clients", "create-campaign"]),
+  agencyScope,
+  onBehalfOfClient(createGoogleMapReviewCampaign)
+);
+
+export default router;
@@ -8,6 +8,9 @@ import {
   cancelCampaign,
   createDirectLinkCampaign,
   createGoogleMapReviewCampaign,
+  updateCampaign,
+  cloneCampaign,
+  getCampaignSettlement,
 } from "../../../controllers/coreController/campaign.controller"; // Adjust path
 import { authorization } from "../../../middleware/auth";
 
@@ -314,6 +317,20 @@ router.post("/search", authorization(["search-campaigns"]), getCampaignList);
  *                       type: string
  *                       description: Link URL
  *                       example: "https://example.com/link"
+ *               recurrence:
+ *                 type: string
+ *                 enum: [WEEKLY, MONTHLY]
+ *                 description: Optional. Renew the campaign for the next period when it completes. Only for campaign types 1 and 5, and the period must not be longer than the interval.
+ *                 example: "MONTHLY"
+ *               recurrenceCount:
+ *                 type: integer
+ *                 description: Total number of occurrences including this one. Required with recurrence unless recurrenceUntil is set.
+ *                 example: 6
+ *               recurrenceUntil:
+ *                 type: string
+ *                 format: date-time
+ *                 description: No occurrence starts after this date. Required with recurrence unless recurrenceCount is set.
+ *                 example: "2025-12-31T00:00:00Z"
  *     responses:
  *       201:
  *         description: Campaign created successfully
@@ -601,6 +618,353 @@ router.post("/", authorization(["create-campaign"]), createCampaign);
  *                   example: Database error
  */
 router.get("/:id", authorization(["read-campaign"]), getCampaignById);
+
+/**
+ * @swagger
+ * /campaigns/{id}:
+ *   patch:
+ *     summary: Edit a running campaign
+ *     description: Extend the endDate, add or remove keywords, links and direct links, or raise keyword traffic. The cost is recomputed and the difference is charged to or refunded from the owner's wallet. Traffic already delivered on removed items stays billed. Only NOT_STARTED and ACTIVE campaigns can be edited.
+ *     tags: [Campaigns]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: The ID of the campaign to edit
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               endDate:
+ *                 type: string
+ *                 format: date-time
+ *                 description: New end date, must be after the current one
+ *                 example: "2025-05-20T00:00:00Z"
+ *               addKeywords:
+ *                 type: array
+ *                 description: Keywords to add, same shape as on campaign creation
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     name:
+ *                       type: string
+ *                       example: "summer sale"
+ *                     urls:
+ *                       type: array
+ *                       items:
+ *                         type: string
+ *                       example: ["https://example.com/page1"]
+ *                     distribution:
+ *                       type: string
+ *                       enum: [DAY, MONTH, YEAR]
+ *                       example: "DAY"
+ *                     traffic:
+ *                       type: integer
+ *                       example: 100
+ *                     timeOnSite:
+ *                       type: integer
+ *                       example: 1
+ *                     keywordType:
+ *                       type: string
+ *                       enum: [ORGANIC, VIDEO]
+ *                       example: "ORGANIC"
+ *               removeKeywordIds:
+ *                 type: array
+ *                 items:
+ *                   type: integer
+ *                 example: [12]
+ *               updateKeywords:
+ *                 type: array
+ *                 description: Keywords whose traffic is raised
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     id:
+ *                       type: integer
+ *                       example: 10
+ *                     traffic:
+ *                       type: integer
+ *                       example: 500
+ *               addLinks:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     link:
+ *                       type: string
+ *                       example: "https://example.com/blog"
+ *                     distribution:
+ *                       type: string
+ *                       enum: [DAY, MONTH, YEAR]
+ *                       example: "DAY"
+ *               removeLinkIds:
+ *                 type: array
+ *                 items:
+ *                   type: integer
+ *                 example: [3]
+ *               addDirectLinks:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     link:
+ *                       type: string
+ *                       example: "https://example.com/landing"
+ *                     distribution:
+ *                       type: string
+ *                       enum: [DAY, MONTH, YEAR]
+ *                       example: "DAY"
+ *                     traffic:
+ *                       type: integer
+ *                       example: 200
+ *                     timeOnSite:
+ *                       type: integer
+ *                       example: 1
+ *                     type:
+ *                       type: string
+ *                       enum: [ORGANIC, VIDEO]
+ *                       example: "ORGANIC"
+ *               removeDirectLinkIds:
+ *                 type: array
+ *                 items:
+ *                   type: integer
+ *                 example: [7]
+ *     responses:
+ *       200:
+ *         description: Campaign updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "Campaign updated successfully"
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     id:
+ *                       type: integer
+ *                       example: 1
+ *                     endDate:
+ *                       type: string
+ *                       format: date-time
+ *                     totalTraffic:
+ *                       type: integer
+ *                       example: 1500
+ *                     cost:
+ *                       type: number
+ *                       description: Cost of the campaign items after the edit
+ *                       example: 1500
+ *                     costDelta:
+ *                       type: number
+ *                       description: Amount charged (positive) or refunded (negative)
+ *                       example: 300
+ *                     keywords:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                     links:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                     directLinks:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *       400:
+ *         description: Invalid edit, campaign not editable or insufficient balance
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Campaign belongs to another user
+ *       404:
+ *         description: Campaign not found
+ *       500:
+ *         description: Internal server error
+ *       503:
+ *         description: Bot API unavailable, delivered traffic of removed items cannot be settled
+ */
+router.patch("/:id", authorization(["update-campaign"]), updateCampaign);
+
+/**
+ * @swagger
+ * /campaigns/{id}/clone:
+ *   post:
+ *     summary: Clone a campaign
+ *     description: Create a new campaign with the same settings, keywords, links and direct links as an existing one, over new dates. The copy is re-priced with the current config values and charged to the owner's wallet.
+ *     tags: [Campaigns]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: The ID of the campaign to clone
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - startDate
+ *               - endDate
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 description: Name of the new campaign, defaults to the original name with "(copy)"
+ *                 example: "Summer Sale - June"
+ *               startDate:
+ *                 type: string
+ *                 format: date-time
+ *                 example: "2025-06-01T00:00:00Z"
+ *               endDate:
+ *                 type: string
+ *                 format: date-time
+ *                 example: "2025-06-30T00:00:00Z"
+ *     responses:
+ *       201:
+ *         description: Campaign cloned successfully
+ *       400:
+ *         description: Invalid dates, nothing to clone or insufficient balance
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Campaign belongs to another user
+ *       404:
+ *         description: Campaign not found
+ *       500:
+ *         description: Internal server error
+ */
+router.post("/:id/clone", authorization(["create-campaign"]), cloneCampaign);
+
+/**
+ * @swagger
+ * /campaigns/{id}/settlement:
+ *   get:
+ *     summary: Get the refund breakdown of a campaign
+ *     description: >
+ *       Reconcile every billable item (keyword, link day, direct link, maps review) against the traffic the bot delivered.
+ *       Once the refund job has settled the campaign the stored line items and their REFUND_SERVICE transaction are returned
+ *       (settled = true); before that a preview is computed from the current bot counts (settled = false).
+ *     tags: [Campaigns]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: The ID of the campaign
+ *     responses:
+ *       200:
+ *         description: Campaign settlement retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: Campaign settlement retrieved successfully
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     settled:
+ *                       type: boolean
+ *                       example: true
+ *                     campaignId:
+ *                       type: integer
+ *                       example: 12
+ *                     totalBilled:
+ *                       type: number
+ *                       example: 300
+ *                     totalDelivered:
+ *                       type: number
+ *                       example: 270
+ *                     totalRefund:
+ *                       type: number
+ *                       example: 30
+ *                     lineItems:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           itemType:
+ *                             type: string
+ *                             enum: [KEYWORD, LINK, DIRECT_LINK, GOOGLE_MAP_REVIEW, ADJUSTMENT]
+ *                             example: "KEYWORD"
+ *                           itemId:
+ *                             type: integer
+ *                             example: 31
+ *                           name:
+ *                             type: string
+ *                             example: "summer sale"
+ *                           unit:
+ *                             type: string
+ *                             enum: [TRAFFIC, DAY, REVIEW, CREDIT]
+ *                             example: "TRAFFIC"
+ *                           billedQuantity:
+ *                             type: integer
+ *                             example: 3000
+ *                           deliveredQuantity:
+ *                             type: integer
+ *                             example: 2700
+ *                           billedCost:
+ *                             type: number
+ *                             example: 300
+ *                           deliveredCost:
+ *                             type: number
+ *                             example: 270
+ *                           refundAmount:
+ *                             type: number
+ *                             example: 30
+ *                     transaction:
+ *                       type: object
+ *                       nullable: true
+ *                       properties:
+ *                         id:
+ *                           type: integer
+ *                           example: 88
+ *                         amount:
+ *                           type: number
+ *                           example: 30
+ *                         type:
+ *                           type: string
+ *                           example: "REFUND_SERVICE"
+ *                         status:
+ *                           type: string
+ *                           example: "COMPLETED"
+ *                         createdAt:
+ *                           type: string
+ *                           format: date-time
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Campaign belongs to another user
+ *       404:
+ *         description: Campaign not found
+ *       500:
+ *         description: Internal server error, e.g. the bot could not be reached for a preview
+ */
+router.get("/:id/settlement", authorization(["read-campaign"]), getCampaignSettlement);
 /**
  * @swagger
  * /campaigns/pause/{id}:
@@ -867,131 +1231,80 @@ router.put("/continue/:id", authorization(["read-campaign"]), getContinueCampaig
  * @swagger
  * /campaigns/cancel/{id}:
  *   put:
- *     summary: Stop a campaign by ID
- *     description: Pauses a campaign by setting its status to PAUSED, updating the endDate to the current time, and setting all associated keywords and links to INACTIVE.
+ *     summary: Cancel a campaign by ID
+ *     description: >
+ *       Stops every keyword, link and direct link of the campaign on the bot today, sets its status to CANCEL and
+ *       immediately refunds the undelivered value (undelivered keyword and direct link traffic plus the remaining link days)
+ *       as a REFUND_SERVICE transaction. The breakdown is then available from GET /campaigns/{id}/settlement.
+ *       Admins can replace the computed refund with refundAmount.
  *     tags:
  *       - Campaigns
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: id
  *         required: true
  *         schema:
  *           type: integer
- *         description: The ID of the campaign to stop
+ *         description: The ID of the campaign to cancel
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               reason:
+ *                 type: string
+ *                 description: Why the campaign is cancelled, stored on the campaign and sent in the notification
+ *                 example: "Client paused the promotion"
+ *               refundAmount:
+ *                 type: number
+ *                 description: Admin only. Refund this amount instead of the computed one, at most the amount billed
+ *                 example: 150
  *     responses:
  *       200:
- *         description: Campaign stopped successfully
+ *         description: Campaign cancelled and refunded successfully
  *         content:
  *           application/json:
  *             schema:
  *               type: object
  *               properties:
- *                 id:
- *                   type: integer
- *                   description: The ID of the campaign
- *                 title:
- *                   type: string
- *                   description: The title of the campaign
- *                 name:
- *                   type: string
- *                   description: The name of the campaign
- *                 startDate:
- *                   type: string
- *                   format: date-time
- *                   description: The start date of the campaign
- *                 endDate:
- *                   type: string
- *                   format: date-time
- *                   description: The end date of the campaign (set to current time)
- *                 domain:
- *                   type: string
- *                   description: The domain associated with the campaign
  *                 status:
- *                   type: string
- *                   enum: [COMPLETED]
- *                   description: The status of the campaign (COMPLETED)
- *                 createdAt:
- *                   type: string
- *                   format: date-time
- *                   description: The creation date of the campaign
- *                 updatedAt:
- *                   type: string
- *                   format: date-time
- *                   description: The last update date of the campaign
- *                 links:
- *                   type: array
- *                   items:
- *                     type: object
- *                     properties:
- *                       id:
- *                         type: integer
- *                       url:
- *                         type: string
- *                       status:
- *                         type: string
- *                         enum: [INACTIVE]
- *                   description: List of associated links (all set to INACTIVE)
- *                 keywords:
- *                   type: array
- *                   items:
- *                     type: object
- *                     properties:
- *                       id:
- *                         type: integer
- *                       keyword:
- *                         type: string
- *                       status:
- *                         type: string
- *                         enum: [INACTIVE]
- *                   description: List of associated keywords (all set to INACTIVE)
- *       400:
- *         description: Bad request due to invalid input
- *         content:
- *           application/json:
- *             schema:
- *               type: object
- *               properties:
- *                 name:
- *                   type: string
- *                   example: ValidationError
+ *                   type: boolean
+ *                   example: true
  *                 message:
  *                   type: string
- *                   example: Invalid campaign ID
- *                 code:
- *                   type: integer
- *                   example: 400
+ *                   example: Stop campaign successfully
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     campaignId:
+ *                       type: integer
+ *                       example: 12
+ *                     status:
+ *                       type: string
+ *                       example: "CANCEL"
+ *                     cancelReason:
+ *                       type: string
+ *                       example: "Client paused the promotion"
+ *                     refundAmount:
+ *                       type: number
+ *                       example: 150
+ *                     settlement:
+ *                       type: object
+ *                       description: Same shape as the data of GET /campaigns/{id}/settlement
+ *       400:
+ *         description: Campaign cannot be cancelled in its current status, or invalid refundAmount
+ *       403:
+ *         description: Campaign belongs to another user, or a non-admin sent refundAmount
  *       404:
  *         description: Campaign not found
- *         content:
- *           application/json:
- *             schema:
- *               type: object
- *               properties:
- *                 name:
- *                   type: string
- *                   example: NotFoundError
- *                 message:
- *                   type: string
- *                   example: Campaign with id 123 not found
- *                 code:
- *                   type: integer
- *                   example: 404
+ *       409:
+ *         description: Campaign has already been settled
  *       500:
- *         description: Internal server error
- *         content:
- *           application/json:
- *             schema:
- *               type: object
- *               properties:
- *                 name:
- *                   type: string
- *                   example: UnknownError
- *                 message:
- *                   type: string
- *                   example: Failed to stop campaign
- *                 code:
- *                   type: integer
- *                   example: 500
+ *         description: Internal server error, e.g. the bot could not be reached to measure delivered traffic
  */
 router.put("/cancel/:id", authorization(["read-campaign"]), cancelCampaign);
 
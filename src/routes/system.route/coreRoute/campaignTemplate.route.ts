@@ -0,0 +1,265 @@
+import express from "express";
+import {
+  createCampaignTemplate,
+  deleteCampaignTemplate,
+  getCampaignTemplateById,
+  searchCampaignTemplates,
+  updateCampaignTemplate,
+} from "../../../controllers/coreController/campaignTemplate.controller";
+import { authorization } from "../../../middleware/auth";
+
+const router = express.Router();
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     CampaignTemplateInput:
+ *       type: object
+ *       properties:
+ *         name:
+ *           type: string
+ *           example: "Monthly SEO - example.com"
+ *         campaignTypeId:
+ *           type: integer
+ *           example: 1
+ *         countryId:
+ *           type: integer
+ *           example: 1
+ *         device:
+ *           type: string
+ *           example: "Mobile"
+ *         title:
+ *           type: string
+ *           example: "UTC"
+ *         domain:
+ *           type: string
+ *           example: "example.com"
+ *         search:
+ *           type: string
+ *           example: "Google"
+ *         keywords:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 example: "summer sale"
+ *               urls:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 example: ["https://example.com/page1"]
+ *               distribution:
+ *                 type: string
+ *                 enum: [DAY, MONTH, YEAR]
+ *                 example: "DAY"
+ *               traffic:
+ *                 type: integer
+ *                 example: 100
+ *               timeOnSite:
+ *                 type: integer
+ *                 example: 1
+ *               keywordType:
+ *                 type: string
+ *                 enum: [ORGANIC, VIDEO]
+ *                 example: "ORGANIC"
+ *               videoTitle:
+ *                 type: string
+ *                 example: ""
+ *         links:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               link:
+ *                 type: string
+ *                 example: "https://example.com/blog"
+ *               distribution:
+ *                 type: string
+ *                 enum: [DAY, MONTH, YEAR]
+ *                 example: "DAY"
+ *         directLinks:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               link:
+ *                 type: string
+ *                 example: "https://example.com/landing"
+ *               distribution:
+ *                 type: string
+ *                 enum: [DAY, MONTH, YEAR]
+ *                 example: "DAY"
+ *               traffic:
+ *                 type: integer
+ *                 example: 200
+ *               timeOnSite:
+ *                 type: integer
+ *                 example: 1
+ *               type:
+ *                 type: string
+ *                 enum: [ORGANIC, VIDEO]
+ *                 example: "ORGANIC"
+ */
+
+/**
+ * @swagger
+ * /campaign-templates:
+ *   post:
+ *     summary: Create a campaign template
+ *     description: Save keywords, urls, distribution, timeOnSite, device, search tool and country so the same campaign can be created again later. The template belongs to the current user.
+ *     tags: [Campaign Templates]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             allOf:
+ *               - $ref: '#/components/schemas/CampaignTemplateInput'
+ *               - required: [name, campaignTypeId]
+ *     responses:
+ *       201:
+ *         description: Campaign template created successfully
+ *       400:
+ *         description: Missing name or campaignTypeId, or invalid keywords, links or direct links
+ *       401:
+ *         description: Unauthorized
+ *       500:
+ *         description: Internal server error
+ */
+router.post("/", authorization(["create-campaign-template"]), createCampaignTemplate);
+
+/**
+ * @swagger
+ * /campaign-templates/search:
+ *   post:
+ *     summary: Search campaign templates
+ *     description: List campaign templates with pagination. Users only see their own templates, admins can filter by userId.
+ *     tags: [Campaign Templates]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               key:
+ *                 type: string
+ *                 description: Search by name or domain
+ *                 example: "example"
+ *               userId:
+ *                 type: integer
+ *                 example: 2
+ *               campaignTypeId:
+ *                 type: integer
+ *                 example: 1
+ *               page:
+ *                 type: integer
+ *                 example: 1
+ *               limit:
+ *                 type: integer
+ *                 example: 10
+ *     responses:
+ *       200:
+ *         description: Campaign templates retrieved successfully
+ *       401:
+ *         description: Unauthorized
+ *       500:
+ *         description: Internal server error
+ */
+router.post("/search", authorization(["search-campaign-templates"]), searchCampaignTemplates);
+
+/**
+ * @swagger
+ * /campaign-templates/{id}:
+ *   get:
+ *     summary: Get a campaign template by ID
+ *     tags: [Campaign Templates]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Campaign template retrieved successfully
+ *       403:
+ *         description: Template belongs to another user
+ *       404:
+ *         description: Campaign template not found
+ *       500:
+ *         description: Internal server error
+ */
+router.get("/:id", authorization(["read-campaign-template"]), getCampaignTemplateById);
+
+/**
+ * @swagger
+ * /campaign-templates/{id}:
+ *   put:
+ *     summary: Update a campaign template
+ *     description: Only the provided fields are changed. Keywords, links and direct links replace the stored lists.
+ *     tags: [Campaign Templates]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/CampaignTemplateInput'
+ *     responses:
+ *       200:
+ *         description: Campaign template updated successfully
+ *       400:
+ *         description: Invalid keywords, links or direct links
+ *       403:
+ *         description: Template belongs to another user
+ *       404:
+ *         description: Campaign template not found
+ *       500:
+ *         description: Internal server error
+ */
+router.put("/:id", authorization(["update-campaign-template"]), updateCampaignTemplate);
+
+/**
+ * @swagger
+ * /campaign-templates/{id}:
+ *   delete:
+ *     summary: Delete a campaign template
+ *     tags: [Campaign Templates]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Campaign template deleted successfully
+ *       403:
+ *         description: Template belongs to another user
+ *       404:
+ *         description: Campaign template not found
+ *       500:
+ *         description: Internal server error
+ */
+router.delete("/:id", authorization(["delete-campaign-template"]), deleteCampaignTemplate);
+
+export default router;
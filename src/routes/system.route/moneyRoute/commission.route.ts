@@ -0,0 +1,471 @@
+import express from "express";
+import {
+  createCommissionRule,
+  deleteCommissionRule,
+  getCommissionEarnings,
+  getCommissionStatement,
+  getListCommissionRule,
+  getReferredUsers,
+  updateCommissionRule,
+} from "../../../controllers/moneyController/commission.controller";
+import { authorization } from "../../../middleware/auth";
+
+const router = express.Router();
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     CommissionRule:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: integer
+ *           example: 1
+ *         agencyId:
+ *           type: integer
+ *           nullable: true
+ *           description: Null for a default rule. An agency with rules of its own for a source does not use the defaults for it.
+ *           example: null
+ *         source:
+ *           type: string
+ *           enum: [DEPOSIT, CAMPAIGN_SPEND]
+ *           example: DEPOSIT
+ *         rate:
+ *           type: number
+ *           description: Percent of the paid deposit or of the campaign spend
+ *           example: 5
+ *         minVolume:
+ *           type: number
+ *           description: Tier threshold. The rule applies once the agency's volume for the source this month, including the transaction, reaches it; the highest tier reached wins.
+ *           example: 0
+ *         durationMonths:
+ *           type: integer
+ *           nullable: true
+ *           description: Only pays for users registered less than this many months ago
+ *           example: 12
+ *         startsAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         endsAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *     CommissionRuleInput:
+ *       type: object
+ *       properties:
+ *         agencyId:
+ *           type: integer
+ *           description: Leave out for a default rule; only used on creation
+ *         source:
+ *           type: string
+ *           enum: [DEPOSIT, CAMPAIGN_SPEND]
+ *         rate:
+ *           type: number
+ *           example: 5
+ *         minVolume:
+ *           type: number
+ *           example: 1000
+ *         durationMonths:
+ *           type: integer
+ *           nullable: true
+ *           example: 12
+ *         startsAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         endsAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ */
+
+/**
+ * @swagger
+ * /commissions/earnings:
+ *   get:
+ *     summary: Get the agency's commission earnings
+ *     description: Commission accrued by the calling agency from the users it invited, in total, this month and by source, together with its payable balance (earned, reserved by open withdrawals, available). Admins can pass agencyId.
+ *     tags: [Commissions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: agencyId
+ *         schema:
+ *           type: integer
+ *         description: Admin only
+ *     responses:
+ *       200:
+ *         description: Earnings retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: Earnings retrieved successfully
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     commission:
+ *                       type: object
+ *                       properties:
+ *                         total:
+ *                           type: number
+ *                           example: 320.5
+ *                         thisMonth:
+ *                           type: number
+ *                           example: 42
+ *                         bySource:
+ *                           type: object
+ *                           properties:
+ *                             DEPOSIT:
+ *                               type: number
+ *                               example: 200
+ *                             CAMPAIGN_SPEND:
+ *                               type: number
+ *                               example: 120.5
+ *                     balance:
+ *                       type: object
+ *                       properties:
+ *                         earned:
+ *                           type: number
+ *                           example: 120.5
+ *                         reserved:
+ *                           type: number
+ *                           example: 0
+ *                         available:
+ *                           type: number
+ *                           example: 120.5
+ *       403:
+ *         description: The caller is not an agency
+ *       404:
+ *         description: Agency not found
+ */
+router.get(
+  "/earnings",
+  authorization(["read-agency-commissions"]),
+  getCommissionEarnings
+);
+
+/**
+ * @swagger
+ * /commissions/referred-users:
+ *   post:
+ *     summary: List the users the agency invited
+ *     description: Users registered with the agency's invite code, newest first, with the commission each has earned the agency. Admins can pass agencyId.
+ *     tags: [Commissions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: agencyId
+ *         schema:
+ *           type: integer
+ *         description: Admin only
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               page:
+ *                 type: integer
+ *                 example: 1
+ *               limit:
+ *                 type: integer
+ *                 example: 10
+ *     responses:
+ *       200:
+ *         description: Referred users retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: Referred users retrieved successfully
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     users:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           id:
+ *                             type: integer
+ *                           username:
+ *                             type: string
+ *                           email:
+ *                             type: string
+ *                           createdAt:
+ *                             type: string
+ *                             format: date-time
+ *                           commission:
+ *                             type: number
+ *                             example: 15.25
+ *                     total:
+ *                       type: integer
+ *       403:
+ *         description: The caller is not an agency
+ */
+router.post(
+  "/referred-users",
+  authorization(["read-agency-commissions"]),
+  getReferredUsers
+);
+
+/**
+ * @swagger
+ * /commissions/statements/{month}:
+ *   get:
+ *     summary: Get the agency's commission statement for a month
+ *     description: Volume and commission by source, and commission by referred user, for one calendar month. Refund reversals are included as negative amounts. Admins can pass agencyId.
+ *     tags: [Commissions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: month
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: "2026-09"
+ *       - in: query
+ *         name: agencyId
+ *         schema:
+ *           type: integer
+ *         description: Admin only
+ *     responses:
+ *       200:
+ *         description: Statement retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: Statement retrieved successfully
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     month:
+ *                       type: string
+ *                       example: "2026-09"
+ *                     lines:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           source:
+ *                             type: string
+ *                             example: DEPOSIT
+ *                           volume:
+ *                             type: number
+ *                             example: 1500
+ *                           commission:
+ *                             type: number
+ *                             example: 75
+ *                     total:
+ *                       type: number
+ *                       example: 75
+ *                     referredUsers:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           userId:
+ *                             type: integer
+ *                           username:
+ *                             type: string
+ *                           commission:
+ *                             type: number
+ *       400:
+ *         description: Invalid month
+ *       403:
+ *         description: The caller is not an agency
+ */
+router.get(
+  "/statements/:month",
+  authorization(["read-agency-commissions"]),
+  getCommissionStatement
+);
+
+/**
+ * @swagger
+ * /commissions/rules:
+ *   post:
+ *     summary: Create a commission rule
+ *     description: Creates a default rule, or a rule for one agency when agencyId is given. Several rules for the same source and agency form volume tiers.
+ *     tags: [Commissions]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             allOf:
+ *               - $ref: '#/components/schemas/CommissionRuleInput'
+ *               - type: object
+ *                 required:
+ *                   - source
+ *                   - rate
+ *     responses:
+ *       201:
+ *         description: Commission rule created successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: Commission rule created successfully
+ *                 data:
+ *                   $ref: '#/components/schemas/CommissionRule'
+ *       400:
+ *         description: Invalid field
+ *       404:
+ *         description: Agency not found
+ */
+router.post(
+  "/rules",
+  authorization(["manage-commission-rules"]),
+  createCommissionRule
+);
+
+/**
+ * @swagger
+ * /commissions/rules/search:
+ *   post:
+ *     summary: Search commission rules
+ *     tags: [Commissions]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               agencyId:
+ *                 type: integer
+ *                 nullable: true
+ *                 description: An agency's rules, or null for the default rules only
+ *               source:
+ *                 type: string
+ *                 enum: [DEPOSIT, CAMPAIGN_SPEND]
+ *               page:
+ *                 type: integer
+ *                 example: 1
+ *               limit:
+ *                 type: integer
+ *                 example: 10
+ *     responses:
+ *       200:
+ *         description: Commission rules retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: Commission rules retrieved successfully
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     rules:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/CommissionRule'
+ *                     total:
+ *                       type: integer
+ *       400:
+ *         description: Invalid source
+ */
+router.post(
+  "/rules/search",
+  authorization(["manage-commission-rules"]),
+  getListCommissionRule
+);
+
+/**
+ * @swagger
+ * /commissions/rules/{id}:
+ *   put:
+ *     summary: Update a commission rule
+ *     description: Changes only apply to transactions made afterwards; commission already accrued is kept.
+ *     tags: [Commissions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/CommissionRuleInput'
+ *     responses:
+ *       200:
+ *         description: Commission rule updated successfully
+ *       400:
+ *         description: Invalid field
+ *       404:
+ *         description: Commission rule not found
+ *   delete:
+ *     summary: Delete a commission rule
+ *     tags: [Commissions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Commission rule deleted successfully
+ *       404:
+ *         description: Commission rule not found
+ */
+router.put(
+  "/rules/:id",
+  authorization(["manage-commission-rules"]),
+  updateCommissionRule
+);
+router.delete(
+  "/rules/:id",
+  authorization(["manage-commission-rules"]),
+  deleteCommissionRule
+);
+
+export default router;
@@ -1,5 +1,6 @@
 import express from "express";
-import { createInvoice, withDraw, checkMyIP, getCurrencies } from "../../../controllers/moneyController/oxapay.controller";
+import { createInvoice, checkMyIP, getCurrencies } from "../../../controllers/moneyController/oxapay.controller";
+import { authorization } from "../../../middleware/auth";
 
 const router = express.Router();
 
@@ -7,27 +8,32 @@ const router = express.Router();
  * @swagger
  * /oxapay/createInvoice:
  *   post:
- *     summary: Create a new invoice (Don't use!)
- *     description: Create an invoice using Oxapay service.
+ *     summary: Create a crypto invoice
+ *     description: Creates an Oxapay invoice for the authenticated user and stores it as a PENDING deposit. Send either a USD amount or a packageId (its VND price is converted through VND_TO_CREDIT and USD_TO_CREDIT). The deposit records the crypto amount, currency and USD rate; the Oxapay callback moves it to COMPLETED, UNDERPAID or EXPIRED and credits amount / USD_TO_CREDIT (or the package credit) once paid.
  *     tags: [Oxapay]
+ *     security:
+ *       - bearerAuth: []
  *     requestBody:
  *       required: true
  *       content:
  *         application/json:
  *           schema:
  *             type: object
- *             required:
- *               - amount
- *               - currency
  *             properties:
  *               amount:
  *                 type: number
+ *                 description: Amount in USD, required without packageId
  *                 example: 50
+ *               packageId:
+ *                 type: integer
+ *                 description: Package to buy, required without amount
+ *                 example: 1
  *               currency:
  *                 type: string
+ *                 description: Coin the invoice is priced in, USDT by default
  *                 example: USDT
  *     responses:
- *       200:
+ *       201:
  *         description: Invoice created successfully
  *         content:
  *           application/json:
@@ -39,9 +45,46 @@ const router = express.Router();
  *                   example: true
  *                 message:
  *                   type: string
- *                   example: ""
+ *                   example: Create link payment USDT successfully
  *                 data:
  *                   type: object
+ *                   properties:
+ *                     deposit:
+ *                       type: object
+ *                       properties:
+ *                         id:
+ *                           type: integer
+ *                           example: 12
+ *                         orderId:
+ *                           type: string
+ *                           example: "1234567890123"
+ *                         amount:
+ *                           type: number
+ *                           description: USD value of the invoice
+ *                           example: 50
+ *                         cryptoCurrency:
+ *                           type: string
+ *                           example: USDT
+ *                         cryptoAmount:
+ *                           type: number
+ *                           example: 50.0125
+ *                         exchangeRate:
+ *                           type: number
+ *                           description: USD per coin when the invoice was created
+ *                           example: 0.99975
+ *                         status:
+ *                           type: string
+ *                           example: PENDING
+ *                     checkoutUrl:
+ *                       type: string
+ *                       example: "https://pay.oxapay.com/12345678"
+ *                     expiredAt:
+ *                       type: integer
+ *                       example: 1735689600
+ *       400:
+ *         description: Missing amount or packageId, invalid amount or unsupported currency
+ *       404:
+ *         description: Package not found
  *       500:
  *         description: Internal server error
  *         content:
@@ -54,74 +97,14 @@ const router = express.Router();
  *                   example: false
  *                 message:
  *                   type: string
- *                   example: Error fetching deposits
+ *                   example: Error creating invoice
  *                 error:
  *                   type: string
  *                   example: Internal error message
  */
 
-router.post("/createInvoice",createInvoice);
+router.post("/createInvoice", authorization(["create-deposit"]), createInvoice);
 
-/**
- * @swagger
- * /oxapay/createPayout:
- *   post:
- *     summary: Create a payout
- *     description: Create a payout to a predefined wallet address using Oxapay.
- *     tags: [Oxapay]
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             required:
- *               - amount
- *               - currency
- *             properties:
- *               amount:
- *                 type: number
- *                 example: 100
- *               currency:
- *                 type: string
- *                 example: BTC
- *               description:
- *                 type: string
- *                 example: Payout for user reward
- *     responses:
- *       200:
- *         description: Payout created successfully
- *         content:
- *           application/json:
- *             schema:
- *               type: object
- *               properties:
- *                 status:
- *                   type: boolean
- *                   example: true
- *                 message:
- *                   type: string
- *                   example: ""
- *                 data:
- *                   type: object
- *       500:
- *         description: Internal server error
- *         content:
- *           application/json:
- *             schema:
- *               type: object
- *               properties:
- *                 status:
- *                   type: boolean
- *                   example: false
- *                 message:
- *                   type: string
- *                   example: Error fetching deposits
- *                 error:
- *                   type: string
- *                   example: Internal error message
- */
-router.post("/createPayout",withDraw);
 /**
  * @swagger
  * /oxapay/getMyIP:
@@ -129,6 +112,8 @@ router.post("/createPayout",withDraw);
  *     summary: Get server's public IP
  *     description: Retrieve the public IP address of the server making the request.
  *     tags: [Oxapay]
+ *     security:
+ *       - bearerAuth: []
  *     responses:
  *       200:
  *         description: IP address retrieved successfully
@@ -163,7 +148,7 @@ router.post("/createPayout",withDraw);
  *                   type: string
  *                   example: Internal error message
  */
-router.get("/getMyIP",checkMyIP);
+router.get("/getMyIP", authorization(["create-oxapay-payout"]), checkMyIP);
 
 /**
  * @swagger
@@ -172,6 +157,8 @@ router.get("/getMyIP",checkMyIP);
  *     summary: Get list of supported currencies
  *     description: Retrieve a list of all supported currencies from Oxapay.
  *     tags: [Oxapay]
+ *     security:
+ *       - bearerAuth: []
  *     responses:
  *       200:
  *         description: List of currencies
@@ -207,6 +194,10 @@ router.get("/getMyIP",checkMyIP);
  *                   type: string
  *                   example: Internal error message
  */
-router.get("/getCurrencies",getCurrencies)
+router.get(
+  "/getCurrencies",
+  authorization(["create-deposit"]),
+  getCurrencies
+);
 
 export default router;
@@ -0,0 +1,210 @@
+import express from "express";
+import {
+  cancelPayOsCheckoutLink,
+  createPayOsCheckoutLink,
+  getPayOsCheckoutStatus,
+} from "../../../controllers/moneyController/payOs.controller";
+import { authorization } from "../../../middleware/auth";
+
+const router = express.Router();
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     PayOsCheckout:
+ *       type: object
+ *       properties:
+ *         orderCode:
+ *           type: integer
+ *           example: 1234567890123
+ *         status:
+ *           type: string
+ *           enum: [PENDING, PAID, CANCELLED, FAILED]
+ *           example: PENDING
+ *         amount:
+ *           type: number
+ *           description: Amount to pay in VND
+ *           example: 100000
+ *         packageId:
+ *           type: integer
+ *           nullable: true
+ *           example: null
+ *         voucherId:
+ *           type: integer
+ *           nullable: true
+ *           example: 2
+ *         checkoutUrl:
+ *           type: string
+ *           nullable: true
+ *           example: "https://pay.payos.vn/web/abc123"
+ *         depositId:
+ *           type: integer
+ *           nullable: true
+ *           description: The deposit, PENDING until the payment is confirmed
+ *           example: 15
+ *         expiresAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         paidAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ */
+
+/**
+ * @swagger
+ * /payments/payos/checkout:
+ *   post:
+ *     summary: Create a PayOS checkout link
+ *     description: Creates the PayOS payment link for the authenticated user together with a PENDING deposit. Send either an amount in VND (optionally with a voucher code) or a packageId. The deposit is credited when PayOS confirms the payment, and an unpaid checkout becomes FAILED once it expires.
+ *     tags: [Payments]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               amount:
+ *                 type: number
+ *                 description: Amount to pay in VND, required without packageId
+ *                 example: 100000
+ *               packageId:
+ *                 type: integer
+ *                 description: Package to buy, required without amount
+ *                 example: 1
+ *               voucherCode:
+ *                 type: string
+ *                 description: Optional voucher code, only with an amount
+ *                 example: "WELCOME10"
+ *     responses:
+ *       201:
+ *         description: Checkout created successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: Create link payment VietQR successfully
+ *                 data:
+ *                   $ref: '#/components/schemas/PayOsCheckout'
+ *       400:
+ *         description: Missing amount or packageId, invalid amount or invalid voucher code
+ *       404:
+ *         description: Package not found
+ *       503:
+ *         description: PayOS could not create the payment link
+ */
+router.post(
+  "/checkout",
+  authorization(["create-deposit"]),
+  createPayOsCheckoutLink
+);
+
+/**
+ * @swagger
+ * /payments/payos/checkout/{orderCode}:
+ *   get:
+ *     summary: Get the status of a PayOS checkout
+ *     description: Poll a checkout until it leaves PENDING. Users can only read their own checkouts.
+ *     tags: [Payments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: orderCode
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Order code returned when the checkout was created
+ *     responses:
+ *       200:
+ *         description: Checkout retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: Checkout retrieved successfully
+ *                 data:
+ *                   $ref: '#/components/schemas/PayOsCheckout'
+ *       403:
+ *         description: The checkout belongs to another user
+ *       404:
+ *         description: Checkout not found
+ */
+router.get(
+  "/checkout/:orderCode",
+  authorization(["read-deposit-user"]),
+  getPayOsCheckoutStatus
+);
+
+/**
+ * @swagger
+ * /payments/payos/checkout/{orderCode}/cancel:
+ *   post:
+ *     summary: Cancel a PayOS checkout
+ *     description: Cancels the PayOS payment link of a PENDING checkout and fails its deposit. PayOS refuses to cancel an order that has already been paid.
+ *     tags: [Payments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: orderCode
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               reason:
+ *                 type: string
+ *                 example: "Changed my mind"
+ *     responses:
+ *       200:
+ *         description: Checkout cancelled successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: Checkout cancelled successfully
+ *                 data:
+ *                   $ref: '#/components/schemas/PayOsCheckout'
+ *       403:
+ *         description: The checkout belongs to another user
+ *       404:
+ *         description: Checkout not found
+ *       409:
+ *         description: The checkout is no longer pending or PayOS refused the cancellation
+ */
+router.post(
+  "/checkout/:orderCode/cancel",
+  authorization(["create-deposit"]),
+  cancelPayOsCheckoutLink
+);
+
+export default router;
@@ -4,6 +4,8 @@ import {
   getWalletById,
   updateWallet,
   deleteWallet,
+  getWalletLedger,
+  searchLedgerDrifts,
 } from "../../../controllers/moneyController/wallet.controller"; // Adjust path
 import { authorization } from "../../../middleware/auth";
 
@@ -44,6 +46,14 @@ const router = express.Router();
  *                       balance:
  *                         type: number
  *                         example: 100.50
+ *                       reserved:
+ *                         type: number
+ *                         description: Credit held for campaigns that have not started yet
+ *                         example: 20
+ *                       available:
+ *                         type: number
+ *                         description: Balance minus reserved, what can be spent now
+ *                         example: 80.5
  *                       createdAt:
  *                         type: string
  *                         format: date-time
@@ -71,6 +81,87 @@ const router = express.Router();
  */
 router.get("/", authorization(["read-wallets"]), getAllWallets);
 
+/**
+ * @swagger
+ * /wallets/drifts/search:
+ *   post:
+ *     summary: Search ledger drifts
+ *     description: List the wallets whose cached balance differs from their ledger sum, as flagged by the nightly reconciliation job. A drift stays OPEN while the difference exists and becomes RESOLVED once the balances agree again.
+ *     tags: [Wallets]
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               walletId:
+ *                 type: integer
+ *                 example: 1
+ *               status:
+ *                 type: string
+ *                 enum: [OPEN, RESOLVED]
+ *                 example: OPEN
+ *               page:
+ *                 type: integer
+ *                 example: 1
+ *               limit:
+ *                 type: integer
+ *                 example: 20
+ *     responses:
+ *       200:
+ *         description: Ledger drifts retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: Ledger drifts retrieved successfully
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     drifts:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           id:
+ *                             type: integer
+ *                             example: 1
+ *                           walletId:
+ *                             type: integer
+ *                             example: 1
+ *                           walletBalance:
+ *                             type: number
+ *                             example: 120.5
+ *                           ledgerBalance:
+ *                             type: number
+ *                             example: 100.5
+ *                           drift:
+ *                             type: number
+ *                             example: 20
+ *                           status:
+ *                             type: string
+ *                             example: OPEN
+ *                     total:
+ *                       type: integer
+ *                       example: 1
+ *       400:
+ *         description: Invalid status
+ *       500:
+ *         description: Internal server error
+ */
+router.post(
+  "/drifts/search",
+  authorization(["read-ledger-drifts"]),
+  searchLedgerDrifts
+);
+
 /**
  * @swagger
  * /wallets/{id}:
@@ -111,6 +202,14 @@ router.get("/", authorization(["read-wallets"]), getAllWallets);
  *                     balance:
  *                       type: number
  *                       example: 100.50
+ *                     reserved:
+ *                       type: number
+ *                       description: Credit held for campaigns that have not started yet
+ *                       example: 20
+ *                     available:
+ *                       type: number
+ *                       description: Balance minus reserved, what can be spent now
+ *                       example: 80.5
  *                     createdAt:
  *                       type: string
  *                       format: date-time
@@ -154,12 +253,96 @@ router.get("/", authorization(["read-wallets"]), getAllWallets);
  */
 router.get("/:id", authorization(["read-wallet"]), getWalletById);
 
+/**
+ * @swagger
+ * /wallets/{id}/ledger:
+ *   get:
+ *     summary: Get the ledger of a wallet
+ *     description: List the double-entry ledger entries posted to a wallet, newest first. CREDIT entries add to the balance and DEBIT entries subtract from it; ledgerBalance is their sum and balance is the cached value stored on the wallet.
+ *     tags: [Wallets]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Wallet ID
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           example: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           example: 20
+ *     responses:
+ *       200:
+ *         description: Wallet ledger retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: Wallet ledger retrieved successfully
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     walletId:
+ *                       type: integer
+ *                       example: 1
+ *                     balance:
+ *                       type: number
+ *                       example: 100.5
+ *                     ledgerBalance:
+ *                       type: number
+ *                       example: 100.5
+ *                     entries:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           id:
+ *                             type: integer
+ *                             example: 10
+ *                           transactionId:
+ *                             type: integer
+ *                             nullable: true
+ *                             example: 42
+ *                           reference:
+ *                             type: string
+ *                             example: transaction:42
+ *                           direction:
+ *                             type: string
+ *                             enum: [DEBIT, CREDIT]
+ *                             example: CREDIT
+ *                           amount:
+ *                             type: number
+ *                             example: 50
+ *                     total:
+ *                       type: integer
+ *                       example: 1
+ *       403:
+ *         description: The wallet belongs to another user
+ *       404:
+ *         description: Wallet not found
+ *       500:
+ *         description: Internal server error
+ */
+router.get("/:id/ledger", authorization(["read-wallet"]), getWalletLedger);
+
 /**
  * @swagger
  * /wallets/{id}:
  *   put:
  *     summary: Update a wallet by ID
- *     description: Update the balance of an existing wallet.
+ *     description: Set the balance of an existing wallet. The difference with the current ledger balance is posted as an ADJUSTMENT_CREDIT or ADJUSTMENT_DEBIT transaction.
  *     tags: [Wallets]
  *     parameters:
  *       - in: path
@@ -207,6 +390,14 @@ router.get("/:id", authorization(["read-wallet"]), getWalletById);
  *                     balance:
  *                       type: number
  *                       example: 150.75
+ *                     reserved:
+ *                       type: number
+ *                       description: Credit held for campaigns that have not started yet
+ *                       example: 20
+ *                     available:
+ *                       type: number
+ *                       description: Balance minus reserved, what can be spent now
+ *                       example: 130.75
  *                     createdAt:
  *                       type: string
  *                       format: date-time
@@ -0,0 +1,471 @@
+import express from "express";
+import {
+  approveWithdrawalRequest,
+  cancelWithdrawalRequest,
+  createWithdrawal,
+  getListWithdrawal,
+  getOneWithdrawal,
+  getWithdrawalBalance,
+  reconcileWithdrawalRequest,
+  rejectWithdrawalRequest,
+} from "../../../controllers/moneyController/withdrawal.controller";
+import { authorization } from "../../../middleware/auth";
+
+const router = express.Router();
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     WithdrawalRequest:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: integer
+ *           example: 7
+ *         agencyId:
+ *           type: integer
+ *           example: 3
+ *         userId:
+ *           type: integer
+ *           example: 12
+ *         amount:
+ *           type: number
+ *           description: Credit withdrawn from the agency's earnings
+ *           example: 500
+ *         usdAmount:
+ *           type: number
+ *           description: USD value at USD_TO_CREDIT when requested
+ *           example: 500
+ *         currency:
+ *           type: string
+ *           example: USDT
+ *         network:
+ *           type: string
+ *           nullable: true
+ *           example: TRC20
+ *         address:
+ *           type: string
+ *           example: "TXYZ1234567890abcdef"
+ *         cryptoAmount:
+ *           type: number
+ *           nullable: true
+ *           description: Amount sent, set when the payout is created
+ *           example: 500.125
+ *         exchangeRate:
+ *           type: number
+ *           nullable: true
+ *           description: USD per coin when the payout was created
+ *           example: 0.99975
+ *         status:
+ *           type: string
+ *           enum: [PENDING, APPROVED, PROCESSING, NEEDS_RECONCILIATION, COMPLETED, REJECTED, FAILED, CANCELLED]
+ *           example: PENDING
+ *         trackId:
+ *           type: string
+ *           nullable: true
+ *           description: Oxapay payout track id
+ *         reviewedBy:
+ *           type: integer
+ *           nullable: true
+ *         reviewedAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         rejectReason:
+ *           type: string
+ *           nullable: true
+ *         failureReason:
+ *           type: string
+ *           nullable: true
+ *         completedAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         events:
+ *           type: array
+ *           description: Audit trail, only returned by GET /withdrawals/{id}
+ *           items:
+ *             type: object
+ *             properties:
+ *               fromStatus:
+ *                 type: string
+ *                 nullable: true
+ *               toStatus:
+ *                 type: string
+ *               actorId:
+ *                 type: integer
+ *                 nullable: true
+ *                 description: Null for changes made by the Oxapay callback
+ *               note:
+ *                 type: string
+ *                 nullable: true
+ *               createdAt:
+ *                 type: string
+ *                 format: date-time
+ */
+
+/**
+ * @swagger
+ * /withdrawals:
+ *   post:
+ *     summary: Request a withdrawal of agency earnings
+ *     description: Asks for a crypto payout of the calling agency's earned credit to its own address. The amount must be available (earned minus open requests) and within AGENCY_WITHDRAWAL_MIN, AGENCY_WITHDRAWAL_MAX and AGENCY_WITHDRAWAL_DAILY_MAX (per 24 hours). The request waits in the admin queue as PENDING.
+ *     tags: [Withdrawals]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - amount
+ *               - address
+ *             properties:
+ *               amount:
+ *                 type: number
+ *                 description: Credit to withdraw
+ *                 example: 500
+ *               currency:
+ *                 type: string
+ *                 description: Coin to be paid in, USDT by default
+ *                 example: USDT
+ *               network:
+ *                 type: string
+ *                 example: TRC20
+ *               address:
+ *                 type: string
+ *                 example: "TXYZ1234567890abcdef"
+ *     responses:
+ *       201:
+ *         description: Withdrawal requested successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: Withdrawal requested successfully
+ *                 data:
+ *                   $ref: '#/components/schemas/WithdrawalRequest'
+ *       400:
+ *         description: Invalid amount or address, limit exceeded or insufficient earnings
+ *       403:
+ *         description: The caller is not an agency
+ */
+router.post("/", authorization(["create-withdrawal"]), createWithdrawal);
+
+/**
+ * @swagger
+ * /withdrawals/balance:
+ *   get:
+ *     summary: Get the calling agency's withdrawable earnings
+ *     tags: [Withdrawals]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Earnings retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: Earnings retrieved successfully
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     earned:
+ *                       type: number
+ *                       description: Balance of the agency's payable ledger account
+ *                       example: 1200
+ *                     reserved:
+ *                       type: number
+ *                       description: Held by open withdrawal requests
+ *                       example: 500
+ *                     available:
+ *                       type: number
+ *                       example: 700
+ *       403:
+ *         description: The caller is not an agency
+ */
+router.get(
+  "/balance",
+  authorization(["create-withdrawal"]),
+  getWithdrawalBalance
+);
+
+/**
+ * @swagger
+ * /withdrawals/search:
+ *   post:
+ *     summary: Search withdrawal requests
+ *     description: Admins see every agency's requests and can filter by agency; the PENDING queue is listed oldest first. Agencies only see their own requests.
+ *     tags: [Withdrawals]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               agencyId:
+ *                 type: integer
+ *                 description: Admin only
+ *                 example: 3
+ *               status:
+ *                 type: string
+ *                 enum: [PENDING, APPROVED, PROCESSING, NEEDS_RECONCILIATION, COMPLETED, REJECTED, FAILED, CANCELLED]
+ *                 example: PENDING
+ *               page:
+ *                 type: integer
+ *                 example: 1
+ *               limit:
+ *                 type: integer
+ *                 example: 10
+ *     responses:
+ *       200:
+ *         description: Withdrawals retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: Withdrawals retrieved successfully
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     withdrawals:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/WithdrawalRequest'
+ *                     total:
+ *                       type: integer
+ *                       example: 1
+ *       400:
+ *         description: Invalid status
+ *       403:
+ *         description: The caller is neither an admin nor an agency
+ */
+router.post("/search", authorization(["read-withdrawals"]), getListWithdrawal);
+
+/**
+ * @swagger
+ * /withdrawals/{id}:
+ *   get:
+ *     summary: Get a withdrawal request with its audit trail
+ *     tags: [Withdrawals]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Withdrawal retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: Withdrawal retrieved successfully
+ *                 data:
+ *                   $ref: '#/components/schemas/WithdrawalRequest'
+ *       403:
+ *         description: The withdrawal belongs to another agency
+ *       404:
+ *         description: Withdrawal not found
+ */
+router.get("/:id", authorization(["read-withdrawals"]), getOneWithdrawal);
+
+/**
+ * @swagger
+ * /withdrawals/{id}/cancel:
+ *   post:
+ *     summary: Cancel a pending withdrawal request
+ *     description: The agency can cancel its own request until an admin reviews it; the reserved credit becomes available again.
+ *     tags: [Withdrawals]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Withdrawal cancelled successfully
+ *       404:
+ *         description: Withdrawal not found
+ *       409:
+ *         description: The withdrawal is no longer PENDING
+ */
+router.post(
+  "/:id/cancel",
+  authorization(["create-withdrawal"]),
+  cancelWithdrawalRequest
+);
+
+/**
+ * @swagger
+ * /withdrawals/{id}/approve:
+ *   post:
+ *     summary: Approve a withdrawal and send its payout
+ *     description: Approves a PENDING request and sends the payout through Oxapay, priced in the requested coin at its current USD price. An accepted payout is PROCESSING until the Oxapay callback completes it, which debits the agency's earnings in the ledger. A payout Oxapay refuses marks the request FAILED. When Oxapay cannot be reached the payout may still have been sent, so the request becomes NEEDS_RECONCILIATION and keeps its credit reserved until the callback arrives or an admin reconciles it.
+ *     tags: [Withdrawals]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Withdrawal approved and payout sent
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: Withdrawal approved and payout sent
+ *                 data:
+ *                   $ref: '#/components/schemas/WithdrawalRequest'
+ *       404:
+ *         description: Withdrawal not found
+ *       409:
+ *         description: The withdrawal is no longer PENDING
+ *       503:
+ *         description: Oxapay did not accept the payout (FAILED) or did not answer (NEEDS_RECONCILIATION)
+ */
+router.post(
+  "/:id/approve",
+  authorization(["review-withdrawal"]),
+  approveWithdrawalRequest
+);
+
+/**
+ * @swagger
+ * /withdrawals/{id}/reject:
+ *   post:
+ *     summary: Reject a withdrawal request
+ *     tags: [Withdrawals]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - reason
+ *             properties:
+ *               reason:
+ *                 type: string
+ *                 example: Address does not match the agency's records
+ *     responses:
+ *       200:
+ *         description: Withdrawal rejected successfully
+ *       400:
+ *         description: Missing reason
+ *       404:
+ *         description: Withdrawal not found
+ *       409:
+ *         description: The withdrawal is no longer PENDING
+ */
+router.post(
+  "/:id/reject",
+  authorization(["review-withdrawal"]),
+  rejectWithdrawalRequest
+);
+
+/**
+ * @swagger
+ * /withdrawals/{id}/reconcile:
+ *   post:
+ *     summary: Settle a withdrawal whose payout outcome is unknown
+ *     description: For a NEEDS_RECONCILIATION request, after checking in Oxapay whether the payout was sent. COMPLETED debits the agency's earnings in the ledger, FAILED frees the reserved credit.
+ *     tags: [Withdrawals]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - outcome
+ *               - note
+ *             properties:
+ *               outcome:
+ *                 type: string
+ *                 enum: [COMPLETED, FAILED]
+ *               note:
+ *                 type: string
+ *                 example: Payout found in the Oxapay dashboard
+ *               trackId:
+ *                 type: string
+ *                 description: Oxapay track id of the payout, when one was found
+ *     responses:
+ *       200:
+ *         description: Withdrawal reconciled successfully
+ *       400:
+ *         description: Invalid outcome or missing note
+ *       404:
+ *         description: Withdrawal not found
+ *       409:
+ *         description: The withdrawal does not need reconciliation
+ */
+router.post(
+  "/:id/reconcile",
+  authorization(["review-withdrawal"]),
+  reconcileWithdrawalRequest
+);
+
+export default router;
@@ -0,0 +1,95 @@
+import { Transaction } from "sequelize";
+import { logger } from "../config/logger.config";
+import statusCode from "../constants/statusCode";
+import { sequelizeSystem, Wallet } from "../models/index.model";
+import { notificationType } from "../enums/notification.enum";
+import { TransactionStatus } from "../enums/transactionStatus.enum";
+import { TransactionType } from "../enums/transactionType.enum";
+import { AgencyAttributes } from "../interfaces/Agency.interface";
+import { UserAttributes } from "../interfaces/User.interface";
+import { ErrorType } from "../types/Error.type";
+import { createNotificationRepo } from "../repositories/commonRepo/notification.repository";
+import { createTransactionRepo } from "../repositories/moneyRepo/transaction.repository";
+import { uuIDv4 } from "../utils/generate";
+
+const roundCredit = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Move credit from the agency owner's wallet to a client's wallet as a
+ * TRANSFER_OUT / TRANSFER_IN pair sharing one reference. Both legs are
+ * written in one transaction, and only credit the owner has available (not
+ * held for scheduled campaigns) can be moved.
+ */
+export const topUpClientWallet = async (
+  agency: AgencyAttributes,
+  client: UserAttributes,
+  amount: number
+): Promise<{ reference: string; amount: number }> => {
+  const credit = roundCredit(amount);
+  if (!Number.isFinite(credit) || credit <= 0) {
+    throw new ErrorType(
+      "InvalidAmountError",
+      "Amount must be a positive number",
+      statusCode.BAD_REQUEST
+    );
+  }
+  const reference = `agency-topup:${uuIDv4()}`;
+
+  await sequelizeSystem.transaction(async (t: Transaction) => {
+    const [ownerWallet, clientWallet] = await Promise.all([
+      Wallet.findOne({ where: { userId: agency.userId }, transaction: t }),
+      Wallet.findOne({ where: { userId: client.id }, transaction: t }),
+    ]);
+    if (!ownerWallet || !clientWallet) {
+      throw new ErrorType(
+        "NotFoundError",
+        `Wallet not found for the ${ownerWallet ? "client" : "agency"}`,
+        statusCode.NOT_FOUND
+      );
+    }
+    try {
+      await createTransactionRepo(
+        {
+          walletId: ownerWallet.id,
+          amount: credit,
+          status: TransactionStatus.COMPLETED,
+          type: TransactionType.TRANSFER_OUT,
+          referenceId: reference,
+        },
+        t
+      );
+    } catch (error: any) {
+      if (error.name !== "InsufficientFundsError") throw error;
+      throw new ErrorType(
+        error.name,
+        "Not enough available credit in the agency wallet",
+        statusCode.BAD_REQUEST
+      );
+    }
+    await createTransactionRepo(
+      {
+        walletId: clientWallet.id,
+        amount: credit,
+        status: TransactionStatus.COMPLETED,
+        type: TransactionType.TRANSFER_IN,
+        referenceId: reference,
+      },
+      t
+    );
+  });
+
+  logger.info(
+    `Agency ${agency.id} topped up ${credit} credit to client ${client.id} (${reference})`
+  );
+  try {
+    await createNotificationRepo({
+      userId: [client.id!],
+      name: "Wallet top-up",
+      content: `Your agency added ${credit} credit to your wallet`,
+      type: notificationType.CHARGE_MONEY,
+    });
+  } catch (error: any) {
+    logger.error(`Failed to notify top-up ${reference}: ${error.message}`);
+  }
+  return { reference, amount: credit };
+};
@@ -0,0 +1,98 @@
+import crypto from "crypto";
+import { apiKeyConfig } from "../config/apiKey.config";
+import { redisClient } from "../config/redis.config";
+import statusCode from "../constants/statusCode";
+import { ApiKeyContext } from "../interfaces/ApiKey.interface";
+import { findApiKeyByHashRepo } from "../repositories/commonRepo/apiKey.repository";
+import { ErrorType } from "../types/Error.type";
+import { JwtPayload } from "../types/Jwt.type";
+
+// Keys are long random strings, so an unsalted SHA-256 is enough to look them up
+export const hashApiKey = (key: string): string =>
+  crypto.createHash("sha256").update(key).digest("hex");
+
+export const isApiKey = (token: string): boolean =>
+  token.startsWith(apiKeyConfig.prefix);
+
+export const generateApiKey = (): {
+  key: string;
+  keyPrefix: string;
+  keyHash: string;
+} => {
+  const key = `${apiKeyConfig.prefix}${crypto.randomBytes(32).toString("base64url")}`;
+  return {
+    key,
+    keyPrefix: key.slice(0, apiKeyConfig.prefix.length + 8),
+    keyHash: hashApiKey(key),
+  };
+};
+
+/**
+ * Resolve a raw key to its owner and scope. Revoked and expired keys, and
+ * keys of deleted or deactivated users, are rejected like an invalid token.
+ */
+export const verifyApiKey = async (
+  key: string
+): Promise<{ user: JwtPayload; apiKey: ApiKeyContext }> => {
+  const apiKey = await findApiKeyByHashRepo(hashApiKey(key));
+  if (!apiKey || !apiKey.users) {
+    throw new ErrorType(
+      "InvalidApiKeyError",
+      "Unauthorized: Invalid API key",
+      statusCode.UNAUTHORIZED
+    );
+  }
+  if (apiKey.revokedAt) {
+    throw new ErrorType(
+      "RevokedApiKeyError",
+      "Unauthorized: API key has been revoked",
+      statusCode.UNAUTHORIZED
+    );
+  }
+  if (apiKey.expiresAt && new Date(apiKey.expiresAt) <= new Date()) {
+    throw new ErrorType(
+      "ExpiredApiKeyError",
+      "Unauthorized: API key expired",
+      statusCode.UNAUTHORIZED
+    );
+  }
+  const user = (apiKey.users as any).toJSON
+    ? (apiKey.users as any).toJSON()
+    : apiKey.users;
+  if (user.isDeleted || user.isActive === false) {
+    throw new ErrorType(
+      "InvalidApiKeyError",
+      "Unauthorized: API key owner is disabled",
+      statusCode.UNAUTHORIZED
+    );
+  }
+  return {
+    user,
+    apiKey: {
+      id: apiKey.id,
+      permissions: apiKey.permissions || [],
+      rateLimit: apiKey.rateLimit,
+    },
+  };
+};
+
+/**
+ * Count a request against the key's fixed window in Redis. The counter is
+ * shared by every app worker, so the limit holds across the cluster.
+ */
+export const consumeApiKeyRateLimit = async (
+  apiKey: ApiKeyContext
+): Promise<{ allowed: boolean; remaining: number; resetInSeconds: number }> => {
+  const windowSeconds = apiKeyConfig.rateLimitWindowSeconds;
+  const nowSeconds = Math.floor(Date.now() / 1000);
+  const window = Math.floor(nowSeconds / windowSeconds);
+  const count = await redisClient.incr(
+    `api-key:rate:${apiKey.id}:${window}`,
+    windowSeconds
+  );
+  return {
+    allowed: count <= apiKey.rateLimit,
+    remaining: Math.max(apiKey.rateLimit - count, 0),
+    resetInSeconds: windowSeconds - (nowSeconds % windowSeconds),
+  };
+};
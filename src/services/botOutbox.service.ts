@@ -0,0 +1,130 @@
+import { logger } from "../config/logger.config";
+import { baseApiPython, baseApiPythonUpdate } from "../config/botAPI.config";
+import { BotOutboxAttributes } from "../interfaces/BotOutbox.interface";
+import {
+  claimDueBotOutboxRepo,
+  markBotOutboxDeliveredRepo,
+  markBotOutboxFailedRepo,
+  releaseBotOutboxRepo,
+  releaseStaleBotOutboxRepo,
+} from "../repositories/coreRepo/botOutbox.repository";
+
+// Constants
+const POLL_INTERVAL = 5000; // ms between two polls of the outbox table
+const BATCH_SIZE = 20;
+const MAX_ATTEMPTS = 8; // Dead-letter a message after this many failures
+const BASE_RETRY_DELAY = 10 * 1000; // First retry after 10 seconds
+const MAX_RETRY_DELAY = 60 * 60 * 1000; // Never wait more than 1 hour
+const STALE_LOCK_TIMEOUT = 5 * 60 * 1000; // Release locks held longer than 5 minutes
+
+let isRunning = false;
+
+// Messages locked before this date belong to a dispatcher that died
+export const getStaleLockCutoff = (): Date =>
+  new Date(Date.now() - STALE_LOCK_TIMEOUT);
+
+// Exponential backoff: 10s, 20s, 40s, ... capped at MAX_RETRY_DELAY
+export const getNextAttemptAt = (attempts: number): Date | null => {
+  if (attempts >= MAX_ATTEMPTS) {
+    return null;
+  }
+  const delay = Math.min(
+    BASE_RETRY_DELAY * Math.pow(2, attempts - 1),
+    MAX_RETRY_DELAY
+  );
+  return new Date(Date.now() + delay);
+};
+
+// Returns true when the bot accepted the call
+export const deliverBotOutboxMessage = async (
+  message: BotOutboxAttributes
+): Promise<boolean> => {
+  const attempts = message.attempts + 1;
+  try {
+    if (message.method === "PUT") {
+      await baseApiPythonUpdate(message.endpoint, message.payload);
+    } else {
+      await baseApiPython(message.endpoint, message.payload);
+    }
+    await markBotOutboxDeliveredRepo(message.id || 0, attempts);
+    logger.info(
+      `Delivered outbox message ${message.id} (${message.endpoint}) on attempt ${attempts}`
+    );
+    return true;
+  } catch (error: any) {
+    if (error.name === "BotApiUnavailableError") {
+      // The circuit breaker rejected the call: wait for the bot without burning an attempt
+      await markBotOutboxFailedRepo(
+        message.id || 0,
+        message.attempts,
+        error.message,
+        new Date(Date.now() + BASE_RETRY_DELAY)
+      );
+      logger.warn(
+        `Outbox message ${message.id} (${message.endpoint}) postponed: ${error.message}`
+      );
+      return false;
+    }
+    const nextAttemptAt = getNextAttemptAt(attempts);
+    await markBotOutboxFailedRepo(
+      message.id || 0,
+      attempts,
+      error.message,
+      nextAttemptAt
+    );
+    if (nextAttemptAt) {
+      logger.warn(
+        `Outbox message ${message.id} (${message.endpoint}) failed on attempt ${attempts}, retrying at ${nextAttemptAt.toISOString()}: ${error.message}`
+      );
+    } else {
+      logger.error(
+        `Outbox message ${message.id} (${message.endpoint}) dead-lettered after ${attempts} attempts: ${error.message}`
+      );
+    }
+    return false;
+  }
+};
+
+export const dispatchBotOutbox = async (): Promise<number> => {
+  await releaseStaleBotOutboxRepo(getStaleLockCutoff());
+  const messages = await claimDueBotOutboxRepo(BATCH_SIZE);
+  // Deliver sequentially so the bot receives calls in creation order; after
+  // a failure the campaign's later messages wait for the failed one
+  const failedCampaigns = new Set<number>();
+  for (const message of messages) {
+    if (message.campaignId && failedCampaigns.has(message.campaignId)) {
+      await releaseBotOutboxRepo(message.id || 0);
+      continue;
+    }
+    const delivered = await deliverBotOutboxMessage(message);
+    if (!delivered && message.campaignId) {
+      failedCampaigns.add(message.campaignId);
+    }
+  }
+  return messages.length;
+};
+
+export const startBotOutboxService = async () => {
+  logger.info("Starting bot outbox dispatcher...");
+  isRunning = true;
+
+  const handleShutdown = () => {
+    logger.info("Shutting down bot outbox dispatcher...");
+    isRunning = false;
+  };
+  process.on("SIGINT", handleShutdown);
+  process.on("SIGTERM", handleShutdown);
+
+  while (isRunning) {
+    try {
+      const delivered = await dispatchBotOutbox();
+      // Drain the backlog without waiting when a full batch was processed
+      if (delivered === BATCH_SIZE) {
+        continue;
+      }
+    } catch (error: any) {
+      logger.error(`Error dispatching bot outbox: ${error.message}`);
+    }
+    await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL));
+  }
+};
@@ -1,38 +1,37 @@
-import { baseApiPython } from "../../config/botAPI.config";
+import { botApi } from "../../config/botAPI.config";
+import { logger } from "../../config/logger.config";
+import {
+  BotLogType,
+  BotSearchLogByTypeInput,
+  BotSearchLogEntry,
+  BotSearchLogInput,
+} from "../../interfaces/BotApi.interface";
 
-export type SearchLogInput = {
-  page: number,
-  limit: number,
-  keywordId: number
-}
+export type SearchLogInput = BotSearchLogInput
 
-export type TypeLog = "SEARCHLOG" | "DIRECTLOG"
+export type TypeLog = BotLogType
 
-export type SearchLogByTypeInput = {
-  page: number,
-  limit: number,
-  keywordId?: number
-  linkId?: number
-  type: TypeLog
-}
+export type SearchLogByTypeInput = BotSearchLogByTypeInput
 export const searchLogs = async (
   data: SearchLogInput
-)=> {
+): Promise<BotSearchLogEntry[]> => {
   try {
-    const result = await baseApiPython("log/search",data )
+    const result = await botApi.searchLogs(data)
     return result.data
   } catch (error: any) {
+    logger.error(`Failed to search bot logs: ${error.message}`)
     return []
   }
 }
 
 export const searchLogsByType = async (
   data: SearchLogByTypeInput
-)=> {
+): Promise<BotSearchLogEntry[]> => {
   try {
-    const result = await baseApiPython("log/search-by-type",data )
+    const result = await botApi.searchLogsByType(data)
     return result.data
   } catch (error: any) {
+    logger.error(`Failed to search bot logs: ${error.message}`)
     return []
   }
 }
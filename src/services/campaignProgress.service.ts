@@ -0,0 +1,370 @@
+import { clearInterval, setInterval } from "node:timers";
+import { Socket } from "socket.io";
+import { botApi } from "../config/botAPI.config";
+import { logger } from "../config/logger.config";
+import { redisClient } from "../config/redis.config";
+import { CampaignStatus } from "../enums/campaign.enum";
+import { SettlementItemType } from "../enums/settlement.enum";
+import {
+  CampaignProgress,
+  CampaignProgressItem,
+  TrafficProgress,
+} from "../interfaces/CampaignProgress.interface";
+import { Campaign } from "../models/index.model";
+import { isCampaignOwnerRepo } from "../repositories/coreRepo/campagin.repository";
+import { JwtPayload } from "../types/Jwt.type";
+import { formatDate, formatInTheEndDate } from "../utils/utils";
+import {
+  countDays,
+  getCampaignForSettlement,
+} from "./campaignSettlement.service";
+import { campaignRoom, socketService } from "./socket.service";
+
+// Constants
+const POLL_INTERVAL = 2 * 60 * 1000; // Success counts are slow to compute on the bot
+const CACHE_TTL = 10 * 60; // Seconds a snapshot stays in Redis
+const SUBSCRIPTION_TTL = 5 * 60 * 1000; // A subscription not renewed within this is dropped
+
+// Campaigns with a live subscriber, scored by when their subscription expires
+const SUBSCRIBED_CAMPAIGNS_KEY = "campaign:progress:subscribed";
+
+let isRunning = false;
+
+const getCacheKey = (campaignId: number) => `campaign:progress:${campaignId}`;
+
+// Mark a campaign as watched, so the poller keeps it fresh for a while
+const touchCampaignSubscription = (campaignId: number): Promise<number> =>
+  redisClient.zAdd(
+    SUBSCRIBED_CAMPAIGNS_KEY,
+    String(campaignId),
+    Date.now() + SUBSCRIPTION_TTL
+  );
+
+// Campaign ids whose subscription has not expired, dropping the expired ones
+const getSubscribedCampaignIds = async (): Promise<number[]> => {
+  const now = Date.now();
+  await redisClient.zRemRangeByScore(SUBSCRIBED_CAMPAIGNS_KEY, "-inf", now);
+  const ids = await redisClient.zRangeByScore(
+    SUBSCRIBED_CAMPAIGNS_KEY,
+    now,
+    "+inf"
+  );
+  return ids.map(Number).filter((id) => Number.isInteger(id) && id > 0);
+};
+
+type SocketAck = (response: { status: boolean; message: string; data?: any }) => void;
+
+const sumProgress = (
+  items: CampaignProgressItem[],
+  period: "today" | "total"
+): TrafficProgress =>
+  items.reduce(
+    (sum, item) => ({
+      delivered: sum.delivered + item[period].delivered,
+      planned: sum.planned + item[period].planned,
+    }),
+    { delivered: 0, planned: 0 }
+  );
+
+/**
+ * Today's and overall traffic of every keyword and direct link of a campaign.
+ * Today's plan spreads the item's traffic evenly over the campaign days and
+ * is zero outside of them.
+ */
+export const calculateCampaignProgress = async (
+  campaign: Campaign,
+  now: Date = new Date()
+): Promise<CampaignProgress> => {
+  const start = new Date(campaign.startDate);
+  const end = new Date(campaign.endDate);
+  const days = Math.max(countDays(start, end), 1);
+  const hasStarted = now >= start;
+  const isRunningToday = hasStarted && now <= end;
+  const todayRange = {
+    time_start: formatDate(now),
+    time_end: formatInTheEndDate(now),
+  };
+  const totalRange = {
+    time_start: formatDate(start),
+    time_end: formatInTheEndDate(end < now ? end : now),
+  };
+
+  const measure = async (
+    item: {
+      itemType: CampaignProgressItem["itemType"];
+      itemId: number;
+      name: string;
+      traffic: number;
+    },
+    count: (range: { time_start: string; time_end: string }) => Promise<number>
+  ): Promise<CampaignProgressItem> => ({
+    itemType: item.itemType,
+    itemId: item.itemId,
+    name: item.name,
+    today: {
+      delivered: isRunningToday ? await count(todayRange) : 0,
+      planned: isRunningToday ? Math.ceil(item.traffic / days) : 0,
+    },
+    total: {
+      delivered: hasStarted ? await count(totalRange) : 0,
+      planned: item.traffic,
+    },
+  });
+
+  const items: CampaignProgressItem[] = [];
+  for (const keyword of campaign.keywords || []) {
+    items.push(
+      await measure(
+        {
+          itemType: SettlementItemType.KEYWORD,
+          itemId: keyword.id || 0,
+          name: keyword.name,
+          traffic: keyword.traffic || 0,
+        },
+        async (range) =>
+          (
+            await botApi.getKeywordSuccessCount({
+              keywordId: keyword.id || 0,
+              ...range,
+            })
+          ).success_count
+      )
+    );
+  }
+  for (const directLink of campaign.directLinks || []) {
+    items.push(
+      await measure(
+        {
+          itemType: SettlementItemType.DIRECT_LINK,
+          itemId: directLink.id || 0,
+          name: directLink.link,
+          traffic: directLink.traffic || 0,
+        },
+        async (range) =>
+          (
+            await botApi.getDirectLinkSuccessCount({
+              directLinkId: directLink.id || 0,
+              ...range,
+            })
+          ).success_count
+      )
+    );
+  }
+
+  return {
+    campaignId: campaign.id,
+    status: campaign.status,
+    today: sumProgress(items, "today"),
+    total: sumProgress(items, "total"),
+    items,
+    updatedAt: now.toISOString(),
+  };
+};
+
+export const getCachedCampaignProgress = async (
+  campaignId: number
+): Promise<CampaignProgress | null> => {
+  const cached = await redisClient.get(getCacheKey(campaignId));
+  return cached ? (JSON.parse(cached) as CampaignProgress) : null;
+};
+
+// Only counts and status matter when deciding whether subscribers need an update
+const hasProgressChanged = (
+  previous: CampaignProgress | null,
+  next: CampaignProgress
+): boolean =>
+  !previous ||
+  JSON.stringify({ ...previous, updatedAt: null }) !==
+    JSON.stringify({ ...next, updatedAt: null });
+
+/**
+ * Ask the bot for a campaign's progress, cache it and push it to the
+ * campaign's room when it differs from the cached snapshot.
+ */
+export const refreshCampaignProgress = async (
+  campaignId: number
+): Promise<CampaignProgress | null> => {
+  const campaign = await getCampaignForSettlement(campaignId);
+  if (!campaign || campaign.isDeleted) {
+    return null;
+  }
+  const progress = await calculateCampaignProgress(campaign);
+  const previous = await getCachedCampaignProgress(campaignId);
+  await redisClient.set(
+    getCacheKey(campaignId),
+    JSON.stringify(progress),
+    CACHE_TTL
+  );
+  if (hasProgressChanged(previous, progress)) {
+    socketService.emitToRoom(
+      campaignRoom(campaignId),
+      "campaignProgress",
+      progress
+    );
+  }
+  return progress;
+};
+
+/**
+ * Tell the campaign's room about a pause, continue, cancel or completion.
+ * Called after the change is committed; a failure here only loses the push.
+ */
+export const publishCampaignStatusChange = async (
+  campaignId: number,
+  status: CampaignStatus
+): Promise<void> => {
+  try {
+    const cached = await getCachedCampaignProgress(campaignId);
+    if (cached) {
+      await redisClient.set(
+        getCacheKey(campaignId),
+        JSON.stringify({ ...cached, status }),
+        CACHE_TTL
+      );
+    }
+    socketService.emitToRoom(campaignRoom(campaignId), "campaignStatusChanged", {
+      campaignId,
+      status,
+      changedAt: new Date().toISOString(),
+    });
+  } catch (error: any) {
+    logger.error(
+      `Failed to publish status of campaign ${campaignId}: ${error.message}`
+    );
+  }
+};
+
+export const publishCampaignRefund = (
+  campaignId: number,
+  refund: { refundAmount: number; fromHold?: boolean }
+): void => {
+  socketService.emitToRoom(campaignRoom(campaignId), "campaignRefunded", {
+    campaignId,
+    refundAmount: refund.refundAmount,
+    fromHold: !!refund.fromHold,
+    refundedAt: new Date().toISOString(),
+  });
+};
+
+/**
+ * campaign:subscribe puts the socket in a campaign's room, for its owner or
+ * an admin, and answers with the latest progress; campaign:unsubscribe
+ * leaves it. While the socket stays in the room its subscription is renewed,
+ * so the poller only asks the bot about campaigns someone is watching.
+ */
+export const registerCampaignProgressHandlers = (socket: Socket): void => {
+  const user = socket.data.user as JwtPayload;
+  const renewals = new Map<number, ReturnType<typeof setInterval>>();
+
+  const stopRenewal = (campaignId: number) => {
+    clearInterval(renewals.get(campaignId));
+    renewals.delete(campaignId);
+  };
+
+  socket.on("campaign:subscribe", async (campaignId: unknown, ack?: SocketAck) => {
+    const reply: SocketAck = typeof ack === "function" ? ack : () => undefined;
+    const id = Number(campaignId);
+    if (!Number.isInteger(id) || id <= 0) {
+      reply({ status: false, message: "Invalid campaign id" });
+      return;
+    }
+    try {
+      if (
+        user.role?.id !== 1 &&
+        !(await isCampaignOwnerRepo({ campaignId: id, userId: Number(user.id) }))
+      ) {
+        reply({ status: false, message: "You not have permission" });
+        return;
+      }
+      const progress =
+        (await getCachedCampaignProgress(id)) ||
+        (await refreshCampaignProgress(id));
+      if (!progress) {
+        reply({ status: false, message: "Campaign not found" });
+        return;
+      }
+      await socket.join(campaignRoom(id));
+      await touchCampaignSubscription(id);
+      if (!renewals.has(id)) {
+        renewals.set(
+          id,
+          setInterval(() => {
+            touchCampaignSubscription(id).catch((error: any) =>
+              logger.warn(
+                `Failed to renew subscription to campaign ${id}: ${error.message}`
+              )
+            );
+          }, SUBSCRIPTION_TTL / 2)
+        );
+      }
+      reply({ status: true, message: "Subscribed to campaign", data: progress });
+    } catch (error: any) {
+      logger.error(
+        `Failed to subscribe ${socket.id} to campaign ${id}: ${error.message}`
+      );
+      reply({ status: false, message: error.message || "Failed to subscribe" });
+    }
+  });
+
+  socket.on("campaign:unsubscribe", async (campaignId: unknown, ack?: SocketAck) => {
+    stopRenewal(Number(campaignId));
+    await socket.leave(campaignRoom(Number(campaignId)));
+    if (typeof ack === "function") {
+      ack({ status: true, message: "Unsubscribed from campaign" });
+    }
+  });
+
+  // Other subscribers keep renewing; this socket's entries lapse on their own
+  socket.on("disconnect", () => {
+    renewals.forEach((_, campaignId) => stopRenewal(campaignId));
+  });
+};
+
+/**
+ * Refresh the active campaigns somebody is subscribed to. Others are left to
+ * the cache and computed on demand when a subscriber arrives.
+ */
+export const pollCampaignProgress = async (): Promise<number> => {
+  const subscribedIds = await getSubscribedCampaignIds();
+  if (!subscribedIds.length) return 0;
+  const campaigns = await Campaign.findAll({
+    where: {
+      id: subscribedIds,
+      status: CampaignStatus.ACTIVE,
+      isDeleted: false,
+    },
+    attributes: ["id"],
+  });
+  // One campaign at a time so the poller never floods the bot
+  for (const campaign of campaigns) {
+    try {
+      await refreshCampaignProgress(campaign.id);
+    } catch (error: any) {
+      logger.warn(
+        `Failed to refresh progress of campaign ${campaign.id}: ${error.message}`
+      );
+    }
+  }
+  return campaigns.length;
+};
+
+export const startCampaignProgressService = async () => {
+  logger.info("Starting campaign progress poller...");
+  isRunning = true;
+
+  const handleShutdown = () => {
+    logger.info("Shutting down campaign progress poller...");
+    isRunning = false;
+  };
+  process.on("SIGINT", handleShutdown);
+  process.on("SIGTERM", handleShutdown);
+
+  while (isRunning) {
+    try {
+      await pollCampaignProgress();
+    } catch (error: any) {
+      logger.error(`Error polling campaign progress: ${error.message}`);
+    }
+    await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL));
+  }
+};
@@ -6,151 +6,90 @@ import {
   Keyword,
   Link,
   sequelizeSystem,
-  Wallet,
 } from "../models/index.model";
 import { CampaignStatus } from "../enums/campaign.enum";
 import { keywordStatus } from "../enums/keywordStatus.enum";
 import { LinkStatus } from "../enums/linkStatus.enum";
 import { redisClient } from "../config/redis.config";
-import { TransactionStatus } from "../enums/transactionStatus.enum";
-import { TransactionType } from "../enums/transactionType.enum";
-import { formatDate } from "../utils/utils";
-import { baseApiPython } from "../config/botAPI.config";
-import { KeywordAttributes } from "../interfaces/Keyword.interface";
-import { getConfigByNameRepo } from "../repositories/commonRepo/config.repository";
-import { ConfigApp } from "../constants/config.constants";
 import { createNotificationRepo } from "../repositories/commonRepo/notification.repository";
 import { notificationType } from "../enums/notification.enum";
-import { calculateCampaignCosts } from "../controllers/coreController/campaign.controller";
-import { KeywordType } from "../enums/keywordType.enum";
-import { createTransactionRepo } from "../repositories/moneyRepo/transaction.repository";
+import { getSettlementByCampaignIdRepo } from "../repositories/moneyRepo/settlement.repository";
+import { enqueueCampaignWebhookEventRepo } from "../repositories/commonRepo/webhook.repository";
+import {
+  calculateCampaignSettlement,
+  getCampaignForSettlement,
+  saveCampaignSettlement,
+} from "./campaignSettlement.service";
+import {
+  enqueueCampaignsForRenewal,
+  processCampaignRenewalQueue,
+} from "./campaignRenewal.service";
+import {
+  publishCampaignRefund,
+  publishCampaignStatusChange,
+} from "./campaignProgress.service";
 
 const QUEUE_KEY = "campaign:refund:queue";
 const PROCESSED_SET_KEY = "campaign:refund:processed";
 
 export const processCampaignRefund = async (campaignId: number) => {
-  const transaction = await sequelizeSystem.transaction();
+  // Items removed by a campaign edit were settled when they were removed
+  const campaign = await getCampaignForSettlement(campaignId);
+  if (!campaign) {
+    logger.warn(`Campaign ${campaignId} not found`);
+    return;
+  }
 
-  try {
-    // Fetch the campaign with keywords and links
-    const campaign = await Campaign.findByPk(campaignId, {
-      include: [
-        { model: Keyword, as: "keywords" },
-        { model: Link, as: "links" },
-      ],
-      transaction,
-    });
+  if (
+    campaign.status !== CampaignStatus.COMPLETED &&
+    campaign.status !== CampaignStatus.CANCEL
+  ) {
+    logger.warn(
+      `Campaign ${campaignId} is not COMPLETED or CANCEL, skipping refund`
+    );
+    return;
+  }
 
-    if (!campaign) {
-      logger.warn(`Campaign ${campaignId} not found`);
-      return;
-    }
+  // Ask the bot before opening the transaction, it can take a while
+  const settlement = await calculateCampaignSettlement(campaign);
 
-    if (
-      campaign.status !== CampaignStatus.COMPLETED &&
-      campaign.status !== CampaignStatus.CANCEL
-    ) {
-      logger.warn(
-        `Campaign ${campaignId} is not COMPLETED or CANCEL, skipping refund`
-      );
-      return;
-    }
-
-    // const metrics = calculateCampaignMetrics(campaign.links, campaign.keywords);
-    const { totalCost } = await calculateCampaignCosts(
-      campaign.keywords,
-      campaign.links,
-      campaign.startDate,
-      campaign.endDate
-    );
-    let refundAmount = 0;
-    const KEYWORD_TRAFFIC_COST = await getConfigByNameRepo(
-      ConfigApp.KEYWORD_TRAFFIC_COST
-    );
-    const KEYWORD_VIDEO_TRAFFIC_COST = await getConfigByNameRepo(
-      ConfigApp.KEYWORD_VIDEO_TRAFFIC_COST
-    );
-    const completedTrafficPromises = campaign.keywords.map(
-      async (keyword: KeywordAttributes) => {
-        try {
-          const dataPython = {
-            keywordId: keyword.id,
-            time_start: formatDate(campaign.startDate),
-            time_end: formatDate(campaign.endDate),
-          };
-          const result = await baseApiPython(
-            "keyword/success-count-duration",
-            dataPython
-          );
-          if (keyword.keywordType === KeywordType.VIDEO) {
-            return (
-              result.success_count *
-              // keyword.timeOnSite *
-              Number(KEYWORD_VIDEO_TRAFFIC_COST?.value || 1)
-            );
-          } else {
-            return (
-              result.success_count *
-              keyword.timeOnSite *
-              Number(KEYWORD_TRAFFIC_COST?.value || 1)
-            );
-          }
-        } catch (error: any) {
-          logger.error(
-            `Error fetching traffic for keyword ${keyword.id}: ${error.message}`
-          );
-          return 0;
-        }
-      }
+  const transaction = await sequelizeSystem.transaction();
+  try {
+    const existing = await getSettlementByCampaignIdRepo(
+      campaignId,
+      transaction
     );
-
-    const completedTraffic = await Promise.all(completedTrafficPromises);
-    console.log("completedTraffic", completedTraffic);
-    refundAmount = totalCost - (completedTraffic[0] || 0);
-    console.log("refundAmount", refundAmount);
-    if (refundAmount >= 0) {
-      // Create a refund transaction
-      const wallet = await Wallet.findOne({
-        where: { userId: campaign.userId },
-        transaction,
-      });
-      if (wallet) {
-        await createTransactionRepo(
-          {
-            walletId: wallet.id,
-            amount: refundAmount,
-            type: TransactionType.REFUND_SERVICE,
-            status: TransactionStatus.COMPLETED,
-            referenceId: campaign.id.toString(),
-          },
-          transaction
-        );
-        await createNotificationRepo({
-          userId: [campaign.userId],
-          name: "Campaign refund",
-          content: `You have been refunded ${refundAmount} credit for campaign ${campaign.name}`,
-          type: notificationType.REFUND_MONEY,
-        });
-        logger.info(
-          `Refunded ${refundAmount} to wallet ${wallet.id} for campaign ${campaignId}`
-        );
-      } else {
-        logger.warn(
-          `No wallet found for user ${campaign.userId}, skipping refund for campaign ${campaignId}`
-        );
-      }
+    if (existing) {
+      logger.warn(`Campaign ${campaignId} is already settled, skipping refund`);
+      await transaction.rollback();
+      await redisClient.sAdd(PROCESSED_SET_KEY, campaignId.toString());
+      return;
     }
 
-    // Mark campaign as processed in Redis
-    await redisClient.sAdd(PROCESSED_SET_KEY, campaignId.toString());
+    await saveCampaignSettlement(campaign, settlement, transaction);
 
     await transaction.commit();
-    logger.info(`Processed campaign ${campaignId}: Refund ${refundAmount}`);
   } catch (error: any) {
     await transaction.rollback();
     logger.error(`Error processing campaign ${campaignId}: ${error.message}`);
     throw error;
   }
+
+  // Mark campaign as processed in Redis
+  await redisClient.sAdd(PROCESSED_SET_KEY, campaignId.toString());
+
+  if (settlement.totalRefund > 0) {
+    await createNotificationRepo({
+      userId: [campaign.userId],
+      name: "Campaign refund",
+      content: `You have been refunded ${settlement.totalRefund} credit for campaign ${campaign.name}`,
+      type: notificationType.REFUND_MONEY,
+    });
+    publishCampaignRefund(campaignId, { refundAmount: settlement.totalRefund });
+  }
+  logger.info(
+    `Processed campaign ${campaignId}: Refund ${settlement.totalRefund} over ${settlement.lineItems.length} items`
+  );
 };
 
 export const enqueueCampaignsForRefund = async (): Promise<number> => {
@@ -172,9 +111,6 @@ export const enqueueCampaignsForRefund = async (): Promise<number> => {
         endDate: {
           [Op.lt]: currentDate,
         },
-        campaignTypeId: {
-          [Op.in]: [1, 5],
-        },
       },
       include: [{ model: Keyword, as: "keywords" }],
       transaction,
@@ -188,6 +124,7 @@ export const enqueueCampaignsForRefund = async (): Promise<number> => {
 
     // Process campaigns: Cancel ACTIVE campaigns, enqueue CANCEL campaigns for refund
     const campaignIds: string[] = [];
+    const renewalIds: string[] = [];
     for (const campaign of campaigns) {
       const isProcessed = await redisClient.sIsMember(
         PROCESSED_SET_KEY,
@@ -207,6 +144,7 @@ export const enqueueCampaignsForRefund = async (): Promise<number> => {
             { status: CampaignStatus.COMPLETED },
             { transaction: updateTransaction }
           );
+          await enqueueCampaignWebhookEventRepo(campaign, updateTransaction);
 
           // Update keywords to INACTIVE
           if (campaign.keywords && campaign.keywords.length > 0) {
@@ -238,6 +176,13 @@ export const enqueueCampaignsForRefund = async (): Promise<number> => {
           campaignIds.push(campaign.id.toString());
           logger.info(`Completed campaign ${campaign.id}`);
           await updateTransaction.commit();
+          await publishCampaignStatusChange(
+            campaign.id,
+            CampaignStatus.COMPLETED
+          );
+          if (campaign.recurrence) {
+            renewalIds.push(campaign.id.toString());
+          }
         } catch (error: any) {
           await updateTransaction.rollback();
           logger.error(
@@ -254,6 +199,7 @@ export const enqueueCampaignsForRefund = async (): Promise<number> => {
             { status: CampaignStatus.CANCEL },
             { transaction: updateTransaction }
           );
+          await enqueueCampaignWebhookEventRepo(campaign, updateTransaction);
 
           // Update keywords to INACTIVE
           if (campaign.keywords && campaign.keywords.length > 0) {
@@ -285,6 +231,7 @@ export const enqueueCampaignsForRefund = async (): Promise<number> => {
           campaignIds.push(campaign.id.toString());
           logger.info(`Completed campaign ${campaign.id}`);
           await updateTransaction.commit();
+          await publishCampaignStatusChange(campaign.id, CampaignStatus.CANCEL);
         } catch (error: any) {
           await updateTransaction.rollback();
           logger.error(
@@ -312,6 +259,7 @@ export const enqueueCampaignsForRefund = async (): Promise<number> => {
     } else {
       logger.info("No campaigns to enqueue for refund");
     }
+    await enqueueCampaignsForRenewal(renewalIds);
 
     return campaignIds.length; // Return the number of campaigns enqueued
   } catch (error: any) {
@@ -338,6 +286,7 @@ export const startCampaignRefundService = async () => {
   // Process jobs from the queue
   const processQueue = async () => {
     const isRunning = true;
+    const failedIds: string[] = [];
     logger.info("Starting Redis queue processing for campaign refunds...");
     try {
       // Process all campaign IDs in the queue
@@ -351,12 +300,23 @@ export const startCampaignRefundService = async () => {
         const campaignId = parseInt(result.element, 10);
         if (!isNaN(campaignId)) {
           logger.info(`Processing campaign ID ${campaignId} from queue`);
-          await processCampaignRefund(campaignId);
-          logger.info(`Completed processing campaign ID ${campaignId}`);
+          try {
+            await processCampaignRefund(campaignId);
+            logger.info(`Completed processing campaign ID ${campaignId}`);
+          } catch {
+            // Typically the bot being unreachable: settle it on the next run
+            failedIds.push(campaignId.toString());
+          }
         } else {
           logger.warn(`Invalid campaign ID in queue: ${result.element}`);
         }
       }
+      if (failedIds.length > 0) {
+        await redisClient.lPush(QUEUE_KEY, ...failedIds);
+        logger.warn(
+          `Requeued ${failedIds.length} campaigns whose refund failed for the next run`
+        );
+      }
     } catch (error: any) {
       logger.error(`Error processing queue item: ${error.message}`);
       throw error; // Rethrow to handle in cron job
@@ -364,6 +324,7 @@ export const startCampaignRefundService = async () => {
   };
   await enqueueCampaignsForRefund();
   await processQueue();
+  await processCampaignRenewalQueue();
   // Schedule task to enqueue and process campaigns daily at midnight
   cron.schedule("0 1 * * *", async () => {
     logger.info("Running daily campaign refund check...");
@@ -384,6 +345,10 @@ export const startCampaignRefundService = async () => {
       // Process the queue immediately after enqueuing
       await processQueue();
       logger.info("Completed daily refund processing");
+
+      // Completed recurring campaigns start their next period
+      const renewedCount = await processCampaignRenewalQueue();
+      logger.info(`Processed ${renewedCount} campaign renewals`);
     } catch (error: any) {
       logger.error(`Error in daily campaign refund check: ${error.message}`);
     }
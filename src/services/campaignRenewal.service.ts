@@ -0,0 +1,225 @@
+import { logger } from "../config/logger.config";
+import { redisClient } from "../config/redis.config";
+import { Campaign, DirectLink, Keyword, Link } from "../models/index.model";
+import { CampaignStatus } from "../enums/campaign.enum";
+import { notificationType } from "../enums/notification.enum";
+import { createNotificationRepo } from "../repositories/commonRepo/notification.repository";
+import { copyCampaign } from "../controllers/coreController/campaign.controller";
+import { addRecurrenceInterval, formatDate } from "../utils/utils";
+
+const RENEWAL_QUEUE_KEY = "campaign:renewal:queue";
+// Campaigns whose renewal kept failing, kept for an admin to look at
+const RENEWAL_DEAD_LETTER_KEY = "campaign:renewal:dead";
+const RENEWAL_ATTEMPTS_KEY = (campaignId: number) =>
+  `campaign:renewal:attempts:${campaignId}`;
+const MAX_RENEWAL_ATTEMPTS = 3; // One attempt per daily run
+const RENEWAL_ATTEMPTS_TTL = 7 * 24 * 60 * 60;
+const MAX_SKIPPED_PERIODS = 60; // Upper bound when catching up on periods that already ended
+
+export const enqueueCampaignsForRenewal = async (
+  campaignIds: string[]
+): Promise<void> => {
+  if (campaignIds.length === 0) return;
+  try {
+    await redisClient.lPush(RENEWAL_QUEUE_KEY, ...campaignIds);
+    logger.info(`Enqueued ${campaignIds.length} campaigns for renewal`);
+  } catch (error: any) {
+    logger.error(`Failed to enqueue campaigns for renewal: ${error.message}`);
+  }
+};
+
+const notifyRecurrenceEnded = async (campaign: Campaign, reason: string) => {
+  await createNotificationRepo({
+    userId: [campaign.userId],
+    name: campaign.name,
+    content: `Recurring campaign ${campaign.name} has stopped: ${reason}`,
+    type: notificationType.RENEW_CAMPAIGN,
+  });
+  logger.info(`Recurrence of campaign ${campaign.id} stopped: ${reason}`);
+};
+
+/**
+ * Create the next period of a completed recurring campaign. The new campaign
+ * carries the same rule with occurrence + 1 and points back through
+ * parentCampaignId, which also keeps a campaign from being renewed twice.
+ */
+export const processCampaignRenewal = async (campaignId: number) => {
+  const campaign = await Campaign.findByPk(campaignId, {
+    include: [
+      {
+        model: Keyword,
+        as: "keywords",
+        where: { isDeleted: false },
+        required: false,
+      },
+      {
+        model: Link,
+        as: "links",
+        where: { isDeleted: false },
+        required: false,
+      },
+      {
+        model: DirectLink,
+        as: "directLinks",
+        where: { isDeleted: false },
+        required: false,
+      },
+    ],
+  });
+  if (!campaign || campaign.isDeleted || !campaign.recurrence) {
+    logger.warn(`Campaign ${campaignId} is not a recurring campaign, skipping`);
+    return;
+  }
+  if (campaign.status !== CampaignStatus.COMPLETED) {
+    logger.warn(
+      `Campaign ${campaignId} is ${campaign.status}, only COMPLETED campaigns are renewed`
+    );
+    return;
+  }
+  const renewed = await Campaign.findOne({
+    where: { parentCampaignId: campaign.id },
+  });
+  if (renewed) {
+    logger.info(
+      `Campaign ${campaignId} was already renewed as campaign ${renewed.id}`
+    );
+    return;
+  }
+
+  const occurrence = campaign.occurrence || 1;
+  if (campaign.recurrenceCount && occurrence >= campaign.recurrenceCount) {
+    await notifyRecurrenceEnded(
+      campaign,
+      `all ${campaign.recurrenceCount} occurrences have been completed`
+    );
+    return;
+  }
+
+  const currentDate = new Date();
+  currentDate.setUTCHours(0, 0, 0, 0);
+
+  // Periods that already ended while the worker was down are skipped, not charged
+  let start = addRecurrenceInterval(campaign.startDate, campaign.recurrence);
+  let end = addRecurrenceInterval(campaign.endDate, campaign.recurrence);
+  for (let i = 0; end <= currentDate && i < MAX_SKIPPED_PERIODS; i++) {
+    start = addRecurrenceInterval(start, campaign.recurrence);
+    end = addRecurrenceInterval(end, campaign.recurrence);
+  }
+  if (end <= currentDate) {
+    logger.warn(`Campaign ${campaignId} is too far behind to be renewed`);
+    return;
+  }
+  if (campaign.recurrenceUntil && start > new Date(campaign.recurrenceUntil)) {
+    await notifyRecurrenceEnded(
+      campaign,
+      `the recurrence ended on ${formatDate(campaign.recurrenceUntil)}`
+    );
+    return;
+  }
+
+  const copy = await copyCampaign(campaign, {
+    name: campaign.name,
+    start,
+    end,
+    currentDate,
+    recurrence: campaign.recurrence,
+    recurrenceCount: campaign.recurrenceCount,
+    recurrenceUntil: campaign.recurrenceUntil,
+    occurrence: occurrence + 1,
+    parentCampaignId: campaign.id,
+  });
+  if (!copy) {
+    await notifyRecurrenceEnded(
+      campaign,
+      "insufficient balance to pay for the next period"
+    );
+    return;
+  }
+
+  await createNotificationRepo({
+    userId: [campaign.userId],
+    name: campaign.name,
+    content: `Campaign ${campaign.name} has been renewed from ${formatDate(start)} to ${formatDate(end)} with cost ${copy.totalCost} credit`,
+    type: notificationType.RENEW_CAMPAIGN,
+  });
+  logger.info(
+    `Renewed campaign ${campaignId} as campaign ${copy.campaign.id} (occurrence ${occurrence + 1})`
+  );
+};
+
+/**
+ * A renewal that threw is tried again on the next run. After
+ * MAX_RENEWAL_ATTEMPTS it is moved to the dead-letter list and the owner is
+ * told the campaign was not renewed. Returns true when it is retried.
+ */
+const handleRenewalFailure = async (
+  campaignId: number,
+  error: any
+): Promise<boolean> => {
+  const attempts = await redisClient.incr(
+    RENEWAL_ATTEMPTS_KEY(campaignId),
+    RENEWAL_ATTEMPTS_TTL
+  );
+  if (attempts < MAX_RENEWAL_ATTEMPTS) {
+    logger.warn(
+      `Error renewing campaign ${campaignId} (attempt ${attempts}), retrying on the next run: ${error.message}`
+    );
+    return true;
+  }
+  logger.error(
+    `Renewal of campaign ${campaignId} failed ${attempts} times, moved to ${RENEWAL_DEAD_LETTER_KEY}: ${error.message}`
+  );
+  await redisClient.lPush(RENEWAL_DEAD_LETTER_KEY, campaignId.toString());
+  await redisClient.del(RENEWAL_ATTEMPTS_KEY(campaignId));
+  const campaign = await Campaign.findByPk(campaignId, {
+    attributes: ["id", "userId", "name"],
+  });
+  if (campaign) {
+    await notifyRecurrenceEnded(
+      campaign,
+      "the next period could not be created, please contact support"
+    );
+  }
+  return false;
+};
+
+// Drain the renewal queue; a failing campaign does not block the others and is requeued for the next run
+export const processCampaignRenewalQueue = async (): Promise<number> => {
+  let processed = 0;
+  const failedIds: string[] = [];
+  for (;;) {
+    const result = await redisClient.brPop(RENEWAL_QUEUE_KEY, 1);
+    if (!result || !result.element) {
+      break;
+    }
+    const campaignId = parseInt(result.element, 10);
+    if (isNaN(campaignId)) {
+      logger.warn(`Invalid campaign ID in renewal queue: ${result.element}`);
+      continue;
+    }
+    try {
+      await processCampaignRenewal(campaignId);
+      await redisClient.del(RENEWAL_ATTEMPTS_KEY(campaignId));
+      processed++;
+    } catch (error: any) {
+      try {
+        if (await handleRenewalFailure(campaignId, error)) {
+          failedIds.push(campaignId.toString());
+        }
+      } catch (handlingError: any) {
+        // Keep the id rather than lose the renewal
+        logger.error(
+          `Error handling failed renewal of campaign ${campaignId}: ${handlingError.message}`
+        );
+        failedIds.push(campaignId.toString());
+      }
+    }
+  }
+  if (failedIds.length > 0) {
+    await redisClient.lPush(RENEWAL_QUEUE_KEY, ...failedIds);
+    logger.warn(
+      `Requeued ${failedIds.length} campaigns whose renewal failed for the next run`
+    );
+  }
+  return processed;
+};
@@ -0,0 +1,318 @@
+import { Transaction } from "sequelize";
+import { botApi } from "../config/botAPI.config";
+import {
+  Campaign,
+  DirectLink,
+  GoogleMapReview,
+  Keyword,
+  Link,
+  Wallet,
+} from "../models/index.model";
+import {
+  SettlementItemType,
+  SettlementUnit,
+} from "../enums/settlement.enum";
+import {
+  CampaignSettlement,
+  SettlementLineItemAttributes,
+} from "../interfaces/SettlementLineItem.interface";
+import { formatDate } from "../utils/utils";
+import { TransactionStatus } from "../enums/transactionStatus.enum";
+import { TransactionType } from "../enums/transactionType.enum";
+import { createTransactionRepo } from "../repositories/moneyRepo/transaction.repository";
+import { createSettlementLineItemsRepo } from "../repositories/moneyRepo/settlement.repository";
+import { enqueueWebhookEventRepo } from "../repositories/commonRepo/webhook.repository";
+import { WebhookEvent } from "../enums/webhook.enum";
+import { logger } from "../config/logger.config";
+import { captureCampaignHold } from "./walletHold.service";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_NAME_LENGTH = 255;
+
+const roundCredit = (value: number): number => Math.round(value * 100) / 100;
+
+export const countDays = (start: Date, end: Date): number =>
+  Math.max(0, Math.ceil((end.getTime() - start.getTime()) / DAY_MS));
+
+export const summarizeSettlement = (
+  campaignId: number,
+  lineItems: SettlementLineItemAttributes[]
+): CampaignSettlement => {
+  const sum = (field: "billedCost" | "deliveredCost" | "refundAmount") =>
+    roundCredit(lineItems.reduce((total, item) => total + item[field], 0));
+  return {
+    campaignId,
+    lineItems,
+    totalBilled: sum("billedCost"),
+    totalDelivered: sum("deliveredCost"),
+    totalRefund: sum("refundAmount"),
+  };
+};
+
+// Load a campaign with every billable item that is still part of it
+export const getCampaignForSettlement = async (
+  campaignId: number,
+  transaction?: Transaction
+): Promise<Campaign | null> =>
+  Campaign.findByPk(campaignId, {
+    include: [
+      {
+        model: Keyword,
+        as: "keywords",
+        where: { isDeleted: false },
+        required: false,
+      },
+      {
+        model: Link,
+        as: "links",
+        where: { isDeleted: false },
+        required: false,
+      },
+      {
+        model: DirectLink,
+        as: "directLinks",
+        where: { isDeleted: false },
+        required: false,
+      },
+      {
+        model: GoogleMapReview,
+        as: "googleMapReviews",
+        where: { isDeleted: false },
+        required: false,
+      },
+    ],
+    transaction,
+  });
+
+// Delivered cost is pro rata of what was billed, so price changes never leak into a refund
+const buildLineItem = (
+  campaignId: number,
+  item: {
+    itemType: SettlementItemType;
+    itemId: number;
+    name: string;
+    unit: SettlementUnit;
+    billedQuantity: number;
+    deliveredQuantity: number;
+    billedCost: number;
+  }
+): SettlementLineItemAttributes => {
+  const billedCost = roundCredit(Number(item.billedCost) || 0);
+  const deliveredQuantity = Math.min(
+    Math.max(item.deliveredQuantity, 0),
+    item.billedQuantity
+  );
+  const deliveredCost =
+    item.billedQuantity > 0
+      ? roundCredit((billedCost * deliveredQuantity) / item.billedQuantity)
+      : billedCost;
+  return {
+    campaignId,
+    transactionId: null,
+    itemType: item.itemType,
+    itemId: item.itemId,
+    name: (item.name || "").slice(0, MAX_NAME_LENGTH),
+    unit: item.unit,
+    billedQuantity: item.billedQuantity,
+    deliveredQuantity,
+    billedCost,
+    deliveredCost,
+    refundAmount: roundCredit(billedCost - deliveredCost),
+  };
+};
+
+/**
+ * Reconcile every billable item of a campaign against what the bot delivered
+ * up to the end of the campaign (or now, for a campaign still running).
+ * Keywords and direct links are measured in successful visits, links in days
+ * live and maps reviews count as delivered once the campaign has started,
+ * since the bot does not report them back. Bot errors are thrown so the
+ * settlement is retried instead of refunding traffic that may have run.
+ */
+export const calculateCampaignSettlement = async (
+  campaign: Campaign,
+  now: Date = new Date()
+): Promise<CampaignSettlement> => {
+  const start = new Date(campaign.startDate);
+  const end = new Date(campaign.endDate);
+  const deliveryEnd = end < now ? end : now;
+  const hasStarted = deliveryEnd > start;
+  const range = {
+    time_start: formatDate(start),
+    time_end: formatDate(deliveryEnd),
+  };
+  const lineItems: SettlementLineItemAttributes[] = [];
+
+  for (const keyword of campaign.keywords || []) {
+    const delivered = hasStarted
+      ? (
+          await botApi.getKeywordSuccessCount({
+            keywordId: keyword.id || 0,
+            ...range,
+          })
+        ).success_count
+      : 0;
+    lineItems.push(
+      buildLineItem(campaign.id, {
+        itemType: SettlementItemType.KEYWORD,
+        itemId: keyword.id || 0,
+        name: keyword.name,
+        unit: SettlementUnit.TRAFFIC,
+        billedQuantity: keyword.traffic || 0,
+        deliveredQuantity: delivered,
+        billedCost: keyword.cost,
+      })
+    );
+  }
+
+  for (const link of campaign.links || []) {
+    // Links created before billedDays was stored were billed for the whole campaign
+    const billedDays = link.billedDays || Math.max(countDays(start, end), 1);
+    lineItems.push(
+      buildLineItem(campaign.id, {
+        itemType: SettlementItemType.LINK,
+        itemId: link.id || 0,
+        name: link.link,
+        unit: SettlementUnit.DAY,
+        billedQuantity: billedDays,
+        deliveredQuantity: countDays(start, deliveryEnd),
+        billedCost: link.cost,
+      })
+    );
+  }
+
+  for (const directLink of campaign.directLinks || []) {
+    const delivered = hasStarted
+      ? (
+          await botApi.getDirectLinkSuccessCount({
+            directLinkId: directLink.id || 0,
+            ...range,
+          })
+        ).success_count
+      : 0;
+    lineItems.push(
+      buildLineItem(campaign.id, {
+        itemType: SettlementItemType.DIRECT_LINK,
+        itemId: directLink.id || 0,
+        name: directLink.link,
+        unit: SettlementUnit.TRAFFIC,
+        billedQuantity: directLink.traffic || 0,
+        deliveredQuantity: delivered,
+        billedCost: directLink.cost,
+      })
+    );
+  }
+
+  for (const review of campaign.googleMapReviews || []) {
+    lineItems.push(
+      buildLineItem(campaign.id, {
+        itemType: SettlementItemType.GOOGLE_MAP_REVIEW,
+        itemId: review.id || 0,
+        name: review.location || review.googleMapsUrl,
+        unit: SettlementUnit.REVIEW,
+        billedQuantity: 1,
+        deliveredQuantity: hasStarted ? 1 : 0,
+        billedCost: review.cost,
+      })
+    );
+  }
+
+  return summarizeSettlement(campaign.id, lineItems);
+};
+
+// An admin-chosen refund is recorded as one adjustment line so the lines still add up to the transaction
+export const applyRefundOverride = (
+  settlement: CampaignSettlement,
+  refundAmount: number
+): CampaignSettlement => {
+  const adjustment = roundCredit(refundAmount - settlement.totalRefund);
+  if (adjustment === 0) return settlement;
+  return summarizeSettlement(settlement.campaignId, [
+    ...settlement.lineItems,
+    {
+      campaignId: settlement.campaignId,
+      transactionId: null,
+      itemType: SettlementItemType.ADJUSTMENT,
+      itemId: 0,
+      name: "Admin refund override",
+      unit: SettlementUnit.CREDIT,
+      billedQuantity: 0,
+      deliveredQuantity: 0,
+      billedCost: 0,
+      deliveredCost: -adjustment,
+      refundAmount: adjustment,
+    },
+  ]);
+};
+
+/**
+ * Pay the refund back to the owner's wallet as a REFUND_SERVICE transaction
+ * and store the line items against it. A campaign still holding its credit
+ * (cancelled before it started) was never charged, so only the non-refunded
+ * part of the hold is captured and the rest is released instead. Returns the
+ * refund or capture transaction id, null when no money moved or the owner has
+ * no wallet (the lines are still stored).
+ */
+export const saveCampaignSettlement = async (
+  campaign: Campaign,
+  settlement: CampaignSettlement,
+  transaction: Transaction
+): Promise<{ transactionId: number | null; fromHold: boolean }> => {
+  let transactionId: number | null = null;
+  const hold = await captureCampaignHold(
+    campaign.id,
+    transaction,
+    roundCredit(settlement.totalBilled - settlement.totalRefund)
+  );
+  if (hold) {
+    transactionId = hold.transactionId;
+    logger.info(
+      `Released ${roundCredit(hold.amount - hold.capturedAmount)} held credit for campaign ${campaign.id}`
+    );
+  } else if (settlement.totalRefund > 0) {
+    const wallet = await Wallet.findOne({
+      where: { userId: campaign.userId },
+      transaction,
+    });
+    if (wallet) {
+      const refund = await createTransactionRepo(
+        {
+          walletId: wallet.id,
+          amount: settlement.totalRefund,
+          type: TransactionType.REFUND_SERVICE,
+          status: TransactionStatus.COMPLETED,
+          referenceId: campaign.id.toString(),
+        },
+        transaction
+      );
+      transactionId = refund.id || null;
+      logger.info(
+        `Refunded ${settlement.totalRefund} to wallet ${wallet.id} for campaign ${campaign.id}`
+      );
+    } else {
+      logger.warn(
+        `No wallet found for user ${campaign.userId}, skipping refund for campaign ${campaign.id}`
+      );
+    }
+  }
+
+  await createSettlementLineItemsRepo(
+    settlement.lineItems.map((lineItem) => ({ ...lineItem, transactionId })),
+    transaction
+  );
+  if (settlement.totalRefund > 0 && (hold || transactionId)) {
+    await enqueueWebhookEventRepo(
+      campaign.userId,
+      WebhookEvent.REFUND_ISSUED,
+      {
+        campaignId: campaign.id,
+        name: campaign.name,
+        refundAmount: settlement.totalRefund,
+        fromHold: !!hold,
+        transactionId,
+      },
+      transaction
+    );
+  }
+  return { transactionId, fromHold: !!hold };
+};
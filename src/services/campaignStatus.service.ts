@@ -7,89 +7,130 @@ import { keywordStatus } from "../enums/keywordStatus.enum";
 import { LinkStatus } from "../enums/linkStatus.enum";
 import { createNotificationRepo } from "../repositories/commonRepo/notification.repository";
 import { notificationType } from "../enums/notification.enum";
+import { captureCampaignHold } from "./walletHold.service";
+import { publishCampaignStatusChange } from "./campaignProgress.service";
+import { enqueueCampaignWebhookEventRepo } from "../repositories/commonRepo/webhook.repository";
 
-export const checkAndUpdateCampaignStatus = async () => {
-  logger.info("Running campaign status check...");
-
+// Start one due campaign in its own transaction; false when it was already started
+const activateCampaign = async (campaignId: number): Promise<boolean> => {
   const transaction = await sequelizeSystem.transaction();
-
   try {
-    // Get current date without time for comparison (to match startDate)
-    const currentDate = new Date();
-    currentDate.setHours(8, 0, 0, 0);
+    const campaign = await Campaign.findByPk(campaignId, {
+      transaction,
+      lock: transaction.LOCK.UPDATE,
+    });
+    if (!campaign || campaign.status !== CampaignStatus.NOT_STARTED) {
+      await transaction.rollback();
+      return false;
+    }
+
+    // Update campaign status to ACTIVE
+    await campaign.update({ status: CampaignStatus.ACTIVE }, { transaction });
+
+    // Charge the credit reserved when the campaign was scheduled
+    await captureCampaignHold(campaign.id, transaction);
 
-    // Find campaigns with NOT_STARTED status and startDate <= currentDate
-    const campaigns = await Campaign.findAll({
-      where: {
-        status: CampaignStatus.NOT_STARTED,
-        startDate: {
-          [Op.lte]: currentDate,
+    // Update associated keywords to ACTIVE
+    await Keyword.update(
+      { status: keywordStatus.ACTIVE },
+      {
+        where: {
+          campaignId: campaign.id,
+          status: keywordStatus.INACTIVE, // Only update INACTIVE keywords
         },
-      },
-      transaction,
+        transaction,
+      }
+    );
+
+    // Update associated links to ACTIVE
+    await Link.update(
+      { status: LinkStatus.ACTIVE },
+      {
+        where: {
+          campaignId: campaign.id,
+          status: LinkStatus.INACTIVE, // Only update INACTIVE links
+        },
+        transaction,
+      }
+    );
+    await DirectLink.update(
+      { status: LinkStatus.ACTIVE },
+      {
+        where: {
+          campaignId: campaign.id,
+          status: LinkStatus.INACTIVE, // Only update INACTIVE links
+        },
+        transaction,
+      }
+    );
+    await enqueueCampaignWebhookEventRepo(campaign, transaction);
+    await transaction.commit();
+
+    // Send notification for campaign status change
+    await createNotificationRepo({
+      userId: [campaign.userId],
+      name: campaign.name,
+      content: `Campaign ${campaign.name} is now running`,
+      type: notificationType.RUNNING_CAMPAIGN,
     });
-    
-    logger.info(`Found ${campaigns.length} campaigns to update`);
+    await publishCampaignStatusChange(campaign.id, CampaignStatus.ACTIVE);
+    logger.info(`Updated campaign ${campaign.id} and its keywords/links to ACTIVE`);
+    return true;
+  } catch (error) {
+    await transaction.rollback();
+    throw error;
+  }
+};
 
-    for (const campaign of campaigns) {
-      // Update campaign status to ACTIVE
-      await campaign.update(
-        { status: CampaignStatus.ACTIVE },
-        { transaction }
-      );
+/**
+ * Start every campaign whose start date has come. A campaign that fails,
+ * e.g. its hold cannot be captured, stays NOT_STARTED and its owner is
+ * told; the others start anyway and the failed one is tried on the next run.
+ */
+export const checkAndUpdateCampaignStatus = async () => {
+  logger.info("Running campaign status check...");
 
-      // Update associated keywords to ACTIVE
-      await Keyword.update(
-        { status: keywordStatus.ACTIVE },
-        {
-          where: {
-            campaignId: campaign.id,
-            status: keywordStatus.INACTIVE, // Only update INACTIVE keywords
-          },
-          transaction,
-        }
-      );
+  // Get current date without time for comparison (to match startDate)
+  const currentDate = new Date();
+  currentDate.setHours(8, 0, 0, 0);
 
-      // Update associated links to ACTIVE
-      await Link.update(
-        { status: LinkStatus.ACTIVE },
-        {
-          where: {
-            campaignId: campaign.id,
-            status: LinkStatus.INACTIVE, // Only update INACTIVE links
-          },
-          transaction,
-        }
-      );
-      await DirectLink.update(
-        { status: LinkStatus.ACTIVE },
-        {
-          where: {
-            campaignId: campaign.id,
-            status: LinkStatus.INACTIVE, // Only update INACTIVE links
-          },
-          transaction,
-        }
+  // Find campaigns with NOT_STARTED status and startDate <= currentDate
+  const campaigns = await Campaign.findAll({
+    where: {
+      status: CampaignStatus.NOT_STARTED,
+      startDate: {
+        [Op.lte]: currentDate,
+      },
+    },
+    attributes: ["id", "userId", "name"],
+  });
+
+  logger.info(`Found ${campaigns.length} campaigns to update`);
+
+  let failed = 0;
+  for (const campaign of campaigns) {
+    try {
+      await activateCampaign(campaign.id);
+    } catch (error: any) {
+      failed++;
+      logger.error(
+        `Error starting campaign ${campaign.id}, it stays NOT_STARTED until the next run: ${error.message}`
       );
-      // Send notification for campaign status change
       await createNotificationRepo({
         userId: [campaign.userId],
         name: campaign.name,
-        content: `Campaign ${campaign.name} is now running`,
+        content: `Campaign ${campaign.name} could not be started: ${error.message}`,
         type: notificationType.RUNNING_CAMPAIGN,
-      });
-
-
-      logger.info(`Updated campaign ${campaign.id} and its keywords/links to ACTIVE`);
+      }).catch((notifyError: any) =>
+        logger.error(
+          `Error notifying the owner of campaign ${campaign.id}: ${notifyError.message}`
+        )
+      );
     }
-
-    await transaction.commit();
-    logger.info("Campaign status check completed successfully");
-  } catch (error: any) {
-    await transaction.rollback();
-    logger.error("Error during campaign status check:", error.message);
-    throw error; // Re-throw to allow caller to handle
   }
+  logger.info(
+    `Campaign status check completed, ${campaigns.length - failed} started and ${failed} failed`
+  );
 };
 
 export const startCampaignStatusService = async () => {
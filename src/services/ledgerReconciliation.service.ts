@@ -0,0 +1,86 @@
+import cron from "node-cron";
+import { logger } from "../config/logger.config";
+import { sequelizeSystem, Wallet } from "../models/index.model";
+import {
+  flagLedgerDriftRepo,
+  getWalletIdsWithoutLedgerAccountRepo,
+  getWalletLedgerAccountRepo,
+  getWalletLedgerBalancesRepo,
+  resolveLedgerDriftsRepo,
+} from "../repositories/moneyRepo/ledger.repository";
+
+// Wallets that never had a transaction since the ledger went live get their opening balance here
+const openMissingWalletLedgerAccounts = async (): Promise<number> => {
+  const walletIds = await getWalletIdsWithoutLedgerAccountRepo();
+  for (const walletId of walletIds) {
+    await sequelizeSystem.transaction(async (t) => {
+      const wallet = await Wallet.findByPk(walletId, {
+        transaction: t,
+        lock: t.LOCK.UPDATE,
+      });
+      if (wallet) await getWalletLedgerAccountRepo(wallet, t);
+    });
+  }
+  return walletIds.length;
+};
+
+/**
+ * Compare every cached wallets.balance with the sum of its ledger entries.
+ * Both are read in one transaction so a payment landing mid-run is not
+ * reported as drift. Drifting wallets get an OPEN ledger_drifts record,
+ * records of wallets that agree again are RESOLVED. Balances are never
+ * corrected here: drift means something wrote the cache outside the ledger.
+ */
+export const reconcileWalletBalances = async (): Promise<number> => {
+  const opened = await openMissingWalletLedgerAccounts();
+  if (opened) {
+    logger.info(`Opened ledger accounts for ${opened} wallets`);
+  }
+
+  const drifts = await sequelizeSystem.transaction(async (t) => {
+    const ledgerBalances = await getWalletLedgerBalancesRepo(t);
+    const wallets = await Wallet.findAll({
+      attributes: ["id", "balance"],
+      transaction: t,
+    });
+    return wallets
+      .map((wallet) => {
+        const walletBalance = Math.round(Number(wallet.balance) * 100) / 100;
+        const ledgerBalance = ledgerBalances.get(wallet.id) || 0;
+        return {
+          walletId: wallet.id,
+          walletBalance,
+          ledgerBalance,
+          drift: Math.round((walletBalance - ledgerBalance) * 100) / 100,
+        };
+      })
+      .filter((result) => result.drift !== 0);
+  });
+
+  for (const drift of drifts) {
+    await flagLedgerDriftRepo(drift);
+    logger.warn(
+      `Wallet ${drift.walletId} balance ${drift.walletBalance} drifts ${drift.drift} from ledger ${drift.ledgerBalance}`
+    );
+  }
+  const resolved = await resolveLedgerDriftsRepo(
+    drifts.map((drift) => drift.walletId)
+  );
+  logger.info(
+    `Ledger reconciliation finished: ${drifts.length} wallets drifting, ${resolved} drifts resolved`
+  );
+  return drifts.length;
+};
+
+export const startLedgerReconciliationService = async () => {
+  logger.info("Starting ledger reconciliation service...");
+  await reconcileWalletBalances();
+  // Run every day at 3 AM, after the refund job has settled the day's campaigns
+  cron.schedule("0 3 * * *", async () => {
+    try {
+      await reconcileWalletBalances();
+    } catch (error: any) {
+      logger.error("Error during ledger reconciliation:", error.message);
+    }
+  });
+};
@@ -0,0 +1,107 @@
+import axios from "axios";
+import { notificationConfig } from "../config/notification.config";
+import statusCode from "../constants/statusCode";
+import { NotificationChannel } from "../enums/notification.enum";
+import {
+  ExternalNotificationChannel,
+  NotificationChannelSender,
+} from "../interfaces/NotificationDelivery.interface";
+import { getNotificationEndpointRepo } from "../repositories/commonRepo/notificationPreference.repository";
+import { ErrorType } from "../types/Error.type";
+import { generateSignature } from "../utils/generate";
+import { postToPublicUrl } from "../utils/outboundRequest";
+import { generateTelegramMessage } from "../views/notification.view";
+import { queueEmail } from "./sendMail.service";
+
+// Hands the message to the email worker's Redis queue, which retries SMTP itself
+const emailChannel: NotificationChannelSender = {
+  send: async (delivery, _notification, message) => {
+    await queueEmail(delivery.target, message.subject, message.text, message.link, {
+      linkLabel: "Open notifications",
+    });
+  },
+};
+
+const telegramChannel: NotificationChannelSender = {
+  send: async (delivery, _notification, message) => {
+    if (!notificationConfig.telegramBotToken) {
+      throw new ErrorType(
+        "NotificationChannelUnavailable",
+        "TELEGRAM_BOT_TOKEN is not configured",
+        statusCode.SERVICE_UNAVAILABLE
+      );
+    }
+    await axios.post(
+      `${notificationConfig.telegramApiUrl}/bot${notificationConfig.telegramBotToken}/sendMessage`,
+      {
+        chat_id: delivery.target,
+        text: generateTelegramMessage(message),
+        parse_mode: "HTML",
+        disable_web_page_preview: true,
+      },
+      { timeout: notificationConfig.webhookTimeoutMs }
+    );
+  },
+};
+
+/**
+ * POST the notification as JSON. When the endpoint has a secret the body is
+ * signed: X-Notification-Signature is the hex HMAC-SHA256 of
+ * "<X-Notification-Timestamp>.<raw body>". Targets that resolve to a
+ * private or internal address are never contacted.
+ */
+const webhookChannel: NotificationChannelSender = {
+  send: async (delivery, notification, message) => {
+    const endpoint = await getNotificationEndpointRepo(
+      delivery.userId,
+      NotificationChannel.WEBHOOK
+    );
+    const body = JSON.stringify({
+      deliveryId: delivery.id,
+      notificationId: notification.id,
+      type: notification.type,
+      name: notification.name,
+      content: notification.content,
+      subject: message.subject,
+      text: message.text,
+      createdAt: notification.createdAt,
+    });
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      "X-Notification-Timestamp": timestamp,
+    };
+    if (endpoint?.secret) {
+      headers["X-Notification-Signature"] = generateSignature(
+        `${timestamp}.${body}`,
+        endpoint.secret
+      );
+    }
+    // Any non-2xx answer rejects and is retried by the dispatcher
+    await postToPublicUrl(delivery.target, body, {
+      headers,
+      timeout: notificationConfig.webhookTimeoutMs,
+    });
+  },
+};
+
+const notificationChannels = new Map<
+  ExternalNotificationChannel,
+  NotificationChannelSender
+>([
+  [NotificationChannel.EMAIL, emailChannel],
+  [NotificationChannel.TELEGRAM, telegramChannel],
+  [NotificationChannel.WEBHOOK, webhookChannel],
+]);
+
+// Replace the sender of a channel, e.g. with another email provider
+export const registerNotificationChannel = (
+  channel: ExternalNotificationChannel,
+  sender: NotificationChannelSender
+): void => {
+  notificationChannels.set(channel, sender);
+};
+
+export const getNotificationChannel = (
+  channel: ExternalNotificationChannel
+): NotificationChannelSender | undefined => notificationChannels.get(channel);
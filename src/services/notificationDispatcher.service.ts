@@ -0,0 +1,108 @@
+import { logger } from "../config/logger.config";
+import { NotificationDeliveryAttributes } from "../interfaces/NotificationDelivery.interface";
+import {
+  claimDueNotificationDeliveriesRepo,
+  markNotificationDeliveredRepo,
+  markNotificationDeliveryFailedRepo,
+  releaseStaleNotificationDeliveriesRepo,
+} from "../repositories/commonRepo/notificationDelivery.repository";
+import { renderNotification } from "../views/notification.view";
+import { getNotificationChannel } from "./notificationChannel.service";
+
+// Constants
+const POLL_INTERVAL = 5000; // ms between two polls of the deliveries table
+const BATCH_SIZE = 50;
+const MAX_ATTEMPTS = 6; // Dead-letter a delivery after this many failures
+const BASE_RETRY_DELAY = 30 * 1000; // First retry after 30 seconds
+const MAX_RETRY_DELAY = 60 * 60 * 1000; // Never wait more than 1 hour
+const STALE_LOCK_TIMEOUT = 5 * 60 * 1000; // Release locks held longer than 5 minutes
+
+let isRunning = false;
+
+// Exponential backoff: 30s, 1m, 2m, ... capped at MAX_RETRY_DELAY
+const getNextAttemptAt = (attempts: number): Date | null => {
+  if (attempts >= MAX_ATTEMPTS) {
+    return null;
+  }
+  const delay = Math.min(
+    BASE_RETRY_DELAY * Math.pow(2, attempts - 1),
+    MAX_RETRY_DELAY
+  );
+  return new Date(Date.now() + delay);
+};
+
+export const deliverNotification = async (
+  delivery: NotificationDeliveryAttributes
+): Promise<void> => {
+  const attempts = delivery.attempts + 1;
+  try {
+    const sender = getNotificationChannel(delivery.channel);
+    if (!sender) {
+      throw new Error(`No sender registered for channel ${delivery.channel}`);
+    }
+    if (!delivery.notifications) {
+      throw new Error(`Notification ${delivery.notificationId} not found`);
+    }
+    await sender.send(
+      delivery,
+      delivery.notifications,
+      renderNotification(delivery.notifications)
+    );
+    await markNotificationDeliveredRepo(delivery.id || 0, attempts);
+    logger.info(
+      `Delivered notification ${delivery.notificationId} to user ${delivery.userId} over ${delivery.channel}`
+    );
+  } catch (error: any) {
+    const nextAttemptAt = getNextAttemptAt(attempts);
+    await markNotificationDeliveryFailedRepo(
+      delivery.id || 0,
+      attempts,
+      error.message,
+      nextAttemptAt
+    );
+    if (nextAttemptAt) {
+      logger.warn(
+        `Notification delivery ${delivery.id} (${delivery.channel}) failed on attempt ${attempts}, retrying at ${nextAttemptAt.toISOString()}: ${error.message}`
+      );
+    } else {
+      logger.error(
+        `Notification delivery ${delivery.id} (${delivery.channel}) dead-lettered after ${attempts} attempts: ${error.message}`
+      );
+    }
+  }
+};
+
+export const dispatchNotificationDeliveries = async (): Promise<number> => {
+  await releaseStaleNotificationDeliveriesRepo(
+    new Date(Date.now() - STALE_LOCK_TIMEOUT)
+  );
+  const deliveries = await claimDueNotificationDeliveriesRepo(BATCH_SIZE);
+  // Channels are independent, so one slow webhook only delays its own batch
+  await Promise.all(deliveries.map(deliverNotification));
+  return deliveries.length;
+};
+
+export const startNotificationDispatcherService = async () => {
+  logger.info("Starting notification dispatcher...");
+  isRunning = true;
+
+  const handleShutdown = () => {
+    logger.info("Shutting down notification dispatcher...");
+    isRunning = false;
+  };
+  process.on("SIGINT", handleShutdown);
+  process.on("SIGTERM", handleShutdown);
+
+  while (isRunning) {
+    try {
+      const delivered = await dispatchNotificationDeliveries();
+      // Drain the backlog without waiting when a full batch was processed
+      if (delivered === BATCH_SIZE) {
+        continue;
+      }
+    } catch (error: any) {
+      logger.error(`Error dispatching notifications: ${error.message}`);
+    }
+    await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL));
+  }
+};
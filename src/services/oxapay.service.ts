@@ -39,6 +39,19 @@ export const getCurrenciesService = async (): Promise<{
   }
 }
 
+// USD price of each accepted coin, keyed by its symbol
+export const getPricesService = async (): Promise<Record<string, number>> => {
+  try {
+    const res = await axios.get(`${baseUrl}/common/prices`, {
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+    return res.data.data;
+  } catch {
+    throw new Error('Failed to get prices');
+  }
+}
+
 export const generatePayout = async (data: CreatePayoutInput): Promise<CreatePayoutResult> => {
   try {
 
@@ -0,0 +1,213 @@
+import { Transaction } from "sequelize";
+import { oxapayConfig } from "../config/oxapay.config";
+import { logger } from "../config/logger.config";
+import statusCode from "../constants/statusCode";
+import { ConfigApp } from "../constants/config.constants";
+import { sequelizeSystem } from "../models/index.model";
+import { DepositStatus } from "../enums/depositStatus.enum";
+import { DepositAttributes } from "../interfaces/Deposit.interface";
+import { OxaPayCallback } from "../interfaces/Oxapay.interface";
+import { ErrorType } from "../types/Error.type";
+import { getConfigByNameRepo } from "../repositories/commonRepo/config.repository";
+import {
+  completePendingDepositRepo,
+  createDepositRepo,
+  createPendingDepositRepo,
+  getDepositByOrderIdForUpdateRepo,
+  updatePendingDepositStatusRepo,
+} from "../repositories/moneyRepo/deposit.repository";
+import { generateInvoice, getPricesService } from "./oxapay.service";
+import { decodeAndDecompress, uuIDv4, uuidToNumber } from "../utils/generate";
+
+const OXAPAY_PAYMENT_METHOD_ID = 1;
+const CRYPTO_DECIMALS = 8;
+
+// Oxapay reports statuses like "Paid" or "Manual Accept"
+const normalizeStatus = (status: string): string =>
+  String(status || "")
+    .trim()
+    .toLowerCase()
+    .replace(/[\s-]+/g, "_");
+
+const PAID_STATUSES = ["paid", "manual_accept"];
+const UNDERPAID_STATUS = "underpaid";
+const EXPIRED_STATUS = "expired";
+
+const roundTo = (value: number, decimals: number): number =>
+  Math.round(value * 10 ** decimals) / 10 ** decimals;
+
+const getRateConfig = async (name: string): Promise<number> => {
+  const config = await getConfigByNameRepo(name);
+  const rate = parseFloat(config?.value || "");
+  if (!config || isNaN(rate) || rate <= 0) {
+    throw new ErrorType(
+      "ConfigError",
+      `Configuration for ${name} not found`,
+      statusCode.INTERNAL_SERVER_ERROR
+    );
+  }
+  return rate;
+};
+
+// Packages are priced in VND; the USD price buys the same credit at USD_TO_CREDIT
+export const getPackageUsdPrice = async (vndPrice: number): Promise<number> => {
+  const vndToCredit = await getRateConfig(ConfigApp.VND_TO_CREDIT);
+  const usdToCredit = await getRateConfig(ConfigApp.USD_TO_CREDIT);
+  return roundTo((Number(vndPrice) / vndToCredit) * usdToCredit, 2);
+};
+
+/**
+ * Price a USD amount in the chosen coin, store it as a PENDING deposit and
+ * open the Oxapay invoice for it. The deposit's orderId is sent as order_id
+ * so the callback finds it; the rate is the coin's USD price at creation.
+ */
+export const createOxapayInvoice = async (data: {
+  userId: number;
+  createdBy: number;
+  voucherId: number | null;
+  packageId: number | null;
+  usdAmount: number;
+  currency: string;
+}): Promise<{
+  deposit: DepositAttributes;
+  paymentUrl: string;
+  expiredAt: number;
+}> => {
+  const currency = data.currency.toUpperCase();
+  const prices = await getPricesService();
+  const exchangeRate = Number(prices?.[currency]);
+  if (!exchangeRate || exchangeRate <= 0) {
+    throw new ErrorType(
+      "UnsupportedCurrencyError",
+      `No USD price for ${currency}`,
+      statusCode.BAD_REQUEST
+    );
+  }
+  const cryptoAmount = roundTo(data.usdAmount / exchangeRate, CRYPTO_DECIMALS);
+  const orderId = uuidToNumber(uuIDv4()).toString();
+
+  const deposit = await createPendingDepositRepo({
+    createdBy: data.createdBy,
+    userId: data.userId,
+    voucherId: data.voucherId,
+    packageId: data.packageId,
+    amount: data.usdAmount,
+    paymentMethodId: OXAPAY_PAYMENT_METHOD_ID,
+    orderId,
+    cryptoCurrency: currency,
+    cryptoAmount,
+    exchangeRate,
+  });
+
+  try {
+    const invoice = await generateInvoice({
+      amount: cryptoAmount,
+      currency,
+      lifeTime: parseInt(String(oxapayConfig.lifeTime)),
+      fee_paid_by_payer: parseInt(String(oxapayConfig.feePaidByPayer)),
+      under_paid_cover: parseInt(String(oxapayConfig.underPaidCover)),
+      thanks_message: "Auto Ranker!",
+      callback_url: oxapayConfig.callbackUrl,
+      return_url: `${process.env.FRONT_END_URL}/en/deposit/${orderId}`,
+      order_id: orderId,
+      sandbox: oxapayConfig.sandbox,
+    });
+    return {
+      deposit,
+      paymentUrl: invoice.payment_url,
+      expiredAt: invoice.expired_at,
+    };
+  } catch (error: any) {
+    await updatePendingDepositStatusRepo(deposit.id || 0, DepositStatus.FAILED);
+    throw new ErrorType(
+      "InvoiceError",
+      error.message,
+      statusCode.SERVICE_UNAVAILABLE
+    );
+  }
+};
+
+/**
+ * Apply a verified Oxapay invoice callback to its deposit: paid credits it
+ * (USD amount over USD_TO_CREDIT, or the package credit), underpaid and
+ * expired only move the status. The deposit row is locked, so repeated
+ * callbacks for the same state do nothing. Returns the resulting status, or
+ * null when the callback does not belong to a deposit.
+ */
+export const settleOxapayInvoice = async (
+  data: OxaPayCallback
+): Promise<DepositStatus | null> => {
+  const status = normalizeStatus(data.status);
+  return await sequelizeSystem.transaction(async (t: Transaction) => {
+    const deposit = data.order_id
+      ? await getDepositByOrderIdForUpdateRepo(data.order_id, t)
+      : null;
+    if (!deposit) {
+      return await settleLegacyInvoice(data, status, t);
+    }
+
+    if (PAID_STATUSES.includes(status)) {
+      if (deposit.status === DepositStatus.COMPLETED) return deposit.status;
+      await completePendingDepositRepo(deposit.id, t);
+      logger.info(
+        `Oxapay invoice ${data.track_id} paid, deposit ${deposit.id} credited to user ${deposit.userId}`
+      );
+      return DepositStatus.COMPLETED;
+    }
+    if (status === UNDERPAID_STATUS) {
+      await updatePendingDepositStatusRepo(
+        deposit.id,
+        DepositStatus.UNDERPAID,
+        t
+      );
+      logger.warn(
+        `Oxapay invoice ${data.track_id} for deposit ${deposit.id} is underpaid`
+      );
+    } else if (
+      status === EXPIRED_STATUS &&
+      deposit.status === DepositStatus.PENDING
+    ) {
+      await updatePendingDepositStatusRepo(
+        deposit.id,
+        DepositStatus.EXPIRED,
+        t
+      );
+    }
+    await deposit.reload({ transaction: t });
+    return deposit.status;
+  });
+};
+
+// Invoices opened before deposits were stored carry the user in order_id
+const settleLegacyInvoice = async (
+  data: OxaPayCallback,
+  status: string,
+  transaction: Transaction
+): Promise<DepositStatus | null> => {
+  if (!PAID_STATUSES.includes(status) || !data.order_id) return null;
+  let orderInfo: { userId?: number; voucherId?: number };
+  try {
+    orderInfo = decodeAndDecompress(data.order_id);
+  } catch {
+    return null;
+  }
+  if (!orderInfo?.userId) return null;
+  try {
+    await createDepositRepo(
+      {
+        createdBy: orderInfo.userId,
+        userId: orderInfo.userId,
+        voucherId: orderInfo.voucherId || 0,
+        amount: data.amount,
+        paymentMethodId: OXAPAY_PAYMENT_METHOD_ID,
+        orderId: data.track_id,
+        status: DepositStatus.COMPLETED,
+      },
+      transaction
+    );
+  } catch (error: any) {
+    // A repeated callback finds the deposit it already created
+    if (error.name !== "DuplicateOrderIdError") throw error;
+  }
+  return DepositStatus.COMPLETED;
+};
@@ -0,0 +1,136 @@
+import crypto from "crypto";
+import { logger } from "../config/logger.config";
+import { passwordResetConfig } from "../config/passwordReset.config";
+import { redisClient } from "../config/redis.config";
+import statusCode from "../constants/statusCode";
+import { SessionRevokeReason } from "../enums/session.enum";
+import {
+  findUserByEmailRepo,
+  updateUserOneFieldRepo,
+} from "../repositories/commonRepo/user.repository";
+import { ErrorType } from "../types/Error.type";
+import { hashedPasswordString } from "../utils/utils";
+import { revokeAllSessions } from "./session.service";
+import { queueEmail } from "./sendMail.service";
+
+// Only the hash of a token is used as key, so Redis never holds a usable link
+const TOKEN_KEY = (tokenHash: string) => `password-reset:token:${tokenHash}`;
+const USER_TOKEN_KEY = (userId: number) => `password-reset:user:${userId}`;
+
+const hashResetToken = (token: string): string =>
+  crypto.createHash("sha256").update(token).digest("hex");
+
+const consumeRateLimit = async (key: string, limit: number): Promise<void> => {
+  const count = await redisClient.incr(
+    `password-reset:rate:${key}`,
+    passwordResetConfig.rateLimitWindowSeconds
+  );
+  if (count > limit) {
+    throw new ErrorType(
+      "TooManyRequestsError",
+      "Too many password reset requests, please try again later",
+      statusCode.TOO_MANY_REQUESTS
+    );
+  }
+};
+
+/**
+ * Email a reset link when the address belongs to an active account. The
+ * caller answers the same way either way, so accounts cannot be probed.
+ * A new link replaces the previous one.
+ */
+export const requestPasswordReset = async (
+  email: unknown,
+  ip: string | undefined
+): Promise<void> => {
+  if (!email || typeof email !== "string" || !email.includes("@")) {
+    throw new ErrorType(
+      "ValidationError",
+      "Valid email is required",
+      statusCode.BAD_REQUEST
+    );
+  }
+  await consumeRateLimit(`ip:${ip || "unknown"}`, passwordResetConfig.maxRequestsPerIp);
+  await consumeRateLimit(
+    `email:${email.trim().toLowerCase()}`,
+    passwordResetConfig.maxRequestsPerEmail
+  );
+
+  const user = await findUserByEmailRepo(email.trim());
+  if (!user || user.isActive === false) {
+    return;
+  }
+
+  const previousHash = await redisClient.get(USER_TOKEN_KEY(user.id));
+  if (previousHash) {
+    await redisClient.del(TOKEN_KEY(previousHash));
+  }
+  const token = crypto.randomBytes(32).toString("base64url");
+  const tokenHash = hashResetToken(token);
+  await redisClient.set(
+    TOKEN_KEY(tokenHash),
+    String(user.id),
+    passwordResetConfig.tokenTtlSeconds
+  );
+  await redisClient.set(
+    USER_TOKEN_KEY(user.id),
+    tokenHash,
+    passwordResetConfig.tokenTtlSeconds
+  );
+
+  const link = `${process.env.FRONT_END_URL}/en/reset-password/${token}`;
+  await queueEmail(
+    user.email,
+    "Reset Your Password - Cyno Traffic System",
+    `
+    <h1>Reset your password</h1>
+    <p>We received a request to reset the password of your account.</p>
+    <p>The link below works once and expires in ${passwordResetConfig.tokenTtlSeconds / 60} minutes. If you did not ask for it, you can ignore this email.</p>
+  `,
+    link,
+    { recipientName: user.username, linkLabel: "Reset Password" }
+  );
+};
+
+/**
+ * Set a new password with a reset token. The token is consumed before the
+ * password changes, and every session of the user is logged out afterwards.
+ */
+export const resetPassword = async (
+  token: unknown,
+  newPassword: unknown
+): Promise<void> => {
+  if (!newPassword || typeof newPassword !== "string" || newPassword.length < 6) {
+    throw new ErrorType(
+      "ValidationError",
+      "New password is required and must be at least 6 characters",
+      statusCode.BAD_REQUEST
+    );
+  }
+  const userId =
+    typeof token === "string" && token
+      ? Number(await redisClient.take(TOKEN_KEY(hashResetToken(token))))
+      : 0;
+  if (!userId) {
+    throw new ErrorType(
+      "InvalidResetTokenError",
+      "Invalid or expired reset link",
+      statusCode.BAD_REQUEST
+    );
+  }
+  await redisClient.del(USER_TOKEN_KEY(userId));
+
+  const hashedPassword = await hashedPasswordString(newPassword, 10);
+  const user = await updateUserOneFieldRepo(userId, "password", hashedPassword);
+  if (!user) {
+    throw new ErrorType(
+      "InvalidResetTokenError",
+      "Invalid or expired reset link",
+      statusCode.BAD_REQUEST
+    );
+  }
+  const revoked = await revokeAllSessions(userId, SessionRevokeReason.PASSWORD_RESET);
+  logger.info(
+    `Password of user ${userId} reset by email link, ${revoked} session(s) logged out`
+  );
+};
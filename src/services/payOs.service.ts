@@ -0,0 +1,367 @@
+import crypto from "crypto";
+import { Buffer } from "buffer";
+import { Transaction } from "sequelize";
+import cron from "node-cron";
+import payOSPaymentMethod, {
+  payOsCheckoutTtlMinutes,
+  payOsChecksumKey,
+} from "../config/payOs.config";
+import { logger } from "../config/logger.config";
+import statusCode from "../constants/statusCode";
+import { sequelizeSystem } from "../models/index.model";
+import { DepositStatus } from "../enums/depositStatus.enum";
+import {
+  PaymentIntentStatus,
+  PaymentProvider,
+} from "../enums/paymentIntent.enum";
+import { PaymentIntentAttributes } from "../interfaces/PaymentIntent.interface";
+import { PayOsType } from "../types/PayOs.type";
+import { ErrorType } from "../types/Error.type";
+import {
+  createPaymentIntentRepo,
+  getExpiredPendingPaymentIntentsRepo,
+  getPaymentIntentByOrderCodeRepo,
+  updatePaymentIntentRepo,
+} from "../repositories/moneyRepo/paymentIntent.repository";
+import {
+  completePendingDepositRepo,
+  createDepositByPackageRepo,
+  createDepositRepo,
+  createPendingDepositRepo,
+  updatePendingDepositStatusRepo,
+} from "../repositories/moneyRepo/deposit.repository";
+import { uuIDv4, uuidToNumber } from "../utils/generate";
+
+const PAYOS_SUCCESS_CODE = "00";
+const PAYOS_PAYMENT_METHOD_ID = 3;
+const MINUTE_MS = 60 * 1000;
+const EXPIRY_GRACE_MINUTES = 10;
+const EXPIRY_BATCH_SIZE = 100;
+
+// Same canonical form as the PayOS SDK: keys sorted, null becomes "", arrays as JSON
+const toPayOsSignaturePayload = (data: Record<string, any>): string =>
+  Object.keys(data)
+    .sort()
+    .filter((key) => data[key] !== undefined)
+    .map((key) => {
+      let value = data[key];
+      if (Array.isArray(value)) {
+        value = JSON.stringify(
+          value.map((item) =>
+            Object.fromEntries(
+              Object.keys(item)
+                .sort()
+                .map((itemKey) => [itemKey, item[itemKey]])
+            )
+          )
+        );
+      }
+      if ([null, undefined, "undefined", "null"].includes(value)) {
+        value = "";
+      }
+      return `${key}=${value}`;
+    })
+    .join("&");
+
+export const verifyPayOsSignature = (
+  data: Record<string, any>,
+  signature: string
+): boolean => {
+  if (!payOsChecksumKey || typeof signature !== "string") return false;
+  const expected = crypto
+    .createHmac("sha256", payOsChecksumKey)
+    .update(toPayOsSignaturePayload(data))
+    .digest("hex");
+  const received = signature.toLowerCase();
+  return (
+    received.length === expected.length &&
+    crypto.timingSafeEqual(Buffer.from(received), Buffer.from(expected))
+  );
+};
+
+/**
+ * Record what is being paid for as a PENDING deposit and payment intent,
+ * then open the PayOS checkout link for it. The webhook only trusts this
+ * record: the description is a plain label. A link PayOS refuses to create
+ * leaves the intent FAILED.
+ */
+export const createPayOsCheckout = async (data: {
+  userId: number;
+  createdBy: number;
+  voucherId: number | null;
+  packageId: number | null;
+  amount: number;
+}): Promise<PaymentIntentAttributes> => {
+  const orderCode = uuidToNumber(uuIDv4());
+  const amount = Math.floor(data.amount);
+  const expiresAt = new Date(Date.now() + payOsCheckoutTtlMinutes * MINUTE_MS);
+  const intent = await sequelizeSystem.transaction(async (t: Transaction) => {
+    const deposit = await createPendingDepositRepo(
+      {
+        createdBy: data.createdBy,
+        userId: data.userId,
+        voucherId: data.voucherId,
+        packageId: data.packageId,
+        amount,
+        paymentMethodId: PAYOS_PAYMENT_METHOD_ID,
+        orderId: orderCode.toString(),
+      },
+      t
+    );
+    return await createPaymentIntentRepo(
+      {
+        provider: PaymentProvider.PAYOS,
+        orderCode,
+        userId: data.userId,
+        createdBy: data.createdBy,
+        voucherId: data.voucherId,
+        packageId: data.packageId,
+        amount,
+        status: PaymentIntentStatus.PENDING,
+        paymentLinkId: null,
+        checkoutUrl: null,
+        depositId: deposit.id || null,
+        reference: null,
+        expiresAt,
+        paidAt: null,
+      },
+      t
+    );
+  });
+
+  try {
+    const response = await payOSPaymentMethod.createPaymentLink({
+      orderCode,
+      amount,
+      description: `Deposit ${orderCode}`,
+      items: [
+        {
+          name: "Charge money",
+          quantity: 1,
+          price: amount,
+        },
+      ],
+      cancelUrl: `${process.env.FRONT_END_URL}/en/deposit/failed`,
+      returnUrl: `${process.env.FRONT_END_URL}/en/deposit/${orderCode}`,
+      expiredAt: Math.floor(expiresAt.getTime() / 1000),
+    });
+    const link = {
+      paymentLinkId: response.paymentLinkId,
+      checkoutUrl: response.checkoutUrl,
+    };
+    await updatePaymentIntentRepo(intent.id || 0, link);
+    return { ...intent, ...link };
+  } catch (error: any) {
+    await closePendingIntent(intent, PaymentIntentStatus.FAILED);
+    throw new ErrorType(
+      "PaymentLinkError",
+      `PayOS could not create the payment link: ${error.message}`,
+      statusCode.SERVICE_UNAVAILABLE
+    );
+  }
+};
+
+// Move a still PENDING intent to a closed status and fail its deposit
+const closePendingIntent = async (
+  intent: PaymentIntentAttributes,
+  status: PaymentIntentStatus.CANCELLED | PaymentIntentStatus.FAILED
+): Promise<boolean> =>
+  sequelizeSystem.transaction(async (t: Transaction) => {
+    const current = await getPaymentIntentByOrderCodeRepo(
+      PaymentProvider.PAYOS,
+      intent.orderCode,
+      t
+    );
+    if (!current || current.status !== PaymentIntentStatus.PENDING) {
+      return false;
+    }
+    await current.update({ status }, { transaction: t });
+    if (current.depositId) {
+      await updatePendingDepositStatusRepo(
+        current.depositId,
+        DepositStatus.FAILED,
+        t
+      );
+    }
+    return true;
+  });
+
+/**
+ * Cancel a pending checkout. PayOS cancels the link first, which it refuses
+ * once the order is paid, so a paid order is never closed here.
+ */
+export const cancelPayOsCheckout = async (
+  intent: PaymentIntentAttributes,
+  reason?: string
+): Promise<boolean> => {
+  if (intent.status !== PaymentIntentStatus.PENDING) return false;
+  try {
+    await payOSPaymentMethod.cancelPaymentLink(intent.orderCode, reason);
+  } catch (error: any) {
+    throw new ErrorType(
+      "PaymentLinkError",
+      `PayOS could not cancel order ${intent.orderCode}: ${error.message}`,
+      statusCode.CONFLICT
+    );
+  }
+  return await closePendingIntent(intent, PaymentIntentStatus.CANCELLED);
+};
+
+/**
+ * Mark checkouts abandoned past their expiry (plus a grace period for late
+ * webhooks) FAILED. Each one is checked with PayOS first: a link PayOS
+ * reports as PAID stays PENDING for the webhook, and an error leaves the
+ * intent for the next run.
+ */
+export const expireAbandonedPayOsCheckouts = async (
+  now: Date = new Date()
+): Promise<number> => {
+  const intents = await getExpiredPendingPaymentIntentsRepo(
+    PaymentProvider.PAYOS,
+    new Date(now.getTime() - EXPIRY_GRACE_MINUTES * MINUTE_MS),
+    EXPIRY_BATCH_SIZE
+  );
+  let expired = 0;
+  for (const intent of intents) {
+    try {
+      const link = await payOSPaymentMethod.getPaymentLinkInformation(
+        intent.orderCode
+      );
+      if (link.status === "PAID") {
+        logger.warn(
+          `PayOS order ${intent.orderCode} is paid but was never settled, leaving it PENDING`
+        );
+        continue;
+      }
+      if (link.status === "PENDING") {
+        await payOSPaymentMethod.cancelPaymentLink(
+          intent.orderCode,
+          "Checkout expired"
+        );
+      }
+      if (await closePendingIntent(intent, PaymentIntentStatus.FAILED)) {
+        expired++;
+      }
+    } catch (error: any) {
+      logger.error(
+        `Error expiring PayOS order ${intent.orderCode}: ${error.message}`
+      );
+    }
+  }
+  if (expired > 0) {
+    logger.info(`Expired ${expired} abandoned PayOS checkouts`);
+  }
+  return expired;
+};
+
+export const startPayOsCheckoutExpiryService = async () => {
+  logger.info("Starting PayOS checkout expiry service...");
+  await expireAbandonedPayOsCheckouts();
+  // Run every 5 minutes
+  cron.schedule("*/5 * * * *", async () => {
+    try {
+      await expireAbandonedPayOsCheckouts();
+    } catch (error: any) {
+      logger.error("Error expiring PayOS checkouts:", error.message);
+    }
+  });
+};
+
+/**
+ * Settle the payment intent of a verified PayOS webhook. The intent row is
+ * locked while the deposit is created, so a replayed or concurrent delivery
+ * of the same payment finds it PAID and is acknowledged without crediting
+ * again. Payloads that cannot be settled throw an ErrorType whose name is
+ * the rejection reason.
+ */
+export const settlePayOsPayment = async (
+  data: PayOsType
+): Promise<{ duplicate: boolean; depositId: number | null }> => {
+  if (data.code !== PAYOS_SUCCESS_CODE) {
+    throw new ErrorType(
+      "PaymentNotSuccessful",
+      `Payment reported code ${data.code}`,
+      statusCode.OK
+    );
+  }
+
+  return await sequelizeSystem.transaction(async (t: Transaction) => {
+    const intent = await getPaymentIntentByOrderCodeRepo(
+      PaymentProvider.PAYOS,
+      Number(data.orderCode),
+      t
+    );
+    if (!intent) {
+      throw new ErrorType(
+        "UnknownOrder",
+        `No payment intent for order ${data.orderCode}`,
+        statusCode.OK
+      );
+    }
+    if (intent.status === PaymentIntentStatus.PAID) {
+      return { duplicate: true, depositId: intent.depositId };
+    }
+    if (intent.status !== PaymentIntentStatus.PENDING) {
+      throw new ErrorType(
+        "IntentClosed",
+        `Order ${data.orderCode} was paid after it became ${intent.status}`,
+        statusCode.OK
+      );
+    }
+    if (intent.paymentLinkId && data.paymentLinkId !== intent.paymentLinkId) {
+      throw new ErrorType(
+        "PaymentLinkMismatch",
+        `Payment link ${data.paymentLinkId} does not belong to order ${data.orderCode}`,
+        statusCode.OK
+      );
+    }
+    if (Number(data.amount) !== intent.amount) {
+      throw new ErrorType(
+        "AmountMismatch",
+        `Paid ${data.amount} but order ${data.orderCode} expects ${intent.amount}`,
+        statusCode.OK
+      );
+    }
+
+    // Intents opened before checkouts stored a PENDING deposit create it here
+    const orderId = intent.orderCode.toString();
+    const deposit = intent.depositId
+      ? await completePendingDepositRepo(intent.depositId, t)
+      : intent.packageId
+      ? await createDepositByPackageRepo(
+          {
+            createdBy: intent.createdBy,
+            userId: intent.userId,
+            packageId: intent.packageId,
+            orderId,
+            status: DepositStatus.COMPLETED,
+          },
+          t
+        )
+      : await createDepositRepo(
+          {
+            createdBy: intent.createdBy,
+            userId: intent.userId,
+            voucherId: intent.voucherId || 0,
+            amount: intent.amount,
+            paymentMethodId: PAYOS_PAYMENT_METHOD_ID,
+            orderId,
+            status: DepositStatus.COMPLETED,
+          },
+          t
+        );
+    await intent.update(
+      {
+        status: PaymentIntentStatus.PAID,
+        depositId: deposit.id || null,
+        reference: data.reference || null,
+        paidAt: new Date(),
+      },
+      { transaction: t }
+    );
+    logger.info(
+      `PayOS order ${intent.orderCode} paid, deposit ${deposit.id} credited to user ${intent.userId}`
+    );
+    return { duplicate: false, depositId: deposit.id || null };
+  });
+};
@@ -7,6 +7,7 @@ import { setInterval, clearInterval } from "node:timers";
 // Types
 interface EmailOptions {
   recipientName?: string;
+  linkLabel?: string; // Button text, "Verify Email" when unset
   attachments?: SendMailOptions["attachments"];
   retries?: number;
   priority?: "high" | "normal" | "low";
@@ -74,8 +75,19 @@ class EmailService {
     options: EmailOptions = {},
     link: string  
   ): Promise<EmailResult> {
-    const { recipientName, attachments, retries = MAX_RETRIES } = options;
-    const html = generateEmailTemplate(subject, body, recipientName, link);
+    const {
+      recipientName,
+      linkLabel,
+      attachments,
+      retries = MAX_RETRIES,
+    } = options;
+    const html = generateEmailTemplate(
+      subject,
+      body,
+      recipientName,
+      link,
+      linkLabel
+    );
     const mailOptions: SendMailOptions = {
       from: process.env.SMTP_FROM_NAME ? `"${process.env.SMTP_FROM_NAME}" <${process.env.SMTP_FROM}>` : process.env.SMTP_FROM,
       to,
@@ -0,0 +1,184 @@
+import crypto from "crypto";
+import { Request } from "express";
+import { logger } from "../config/logger.config";
+import { redisClient } from "../config/redis.config";
+import { sessionConfig } from "../config/session.config";
+import statusCode from "../constants/statusCode";
+import { SessionRevokeReason } from "../enums/session.enum";
+import { UserSessionAttributes } from "../interfaces/UserSession.interface";
+import {
+  createSessionRepo,
+  getActiveSessionsRepo,
+  revokeAllSessionsRepo,
+  revokeSessionRepo,
+  rotateRefreshTokenRepo,
+} from "../repositories/commonRepo/session.repository";
+import { findUserForTokenRepo } from "../repositories/commonRepo/user.repository";
+import { ErrorType } from "../types/Error.type";
+import { signToken } from "../utils/utils";
+
+export interface SessionTokens {
+  token: string; // Access token, carries the session id as `sid`
+  refreshToken: string;
+  refreshTokenExpiresAt: Date;
+  sessionId: number;
+}
+
+const REVOKED_SESSION_KEY = (id: number) => `session:revoked:${id}`;
+
+// Refresh tokens are long random strings, so an unsalted SHA-256 is enough
+export const hashRefreshToken = (token: string): string =>
+  crypto.createHash("sha256").update(token).digest("hex");
+
+const generateRefreshToken = (): { token: string; tokenHash: string } => {
+  const token = `${sessionConfig.refreshTokenPrefix}${crypto.randomBytes(48).toString("base64url")}`;
+  return { token, tokenHash: hashRefreshToken(token) };
+};
+
+const getRefreshTokenExpiry = (): Date =>
+  new Date(Date.now() + sessionConfig.refreshTokenTtlDays * 24 * 60 * 60 * 1000);
+
+const getClientInfo = (req: Request) => ({
+  userAgent: req.headers["user-agent"]?.slice(0, 512) || null,
+  ipAddress: req.ip || null,
+});
+
+/**
+ * Remember revoked sessions while access tokens issued for them can still
+ * be valid, so verifyAccessToken rejects those tokens too.
+ */
+const markSessionsRevoked = async (ids: number[]): Promise<void> => {
+  for (const id of ids) {
+    await redisClient.set(
+      REVOKED_SESSION_KEY(id),
+      "true",
+      sessionConfig.accessTokenTtlSeconds
+    );
+  }
+};
+
+export const isSessionRevoked = async (id: number): Promise<boolean> =>
+  (await redisClient.get(REVOKED_SESSION_KEY(id))) === "true";
+
+// Open a session for a login and issue its first token pair
+export const startSession = async (
+  userId: number,
+  payload: object,
+  req: Request
+): Promise<SessionTokens> => {
+  const { token: refreshToken, tokenHash } = generateRefreshToken();
+  const refreshTokenExpiresAt = getRefreshTokenExpiry();
+  const session = await createSessionRepo(
+    {
+      userId,
+      ...getClientInfo(req),
+      lastSeenAt: new Date(),
+      expiresAt: refreshTokenExpiresAt,
+    },
+    tokenHash
+  );
+  return {
+    token: signToken({ ...payload, sid: session.id }),
+    refreshToken,
+    refreshTokenExpiresAt,
+    sessionId: session.id || 0,
+  };
+};
+
+/**
+ * Exchange a refresh token for a new pair. Each refresh token works once;
+ * presenting one again revokes its session on every device.
+ */
+export const refreshSession = async (
+  refreshToken: unknown,
+  req: Request
+): Promise<SessionTokens> => {
+  if (typeof refreshToken !== "string" || !refreshToken) {
+    throw new ErrorType(
+      "ValidationError",
+      "Refresh token is required",
+      statusCode.BAD_REQUEST
+    );
+  }
+  const { token: nextRefreshToken, tokenHash } = generateRefreshToken();
+  const refreshTokenExpiresAt = getRefreshTokenExpiry();
+  const rotation = await rotateRefreshTokenRepo(
+    hashRefreshToken(refreshToken),
+    tokenHash,
+    refreshTokenExpiresAt,
+    getClientInfo(req)
+  );
+  if (rotation.result === "REUSED") {
+    await markSessionsRevoked([rotation.session.id || 0]);
+    logger.warn(
+      `Refresh token reuse on session ${rotation.session.id} of user ${rotation.session.userId}, session revoked`
+    );
+    throw new ErrorType(
+      "RefreshTokenReuseError",
+      "Refresh token was already used, the session has been revoked",
+      statusCode.UNAUTHORIZED
+    );
+  }
+  if (rotation.result === "INVALID") {
+    throw new ErrorType(
+      "InvalidRefreshTokenError",
+      "Invalid or expired refresh token",
+      statusCode.UNAUTHORIZED
+    );
+  }
+
+  const { session } = rotation;
+  const user = await findUserForTokenRepo(session.userId);
+  if (!user || user.isActive === false) {
+    await revokeSession(session.userId, session.id || 0, SessionRevokeReason.REVOKED);
+    throw new ErrorType(
+      "InvalidRefreshTokenError",
+      "Invalid or expired refresh token",
+      statusCode.UNAUTHORIZED
+    );
+  }
+  return {
+    token: signToken({ ...user.toJSON(), sid: session.id }),
+    refreshToken: nextRefreshToken,
+    refreshTokenExpiresAt,
+    sessionId: session.id || 0,
+  };
+};
+
+export const listSessions = async (
+  userId: number,
+  currentSessionId?: number
+) => {
+  const sessions = await getActiveSessionsRepo(userId);
+  return sessions.map((session: UserSessionAttributes) => ({
+    id: session.id,
+    userAgent: session.userAgent,
+    ipAddress: session.ipAddress,
+    lastSeenAt: session.lastSeenAt,
+    expiresAt: session.expiresAt,
+    createdAt: session.createdAt,
+    current: session.id === currentSessionId,
+  }));
+};
+
+export const revokeSession = async (
+  userId: number,
+  id: number,
+  reason: SessionRevokeReason
+): Promise<boolean> => {
+  const revoked = await revokeSessionRepo(id, userId, reason);
+  if (revoked) {
+    await markSessionsRevoked([id]);
+  }
+  return revoked;
+};
+
+// Sign the user out everywhere, returns how many sessions were open
+export const revokeAllSessions = async (
+  userId: number,
+  reason: SessionRevokeReason
+): Promise<number> => {
+  const ids = await revokeAllSessionsRepo(userId, reason);
+  await markSessionsRevoked(ids);
+  return ids.length;
+};
@@ -1,10 +1,35 @@
-import { Server as SocketIOServer } from "socket.io";
+import { Server as SocketIOServer, Socket } from "socket.io";
 import { Server as HTTPServer } from "http";
+import { createAdapter } from "@socket.io/redis-adapter";
+import { Emitter } from "@socket.io/redis-emitter";
 import { logger } from "../config/logger.config";
+import { redisClient } from "../config/redis.config";
+import { verifyAccessToken } from "../middleware/auth";
+import { JwtPayload } from "../types/Jwt.type";
+
+// Every socket of an admin also joins this room
+export const ADMIN_ROOM = "admins";
+
+export const userRoom = (userId: number): string => `user_${userId}`;
+
+// Sockets join this room on request, once allowed to see the campaign
+export const campaignRoom = (campaignId: number): string =>
+  `campaign_${campaignId}`;
+
+// Token from the client's auth payload, falling back to a Bearer header
+const getHandshakeToken = (socket: Socket): string | undefined => {
+  const token = socket.handshake.auth?.token;
+  if (typeof token === "string" && token) {
+    return token.replace(/^Bearer /, "");
+  }
+  const authHeader = socket.handshake.headers["authorization"];
+  return authHeader?.split(" ")[1];
+};
 
 class SocketService {
   private static instance: SocketService;
   private io: SocketIOServer | null = null;
+  private emitter: Emitter | null = null;
 
   private constructor() {}
 
@@ -15,37 +40,105 @@ class SocketService {
     return SocketService.instance;
   }
 
-  public initialize(httpServer: HTTPServer): void {
+  /**
+   * Create the Socket.IO server. A connection must present the same access
+   * token as the REST API; the server puts it in its user's room (and the
+   * admin room for role 1), so clients cannot pick rooms themselves.
+   */
+  public initialize(httpServer: HTTPServer): SocketIOServer {
     this.io = new SocketIOServer(httpServer, {
       cors: {
-        origin: process.env.CLIENT_URL || "*",
-        methods: ["GET", "POST"]
+        origin: process.env.FRONT_END_URL || "*",
+        methods: ["GET", "POST"],
+      },
+    });
+
+    this.io.use(async (socket, next) => {
+      const token = getHandshakeToken(socket);
+      if (!token) {
+        next(new Error("Unauthorized: No token provided"));
+        return;
+      }
+      try {
+        socket.data.user = await verifyAccessToken(token);
+        next();
+      } catch (error: any) {
+        next(new Error(error.message || "Unauthorized: Invalid token"));
       }
     });
 
     this.io.on("connection", (socket) => {
-      logger.info(`Client connected: ${socket.id}`);
+      const user = socket.data.user as JwtPayload;
+      const userId = Number(user.id);
+      socket.join(userRoom(userId));
+      if (user.role?.id === 1) {
+        socket.join(ADMIN_ROOM);
+      }
+      logger.info(`Client ${socket.id} connected as user ${userId}`);
 
-      socket.on("join", (userId: number) => {
-        socket.join(`user_${userId}`);
-        logger.info(`User ${userId} joined their room`);
-      });
+      // The token is only checked at the handshake: end the socket when it expires
+      const expiresInMs = user.exp ? user.exp * 1000 - Date.now() : 0;
+      const expiryTimer =
+        expiresInMs > 0
+          ? setTimeout(() => {
+              socket.emit("tokenExpired");
+              socket.disconnect(true);
+            }, expiresInMs)
+          : null;
 
       socket.on("disconnect", () => {
+        if (expiryTimer) clearTimeout(expiryTimer);
         logger.info(`Client disconnected: ${socket.id}`);
       });
     });
+
+    return this.io;
+  }
+
+  /**
+   * Share rooms between app workers through Redis pub/sub, so an event
+   * emitted by one worker reaches sockets connected to another.
+   */
+  public async attachRedisAdapter(): Promise<void> {
+    if (!this.io) return;
+    const pubClient = redisClient.duplicate();
+    const subClient = redisClient.duplicate();
+    await Promise.all([pubClient.connect(), subClient.connect()]);
+    this.io.adapter(createAdapter(pubClient, subClient));
+    logger.info("Socket.IO Redis adapter attached");
+  }
+
+  /**
+   * Let a worker without a Socket.IO server (campaign status, refunds,
+   * progress poller) emit to the app workers' rooms through Redis.
+   */
+  public async attachRedisEmitter(): Promise<void> {
+    if (this.io || this.emitter) return;
+    const pubClient = redisClient.duplicate();
+    await pubClient.connect();
+    this.emitter = new Emitter(pubClient);
+    logger.info("Socket.IO Redis emitter attached");
   }
 
   public getIO(): SocketIOServer | null {
     return this.io;
   }
 
-  public emitToUser(userId: number, event: string, data: any): void {
+  public emitToRoom(room: string, event: string, data: any): void {
     if (this.io) {
-      this.io.to(`user_${userId}`).emit(event, data);
+      this.io.to(room).emit(event, data);
+    } else if (this.emitter) {
+      this.emitter.to(room).emit(event, data);
     }
   }
+
+  public emitToUser(userId: number, event: string, data: any): void {
+    this.emitToRoom(userRoom(userId), event, data);
+  }
+
+  public emitToAdmins(event: string, data: any): void {
+    this.emitToRoom(ADMIN_ROOM, event, data);
+  }
 }
 
-export const socketService = SocketService.getInstance(); 
\ No newline at end of file
+export const socketService = SocketService.getInstance();
@@ -0,0 +1,288 @@
+import crypto from "crypto";
+import { authenticator } from "otplib";
+import QRCode from "qrcode";
+import { twoFactorConfig } from "../config/twoFactor.config";
+import { redisClient } from "../config/redis.config";
+import { ConfigApp } from "../constants/config.constants";
+import statusCode from "../constants/statusCode";
+import { TwoFactorMethod } from "../enums/twoFactor.enum";
+import {
+  TwoFactorChallenge,
+  UserTwoFactorAttributes,
+} from "../interfaces/UserTwoFactor.interface";
+import { getConfigByNameRepo } from "../repositories/commonRepo/config.repository";
+import {
+  enableTwoFactorRepo,
+  getUserTwoFactorRepo,
+  replaceBackupCodesRepo,
+  saveTwoFactorSecretRepo,
+  useBackupCodeRepo,
+  useTotpStepRepo,
+} from "../repositories/commonRepo/twoFactor.repository";
+import { findAgencyByUserIdRepo } from "../repositories/coreRepo/agency.repository";
+import { ErrorType } from "../types/Error.type";
+import { generateOtp } from "../utils/generate";
+import { saveOtpToRedis } from "../utils/utils";
+import { queueEmail } from "./sendMail.service";
+
+// Accept the previous and next 30 second code too, for clock drift
+authenticator.options = { window: 1 };
+
+const CHALLENGE_KEY = (token: string) => `2fa:challenge:${token}`;
+const CHALLENGE_ATTEMPTS_KEY = (token: string) =>
+  `2fa:challenge:attempts:${token}`;
+const EMAIL_OTP_KEY = (email: string) =>
+  `${twoFactorConfig.emailOtpType}:otp:${email}`;
+
+const TWO_FACTOR_METHODS = Object.values(TwoFactorMethod) as string[];
+
+const invalidCodeError = () =>
+  new ErrorType(
+    "InvalidTwoFactorCodeError",
+    "Invalid or expired verification code",
+    statusCode.UNAUTHORIZED
+  );
+
+// Backup codes are typed by hand, so dashes, spaces and case are ignored
+export const hashBackupCode = (code: string): string =>
+  crypto
+    .createHash("sha256")
+    .update(code.replace(/[\s-]/g, "").toLowerCase())
+    .digest("hex");
+
+const generateBackupCodes = (): { codes: string[]; hashes: string[] } => {
+  const codes = Array.from({ length: twoFactorConfig.backupCodeCount }, () => {
+    const hex = crypto.randomBytes(5).toString("hex");
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+  });
+  return { codes, hashes: codes.map(hashBackupCode) };
+};
+
+// Read { method, code } from a request body, method defaults to totp
+export const parseTwoFactorInput = (
+  body: any
+): { method: TwoFactorMethod; code: string } => {
+  const method = body?.method || TwoFactorMethod.TOTP;
+  if (!TWO_FACTOR_METHODS.includes(method)) {
+    throw new ErrorType(
+      "ValidationError",
+      `method must be one of: ${TWO_FACTOR_METHODS.join(", ")}`,
+      statusCode.BAD_REQUEST
+    );
+  }
+  if (!body?.code || typeof body.code !== "string") {
+    throw new ErrorType(
+      "ValidationError",
+      "Verification code is required",
+      statusCode.BAD_REQUEST
+    );
+  }
+  return { method: method as TwoFactorMethod, code: body.code as string };
+};
+
+export const isTwoFactorEnabled = (
+  twoFactor: UserTwoFactorAttributes | null
+): twoFactor is UserTwoFactorAttributes => !!twoFactor?.enabledAt;
+
+/**
+ * Whether the TWO_FACTOR_MANDATORY config applies to the user: when it is
+ * "true", admins and agency owners cannot sign in without 2FA.
+ */
+export const isTwoFactorRequired = async (user: {
+  id: number;
+  role?: { id?: number } | null;
+}): Promise<boolean> => {
+  const config = await getConfigByNameRepo(ConfigApp.TWO_FACTOR_MANDATORY);
+  if (config?.value?.trim().toLowerCase() !== "true") {
+    return false;
+  }
+  if (user.role?.id === 1) {
+    return true;
+  }
+  return !!(await findAgencyByUserIdRepo(user.id));
+};
+
+// Store a new secret for the user and return what the authenticator app needs
+export const startTwoFactorSetup = async (user: {
+  id: number;
+  email: string;
+}): Promise<{ secret: string; otpauthUrl: string; qrCode: string }> => {
+  const secret = authenticator.generateSecret(20);
+  const saved = await saveTwoFactorSecretRepo(user.id, secret);
+  if (!saved) {
+    throw new ErrorType(
+      "TwoFactorAlreadyEnabledError",
+      "Two-factor authentication is already enabled",
+      statusCode.BAD_REQUEST
+    );
+  }
+  const otpauthUrl = authenticator.keyuri(
+    user.email,
+    twoFactorConfig.issuer,
+    secret
+  );
+  return { secret, otpauthUrl, qrCode: await QRCode.toDataURL(otpauthUrl) };
+};
+
+// Check a TOTP code and burn its time step so it cannot be replayed
+const verifyTotpCode = async (
+  twoFactor: UserTwoFactorAttributes,
+  code: string
+): Promise<boolean> => {
+  const delta = authenticator.checkDelta(code.replace(/\s/g, ""), twoFactor.secret);
+  if (delta === null) {
+    return false;
+  }
+  const step = Math.floor(Date.now() / 1000 / 30) + delta;
+  return useTotpStepRepo(twoFactor.userId, step);
+};
+
+/**
+ * Finish the setup with a first code from the app. Returns the backup
+ * codes in clear; only their hashes are kept.
+ */
+export const activateTwoFactor = async (
+  userId: number,
+  code: string
+): Promise<string[]> => {
+  const twoFactor = await getUserTwoFactorRepo(userId);
+  if (!twoFactor || isTwoFactorEnabled(twoFactor)) {
+    throw new ErrorType(
+      "TwoFactorSetupError",
+      twoFactor
+        ? "Two-factor authentication is already enabled"
+        : "Start the two-factor setup first",
+      statusCode.BAD_REQUEST
+    );
+  }
+  if (!(await verifyTotpCode(twoFactor, code))) {
+    throw invalidCodeError();
+  }
+  const { codes, hashes } = generateBackupCodes();
+  if (!(await enableTwoFactorRepo(userId, hashes))) {
+    throw new ErrorType(
+      "TwoFactorAlreadyEnabledError",
+      "Two-factor authentication is already enabled",
+      statusCode.BAD_REQUEST
+    );
+  }
+  return codes;
+};
+
+export const regenerateBackupCodes = async (userId: number): Promise<string[]> => {
+  const { codes, hashes } = generateBackupCodes();
+  await replaceBackupCodesRepo(userId, hashes);
+  return codes;
+};
+
+/**
+ * Check a second factor of a user with 2FA enabled. Every method is single
+ * use: TOTP steps, backup codes and email codes are consumed on success.
+ */
+export const verifySecondFactor = async (
+  user: { id: number; email: string },
+  method: TwoFactorMethod,
+  code: string
+): Promise<void> => {
+  const twoFactor = await getUserTwoFactorRepo(user.id);
+  if (!isTwoFactorEnabled(twoFactor)) {
+    throw new ErrorType(
+      "TwoFactorNotEnabledError",
+      "Two-factor authentication is not enabled",
+      statusCode.BAD_REQUEST
+    );
+  }
+  let valid = false;
+  if (method === TwoFactorMethod.TOTP) {
+    valid = await verifyTotpCode(twoFactor, code);
+  } else if (method === TwoFactorMethod.BACKUP_CODE) {
+    valid = await useBackupCodeRepo(user.id, hashBackupCode(code));
+  } else if (method === TwoFactorMethod.EMAIL) {
+    // Taken atomically, so two logins racing with the same code cannot both pass
+    const storedOtp = await redisClient.take(EMAIL_OTP_KEY(user.email));
+    valid = !!storedOtp && storedOtp === code.trim().toUpperCase();
+  }
+  if (!valid) {
+    throw invalidCodeError();
+  }
+};
+
+// Email fallback for users without their authenticator, one code per interval
+export const sendTwoFactorEmailOtp = async (user: {
+  id: number;
+  email: string;
+}): Promise<void> => {
+  const sent = await redisClient.incr(
+    `2fa:email:sent:${user.id}`,
+    twoFactorConfig.emailOtpIntervalSeconds
+  );
+  if (sent > 1) {
+    throw new ErrorType(
+      "TooManyRequestsError",
+      `Please wait ${twoFactorConfig.emailOtpIntervalSeconds} seconds before requesting another code`,
+      statusCode.TOO_MANY_REQUESTS
+    );
+  }
+  const otp = generateOtp();
+  await saveOtpToRedis(user.email, otp, twoFactorConfig.emailOtpType);
+  await queueEmail(
+    user.email,
+    "Your sign-in code - Cyno Traffic System",
+    `
+    <h1>Sign-in verification</h1>
+    <p>Your verification code is: <strong>${otp}</strong></p>
+    <p>It expires in 5 minutes. If you did not try to sign in, change your password.</p>
+  `,
+    ""
+  );
+};
+
+export const createLoginChallenge = async (
+  challenge: TwoFactorChallenge
+): Promise<string> => {
+  const token = crypto.randomBytes(32).toString("hex");
+  await redisClient.set(
+    CHALLENGE_KEY(token),
+    JSON.stringify(challenge),
+    twoFactorConfig.challengeTtlSeconds
+  );
+  return token;
+};
+
+/**
+ * Load a pending login and count an attempt against it. After too many
+ * attempts the challenge is dropped and the user has to sign in again.
+ */
+export const useLoginChallenge = async (
+  token: unknown
+): Promise<TwoFactorChallenge> => {
+  const raw =
+    typeof token === "string" && token
+      ? await redisClient.get(CHALLENGE_KEY(token))
+      : null;
+  if (!raw) {
+    throw new ErrorType(
+      "InvalidChallengeError",
+      "Sign-in session expired, please log in again",
+      statusCode.UNAUTHORIZED
+    );
+  }
+  const attempts = await redisClient.incr(
+    CHALLENGE_ATTEMPTS_KEY(token as string),
+    twoFactorConfig.challengeTtlSeconds
+  );
+  if (attempts > twoFactorConfig.maxChallengeAttempts) {
+    await clearLoginChallenge(token as string);
+    throw new ErrorType(
+      "TooManyAttemptsError",
+      "Too many attempts, please log in again",
+      statusCode.TOO_MANY_REQUESTS
+    );
+  }
+  return JSON.parse(raw) as TwoFactorChallenge;
+};
+
+export const clearLoginChallenge = async (token: string): Promise<void> => {
+  await redisClient.del(CHALLENGE_KEY(token));
+  await redisClient.del(CHALLENGE_ATTEMPTS_KEY(token));
+};
@@ -0,0 +1,78 @@
+import { Transaction } from "sequelize";
+import { logger } from "../config/logger.config";
+import { WalletHoldStatus } from "../enums/walletHoldStatus.enum";
+import { TransactionStatus } from "../enums/transactionStatus.enum";
+import { TransactionType } from "../enums/transactionType.enum";
+import { WalletHoldAttributes } from "../interfaces/WalletHold.interface";
+import { createTransactionRepo } from "../repositories/moneyRepo/transaction.repository";
+import {
+  getHeldCampaignHoldRepo,
+  updateWalletHoldAmountRepo,
+} from "../repositories/moneyRepo/walletHold.repository";
+
+const roundCredit = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Charge the credit held for a campaign as its PAY_SERVICE transaction.
+ * Capturing less than the hold (a cancelled campaign keeps only what was
+ * delivered) releases the rest. Returns null when the campaign holds nothing,
+ * e.g. it started right away or was paid before holds existed.
+ */
+export const captureCampaignHold = async (
+  campaignId: number,
+  transaction: Transaction,
+  amount?: number
+): Promise<WalletHoldAttributes | null> => {
+  const hold = await getHeldCampaignHoldRepo(campaignId, transaction);
+  if (!hold) return null;
+
+  const capturedAmount = roundCredit(
+    Math.min(Math.max(amount ?? hold.amount, 0), hold.amount)
+  );
+  // Leave HELD first so the capture does not count its own hold as reserved
+  await hold.update(
+    {
+      status:
+        capturedAmount > 0
+          ? WalletHoldStatus.CAPTURED
+          : WalletHoldStatus.RELEASED,
+      capturedAmount,
+    },
+    { transaction }
+  );
+  if (capturedAmount > 0) {
+    const payment = await createTransactionRepo(
+      {
+        walletId: hold.walletId,
+        amount: capturedAmount,
+        referenceId: campaignId.toString(),
+        status: TransactionStatus.COMPLETED,
+        type: TransactionType.PAY_SERVICE,
+      },
+      transaction
+    );
+    await hold.update({ transactionId: payment.id || null }, { transaction });
+  }
+  logger.info(
+    `Captured ${capturedAmount} of the ${hold.amount} credit held for campaign ${campaignId}`
+  );
+  return hold;
+};
+
+export const releaseCampaignHold = async (
+  campaignId: number,
+  transaction: Transaction
+): Promise<WalletHoldAttributes | null> =>
+  captureCampaignHold(campaignId, transaction, 0);
+
+// Move a held campaign's reservation by a cost delta; false when nothing is held
+export const adjustCampaignHold = async (
+  campaignId: number,
+  delta: number,
+  transaction: Transaction
+): Promise<boolean> => {
+  const hold = await getHeldCampaignHoldRepo(campaignId, transaction);
+  if (!hold) return false;
+  await updateWalletHoldAmountRepo(hold, hold.amount + delta, transaction);
+  return true;
+};
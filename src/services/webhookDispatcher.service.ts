@@ -0,0 +1,146 @@
+import { logger } from "../config/logger.config";
+import { webhookConfig } from "../config/webhook.config";
+import {
+  WebhookDeliveryAttributes,
+  WebhookEndpointAttributes,
+} from "../interfaces/Webhook.interface";
+import {
+  claimDueWebhookDeliveriesRepo,
+  markWebhookDeliveredRepo,
+  markWebhookDeliveryFailedRepo,
+  releaseStaleWebhookDeliveriesRepo,
+} from "../repositories/commonRepo/webhook.repository";
+import { generateSignature } from "../utils/generate";
+import { postToPublicUrl } from "../utils/outboundRequest";
+
+// Constants
+const POLL_INTERVAL = 5000; // ms between two polls of the deliveries table
+const BATCH_SIZE = 50;
+const MAX_ATTEMPTS = 8; // Dead-letter a delivery after this many failures
+const BASE_RETRY_DELAY = 30 * 1000; // First retry after 30 seconds
+const MAX_RETRY_DELAY = 6 * 60 * 60 * 1000; // Never wait more than 6 hours
+const STALE_LOCK_TIMEOUT = 5 * 60 * 1000; // Release locks held longer than 5 minutes
+
+let isRunning = false;
+
+// Exponential backoff: 30s, 1m, 2m, ... capped at MAX_RETRY_DELAY
+const getNextAttemptAt = (attempts: number): Date | null => {
+  if (attempts >= MAX_ATTEMPTS) {
+    return null;
+  }
+  const delay = Math.min(
+    BASE_RETRY_DELAY * Math.pow(2, attempts - 1),
+    MAX_RETRY_DELAY
+  );
+  return new Date(Date.now() + delay);
+};
+
+const truncateResponse = (data: unknown): string | null => {
+  if (data === undefined || data === null || data === "") return null;
+  const text = typeof data === "string" ? data : JSON.stringify(data);
+  return text.slice(0, webhookConfig.maxResponseBodyLength);
+};
+
+/**
+ * POST the payload to the endpoint. X-Webhook-Signature is the hex
+ * HMAC-SHA256 of "<X-Webhook-Timestamp>.<raw body>" with the endpoint's
+ * secret; X-Webhook-Id stays the same across retries of one event.
+ * A 2xx answer counts as delivered, anything else is retried with backoff
+ * unless `retry` is false, as for test events. Endpoints that resolve to a
+ * private or internal address are never contacted.
+ */
+export const deliverWebhook = async (
+  delivery: WebhookDeliveryAttributes,
+  endpoint: WebhookEndpointAttributes | undefined = delivery.webhookEndpoints,
+  retry: boolean = true
+): Promise<void> => {
+  const attempts = delivery.attempts + 1;
+  let responseStatus: number | null = null;
+  let responseBody: string | null = null;
+  try {
+    if (!endpoint) {
+      throw new Error(`Webhook endpoint ${delivery.endpointId} not found`);
+    }
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const response = await postToPublicUrl(endpoint.url, body, {
+      headers: {
+        "Content-Type": "application/json",
+        "X-Webhook-Id": delivery.eventId,
+        "X-Webhook-Event": delivery.event,
+        "X-Webhook-Timestamp": timestamp,
+        "X-Webhook-Signature": generateSignature(
+          `${timestamp}.${body}`,
+          endpoint.secret
+        ),
+      },
+      timeout: webhookConfig.timeoutMs,
+      // Judge the status ourselves so non-2xx answers are logged too
+      validateStatus: () => true,
+    });
+    responseStatus = response.status;
+    responseBody = truncateResponse(response.data);
+    if (response.status < 200 || response.status >= 300) {
+      throw new Error(`Endpoint answered with HTTP ${response.status}`);
+    }
+    await markWebhookDeliveredRepo(delivery.id || 0, attempts, {
+      responseStatus,
+      responseBody,
+    });
+    logger.info(
+      `Delivered webhook ${delivery.event} (${delivery.eventId}) to endpoint ${delivery.endpointId}`
+    );
+  } catch (error: any) {
+    const nextAttemptAt = retry ? getNextAttemptAt(attempts) : null;
+    await markWebhookDeliveryFailedRepo(
+      delivery.id || 0,
+      attempts,
+      { responseStatus, responseBody, lastError: error.message },
+      nextAttemptAt
+    );
+    if (nextAttemptAt) {
+      logger.warn(
+        `Webhook delivery ${delivery.id} failed on attempt ${attempts}, retrying at ${nextAttemptAt.toISOString()}: ${error.message}`
+      );
+    } else {
+      logger.error(
+        `Webhook delivery ${delivery.id} dead-lettered after ${attempts} attempts: ${error.message}`
+      );
+    }
+  }
+};
+
+export const dispatchWebhookDeliveries = async (): Promise<number> => {
+  await releaseStaleWebhookDeliveriesRepo(
+    new Date(Date.now() - STALE_LOCK_TIMEOUT)
+  );
+  const deliveries = await claimDueWebhookDeliveriesRepo(BATCH_SIZE);
+  // Endpoints are independent, so one slow receiver only delays its own batch
+  await Promise.all(deliveries.map((delivery) => deliverWebhook(delivery)));
+  return deliveries.length;
+};
+
+export const startWebhookDispatcherService = async () => {
+  logger.info("Starting webhook dispatcher...");
+  isRunning = true;
+
+  const handleShutdown = () => {
+    logger.info("Shutting down webhook dispatcher...");
+    isRunning = false;
+  };
+  process.on("SIGINT", handleShutdown);
+  process.on("SIGTERM", handleShutdown);
+
+  while (isRunning) {
+    try {
+      const delivered = await dispatchWebhookDeliveries();
+      // Drain the backlog without waiting when a full batch was processed
+      if (delivered === BATCH_SIZE) {
+        continue;
+      }
+    } catch (error: any) {
+      logger.error(`Error dispatching webhooks: ${error.message}`);
+    }
+    await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL));
+  }
+};
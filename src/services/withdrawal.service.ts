@@ -0,0 +1,514 @@
+import { Transaction } from "sequelize";
+import { oxapayConfig } from "../config/oxapay.config";
+import { logger } from "../config/logger.config";
+import statusCode from "../constants/statusCode";
+import { ConfigApp } from "../constants/config.constants";
+import { sequelizeSystem, WithdrawalRequest } from "../models/index.model";
+import { WithdrawalStatus } from "../enums/withdrawalStatus.enum";
+import { notificationType } from "../enums/notification.enum";
+import {
+  AgencyEarnings,
+  WithdrawalRequestAttributes,
+} from "../interfaces/Withdrawal.interface";
+import { OxaPayCallback } from "../interfaces/Oxapay.interface";
+import { ErrorType } from "../types/Error.type";
+import { getConfigByNameRepo } from "../repositories/commonRepo/config.repository";
+import { createNotificationRepo } from "../repositories/commonRepo/notification.repository";
+import {
+  createWithdrawalRequestRepo,
+  getAgencyEarningsRepo,
+  getRequestedWithdrawalAmountRepo,
+  getWithdrawalRequestByIdRepo,
+  getWithdrawalRequestByTrackIdRepo,
+  lockAgencyRepo,
+  postWithdrawalToLedgerRepo,
+  transitionWithdrawalRepo,
+} from "../repositories/moneyRepo/withdrawal.repository";
+import { generatePayout, getPricesService } from "./oxapay.service";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const CRYPTO_DECIMALS = 8;
+
+// Limits in credit, used until they are set in the configs table
+const DEFAULT_LIMITS: Record<string, number> = {
+  [ConfigApp.AGENCY_WITHDRAWAL_MIN]: 10,
+  [ConfigApp.AGENCY_WITHDRAWAL_MAX]: 10000,
+  [ConfigApp.AGENCY_WITHDRAWAL_DAILY_MAX]: 20000,
+};
+
+// Oxapay payout statuses, normalized like "confirmed" or "rejected"
+const PAYOUT_COMPLETED_STATUSES = ["complete", "completed", "confirmed"];
+const PAYOUT_FAILED_STATUSES = ["failed", "rejected", "canceled", "cancelled"];
+
+// Requests a payout callback can still settle
+const SETTLEABLE_STATUSES = [
+  WithdrawalStatus.APPROVED,
+  WithdrawalStatus.PROCESSING,
+  WithdrawalStatus.NEEDS_RECONCILIATION,
+];
+
+/**
+ * Sent as the payout description. Oxapay echoes it in the callback, which
+ * finds the request by it when the track id is not saved yet.
+ */
+const getPayoutDescription = (id: number) => `Agency withdrawal ${id}`;
+const PAYOUT_DESCRIPTION_PATTERN = /^Agency withdrawal (\d+)$/;
+
+const roundTo = (value: number, decimals: number): number =>
+  Math.round(value * 10 ** decimals) / 10 ** decimals;
+
+const getLimit = async (name: string): Promise<number> => {
+  const config = await getConfigByNameRepo(name);
+  const value = parseFloat(config?.value || "");
+  return isNaN(value) ? DEFAULT_LIMITS[name] : value;
+};
+
+const getUsdPerCredit = async (): Promise<number> => {
+  const config = await getConfigByNameRepo(ConfigApp.USD_TO_CREDIT);
+  const rate = parseFloat(config?.value || "");
+  if (isNaN(rate) || rate <= 0) {
+    throw new ErrorType(
+      "ConfigError",
+      "Configuration for USD_TO_CREDIT not found",
+      statusCode.INTERNAL_SERVER_ERROR
+    );
+  }
+  return rate;
+};
+
+const notifyAgency = async (
+  request: WithdrawalRequestAttributes,
+  content: string
+) => {
+  try {
+    await createNotificationRepo({
+      userId: [request.userId],
+      name: "Withdrawal",
+      content,
+      type: notificationType.WITHDRAWAL,
+    });
+  } catch (error: any) {
+    logger.error(
+      `Failed to notify withdrawal ${request.id}: ${error.message}`
+    );
+  }
+};
+
+const invalidStatus = (request: WithdrawalRequestAttributes, action: string) =>
+  new ErrorType(
+    "InvalidStatusError",
+    `A ${request.status} withdrawal cannot be ${action}`,
+    statusCode.CONFLICT
+  );
+
+export const getAgencyEarnings = async (
+  agencyId: number
+): Promise<AgencyEarnings> => getAgencyEarningsRepo(agencyId);
+
+/**
+ * Ask for a payout of earned credit. The agency row is locked while the
+ * balance and limits are checked, so two requests cannot both reserve the
+ * same credit. Nothing leaves the ledger until the payout is confirmed.
+ */
+export const requestWithdrawal = async (data: {
+  agencyId: number;
+  userId: number;
+  amount: number;
+  currency: string;
+  network: string | null;
+  address: string;
+}): Promise<WithdrawalRequestAttributes> => {
+  const amount = roundTo(data.amount, 2);
+  const [min, max, dailyMax] = [
+    await getLimit(ConfigApp.AGENCY_WITHDRAWAL_MIN),
+    await getLimit(ConfigApp.AGENCY_WITHDRAWAL_MAX),
+    await getLimit(ConfigApp.AGENCY_WITHDRAWAL_DAILY_MAX),
+  ];
+  if (amount < min || amount > max) {
+    throw new ErrorType(
+      "LimitExceededError",
+      `A withdrawal must be between ${min} and ${max} credit`,
+      statusCode.BAD_REQUEST
+    );
+  }
+  const usdAmount = roundTo(amount * (await getUsdPerCredit()), 2);
+
+  return await sequelizeSystem.transaction(async (t: Transaction) => {
+    const agency = await lockAgencyRepo(data.agencyId, t);
+    if (!agency) {
+      throw new ErrorType(
+        "NotFoundError",
+        "Agency not found",
+        statusCode.NOT_FOUND
+      );
+    }
+    const requestedToday = await getRequestedWithdrawalAmountRepo(
+      data.agencyId,
+      new Date(Date.now() - DAY_MS),
+      t
+    );
+    if (requestedToday + amount > dailyMax) {
+      throw new ErrorType(
+        "LimitExceededError",
+        `At most ${dailyMax} credit can be withdrawn in 24 hours, ${requestedToday} already requested`,
+        statusCode.BAD_REQUEST
+      );
+    }
+    const earnings = await getAgencyEarningsRepo(data.agencyId, t);
+    if (earnings.available < amount) {
+      throw new ErrorType(
+        "InsufficientFundsError",
+        `Only ${earnings.available} credit is available to withdraw`,
+        statusCode.BAD_REQUEST
+      );
+    }
+    const request = await createWithdrawalRequestRepo(
+      {
+        agencyId: data.agencyId,
+        userId: data.userId,
+        amount,
+        usdAmount,
+        currency: data.currency,
+        network: data.network,
+        address: data.address,
+      },
+      t
+    );
+    logger.info(
+      `Agency ${data.agencyId} requested withdrawal ${request.id} of ${amount} credit`
+    );
+    return request;
+  });
+};
+
+export const cancelWithdrawal = async (
+  id: number,
+  userId: number
+): Promise<WithdrawalRequestAttributes> =>
+  sequelizeSystem.transaction(async (t: Transaction) => {
+    const request = await getWithdrawalRequestByIdRepo(id, t);
+    if (!request) {
+      throw new ErrorType(
+        "NotFoundError",
+        "Withdrawal not found",
+        statusCode.NOT_FOUND
+      );
+    }
+    if (request.status !== WithdrawalStatus.PENDING) {
+      throw invalidStatus(request, "cancelled");
+    }
+    return await transitionWithdrawalRepo(
+      request,
+      WithdrawalStatus.CANCELLED,
+      { actorId: userId },
+      t
+    );
+  });
+
+export const rejectWithdrawal = async (
+  id: number,
+  adminId: number,
+  reason: string
+): Promise<WithdrawalRequestAttributes> => {
+  const request = await sequelizeSystem.transaction(async (t: Transaction) => {
+    const current = await getWithdrawalRequestByIdRepo(id, t);
+    if (!current) {
+      throw new ErrorType(
+        "NotFoundError",
+        "Withdrawal not found",
+        statusCode.NOT_FOUND
+      );
+    }
+    if (current.status !== WithdrawalStatus.PENDING) {
+      throw invalidStatus(current, "rejected");
+    }
+    return await transitionWithdrawalRepo(
+      current,
+      WithdrawalStatus.REJECTED,
+      {
+        actorId: adminId,
+        note: reason,
+        data: {
+          reviewedBy: adminId,
+          reviewedAt: new Date(),
+          rejectReason: reason,
+        },
+      },
+      t
+    );
+  });
+  await notifyAgency(
+    request,
+    `Your withdrawal of ${request.amount} credit was rejected: ${reason}`
+  );
+  return request;
+};
+
+// Close a payout that did not go through; only APPROVED requests are touched
+const failApprovedWithdrawal = async (
+  id: number,
+  adminId: number,
+  toStatus: WithdrawalStatus.FAILED | WithdrawalStatus.NEEDS_RECONCILIATION,
+  reason: string
+): Promise<void> => {
+  await sequelizeSystem.transaction(async (t: Transaction) => {
+    const current = await getWithdrawalRequestByIdRepo(id, t);
+    if (current?.status === WithdrawalStatus.APPROVED) {
+      await transitionWithdrawalRepo(
+        current,
+        toStatus,
+        {
+          actorId: adminId,
+          note: reason,
+          data: { failureReason: reason },
+        },
+        t
+      );
+    }
+  });
+};
+
+/**
+ * Approve a PENDING request and send its payout. The approval is committed
+ * before Oxapay is called, so a request can never be paid out twice. A
+ * payout Oxapay refuses marks it FAILED and frees the reserved credit; when
+ * the call itself fails (timeout, network, HTTP error) Oxapay may still have
+ * accepted it, so the request waits in NEEDS_RECONCILIATION with the credit
+ * reserved until the callback or an admin settles it.
+ */
+export const approveWithdrawal = async (
+  id: number,
+  adminId: number
+): Promise<WithdrawalRequestAttributes> => {
+  const approved = await sequelizeSystem.transaction(async (t: Transaction) => {
+    const current = await getWithdrawalRequestByIdRepo(id, t);
+    if (!current) {
+      throw new ErrorType(
+        "NotFoundError",
+        "Withdrawal not found",
+        statusCode.NOT_FOUND
+      );
+    }
+    if (current.status !== WithdrawalStatus.PENDING) {
+      throw invalidStatus(current, "approved");
+    }
+    return await transitionWithdrawalRepo(
+      current,
+      WithdrawalStatus.APPROVED,
+      {
+        actorId: adminId,
+        data: { reviewedBy: adminId, reviewedAt: new Date() },
+      },
+      t
+    );
+  });
+
+  let cryptoAmount: number;
+  let exchangeRate: number;
+  try {
+    const prices = await getPricesService();
+    exchangeRate = Number(prices?.[approved.currency]);
+    if (!exchangeRate || exchangeRate <= 0) {
+      throw new Error(`No USD price for ${approved.currency}`);
+    }
+    cryptoAmount = roundTo(approved.usdAmount / exchangeRate, CRYPTO_DECIMALS);
+  } catch (error: any) {
+    await failApprovedWithdrawal(id, adminId, WithdrawalStatus.FAILED, error.message);
+    throw new ErrorType(
+      "PayoutError",
+      `Payout could not be sent: ${error.message}`,
+      statusCode.SERVICE_UNAVAILABLE
+    );
+  }
+
+  let result: Awaited<ReturnType<typeof generatePayout>>;
+  try {
+    result = await generatePayout({
+      key: oxapayConfig.payoutKey,
+      callbackUrl: oxapayConfig.callbackUrl,
+      address: approved.address,
+      network: approved.network || undefined,
+      currency: approved.currency,
+      amount: cryptoAmount,
+      description: getPayoutDescription(approved.id),
+    });
+  } catch (error: any) {
+    const reason = `Payout request failed, check Oxapay before settling: ${error.message}`;
+    await failApprovedWithdrawal(
+      id,
+      adminId,
+      WithdrawalStatus.NEEDS_RECONCILIATION,
+      reason
+    );
+    logger.error(`Withdrawal ${id} needs reconciliation: ${error.message}`);
+    throw new ErrorType(
+      "PayoutUnknownError",
+      "Oxapay did not answer, the withdrawal needs to be reconciled",
+      statusCode.SERVICE_UNAVAILABLE
+    );
+  }
+  if (!result?.trackId) {
+    const reason = result?.message || "Payout was not accepted";
+    await failApprovedWithdrawal(id, adminId, WithdrawalStatus.FAILED, reason);
+    throw new ErrorType(
+      "PayoutError",
+      `Payout could not be sent: ${reason}`,
+      statusCode.SERVICE_UNAVAILABLE
+    );
+  }
+  const payout = { trackId: String(result.trackId), cryptoAmount, exchangeRate };
+
+  return await sequelizeSystem.transaction(async (t: Transaction) => {
+    const current = await getWithdrawalRequestByIdRepo(id, t);
+    if (!current || current.status !== WithdrawalStatus.APPROVED) {
+      // The callback already settled it
+      return current || approved;
+    }
+    return await transitionWithdrawalRepo(
+      current,
+      WithdrawalStatus.PROCESSING,
+      {
+        actorId: adminId,
+        note: `Oxapay track ${payout.trackId}`,
+        data: payout,
+      },
+      t
+    );
+  });
+};
+
+// Debit the ledger for a completed payout or free the credit of a failed one
+const settleWithdrawal = async (
+  request: WithdrawalRequest,
+  completed: boolean,
+  change: { actorId: number | null; note: string; trackId?: string | null },
+  t: Transaction
+): Promise<void> => {
+  const data: Partial<WithdrawalRequestAttributes> = change.trackId
+    ? { trackId: change.trackId }
+    : {};
+  if (completed) {
+    await postWithdrawalToLedgerRepo(request, t);
+    await transitionWithdrawalRepo(
+      request,
+      WithdrawalStatus.COMPLETED,
+      {
+        actorId: change.actorId,
+        note: change.note,
+        data: { ...data, completedAt: new Date() },
+      },
+      t
+    );
+  } else {
+    await transitionWithdrawalRepo(
+      request,
+      WithdrawalStatus.FAILED,
+      {
+        actorId: change.actorId,
+        note: change.note,
+        data: { ...data, failureReason: change.note },
+      },
+      t
+    );
+  }
+};
+
+const notifySettledWithdrawal = (request: WithdrawalRequestAttributes) =>
+  notifyAgency(
+    request,
+    request.status === WithdrawalStatus.COMPLETED
+      ? `Your withdrawal of ${request.amount} credit has been paid out`
+      : `Your withdrawal of ${request.amount} credit failed and the credit is available again`
+  );
+
+// The payout's request, by track id or else by the description sent with it
+const findPayoutRequest = async (
+  data: OxaPayCallback,
+  t: Transaction
+): Promise<WithdrawalRequest | null> => {
+  const request = await getWithdrawalRequestByTrackIdRepo(
+    String(data.track_id),
+    t
+  );
+  if (request) return request;
+  const match = PAYOUT_DESCRIPTION_PATTERN.exec(String(data.description || ""));
+  if (!match) return null;
+  const byDescription = await getWithdrawalRequestByIdRepo(Number(match[1]), t);
+  // A request that already has another payout is not this one
+  return byDescription && !byDescription.trackId ? byDescription : null;
+};
+
+/**
+ * Finalize a payout from its verified Oxapay callback. A confirmed payout
+ * debits the agency's payable account in the ledger; a failed one frees the
+ * reserved credit. A callback that arrives before the track id is saved
+ * finds the request by its payout description. Returns null when no
+ * request matches.
+ */
+export const settlePayoutCallback = async (
+  data: OxaPayCallback
+): Promise<WithdrawalRequestAttributes | null> => {
+  const status = String(data.status || "")
+    .trim()
+    .toLowerCase();
+  const completed = PAYOUT_COMPLETED_STATUSES.includes(status);
+  const failed = PAYOUT_FAILED_STATUSES.includes(status);
+
+  const result = await sequelizeSystem.transaction(async (t: Transaction) => {
+    const request = await findPayoutRequest(data, t);
+    if (!request) return null;
+    if ((!completed && !failed) || !SETTLEABLE_STATUSES.includes(request.status)) {
+      return { request, changed: false };
+    }
+    await settleWithdrawal(
+      request,
+      completed,
+      {
+        actorId: null,
+        note: `Oxapay reported ${data.status}`,
+        trackId: String(data.track_id),
+      },
+      t
+    );
+    return { request, changed: true };
+  });
+  if (!result) return null;
+
+  const { request, changed } = result;
+  if (changed) {
+    logger.info(`Withdrawal ${request.id} is ${request.status}`);
+    await notifySettledWithdrawal(request);
+  }
+  return request;
+};
+
+/**
+ * Settle a NEEDS_RECONCILIATION request by hand, once an admin has checked
+ * in Oxapay whether the payout was sent.
+ */
+export const reconcileWithdrawal = async (
+  id: number,
+  adminId: number,
+  completed: boolean,
+  note: string,
+  trackId: string | null
+): Promise<WithdrawalRequestAttributes> => {
+  const request = await sequelizeSystem.transaction(async (t: Transaction) => {
+    const current = await getWithdrawalRequestByIdRepo(id, t);
+    if (!current) {
+      throw new ErrorType(
+        "NotFoundError",
+        "Withdrawal not found",
+        statusCode.NOT_FOUND
+      );
+    }
+    if (current.status !== WithdrawalStatus.NEEDS_RECONCILIATION) {
+      throw invalidStatus(current, "reconciled");
+    }
+    await settleWithdrawal(current, completed, { actorId: adminId, note, trackId }, t);
+    return current;
+  });
+  logger.info(`Withdrawal ${request.id} reconciled as ${request.status}`);
+  await notifySettledWithdrawal(request);
+  return request;
+};
@@ -0,0 +1,347 @@
+import express, { NextFunction, Request, Response } from "express";
+import dotenv from "dotenv";
+import { Server } from "http";
+import { logger } from "../../config/logger.config";
+import statusCode from "../../constants/statusCode";
+import {
+  BotSimulatorFaultConfig,
+  BotSimulatorFaultMode,
+  BotSimulatorJob,
+  BotSimulatorJobType,
+  BotSimulatorOptions,
+  BotSimulatorResponseFormat,
+} from "../../interfaces/BotSimulator.interface";
+import {
+  getFallbackJob,
+  getLogsPage,
+  getSuccessCount,
+} from "./trafficGenerator";
+
+dotenv.config();
+
+const TIMEOUT_HANG_MS = 60 * 1000; // Longer than any client timeout
+const CONTROL_PREFIX = "/__simulator";
+
+const defaultFault: BotSimulatorFaultConfig = {
+  mode: "none",
+  rate: 0,
+  status: statusCode.INTERNAL_SERVER_ERROR,
+  endpoints: [],
+  latencyMS: 0,
+};
+
+export const getBotSimulatorOptionsFromEnv = (): BotSimulatorOptions => ({
+  token: process.env.JWT_API_PYTHON,
+  seed: process.env.BOT_SIMULATOR_SEED || "traffic-seo",
+  successRate: Number(process.env.BOT_SIMULATOR_SUCCESS_RATE || 0.9),
+  responseFormat:
+    (process.env.BOT_SIMULATOR_RESPONSE_FORMAT as BotSimulatorResponseFormat) ||
+    "json",
+  fault: {
+    ...defaultFault,
+    mode:
+      (process.env.BOT_SIMULATOR_FAULT_MODE as BotSimulatorFaultMode) || "none",
+    rate: Number(process.env.BOT_SIMULATOR_FAULT_RATE || 0),
+    latencyMS: Number(process.env.BOT_SIMULATOR_LATENCY_MS || 0),
+  },
+});
+
+const toDate = (value: any): Date | null => {
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+/**
+ * Build an Express app answering the same endpoints as the Python bot API.
+ * Jobs live in memory; traffic and logs are generated deterministically
+ * from the seed, so the same campaign always reports the same numbers.
+ */
+export const createBotApiSimulator = (
+  initialOptions: BotSimulatorOptions = getBotSimulatorOptionsFromEnv()
+) => {
+  const options: BotSimulatorOptions = {
+    ...initialOptions,
+    fault: { ...initialOptions.fault },
+  };
+  const jobs = new Map<string, BotSimulatorJob>();
+  let requestCount = 0;
+  let faultCount = 0;
+  let matchedCount = 0;
+
+  const jobKey = (type: BotSimulatorJobType, id: number) => `${type}:${id}`;
+
+  const saveJob = (
+    type: BotSimulatorJobType,
+    id: number,
+    payload: Record<string, any>
+  ): BotSimulatorJob => {
+    const timeStart = toDate(payload.timeStart) || new Date();
+    const timeEnd = toDate(payload.timeEnd) || timeStart;
+    const job: BotSimulatorJob = {
+      type,
+      id,
+      traffic: Number(payload.traffic || 0),
+      device: payload.device || "desktop",
+      timeStart,
+      timeEnd,
+      payload,
+    };
+    jobs.set(jobKey(type, id), job);
+    return job;
+  };
+
+  const findJob = (
+    type: BotSimulatorJobType,
+    id: number,
+    timeStart: Date,
+    timeEnd: Date
+  ): BotSimulatorJob =>
+    jobs.get(jobKey(type, id)) ||
+    getFallbackJob(options.seed, type, id, timeStart, timeEnd);
+
+  // Mimic the ASP.NET-style bot which wraps its JSON in <string>...</string>
+  const send = (res: Response, body: any, status: number = statusCode.OK) => {
+    if (options.responseFormat === "xml") {
+      const escaped = JSON.stringify(body)
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;");
+      res
+        .status(status)
+        .type("application/xml")
+        .send(
+          `<?xml version="1.0" encoding="utf-8"?><string xmlns="http://tempuri.org/">${escaped}</string>`
+        );
+      return;
+    }
+    res.status(status).json(body);
+  };
+
+  const badRequest = (res: Response, detail: string) =>
+    send(res, { detail }, statusCode.BAD_REQUEST);
+
+  const authenticate = (req: Request, res: Response, next: NextFunction) => {
+    if (
+      options.token &&
+      req.headers.authorization !== `Bearer ${options.token}`
+    ) {
+      send(res, { detail: "Invalid token" }, statusCode.UNAUTHORIZED);
+      return;
+    }
+    next();
+  };
+
+  // Deterministic failure injection: with rate r, exactly r of the matching requests fail
+  const injectFault = (req: Request, res: Response, next: NextFunction) => {
+    const { fault } = options;
+    const endpoint = req.path.replace(/^\/+/, "");
+    requestCount++;
+
+    const proceed = () => {
+      if (fault.mode === "none" || fault.rate <= 0) {
+        next();
+        return;
+      }
+      if (fault.endpoints?.length && !fault.endpoints.includes(endpoint)) {
+        next();
+        return;
+      }
+      if (fault.remaining !== undefined && fault.remaining <= 0) {
+        next();
+        return;
+      }
+      matchedCount++;
+      const shouldFail =
+        Math.floor(matchedCount * fault.rate) >
+        Math.floor((matchedCount - 1) * fault.rate);
+      if (!shouldFail) {
+        next();
+        return;
+      }
+
+      faultCount++;
+      if (fault.remaining !== undefined) {
+        fault.remaining--;
+      }
+      logger.warn(`Bot simulator injecting ${fault.mode} on ${endpoint}`);
+      if (fault.mode === "timeout") {
+        setTimeout(() => res.socket?.destroy(), TIMEOUT_HANG_MS);
+      } else if (fault.mode === "malformed") {
+        res.status(statusCode.OK).type("text/html").send("<html>Bad Gateway</html>");
+      } else {
+        send(res, { detail: "Simulated bot failure" }, fault.status);
+      }
+    };
+
+    if (fault.latencyMS > 0) {
+      setTimeout(proceed, fault.latencyMS);
+    } else {
+      proceed();
+    }
+  };
+
+  const app = express();
+  app.use(express.json({ limit: "10mb" }));
+
+  // Control endpoints used by tests and developers, never subject to faults
+  app.get(`${CONTROL_PREFIX}/state`, (_req: Request, res: Response) => {
+    res.status(statusCode.OK).json({
+      options: { ...options, token: undefined },
+      requestCount,
+      faultCount,
+      jobs: Array.from(jobs.values()),
+    });
+  });
+
+  app.put(`${CONTROL_PREFIX}/fault`, (req: Request, res: Response) => {
+    options.fault = { ...defaultFault, ...req.body };
+    matchedCount = 0;
+    res.status(statusCode.OK).json({ fault: options.fault });
+  });
+
+  app.post(`${CONTROL_PREFIX}/reset`, (_req: Request, res: Response) => {
+    jobs.clear();
+    options.fault = { ...initialOptions.fault };
+    requestCount = 0;
+    faultCount = 0;
+    matchedCount = 0;
+    res.status(statusCode.OK).json({ status: true });
+  });
+
+  app.use(authenticate, injectFault);
+
+  app.post("/keyword/set", (req: Request, res: Response) => {
+    const { keywordId } = req.body;
+    if (!keywordId) return badRequest(res, "keywordId is required");
+    saveJob("KEYWORD", Number(keywordId), req.body);
+    send(res, { status: true, keywordId });
+  });
+
+  // Pausing or cancelling a campaign moves timeEnd to today
+  app.put("/keyword/update", (req: Request, res: Response) => {
+    const { keywordId, timeEnd, traffic } = req.body;
+    if (!keywordId) return badRequest(res, "keywordId is required");
+    const existing = jobs.get(jobKey("KEYWORD", Number(keywordId)));
+    saveJob("KEYWORD", Number(keywordId), {
+      ...(existing?.payload || {}),
+      keywordId,
+      timeEnd: timeEnd || existing?.timeEnd,
+      traffic: traffic ?? existing?.traffic,
+    });
+    send(res, { status: true, keywordId });
+  });
+
+  app.post("/link/set-multiple", (req: Request, res: Response) => {
+    if (!Array.isArray(req.body)) {
+      return badRequest(res, "Expected an array of links");
+    }
+    for (const link of req.body) {
+      if (!link.linkId) return badRequest(res, "linkId is required");
+      saveJob("LINK", Number(link.linkId), link);
+    }
+    send(res, { status: true, count: req.body.length });
+  });
+
+  app.post("/direct-link/set", (req: Request, res: Response) => {
+    const { directLinkId } = req.body;
+    if (!directLinkId) return badRequest(res, "directLinkId is required");
+    saveJob("DIRECT_LINK", Number(directLinkId), req.body);
+    send(res, { status: true, directLinkId });
+  });
+
+  app.post("/google-maps-review/set", (req: Request, res: Response) => {
+    const { googleMapsReviewId } = req.body;
+    if (!googleMapsReviewId) {
+      return badRequest(res, "googleMapsReviewId is required");
+    }
+    saveJob("GOOGLE_MAPS_REVIEW", Number(googleMapsReviewId), {
+      ...req.body,
+      traffic: 1,
+    });
+    send(res, { status: true, googleMapsReviewId });
+  });
+
+  const successCountHandler =
+    (type: BotSimulatorJobType, idField: string) =>
+    (req: Request, res: Response) => {
+      const id = Number(req.body[idField]);
+      const timeStart = toDate(req.body.time_start);
+      const timeEnd = toDate(req.body.time_end);
+      if (!id || !timeStart || !timeEnd) {
+        return badRequest(res, `${idField}, time_start and time_end are required`);
+      }
+      const job = findJob(type, id, timeStart, timeEnd);
+      send(res, {
+        success_count: getSuccessCount(
+          options.seed,
+          options.successRate,
+          job,
+          timeStart,
+          timeEnd
+        ),
+      });
+    };
+
+  app.post(
+    "/keyword/success-count-duration",
+    successCountHandler("KEYWORD", "keywordId")
+  );
+  app.post(
+    "/direct-link/success-count-duration",
+    successCountHandler("DIRECT_LINK", "directLinkId")
+  );
+
+  const sendLogs = (
+    res: Response,
+    type: BotSimulatorJobType,
+    id: number,
+    page: number,
+    limit: number
+  ) => {
+    const now = new Date();
+    const job = findJob(type, id, now, now);
+    send(
+      res,
+      getLogsPage(options.seed, options.successRate, job, page || 1, limit || 10)
+    );
+  };
+
+  app.post("/log/search", (req: Request, res: Response) => {
+    const { keywordId, page, limit } = req.body;
+    if (!keywordId) return badRequest(res, "keywordId is required");
+    sendLogs(res, "KEYWORD", Number(keywordId), Number(page), Number(limit));
+  });
+
+  app.post("/log/search-by-type", (req: Request, res: Response) => {
+    const { type, keywordId, linkId, page, limit } = req.body;
+    if (type === "SEARCHLOG" && keywordId) {
+      return sendLogs(res, "KEYWORD", Number(keywordId), Number(page), Number(limit));
+    }
+    if (type === "DIRECTLOG" && linkId) {
+      return sendLogs(res, "DIRECT_LINK", Number(linkId), Number(page), Number(limit));
+    }
+    badRequest(res, "type must be SEARCHLOG with keywordId or DIRECTLOG with linkId");
+  });
+
+  app.use((_req: Request, res: Response) => {
+    send(res, { detail: "Not Found" }, statusCode.NOT_FOUND);
+  });
+
+  return app;
+};
+
+/**
+ * Start the simulator on the given port.
+ * Point URL_API_PYTHON at http://localhost:<port> to use it.
+ */
+export const startBotApiSimulator = (
+  port: number = Number(process.env.BOT_SIMULATOR_PORT || 8000),
+  options?: BotSimulatorOptions
+): Promise<Server> =>
+  new Promise((resolve) => {
+    const server = createBotApiSimulator(options).listen(port, () => {
+      logger.info(`Bot API simulator listening on http://localhost:${port}`);
+      resolve(server);
+    });
+  });
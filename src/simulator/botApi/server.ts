@@ -0,0 +1,11 @@
+import { startBotApiSimulator } from "./botApiSimulator";
+
+// Standalone entry point: npm run simulator:bot
+startBotApiSimulator().then((server) => {
+  const shutdown = () => {
+    server.closeAllConnections();
+    server.close(() => process.exit(0));
+  };
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+});
@@ -0,0 +1,176 @@
+import {
+  BotSimulatorJob,
+  BotSimulatorJobType,
+  BotSimulatorLogEntry,
+} from "../../interfaces/BotSimulator.interface";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_DAILY_TRAFFIC = 50; // Used for ids the simulator has never seen
+const DEVICES = ["desktop", "mobile", "tablet"];
+
+export const LOG_STATUS_SUCCESS = { statusId: 1, statusName: "SUCCESS" };
+export const LOG_STATUS_FAILED = { statusId: 2, statusName: "FAILED" };
+
+// FNV-1a: stable 32-bit hash so the same seed always yields the same traffic
+const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// Deterministic pseudo-random number in [0, 1) for the given key
+export const seededRandom = (...parts: (string | number)[]): number =>
+  hashString(parts.join(":")) / 0x100000000;
+
+export const startOfUTCDay = (date: Date): Date => {
+  const day = new Date(date);
+  day.setUTCHours(0, 0, 0, 0);
+  return day;
+};
+
+const countDays = (start: Date, end: Date): number =>
+  Math.max(
+    1,
+    Math.floor(
+      (startOfUTCDay(end).getTime() - startOfUTCDay(start).getTime()) / DAY_MS
+    ) + 1
+  );
+
+/**
+ * Job used when the simulator is asked about an id it never received,
+ * e.g. after a restart. Traffic is derived from the id so answers stay stable.
+ */
+export const getFallbackJob = (
+  seed: string,
+  type: BotSimulatorJobType,
+  id: number,
+  timeStart: Date,
+  timeEnd: Date
+): BotSimulatorJob => {
+  const dailyTraffic = Math.floor(
+    DEFAULT_DAILY_TRAFFIC * (0.5 + seededRandom(seed, type, id, "traffic"))
+  );
+  return {
+    type,
+    id,
+    traffic: dailyTraffic * countDays(timeStart, timeEnd),
+    device: DEVICES[Math.floor(seededRandom(seed, type, id, "device") * 3)],
+    timeStart,
+    timeEnd,
+    payload: {},
+  };
+};
+
+/**
+ * Number of runs the bot attempts for a job on a given UTC day: the traffic
+ * is spread evenly over the job duration with a deterministic +/-20% jitter.
+ */
+export const getDailyAttempts = (
+  seed: string,
+  job: BotSimulatorJob,
+  day: Date
+): number => {
+  const dayStart = startOfUTCDay(day);
+  if (
+    dayStart < startOfUTCDay(job.timeStart) ||
+    dayStart > startOfUTCDay(job.timeEnd) ||
+    job.traffic <= 0
+  ) {
+    return 0;
+  }
+  const average = job.traffic / countDays(job.timeStart, job.timeEnd);
+  const jitter =
+    0.8 + 0.4 * seededRandom(seed, job.type, job.id, dayStart.getTime());
+  return Math.round(average * jitter);
+};
+
+const isAttemptSuccessful = (
+  seed: string,
+  successRate: number,
+  job: BotSimulatorJob,
+  day: Date,
+  index: number
+): boolean =>
+  seededRandom(seed, job.type, job.id, day.getTime(), index, "status") <
+  successRate;
+
+/**
+ * Successful runs between two dates, never counting days after `now`
+ * and never exceeding the traffic that was ordered.
+ */
+export const getSuccessCount = (
+  seed: string,
+  successRate: number,
+  job: BotSimulatorJob,
+  timeStart: Date,
+  timeEnd: Date,
+  now: Date = new Date()
+): number => {
+  const last = startOfUTCDay(timeEnd < now ? timeEnd : now);
+  let total = 0;
+  for (
+    let day = startOfUTCDay(timeStart);
+    day <= last;
+    day = new Date(day.getTime() + DAY_MS)
+  ) {
+    const attempts = getDailyAttempts(seed, job, day);
+    for (let i = 0; i < attempts; i++) {
+      if (isAttemptSuccessful(seed, successRate, job, day, i)) {
+        total++;
+      }
+    }
+  }
+  return Math.min(total, job.traffic);
+};
+
+/**
+ * Run logs of a job, newest first, generated day by day so a page can be
+ * served without materialising the whole history.
+ */
+export const getLogsPage = (
+  seed: string,
+  successRate: number,
+  job: BotSimulatorJob,
+  page: number,
+  limit: number,
+  now: Date = new Date()
+): { data: BotSimulatorLogEntry[]; total: number } => {
+  const first = startOfUTCDay(job.timeStart);
+  const last = startOfUTCDay(job.timeEnd < now ? job.timeEnd : now);
+  const offset = (Math.max(page, 1) - 1) * limit;
+  const data: BotSimulatorLogEntry[] = [];
+  let total = 0;
+
+  for (
+    let day = last;
+    day >= first;
+    day = new Date(day.getTime() - DAY_MS)
+  ) {
+    const attempts = getDailyAttempts(seed, job, day);
+    // Runs are evenly spaced through the day; today only shows past runs
+    const spacing = DAY_MS / Math.max(attempts, 1);
+    for (let i = attempts - 1; i >= 0; i--) {
+      const timestamp = new Date(day.getTime() + Math.floor(i * spacing));
+      if (timestamp > now) {
+        continue;
+      }
+      if (total >= offset && data.length < limit) {
+        const status = isAttemptSuccessful(seed, successRate, job, day, i)
+          ? LOG_STATUS_SUCCESS
+          : LOG_STATUS_FAILED;
+        data.push({
+          device: job.device,
+          ...(job.type === "KEYWORD" ? { keywordId: job.id } : { linkId: job.id }),
+          timestamp: timestamp.toISOString(),
+          ...status,
+        });
+      }
+      total++;
+    }
+  }
+
+  return { data, total };
+};
@@ -1,13 +1,19 @@
 import { io as Client } from "socket.io-client";
 
 // Connect to your server
-const socket = Client(process.env.DEV_URL || "http://localhost:9999");
+// The server joins the user's room from the access token (MANUAL_TEST_TOKEN)
+const socket = Client(process.env.DEV_URL || "http://localhost:9999", {
+  auth: { token: process.env.MANUAL_TEST_TOKEN },
+});
 
 // Handle connection
 socket.on("connect", () => {
-  // Join a user's room (replace 123 with actual user ID)
-  const userId = 5;
-  socket.emit("join", userId);
+  console.log(`Connected as ${socket.id}`);
+});
+
+socket.on("connect_error", (error) => {
+  console.log(`Connection refused: ${error.message}`);
+  process.exit(1);
 });
 
 // Listen for notifications
@@ -0,0 +1,92 @@
+import assert from "assert";
+import axios from "axios";
+import { AddressInfo } from "net";
+import { DistributionType } from "../enums/distribution.enum";
+import { startBotApiSimulator } from "../simulator/botApi/botApiSimulator";
+
+// Drives the typed bot client against an in-process simulator, no Python service needed
+const run = async () => {
+  const server = await startBotApiSimulator(0, {
+    token: "simulator-token",
+    seed: "manual-test",
+    successRate: 0.9,
+    responseFormat: "xml",
+    fault: { mode: "none", rate: 0, status: 500, latencyMS: 0 },
+  });
+  const { port } = server.address() as AddressInfo;
+  const baseUrl = `http://localhost:${port}`;
+
+  // botAPI.config reads its environment when first imported
+  process.env.URL_API_PYTHON = baseUrl;
+  process.env.JWT_API_PYTHON = "simulator-token";
+  const { botApi, getBotApiCircuitState } = await import(
+    "../config/botAPI.config"
+  );
+
+  try {
+    const timeStart = new Date(Date.now() - 10 * 24 * 60 * 60 * 1000);
+    const timeEnd = new Date(Date.now() + 20 * 24 * 60 * 60 * 1000);
+    await botApi.setKeyword({
+      keywordId: 1,
+      title: "Manual test",
+      keyword: "traffic seo",
+      distribution: DistributionType.DAY,
+      traffic: 3000,
+      device: "mobile",
+      domain: "example.com",
+      timeOnSite: 1,
+      timeStart,
+      timeEnd,
+      searchTool: "google",
+    });
+
+    const range = {
+      keywordId: 1,
+      time_start: timeStart.toISOString(),
+      time_end: timeEnd.toISOString(),
+    };
+    const first = await botApi.getKeywordSuccessCount(range);
+    const second = await botApi.getKeywordSuccessCount(range);
+    console.log("Success count:", first.success_count);
+    assert.ok(first.success_count > 0 && first.success_count < 3000);
+    assert.strictEqual(first.success_count, second.success_count);
+
+    const logs = await botApi.searchLogs({ keywordId: 1, page: 1, limit: 5 });
+    console.log("Latest logs:", logs.data);
+    assert.strictEqual(logs.data.length, 5);
+
+    // Pausing today stops the traffic from growing
+    await botApi.updateKeyword({
+      keywordId: 1,
+      timeEnd: new Date().toISOString(),
+    });
+
+    // Every call fails: idempotent calls are retried, then the circuit opens
+    await axios.put(`${baseUrl}/__simulator/fault`, {
+      mode: "error",
+      rate: 1,
+      status: 503,
+    });
+    for (let i = 0; i < 5; i++) {
+      await botApi.getKeywordSuccessCount(range).catch((error: any) => {
+        console.log(`Call ${i + 1} failed: ${error.name} - ${error.message}`);
+      });
+    }
+    console.log("Circuit state:", getBotApiCircuitState());
+
+    const { data: state } = await axios.get(`${baseUrl}/__simulator/state`);
+    console.log(
+      `Simulator served ${state.requestCount} requests, injected ${state.faultCount} faults`
+    );
+  } finally {
+    server.closeAllConnections();
+    server.close();
+  }
+};
+
+run()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
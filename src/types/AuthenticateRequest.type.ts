@@ -1,6 +1,12 @@
 import { Request } from "express";
 import { JwtPayload } from "./Jwt.type";
+import { AgencyAttributes } from "../interfaces/Agency.interface";
+import { UserAttributes } from "../interfaces/User.interface";
+import { ApiKeyContext } from "../interfaces/ApiKey.interface";
 
 export interface AuthenticatedRequest extends Request {
   data?: JwtPayload;
+  agency?: AgencyAttributes; // Set by agencyScope
+  client?: UserAttributes; // Set by agencyScope for routes with :clientId
+  apiKey?: ApiKeyContext; // Set by authenticateToken for requests made with an API key
 }
\ No newline at end of file
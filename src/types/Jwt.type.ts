@@ -3,6 +3,7 @@ import { UserAttributes } from "../interfaces/User.interface";
 
 // Define the JwtPayload to match the actual token payload
 export interface JwtPayload extends UserAttributes{
+  sid?: number; // Login session, absent from tokens issued before sessions
   iat?: number;
   exp?: number;
 }
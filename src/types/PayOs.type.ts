@@ -16,3 +16,11 @@ export type PayOsType = {
   code: string;
   desc: string;
 };
+
+export type PayOsWebhookBody = {
+  code: string;
+  desc: string;
+  success: boolean;
+  data: PayOsType;
+  signature: string;
+};
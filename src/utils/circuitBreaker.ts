@@ -0,0 +1,72 @@
+export enum CircuitState {
+  CLOSED = 0,
+  HALF_OPEN = 1,
+  OPEN = 2,
+}
+
+/**
+ * Minimal circuit breaker: opens after `failureThreshold` consecutive
+ * failures, fails fast while open, and lets one trial call through once
+ * `resetTimeoutMS` has elapsed.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = CircuitState.CLOSED;
+  private consecutiveFailures: number = 0;
+  private openedAt: number = 0;
+  private trialInFlight: boolean = false;
+
+  constructor(
+    private readonly failureThreshold: number,
+    private readonly resetTimeoutMS: number,
+    private readonly onStateChange?: (state: CircuitState) => void
+  ) {}
+
+  // Returns false when the call must be rejected without reaching the remote
+  canRequest(): boolean {
+    if (this.state === CircuitState.CLOSED) {
+      return true;
+    }
+    if (
+      this.state === CircuitState.OPEN &&
+      Date.now() - this.openedAt >= this.resetTimeoutMS
+    ) {
+      this.setState(CircuitState.HALF_OPEN);
+    }
+    if (this.state === CircuitState.HALF_OPEN && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return true;
+    }
+    return false;
+  }
+
+  recordSuccess(): void {
+    this.consecutiveFailures = 0;
+    this.trialInFlight = false;
+    if (this.state !== CircuitState.CLOSED) {
+      this.setState(CircuitState.CLOSED);
+    }
+  }
+
+  recordFailure(): void {
+    this.consecutiveFailures++;
+    this.trialInFlight = false;
+    if (
+      this.state === CircuitState.HALF_OPEN ||
+      this.consecutiveFailures >= this.failureThreshold
+    ) {
+      this.openedAt = Date.now();
+      this.setState(CircuitState.OPEN);
+    }
+  }
+
+  getState(): CircuitState {
+    return this.state;
+  }
+
+  private setState(state: CircuitState): void {
+    this.state = state;
+    if (this.onStateChange) {
+      this.onStateChange(state);
+    }
+  }
+}
@@ -0,0 +1,143 @@
+import axios, { AxiosRequestConfig, AxiosResponse } from "axios";
+import dns from "dns";
+import http from "http";
+import https from "https";
+import net from "net";
+import { URL } from "url";
+import statusCode from "../constants/statusCode";
+import { ErrorType } from "../types/Error.type";
+
+// Loopback, private, link-local (cloud metadata), CGNAT, multicast and
+// reserved ranges. IPv4-mapped IPv6 addresses are checked against the IPv4 rules.
+const blockedAddresses = new net.BlockList();
+[
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.0.2.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["198.51.100.0", 24],
+  ["203.0.113.0", 24],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+].forEach(([address, prefix]) =>
+  blockedAddresses.addSubnet(address as string, prefix as number, "ipv4")
+);
+[
+  ["::", 128],
+  ["::1", 128],
+  ["64:ff9b::", 96], // NAT64
+  ["2002::", 16], // 6to4
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+].forEach(([address, prefix]) =>
+  blockedAddresses.addSubnet(address as string, prefix as number, "ipv6")
+);
+
+export const isPublicAddress = (address: string): boolean => {
+  const family = net.isIP(address);
+  if (!family) return false;
+  return !blockedAddresses.check(address, family === 6 ? "ipv6" : "ipv4");
+};
+
+const blockedAddressError = (hostname: string) =>
+  Object.assign(
+    new Error(`${hostname} resolves to a private or internal address`),
+    { code: "EADDRBLOCKED" }
+  );
+
+/**
+ * dns.lookup that refuses private answers. It runs when the socket
+ * connects, so a hostname re-pointed after the URL was checked (DNS
+ * rebinding) still cannot reach the internal network.
+ */
+const publicOnlyLookup = ((
+  hostname: string,
+  options: dns.LookupOptions,
+  callback: (...args: any[]) => void
+) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error);
+    if (!addresses.length || addresses.some((a) => !isPublicAddress(a.address))) {
+      return callback(blockedAddressError(hostname));
+    }
+    if (options?.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+}) as net.LookupFunction;
+
+const httpAgent = new http.Agent({ lookup: publicOnlyLookup });
+const httpsAgent = new https.Agent({ lookup: publicOnlyLookup });
+
+/**
+ * Check that a user supplied URL is http(s) and that its host resolves only
+ * to public addresses. Returns the normalized URL.
+ */
+export const assertPublicUrl = async (
+  value: unknown,
+  field: string = "url"
+): Promise<string> => {
+  let url: URL | null = null;
+  try {
+    url = typeof value === "string" ? new URL(value.trim()) : null;
+  } catch {
+    url = null;
+  }
+  if (!url || !["https:", "http:"].includes(url.protocol)) {
+    throw new ErrorType(
+      "ValidationError",
+      `${field} must be an http(s) URL`,
+      statusCode.BAD_REQUEST
+    );
+  }
+  const hostname = url.hostname.replace(/^\[|\]$/g, "");
+  let addresses: string[] = [];
+  if (net.isIP(hostname)) {
+    addresses = [hostname];
+  } else {
+    try {
+      addresses = (await dns.promises.lookup(hostname, { all: true })).map(
+        (entry) => entry.address
+      );
+    } catch {
+      throw new ErrorType(
+        "ValidationError",
+        `${field} host cannot be resolved`,
+        statusCode.BAD_REQUEST
+      );
+    }
+  }
+  if (!addresses.length || !addresses.every(isPublicAddress)) {
+    throw new ErrorType(
+      "ValidationError",
+      `${field} must point to a public address`,
+      statusCode.BAD_REQUEST
+    );
+  }
+  return url.toString();
+};
+
+/**
+ * POST to a user supplied URL. The URL is checked again, the connection
+ * only goes to public addresses and redirects and proxies are not followed.
+ */
+export const postToPublicUrl = async (
+  url: string,
+  data: unknown,
+  config: AxiosRequestConfig = {}
+): Promise<AxiosResponse> => {
+  await assertPublicUrl(url);
+  return axios.post(url, data, {
+    ...config,
+    httpAgent,
+    httpsAgent,
+    proxy: false,
+    maxRedirects: 0,
+  });
+};
@@ -12,6 +12,7 @@ import { ttlInSecondsGlobal } from "../constants/redis.constant";
 import { LinkAttributes } from "../interfaces/Link.interface";
 import { KeywordAttributes } from "../interfaces/Keyword.interface";
 import { CampaignMetrics } from "../interfaces/CampaignMetrics.interface";
+import { CampaignRecurrence } from "../enums/campaign.enum";
 
 dotenv.config();
 /**
@@ -110,23 +111,6 @@ export const removeSensitivity = (payload: any): any => {
   return payload;
 };
 
-export function parseChargeMoneyString(description: string) {
-  // Regex to match the pattern: Charge money - voucher{voucherId} - userId{userId} - createdBy{createdBy}
-  const regex = /v(\d+)u(\d+)c(\d+)p(\d+)/;
-  const match = description.match(regex);
-
-  if (!match) {
-    throw new Error("Invalid description format");
-  }
-
-  return {
-    voucherId: parseInt(match[1], 10),
-    userId: parseInt(match[2], 10),
-    createdBy: parseInt(match[3], 10),
-    packageId: parseInt(match[4], 10),
-  };
-}
-
 export const calculateCampaignMetrics = (
   links: LinkAttributes[] = [],
   keywords: KeywordAttributes[] = []
@@ -183,6 +167,27 @@ export const getDateRange = (start: string, end: string): string[] => {
   return dates;
 };
 
+// Shift a date by one recurrence interval; month ends stay month ends (Jan 31 -> Feb 28 -> Mar 31)
+export const addRecurrenceInterval = (
+  date: Date | string,
+  recurrence: CampaignRecurrence
+): Date => {
+  const d = new Date(date);
+  if (recurrence === CampaignRecurrence.WEEKLY) {
+    d.setUTCDate(d.getUTCDate() + 7);
+    return d;
+  }
+  const lastDayOf = (year: number, month: number) =>
+    new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  const day = d.getUTCDate();
+  const isMonthEnd = day === lastDayOf(d.getUTCFullYear(), d.getUTCMonth());
+  d.setUTCDate(1);
+  d.setUTCMonth(d.getUTCMonth() + 1);
+  const lastDay = lastDayOf(d.getUTCFullYear(), d.getUTCMonth());
+  d.setUTCDate(isMonthEnd ? lastDay : Math.min(day, lastDay));
+  return d;
+};
+
 export const convertImageToBase64 = async (image: string) => {
   const imageBuffer = Buffer.from(image, "base64");
   const base64Image = imageBuffer.toString("base64");
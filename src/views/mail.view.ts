@@ -2,7 +2,8 @@ export const generateEmailTemplate = (
   subject: string,
   body: string,
   recipientName?: string,
-  link?: string
+  link?: string,
+  linkLabel: string = "Verify Email"
 ): string => {
   return `
         <!DOCTYPE html>
@@ -73,7 +74,7 @@ export const generateEmailTemplate = (
               <p>${body}</p>
               ${
                 link != ""
-                  ? `<a href="${link}" class="button">Verify Email</a>`
+                  ? `<a href="${link}" class="button">${linkLabel}</a>`
                   : ""
               }
             </div>
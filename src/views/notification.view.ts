@@ -0,0 +1,80 @@
+import { notificationType } from "../enums/notification.enum";
+import { NotificationAttributes } from "../interfaces/Notification.interface";
+import { RenderedNotification } from "../interfaces/NotificationDelivery.interface";
+import { notificationConfig } from "../config/notification.config";
+
+interface NotificationTemplate {
+  subject: string;
+  text: string;
+}
+
+// {{name}} and {{content}} are the notification's own fields
+const DEFAULT_TEMPLATE: NotificationTemplate = {
+  subject: "{{name}}",
+  text: "{{content}}",
+};
+
+const NOTIFICATION_TEMPLATES: Partial<Record<string, NotificationTemplate>> = {
+  [notificationType.CREATE_CAMPAIGN]: {
+    subject: "Campaign created: {{name}}",
+    text: "{{content}}",
+  },
+  [notificationType.UPDATE_CAMPAIGN]: {
+    subject: "Campaign updated: {{name}}",
+    text: "{{content}}",
+  },
+  [notificationType.RENEW_CAMPAIGN]: {
+    subject: "Recurring campaign: {{name}}",
+    text: "{{content}}",
+  },
+  [notificationType.RUNNING_CAMPAIGN]: {
+    subject: "Campaign running: {{name}}",
+    text: "{{content}}",
+  },
+  [notificationType.CHARGE_MONEY]: {
+    subject: "Wallet credited: {{name}}",
+    text: "{{content}}",
+  },
+  [notificationType.REFUND_MONEY]: {
+    subject: "Refund issued: {{name}}",
+    text: "{{content}}",
+  },
+  [notificationType.GIFT]: {
+    subject: "A gift for you: {{name}}",
+    text: "{{content}}",
+  },
+  [notificationType.WITHDRAWAL]: {
+    subject: "Withdrawal update: {{name}}",
+    text: "{{content}}",
+  },
+};
+
+const fillTemplate = (
+  template: string,
+  values: Record<string, string>
+): string =>
+  template.replace(/\{\{(\w+)\}\}/g, (_, key: string) => values[key] ?? "");
+
+export const renderNotification = (
+  notification: NotificationAttributes
+): RenderedNotification => {
+  const template = NOTIFICATION_TEMPLATES[notification.type] || DEFAULT_TEMPLATE;
+  const values = { name: notification.name, content: notification.content };
+  return {
+    subject: fillTemplate(template.subject, values),
+    text: fillTemplate(template.text, values),
+    link: notificationConfig.notificationsUrl,
+  };
+};
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+
+// Body of a Telegram message sent with parse_mode HTML
+export const generateTelegramMessage = (
+  message: RenderedNotification
+): string =>
+  `<b>${escapeHtml(message.subject)}</b>\n${escapeHtml(message.text)}\n\n<a href="${escapeHtml(message.link)}">Open notifications</a>`;